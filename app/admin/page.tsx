@@ -4,6 +4,7 @@
  * Admin Dashboard Page
  * Route: /admin
  * Admin-only route for managing users (role, verification status)
+ * and listing settings (auto-expiry period, exchange rates, storage cleanup)
  * 
  * SECURITY: Protected route - requires authentication AND admin role
  * Frontend guard only - backend/RLS must also enforce admin checks
@@ -18,6 +19,36 @@ import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import { isValidUrl } from "@/lib/utils";
 import toast from "react-hot-toast";
+import { fetchListingExpiryDays, updateListingExpiryDays } from "@/lib/listings";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { BASE_CURRENCY, deleteCurrencyRate, formatMoney, isCurrencyCode, upsertCurrencyRate } from "@/lib/currency";
+import {
+  DEFAULT_ORPHAN_MIN_AGE_HOURS,
+  OrphanedObject,
+  findOrphanedStorageObjects,
+  formatBytes,
+  removeOrphanedStorageObjects,
+  summarizeOrphans,
+} from "@/lib/storageCleanup";
+import {
+  DUPLICATE_REASON_LABELS,
+  DuplicateFlag,
+  DuplicateFlagListing,
+  dismissDuplicateFlag,
+  fetchOpenDuplicateFlags,
+  mergeDuplicateListings,
+} from "@/lib/duplicates";
+import {
+  AMENITY_CATEGORIES,
+  AMENITY_CATEGORY_LABELS,
+  Amenity,
+  AmenityCategory,
+  MAX_AMENITY_LABEL_LENGTH,
+  createAmenity,
+  deleteAmenity,
+  fetchAmenities,
+  updateAmenity,
+} from "@/lib/amenities";
 
 interface UserProfile {
   id: string;
@@ -39,6 +70,24 @@ export default function AdminPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [editingUser, setEditingUser] = useState<string | null>(null);
   const [localChanges, setLocalChanges] = useState<Record<string, { role: string; is_verified: boolean }>>({});
+  const [expiryDays, setExpiryDays] = useState("");
+  const [isSavingExpiry, setIsSavingExpiry] = useState(false);
+  const { rates, refreshRates } = useCurrency();
+  const [rateEdits, setRateEdits] = useState<Record<string, string>>({});
+  const [newCurrency, setNewCurrency] = useState("");
+  const [newRate, setNewRate] = useState("");
+  const [savingCurrency, setSavingCurrency] = useState<string | null>(null);
+  const [orphanMinAgeHours, setOrphanMinAgeHours] = useState(DEFAULT_ORPHAN_MIN_AGE_HOURS);
+  const [orphans, setOrphans] = useState<OrphanedObject[] | null>(null);
+  const [isScanningStorage, setIsScanningStorage] = useState(false);
+  const [isCleaningStorage, setIsCleaningStorage] = useState(false);
+  const [duplicateFlags, setDuplicateFlags] = useState<DuplicateFlag[]>([]);
+  const [resolvingFlagId, setResolvingFlagId] = useState<number | null>(null);
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+  const [amenityEdits, setAmenityEdits] = useState<Record<string, { label: string; category: AmenityCategory; sort_order: string }>>({});
+  const [newAmenityLabel, setNewAmenityLabel] = useState("");
+  const [newAmenityCategory, setNewAmenityCategory] = useState<AmenityCategory>('other');
+  const [savingAmenity, setSavingAmenity] = useState<string | null>(null);
 
   useEffect(() => {
     // Wait for initial session check to complete
@@ -70,10 +119,337 @@ export default function AdminPage() {
     // User is authenticated and is admin - allow access and load users
     if (isAuthenticated && user.role === "admin") {
       loadUsers();
+      loadListingSettings();
+      loadDuplicateFlags();
+      loadAmenities();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isAuthenticated, isLoading, loadingSession, user, router, hasRedirected]);
 
+  // Load listing settings (auto-expiry)
+  const loadListingSettings = async () => {
+    const { expiryDays: days, error: settingsError } = await fetchListingExpiryDays();
+    if (settingsError) {
+      console.error("[Admin] Error loading listing settings:", settingsError);
+      return;
+    }
+    setExpiryDays(days != null ? days.toString() : "");
+  };
+
+  const handleSaveExpiryDays = async () => {
+    const days = Number(expiryDays);
+    if (!Number.isInteger(days) || days < 1 || days > 3650) {
+      toast.error("Expiry must be between 1 and 3650 days");
+      return;
+    }
+
+    setIsSavingExpiry(true);
+    try {
+      const { error: updateError } = await updateListingExpiryDays(days);
+      if (updateError) {
+        console.error("[Admin] Error updating listing expiry:", updateError);
+        toast.error(updateError.message || "Failed to update listing expiry");
+        return;
+      }
+      toast.success("Listing expiry updated");
+    } finally {
+      setIsSavingExpiry(false);
+    }
+  };
+
+  // Save an exchange rate (existing row edit or new currency)
+  const handleSaveRate = async (currency: string, rateValue: string) => {
+    if (!user) return;
+
+    const code = currency.trim().toUpperCase();
+    const rate = Number(rateValue);
+    if (!isCurrencyCode(code)) {
+      toast.error("Currency must be a 3-letter ISO code (e.g. LBP)");
+      return;
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      toast.error("Rate must be a positive number");
+      return;
+    }
+
+    setSavingCurrency(code);
+    try {
+      const { error: rateError } = await upsertCurrencyRate(code, rate, user.id);
+      if (rateError) {
+        console.error("[Admin] Error saving exchange rate:", rateError);
+        toast.error(rateError.message || "Failed to save exchange rate");
+        return;
+      }
+      toast.success(`${code} rate saved`);
+      setRateEdits((prev) => {
+        const next = { ...prev };
+        delete next[code];
+        return next;
+      });
+      if (code === newCurrency.trim().toUpperCase()) {
+        setNewCurrency("");
+        setNewRate("");
+      }
+      await refreshRates();
+    } finally {
+      setSavingCurrency(null);
+    }
+  };
+
+  const handleDeleteRate = async (currency: string) => {
+    const confirmed = window.confirm(`Remove ${currency}? Listings priced in ${currency} must be changed first.`);
+    if (!confirmed) return;
+
+    setSavingCurrency(currency);
+    try {
+      const { error: deleteError } = await deleteCurrencyRate(currency);
+      if (deleteError) {
+        console.error("[Admin] Error deleting currency:", deleteError);
+        // 23503 = foreign key violation (listings still use it)
+        toast.error(deleteError.code === '23503'
+          ? `${currency} is still used by listings`
+          : deleteError.message || "Failed to remove currency");
+        return;
+      }
+      toast.success(`${currency} removed`);
+      await refreshRates();
+    } finally {
+      setSavingCurrency(null);
+    }
+  };
+
+  // Amenities taxonomy (including retired ones)
+  const loadAmenities = async () => {
+    const { amenities: rows, error: amenitiesError } = await fetchAmenities(true);
+    if (amenitiesError) {
+      console.error("[Admin] Error loading amenities:", amenitiesError);
+      return;
+    }
+    setAmenities(rows);
+  };
+
+  const clearAmenityEdit = (slug: string) => {
+    setAmenityEdits((prev) => {
+      const next = { ...prev };
+      delete next[slug];
+      return next;
+    });
+  };
+
+  const handleSaveAmenity = async (amenity: Amenity) => {
+    const edit = amenityEdits[amenity.slug];
+    if (!edit) return;
+
+    const label = edit.label.trim();
+    const sortOrder = Number(edit.sort_order);
+    if (!label || label.length > MAX_AMENITY_LABEL_LENGTH) {
+      toast.error(`Name must be 1-${MAX_AMENITY_LABEL_LENGTH} characters`);
+      return;
+    }
+    if (!Number.isInteger(sortOrder)) {
+      toast.error("Order must be a whole number");
+      return;
+    }
+
+    setSavingAmenity(amenity.slug);
+    try {
+      const { error: updateError } = await updateAmenity(amenity.slug, {
+        label,
+        category: edit.category,
+        sort_order: sortOrder,
+      });
+      if (updateError) {
+        console.error("[Admin] Error updating amenity:", updateError);
+        toast.error(updateError.message || "Failed to update amenity");
+        return;
+      }
+      toast.success(`${label} saved`);
+      clearAmenityEdit(amenity.slug);
+      await loadAmenities();
+    } finally {
+      setSavingAmenity(null);
+    }
+  };
+
+  // Retired amenities stay on listings but are no longer offered
+  const handleToggleAmenityActive = async (amenity: Amenity) => {
+    setSavingAmenity(amenity.slug);
+    try {
+      const { error: updateError } = await updateAmenity(amenity.slug, { is_active: !amenity.is_active });
+      if (updateError) {
+        console.error("[Admin] Error updating amenity:", updateError);
+        toast.error(updateError.message || "Failed to update amenity");
+        return;
+      }
+      setAmenities((prev) => prev.map((a) => (a.slug === amenity.slug ? { ...a, is_active: !amenity.is_active } : a)));
+    } finally {
+      setSavingAmenity(null);
+    }
+  };
+
+  const handleDeleteAmenity = async (amenity: Amenity) => {
+    const confirmed = window.confirm(
+      `Delete "${amenity.label}"? It will be removed from every listing. Retire it instead to keep it on existing listings.`
+    );
+    if (!confirmed) return;
+
+    setSavingAmenity(amenity.slug);
+    try {
+      const { error: deleteError } = await deleteAmenity(amenity.slug);
+      if (deleteError) {
+        console.error("[Admin] Error deleting amenity:", deleteError);
+        toast.error(deleteError.message || "Failed to delete amenity");
+        return;
+      }
+      toast.success(`${amenity.label} deleted`);
+      clearAmenityEdit(amenity.slug);
+      setAmenities((prev) => prev.filter((a) => a.slug !== amenity.slug));
+    } finally {
+      setSavingAmenity(null);
+    }
+  };
+
+  const handleAddAmenity = async () => {
+    const label = newAmenityLabel.trim();
+    if (!label || label.length > MAX_AMENITY_LABEL_LENGTH) {
+      toast.error(`Name must be 1-${MAX_AMENITY_LABEL_LENGTH} characters`);
+      return;
+    }
+
+    // New amenities go last in their category
+    const lastOrder = Math.max(0, ...amenities
+      .filter((amenity) => amenity.category === newAmenityCategory)
+      .map((amenity) => amenity.sort_order));
+
+    setSavingAmenity("new");
+    try {
+      const { error: createError } = await createAmenity(label, newAmenityCategory, lastOrder + 10);
+      if (createError) {
+        console.error("[Admin] Error adding amenity:", createError);
+        // 23505 = unique violation (same slug)
+        toast.error(createError.code === '23505'
+          ? "An amenity with that name already exists"
+          : createError.message || "Failed to add amenity");
+        return;
+      }
+      toast.success(`${label} added`);
+      setNewAmenityLabel("");
+      await loadAmenities();
+    } finally {
+      setSavingAmenity(null);
+    }
+  };
+
+  // Dry run: list unreferenced media files without removing anything
+  const handleScanStorage = async () => {
+    setIsScanningStorage(true);
+    try {
+      const { objects, error: scanError } = await findOrphanedStorageObjects(orphanMinAgeHours);
+      if (scanError) {
+        console.error("[Admin] Error scanning storage:", scanError);
+        toast.error(scanError.message || "Failed to scan storage");
+        return;
+      }
+      setOrphans(objects);
+    } finally {
+      setIsScanningStorage(false);
+    }
+  };
+
+  const handleCleanStorage = async () => {
+    if (!orphans || orphans.length === 0) return;
+
+    const confirmed = window.confirm(`Permanently delete ${orphans.length} orphaned file(s)? This cannot be undone.`);
+    if (!confirmed) return;
+
+    setIsCleaningStorage(true);
+    try {
+      const { removed, errors } = await removeOrphanedStorageObjects(orphans);
+      if (errors.length > 0) {
+        console.error("[Admin] Error removing orphaned files:", errors);
+        toast.error(`Removed ${removed} file(s), ${errors.length} batch(es) failed`);
+      } else {
+        toast.success(`Removed ${removed} orphaned file(s)`);
+      }
+      // Re-scan so the report reflects what is left
+      await handleScanStorage();
+    } finally {
+      setIsCleaningStorage(false);
+    }
+  };
+
+  // Possible duplicate listings awaiting review
+  const loadDuplicateFlags = async () => {
+    const { flags, error: flagsError } = await fetchOpenDuplicateFlags();
+    if (flagsError) {
+      console.error("[Admin] Error loading duplicate flags:", flagsError);
+      return;
+    }
+    setDuplicateFlags(flags);
+  };
+
+  const handleDismissDuplicate = async (flag: DuplicateFlag) => {
+    if (!user) return;
+
+    setResolvingFlagId(flag.id);
+    try {
+      const { error: dismissError } = await dismissDuplicateFlag(flag.id, user.id);
+      if (dismissError) {
+        console.error("[Admin] Error dismissing duplicate flag:", dismissError);
+        toast.error(dismissError.message || "Failed to dismiss");
+        return;
+      }
+      setDuplicateFlags((prev) => prev.filter((f) => f.id !== flag.id));
+    } finally {
+      setResolvingFlagId(null);
+    }
+  };
+
+  const handleMergeDuplicate = async (flag: DuplicateFlag, keep: DuplicateFlagListing, remove: DuplicateFlagListing) => {
+    const confirmed = window.confirm(
+      `Merge "${remove.title}" into "${keep.title}"? Its saves and any missing details move to the kept listing, then it is deleted. This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setResolvingFlagId(flag.id);
+    try {
+      const { error: mergeError } = await mergeDuplicateListings(keep.id, remove.id);
+      if (mergeError) {
+        console.error("[Admin] Error merging listings:", mergeError);
+        toast.error(mergeError.message || "Failed to merge listings");
+        return;
+      }
+      toast.success("Listings merged");
+      // Other flags involving the deleted listing are gone too
+      await loadDuplicateFlags();
+    } finally {
+      setResolvingFlagId(null);
+    }
+  };
+
+  const handleRemoveDuplicate = async (flag: DuplicateFlag, listing: DuplicateFlagListing) => {
+    const confirmed = window.confirm(`Delete "${listing.title}"? This cannot be undone.`);
+    if (!confirmed) return;
+
+    setResolvingFlagId(flag.id);
+    try {
+      const { error: deleteError } = await supabase
+        .from('listings')
+        .delete()
+        .eq('id', listing.id);
+
+      if (deleteError) {
+        console.error("[Admin] Error deleting duplicate listing:", deleteError);
+        toast.error(deleteError.message || "Failed to delete listing");
+        return;
+      }
+      toast.success("Listing deleted");
+      await loadDuplicateFlags();
+    } finally {
+      setResolvingFlagId(null);
+    }
+  };
+
   // Load users from profiles table
   const loadUsers = async () => {
     setIsLoadingUsers(true);
@@ -794,6 +1170,378 @@ export default function AdminPage() {
             </div>
           )}
 
+          {/* Listing Settings */}
+          <div className="mt-12 glass-dark rounded-2xl p-6">
+            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+              Listing Settings
+            </h2>
+            <label htmlFor="expiry_days" className="block text-sm font-semibold text-gray-700 mb-2">
+              Active listings expire after (days)
+            </label>
+            <div className="flex gap-3 items-center">
+              <input
+                type="number"
+                id="expiry_days"
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(e.target.value)}
+                min="1"
+                max="3650"
+                step="1"
+                className="w-32 px-4 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+              />
+              <button
+                onClick={handleSaveExpiryDays}
+                disabled={isSavingExpiry || !expiryDays}
+                className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSavingExpiry ? "Saving..." : "Save"}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Counted from when a listing was last set to Active. Owners can re-activate expired listings.
+            </p>
+          </div>
+
+          {/* Exchange Rates */}
+          <div className="mt-6 glass-dark rounded-2xl p-6">
+            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-2">
+              Exchange Rates
+            </h2>
+            <p className="text-xs text-gray-500 mb-4">
+              Units of each currency per 1 {BASE_CURRENCY}. Used to convert listing prices, filters and sorting.
+            </p>
+            <div className="space-y-2">
+              {rates.map((rate) => {
+                const value = rateEdits[rate.currency] ?? rate.rate_per_usd.toString();
+                const isBase = rate.currency === BASE_CURRENCY;
+                return (
+                  <div key={rate.currency} className="flex flex-wrap gap-3 items-center">
+                    <span className="w-14 font-bold text-gray-900">{rate.currency}</span>
+                    <input
+                      type="number"
+                      value={value}
+                      onChange={(e) => setRateEdits((prev) => ({ ...prev, [rate.currency]: e.target.value }))}
+                      disabled={isBase}
+                      min="0"
+                      step="any"
+                      className="w-40 px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none disabled:opacity-50"
+                    />
+                    {!isBase && (
+                      <>
+                        <button
+                          onClick={() => handleSaveRate(rate.currency, value)}
+                          disabled={savingCurrency === rate.currency || rateEdits[rate.currency] === undefined}
+                          className="px-4 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRate(rate.currency)}
+                          disabled={savingCurrency === rate.currency}
+                          className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-xl hover:bg-gray-300 transition-all disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </>
+                    )}
+                    <span className="text-xs text-gray-500">
+                      Updated {new Date(rate.updated_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Add currency */}
+            <div className="flex flex-wrap gap-3 items-center mt-4 pt-4 border-t border-gold/20">
+              <input
+                type="text"
+                value={newCurrency}
+                onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+                placeholder="Code"
+                maxLength={3}
+                className="w-20 px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none uppercase"
+              />
+              <input
+                type="number"
+                value={newRate}
+                onChange={(e) => setNewRate(e.target.value)}
+                placeholder={`Per 1 ${BASE_CURRENCY}`}
+                min="0"
+                step="any"
+                className="w-40 px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+              />
+              <button
+                onClick={() => handleSaveRate(newCurrency, newRate)}
+                disabled={!newCurrency || !newRate || savingCurrency !== null}
+                className="px-4 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add Currency
+              </button>
+            </div>
+          </div>
+
+          {/* Amenities */}
+          <div className="mt-6 glass-dark rounded-2xl p-6">
+            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-2">
+              Amenities
+            </h2>
+            <p className="text-xs text-gray-500 mb-4">
+              Features owners can tick on their listings and buyers can filter on. Lower order numbers show first within a category.
+              Retiring an amenity hides it from forms and filters but keeps it on existing listings.
+            </p>
+            <div className="space-y-2">
+              {amenities.map((amenity) => {
+                const edit = amenityEdits[amenity.slug] ?? {
+                  label: amenity.label,
+                  category: amenity.category,
+                  sort_order: amenity.sort_order.toString(),
+                };
+                const setEdit = (changes: Partial<typeof edit>) =>
+                  setAmenityEdits((prev) => ({ ...prev, [amenity.slug]: { ...edit, ...changes } }));
+                const isSaving = savingAmenity === amenity.slug;
+                return (
+                  <div key={amenity.slug} className={`flex flex-wrap gap-3 items-center ${amenity.is_active ? '' : 'opacity-60'}`}>
+                    <input
+                      type="text"
+                      value={edit.label}
+                      onChange={(e) => setEdit({ label: e.target.value })}
+                      maxLength={MAX_AMENITY_LABEL_LENGTH}
+                      className="w-48 px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                    />
+                    <select
+                      value={edit.category}
+                      onChange={(e) => setEdit({ category: e.target.value as AmenityCategory })}
+                      className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                    >
+                      {AMENITY_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>
+                          {AMENITY_CATEGORY_LABELS[category]}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      value={edit.sort_order}
+                      onChange={(e) => setEdit({ sort_order: e.target.value })}
+                      step="1"
+                      aria-label="Order"
+                      className="w-20 px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                    />
+                    <button
+                      onClick={() => handleSaveAmenity(amenity)}
+                      disabled={isSaving || amenityEdits[amenity.slug] === undefined}
+                      className="px-4 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => handleToggleAmenityActive(amenity)}
+                      disabled={isSaving}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-xl hover:bg-gray-300 transition-all disabled:opacity-50"
+                    >
+                      {amenity.is_active ? "Retire" : "Restore"}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteAmenity(amenity)}
+                      disabled={isSaving}
+                      className="px-3 py-2 text-red-600 hover:text-red-700 font-semibold text-sm disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                    <span className="text-xs text-gray-500 font-mono">{amenity.slug}</span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Add amenity */}
+            <div className="flex flex-wrap gap-3 items-center mt-4 pt-4 border-t border-gold/20">
+              <input
+                type="text"
+                value={newAmenityLabel}
+                onChange={(e) => setNewAmenityLabel(e.target.value)}
+                placeholder="e.g., Sea View"
+                maxLength={MAX_AMENITY_LABEL_LENGTH}
+                className="w-48 px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+              />
+              <select
+                value={newAmenityCategory}
+                onChange={(e) => setNewAmenityCategory(e.target.value as AmenityCategory)}
+                className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+              >
+                {AMENITY_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {AMENITY_CATEGORY_LABELS[category]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddAmenity}
+                disabled={!newAmenityLabel.trim() || savingAmenity !== null}
+                className="px-4 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add Amenity
+              </button>
+            </div>
+          </div>
+
+          {/* Possible Duplicates */}
+          <div className="mt-6 glass-dark rounded-2xl p-6">
+            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-2">
+              Possible Duplicates
+            </h2>
+            <p className="text-xs text-gray-500 mb-4">
+              Newly published listings that match an existing one on text, price, city or photos.
+              Merging keeps one listing and moves the other&apos;s saves and missing details over.
+            </p>
+            {duplicateFlags.length === 0 ? (
+              <p className="text-sm text-gray-600">No possible duplicates to review.</p>
+            ) : (
+              <div className="space-y-4">
+                {duplicateFlags.map((flag) => {
+                  const isResolving = resolvingFlagId === flag.id;
+                  return (
+                    <div key={flag.id} className="bg-white/50 rounded-xl p-4">
+                      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                        <span className="font-semibold text-gray-900">{Math.round(flag.score * 100)}% match</span>
+                        {flag.reasons.map((reason) => (
+                          <span key={reason} className="px-2 py-0.5 rounded-full text-xs bg-gold/20 text-gray-800">
+                            {DUPLICATE_REASON_LABELS[reason]}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="grid sm:grid-cols-2 gap-3">
+                        {[
+                          { label: 'New listing', listing: flag.listing, other: flag.duplicateOf },
+                          { label: 'Existing listing', listing: flag.duplicateOf, other: flag.listing },
+                        ].map(({ label, listing, other }) => (
+                          <div key={listing.id} className="border border-gold/30 rounded-xl p-3 text-sm">
+                            <p className="text-xs text-gray-500 mb-1">{label}</p>
+                            <a
+                              href={`/listings/${listing.id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-semibold text-gold-dark hover:text-gold"
+                            >
+                              {listing.title}
+                            </a>
+                            <p className="text-gray-600">
+                              {[
+                                listing.city,
+                                listing.price != null ? formatMoney(listing.price, listing.currency) : null,
+                                `${listing.image_urls?.length || 0} photo(s)`,
+                              ].filter(Boolean).join(' · ')}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Posted {new Date(listing.created_at).toLocaleDateString()}
+                            </p>
+                            <div className="flex flex-wrap gap-2 mt-2">
+                              <button
+                                onClick={() => handleMergeDuplicate(flag, listing, other)}
+                                disabled={isResolving}
+                                className="px-3 py-1 text-xs bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                Keep this, merge other
+                              </button>
+                              <button
+                                onClick={() => handleRemoveDuplicate(flag, listing)}
+                                disabled={isResolving}
+                                className="px-3 py-1 text-xs bg-red-600 hover:bg-red-700 text-white font-bold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                Remove
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => handleDismissDuplicate(flag)}
+                        disabled={isResolving}
+                        className="mt-3 text-sm text-gray-600 hover:text-gray-900 font-semibold disabled:opacity-50"
+                      >
+                        Not a duplicate
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Storage Cleanup */}
+          <div className="mt-6 glass-dark rounded-2xl p-6">
+            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-2">
+              Storage Cleanup
+            </h2>
+            <p className="text-xs text-gray-500 mb-4">
+              Finds listing photos and attachments, post images and chat files that no listing, post or message references.
+              Scanning is a dry run; nothing is deleted until you confirm.
+            </p>
+            <div className="flex flex-wrap gap-3 items-center">
+              <label htmlFor="orphan_min_age" className="text-sm font-semibold text-gray-700">
+                Skip files newer than
+              </label>
+              <select
+                id="orphan_min_age"
+                value={orphanMinAgeHours}
+                onChange={(e) => {
+                  setOrphanMinAgeHours(Number(e.target.value));
+                  setOrphans(null);
+                }}
+                className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+              >
+                <option value={1}>1 hour</option>
+                <option value={24}>1 day</option>
+                <option value={168}>1 week</option>
+                <option value={720}>30 days</option>
+              </select>
+              <button
+                onClick={handleScanStorage}
+                disabled={isScanningStorage || isCleaningStorage}
+                className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isScanningStorage ? "Scanning..." : "Scan (dry run)"}
+              </button>
+            </div>
+
+            {orphans && (
+              <div className="mt-4 pt-4 border-t border-gold/20">
+                <div className="space-y-1 text-sm">
+                  {summarizeOrphans(orphans).map((summary) => (
+                    <div key={summary.bucket} className="flex gap-3">
+                      <span className="w-32 font-semibold text-gray-900">{summary.bucket}</span>
+                      <span className="text-gray-700">
+                        {summary.count} file(s), {formatBytes(summary.bytes)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {orphans.length > 0 ? (
+                  <>
+                    <ul className="mt-3 max-h-48 overflow-y-auto text-xs text-gray-600 font-mono bg-white/50 rounded-xl p-3 space-y-0.5">
+                      {orphans.map((object) => (
+                        <li key={`${object.bucket_id}/${object.name}`} className="truncate">
+                          {object.bucket_id}/{object.name}
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={handleCleanStorage}
+                      disabled={isCleaningStorage || isScanningStorage}
+                      className="mt-4 px-6 py-2 bg-red-600 hover:bg-red-700 text-white font-bold rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isCleaningStorage ? "Deleting..." : `Delete ${orphans.length} orphaned file(s)`}
+                    </button>
+                  </>
+                ) : (
+                  <p className="mt-3 text-sm text-gray-600">No orphaned files found.</p>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* TODO: remove after presentation */}
           {/* Seed Demo Data Section */}
           <div className="mt-12 glass-dark rounded-2xl p-6 border-2 border-amber-300">
@@ -0,0 +1,116 @@
+/**
+ * Listing Image Upload API Route
+ * POST multipart/form-data { file } with Authorization: Bearer <access token>
+ * The file must fit MAX_LISTING_IMAGE_UPLOAD_BYTES (under Vercel's 4.5 MB body limit)
+ *
+ * Strips metadata, creates thumb/medium/full WebP variants and stores them in
+ * the listing-images bucket as the calling user (storage policies apply).
+ * Returns { urls: { thumb, medium, full } }; clients store urls.full.
+ * A perceptual hash of the photo is recorded for duplicate detection.
+ *
+ * SECURITY:
+ * - Requires a valid session token
+ * - Files are written under listings/{userId}/ only
+ * - Original upload (with EXIF/GPS) is never stored
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createUserSupabaseClient, getBearerToken } from "@/lib/supabaseServer";
+import { computeImageHash, createListingImageVariants } from "@/lib/imageProcessing";
+import {
+  LISTING_IMAGES_BUCKET,
+  LISTING_IMAGE_VARIANTS,
+  ListingImageVariant,
+  MAX_LISTING_IMAGE_UPLOAD_BYTES,
+} from "@/lib/listingImages";
+
+// sharp needs the Node.js runtime
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const accessToken = getBearerToken(request.headers.get("authorization"));
+  if (!accessToken) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createUserSupabaseClient(accessToken);
+    const { data: { user }, error: userError } = await supabase.auth.getUser(accessToken);
+    if (userError || !user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    if (!file.type.startsWith("image/")) {
+      return NextResponse.json({ error: `${file.name} is not an image file` }, { status: 415 });
+    }
+    // Clients shrink larger photos first (uploadListingImage)
+    if (file.size > MAX_LISTING_IMAGE_UPLOAD_BYTES) {
+      return NextResponse.json({ error: `${file.name} is too large` }, { status: 413 });
+    }
+
+    const input = Buffer.from(await file.arrayBuffer());
+    let variants: Record<ListingImageVariant, Buffer>;
+    try {
+      variants = await createListingImageVariants(input);
+    } catch (processingError) {
+      console.error("[ListingImages] Error processing image:", processingError);
+      return NextResponse.json({ error: `${file.name} could not be read as an image` }, { status: 415 });
+    }
+
+    const imageId = `${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+    const folder = `listings/${user.id}/${imageId}`;
+    const uploadedPaths: string[] = [];
+    const urls = {} as Record<ListingImageVariant, string>;
+
+    for (const variant of LISTING_IMAGE_VARIANTS) {
+      const path = `${folder}/${variant}.webp`;
+      const { error: uploadError } = await supabase.storage
+        .from(LISTING_IMAGES_BUCKET)
+        .upload(path, variants[variant], {
+          // Paths are never reused, so variants can be cached for good
+          cacheControl: "31536000",
+          upsert: false,
+          contentType: "image/webp",
+        });
+
+      if (uploadError) {
+        console.error("[ListingImages] Error uploading variant:", uploadError);
+        // Don't leave a partial set behind
+        if (uploadedPaths.length > 0) {
+          await supabase.storage.from(LISTING_IMAGES_BUCKET).remove(uploadedPaths);
+        }
+        return NextResponse.json({ error: "Failed to store image" }, { status: 502 });
+      }
+
+      uploadedPaths.push(path);
+      urls[variant] = supabase.storage.from(LISTING_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+    }
+
+    // Duplicate detection is best-effort; never fail the upload over it
+    try {
+      const { error: hashError } = await supabase
+        .from("listing_image_hashes")
+        .insert({ image_url: urls.full, user_id: user.id, hash: await computeImageHash(input) });
+      if (hashError) {
+        console.error("[ListingImages] Error saving image hash:", hashError);
+      }
+    } catch (hashError) {
+      console.error("[ListingImages] Error hashing image:", hashError);
+    }
+
+    return NextResponse.json({ urls });
+  } catch (error) {
+    console.error("[ListingImages] Upload error:", error);
+
+    // SECURITY: Don't expose internal error details to client
+    return NextResponse.json(
+      { error: "An error occurred processing your request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Listing Brochure API Route
+ * GET /api/listings/<id>/brochure[?lang=en|ar|zh|de|fr] with Authorization: Bearer <access token>
+ *
+ * Renders one listing as a branded, print-optimized A4 page (photos, key facts,
+ * price, amenities, owner contact and the linked area journal's snapshot) in
+ * the viewer's site language, right-to-left for Arabic. Agents print it or
+ * save it as a PDF from the browser's print dialog.
+ *
+ * SECURITY:
+ * - Requires a valid session token; RLS decides which listings are visible
+ *   (drafts only to their owner and admins)
+ * - The owner's phone is only printed when they made it public (phone_public),
+ *   even for the owner: the brochure is handed to clients
+ * - All listing and profile text is HTML-escaped
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createUserSupabaseClient, getBearerToken } from "@/lib/supabaseServer";
+import { AREA_JOURNAL_CURRENCY } from "@/lib/areaJournals";
+import { formatMoney } from "@/lib/currency";
+import { getListingImageUrl } from "@/lib/listingImages";
+import {
+  BROCHURE_INTL_LOCALES,
+  BROCHURE_LABELS,
+  BrochureLabelKey,
+  BrochureLocale,
+  getBrochureDirection,
+  isBrochureLocale,
+} from "@/lib/listingBrochure";
+
+// Cover plus a row of four
+const MAX_BROCHURE_PHOTOS = 5;
+
+const PROPERTY_TYPE_KEYS: Record<string, BrochureLabelKey> = {
+  house: "house",
+  apartment: "apartment",
+  condo: "condo",
+  villa: "villa",
+  townhouse: "townhouse",
+};
+
+const AREA_STATUS_KEYS: Record<string, BrochureLabelKey> = {
+  heating: "heating",
+  cooling: "cooling",
+  stable: "stable",
+};
+
+const AREA_OUTLOOK_KEYS: Record<string, BrochureLabelKey> = {
+  up: "outlookUp",
+  sideways: "outlookSideways",
+  down: "outlookDown",
+};
+
+interface BrochureListing {
+  id: number;
+  user_id: string;
+  title: string;
+  description: string | null;
+  listing_type: string | null;
+  price: number | null;
+  currency: string;
+  rent_period: string | null;
+  deposit: number | null;
+  min_lease_months: number | null;
+  furnished: boolean | null;
+  available_from: string | null;
+  city: string | null;
+  neighbourhood: string | null;
+  address: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  property_type: string | null;
+  area_sqm: number | null;
+  area_slug: string | null;
+  image_urls: string[] | null;
+  image_captions: string[] | null;
+}
+
+interface BrochureOwner {
+  display_name: string | null;
+  phone: string | null;
+  phone_public: boolean | null;
+}
+
+interface BrochureArea {
+  name: string;
+  city: string;
+  status: string;
+  demand: string | null;
+  outlook: string | null;
+  rent_1br_min: number | null;
+  rent_1br_max: number | null;
+  rent_2br_min: number | null;
+  rent_2br_max: number | null;
+  rent_3br_min: number | null;
+  rent_3br_max: number | null;
+  sale_min: number | null;
+  sale_max: number | null;
+  last_updated: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// NUMERIC columns come back as strings
+const toNumber = (value: any) => (value != null ? Number(value) : null);
+
+function formatDate(value: string | Date, intlLocale: string): string {
+  return new Intl.DateTimeFormat(intlLocale, { year: "numeric", month: "long", day: "numeric" })
+    .format(typeof value === "string" ? new Date(value) : value);
+}
+
+function buildBrochureHtml(
+  listing: BrochureListing,
+  owner: BrochureOwner | null,
+  amenities: string[],
+  area: BrochureArea | null,
+  locale: BrochureLocale,
+  listingUrl: string
+): string {
+  const labels = BROCHURE_LABELS[locale];
+  const intlLocale = BROCHURE_INTL_LOCALES[locale];
+  const isRental = listing.listing_type === "rent";
+  const number = (value: number) => value.toLocaleString(intlLocale);
+  const money = (value: number, currency: string) => formatMoney(value, currency, intlLocale);
+
+  const price = listing.price != null
+    ? money(listing.price, listing.currency) +
+      (isRental ? ` ${listing.rent_period === "yearly" ? labels.perYear : labels.perMonth}` : "")
+    : labels.priceOnRequest;
+
+  const location = [listing.address, listing.neighbourhood, listing.city].filter(Boolean).join(", ");
+
+  // Key facts (only what the owner filled in)
+  const facts: [string, string][] = [];
+  if (listing.property_type) {
+    const key = PROPERTY_TYPE_KEYS[listing.property_type];
+    facts.push([labels.propertyType, key ? labels[key] : listing.property_type]);
+  }
+  if (listing.bedrooms != null) facts.push([labels.bedrooms, number(listing.bedrooms)]);
+  if (listing.bathrooms != null) facts.push([labels.bathrooms, number(listing.bathrooms)]);
+  if (listing.area_sqm != null) facts.push([labels.area, `${number(listing.area_sqm)} m²`]);
+  if (isRental) {
+    if (listing.deposit != null) facts.push([labels.deposit, money(listing.deposit, listing.currency)]);
+    if (listing.min_lease_months != null) {
+      facts.push([labels.minLease, labels.months.replace("{{count}}", number(listing.min_lease_months))]);
+    }
+    if (listing.furnished != null) {
+      facts.push([labels.furnishing, listing.furnished ? labels.furnished : labels.unfurnished]);
+    }
+    facts.push([
+      labels.available,
+      listing.available_from && new Date(listing.available_from) > new Date()
+        ? formatDate(listing.available_from, intlLocale)
+        : labels.availableNow,
+    ]);
+  }
+
+  const captions = listing.image_captions || [];
+  const photos = (listing.image_urls || []).slice(0, MAX_BROCHURE_PHOTOS).map((url, index) => {
+    const caption = captions[index] || "";
+    return `<figure class="${index === 0 ? "cover" : "thumb"}"><img src="${escapeHtml(
+      getListingImageUrl(url, index === 0 ? "full" : "medium")
+    )}" alt="${escapeHtml(caption || listing.title)}">${caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : ""}</figure>`;
+  });
+
+  const range = (min: number | null, max: number | null) =>
+    min != null && max != null
+      ? `${money(min, AREA_JOURNAL_CURRENCY)} – ${money(max, AREA_JOURNAL_CURRENCY)}`
+      : null;
+
+  const areaRows: [string, string | null][] = area
+    ? [
+        [labels.areaStatus, AREA_STATUS_KEYS[area.status] ? labels[AREA_STATUS_KEYS[area.status]] : area.status],
+        [labels.demand, area.demand],
+        [labels.outlook, area.outlook && AREA_OUTLOOK_KEYS[area.outlook] ? labels[AREA_OUTLOOK_KEYS[area.outlook]] : null],
+        [labels.rent1br, range(area.rent_1br_min, area.rent_1br_max)],
+        [labels.rent2br, range(area.rent_2br_min, area.rent_2br_max)],
+        [labels.rent3br, range(area.rent_3br_min, area.rent_3br_max)],
+        [labels.salePerSqm, range(area.sale_min, area.sale_max)],
+      ]
+    : [];
+
+  const showPhone = owner?.phone && owner.phone_public === true;
+  const dir = getBrochureDirection(locale);
+
+  return `<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(listing.title)} · META REAL ESTATE</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: "Segoe UI", "Helvetica Neue", Arial, "Noto Sans Arabic", "Noto Sans SC", sans-serif; color: #1f2937; background: #f3f4f6; font-size: 11pt; line-height: 1.45; }
+  .page { max-width: 210mm; margin: 16px auto; background: #fff; padding: 14mm; box-shadow: 0 4px 24px rgba(0, 0, 0, 0.08); }
+  .toolbar { max-width: 210mm; margin: 16px auto 0; text-align: end; }
+  .toolbar button { background: linear-gradient(90deg, #d4af37, #f4d03f); border: 0; border-radius: 12px; padding: 10px 20px; font-weight: 700; font-size: 11pt; cursor: pointer; }
+  header { display: flex; justify-content: space-between; align-items: center; border-bottom: 3px solid #d4af37; padding-bottom: 8px; margin-bottom: 12px; }
+  .brand { font-weight: 800; letter-spacing: 0.12em; color: #b8860b; }
+  .ref { font-size: 9pt; color: #6b7280; }
+  .badge { display: inline-block; background: #d4af37; color: #111827; border-radius: 999px; padding: 2px 12px; font-size: 9pt; font-weight: 700; }
+  h1 { font-size: 20pt; margin: 6px 0 2px; }
+  .location { color: #4b5563; margin: 0; }
+  .price { font-size: 18pt; font-weight: 800; color: #b8860b; margin: 6px 0 12px; }
+  .photos { display: grid; grid-template-columns: repeat(4, 1fr); gap: 6px; margin-bottom: 12px; }
+  .photos figure { margin: 0; position: relative; }
+  .photos img { width: 100%; display: block; object-fit: cover; border-radius: 6px; }
+  .photos .cover { grid-column: 1 / -1; }
+  .photos .cover img { height: 88mm; }
+  .photos .thumb img { height: 26mm; }
+  .photos figcaption { font-size: 8pt; color: #6b7280; margin-top: 2px; }
+  .columns { display: grid; grid-template-columns: 3fr 2fr; gap: 16px; }
+  h2 { font-size: 11pt; text-transform: uppercase; letter-spacing: 0.06em; color: #b8860b; border-bottom: 1px solid #e5e7eb; padding-bottom: 3px; margin: 12px 0 6px; }
+  dl { display: grid; grid-template-columns: auto 1fr; gap: 3px 12px; margin: 0; }
+  dt { color: #6b7280; }
+  dd { margin: 0; font-weight: 600; }
+  .description { white-space: pre-wrap; margin: 0; }
+  .amenities { margin: 0; padding: 0; list-style: none; display: flex; flex-wrap: wrap; gap: 4px; }
+  .amenities li { border: 1px solid #d4af37; border-radius: 999px; padding: 1px 8px; font-size: 9pt; }
+  .contact { background: #fdf8e7; border: 1px solid #f4d03f; border-radius: 8px; padding: 8px 10px; }
+  .contact .name { font-weight: 700; font-size: 12pt; }
+  .muted { color: #6b7280; font-size: 9pt; }
+  .url { direction: ltr; unicode-bidi: embed; word-break: break-all; }
+  footer { margin-top: 14px; border-top: 1px solid #e5e7eb; padding-top: 6px; display: flex; justify-content: space-between; gap: 12px; font-size: 8.5pt; color: #6b7280; }
+  @media print {
+    body { background: #fff; }
+    .toolbar { display: none; }
+    .page { margin: 0; padding: 0; box-shadow: none; max-width: none; }
+    section, figure, .contact { break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<div class="toolbar"><button type="button" onclick="window.print()">${escapeHtml(labels.print)}</button></div>
+<article class="page">
+  <header>
+    <span class="brand">META REAL ESTATE</span>
+    <span class="ref">${escapeHtml(labels.reference)} #${listing.id}</span>
+  </header>
+  <span class="badge">${escapeHtml(isRental ? labels.forRent : labels.forSale)}</span>
+  <h1>${escapeHtml(listing.title)}</h1>
+  ${location ? `<p class="location">${escapeHtml(location)}</p>` : ""}
+  <p class="price">${escapeHtml(price)}</p>
+  ${photos.length > 0 ? `<div class="photos">${photos.join("")}</div>` : ""}
+  <div class="columns">
+    <div>
+      ${facts.length > 0 ? `<section><h2>${escapeHtml(labels.keyFacts)}</h2><dl>${facts
+        .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+        .join("")}</dl></section>` : ""}
+      ${listing.description ? `<section><h2>${escapeHtml(labels.description)}</h2><p class="description">${escapeHtml(listing.description)}</p></section>` : ""}
+      ${amenities.length > 0 ? `<section><h2>${escapeHtml(labels.amenities)}</h2><ul class="amenities">${amenities
+        .map((amenity) => `<li>${escapeHtml(amenity)}</li>`)
+        .join("")}</ul></section>` : ""}
+    </div>
+    <div>
+      <section>
+        <h2>${escapeHtml(labels.contact)}</h2>
+        <div class="contact">
+          <div class="name">${escapeHtml(owner?.display_name || "META REAL ESTATE")}</div>
+          ${showPhone
+            ? `<div>${escapeHtml(labels.phone)}: <span class="url">${escapeHtml(owner!.phone!)}</span></div>`
+            : `<div class="muted">${escapeHtml(labels.contactOnline)}</div>`}
+          <div class="muted">${escapeHtml(labels.viewOnline)}: <span class="url">${escapeHtml(listingUrl)}</span></div>
+        </div>
+      </section>
+      ${area ? `<section><h2>${escapeHtml(labels.areaSnapshot)} · ${escapeHtml(area.name)}</h2><dl>${areaRows
+        .filter(([, value]) => value)
+        .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value!)}</dd>`)
+        .join("")}</dl><p class="muted">${escapeHtml(labels.areaUpdated)}: ${escapeHtml(formatDate(area.last_updated, intlLocale))}</p></section>` : ""}
+    </div>
+  </div>
+  <footer>
+    <span class="url">${escapeHtml(listingUrl)}</span>
+    <span>${escapeHtml(labels.generated)}: ${escapeHtml(formatDate(new Date(), intlLocale))}</span>
+  </footer>
+</article>
+</body>
+</html>
+`;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lang = request.nextUrl.searchParams.get("lang") || "en";
+
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid listing id" }, { status: 400 });
+  }
+  if (!isBrochureLocale(lang)) {
+    return NextResponse.json({ error: "Unsupported language" }, { status: 400 });
+  }
+
+  const accessToken = getBearerToken(request.headers.get("authorization"));
+  if (!accessToken) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createUserSupabaseClient(accessToken);
+    const { data: { user }, error: userError } = await supabase.auth.getUser(accessToken);
+    if (userError || !user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { data: listingData, error: listingError } = await supabase
+      .from("listings")
+      .select("id, user_id, title, description, listing_type, price, currency, rent_period, deposit, min_lease_months, furnished, available_from, city, neighbourhood, address, bedrooms, bathrooms, property_type, area_sqm, area_slug, image_urls, image_captions")
+      .eq("id", Number(id))
+      .maybeSingle();
+
+    if (listingError) {
+      console.error("[ListingBrochure] Error loading listing:", listingError);
+      return NextResponse.json({ error: "Failed to load listing" }, { status: 502 });
+    }
+    if (!listingData) {
+      return NextResponse.json({ error: "Listing not found" }, { status: 404 });
+    }
+
+    const listing: BrochureListing = {
+      ...listingData,
+      price: toNumber(listingData.price),
+      deposit: toNumber(listingData.deposit),
+      area_sqm: toNumber(listingData.area_sqm),
+    };
+
+    // Owner, amenities and area are extras; print without them on failure
+    const [ownerResult, amenitiesResult, areaResult] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("display_name, phone, phone_public")
+        .eq("id", listing.user_id)
+        .maybeSingle(),
+      supabase
+        .from("listing_amenities")
+        .select("amenities(label, sort_order)")
+        .eq("listing_id", listing.id),
+      listing.area_slug
+        ? supabase
+            .from("area_journals")
+            .select("name, city, status, demand, outlook, rent_1br_min, rent_1br_max, rent_2br_min, rent_2br_max, rent_3br_min, rent_3br_max, sale_min, sale_max, last_updated")
+            .eq("slug", listing.area_slug)
+            .maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    if (ownerResult.error) {
+      console.error("[ListingBrochure] Error loading owner:", ownerResult.error);
+    }
+    if (amenitiesResult.error) {
+      console.error("[ListingBrochure] Error loading amenities:", amenitiesResult.error);
+    }
+    if (areaResult.error) {
+      console.error("[ListingBrochure] Error loading area journal:", areaResult.error);
+    }
+
+    const amenities = ((amenitiesResult.data || []) as any[])
+      .map((row) => row.amenities as { label: string; sort_order: number } | null)
+      .filter((amenity): amenity is { label: string; sort_order: number } => amenity != null)
+      .sort((a, b) => a.sort_order - b.sort_order || a.label.localeCompare(b.label))
+      .map((amenity) => amenity.label);
+
+    const areaData = areaResult.data as any;
+    const area: BrochureArea | null = areaData
+      ? {
+          ...areaData,
+          rent_1br_min: toNumber(areaData.rent_1br_min),
+          rent_1br_max: toNumber(areaData.rent_1br_max),
+          rent_2br_min: toNumber(areaData.rent_2br_min),
+          rent_2br_max: toNumber(areaData.rent_2br_max),
+          rent_3br_min: toNumber(areaData.rent_3br_min),
+          rent_3br_max: toNumber(areaData.rent_3br_max),
+          sale_min: toNumber(areaData.sale_min),
+          sale_max: toNumber(areaData.sale_max),
+        }
+      : null;
+
+    const html = buildBrochureHtml(
+      listing,
+      (ownerResult.data as BrochureOwner | null) || null,
+      amenities,
+      area,
+      lang,
+      `${request.nextUrl.origin}/listings/${listing.id}`
+    );
+
+    return new NextResponse(html, {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        // Per viewer, and contact details can change
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[ListingBrochure] Brochure error:", error);
+
+    // SECURITY: Don't expose internal error details to client
+    return NextResponse.json(
+      { error: "An error occurred processing your request" },
+      { status: 500 }
+    );
+  }
+}
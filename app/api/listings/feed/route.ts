@@ -0,0 +1,219 @@
+/**
+ * Listing Syndication Feed API Route
+ * GET /api/listings/feed?token=<feed token>[&format=xml|json][&owner=<user id>][&updated_since=<ISO date>][&limit=<n>]
+ *
+ * Publishes active listings for other portals and agency websites.
+ * There's no agency grouping: an agency is the owner account its listings are
+ * posted under, so filtering by agency means filtering by owner (`owner`).
+ * XML uses <root><property>...</property></root> (one element per listing,
+ * importable by app/listings/import); JSON returns { generated_at, count, listings }.
+ *
+ * SECURITY:
+ * - Requires a per-owner feed token (supabase/listing_feeds.sql); no session
+ * - A token only publishes its owner's listings unless the owner is an admin
+ * - Only active listings are included
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createAnonSupabaseClient } from "@/lib/supabaseServer";
+
+// Feed readers poll; let them reuse a response for a few minutes
+const CACHE_CONTROL = "private, max-age=300";
+
+interface FeedListing {
+  id: number;
+  user_id: string;
+  owner_name: string | null;
+  external_ref: string | null;
+  title: string;
+  description: string | null;
+  price: number | null;
+  currency: string;
+  listing_type: string;
+  rent_period: string | null;
+  deposit: number | null;
+  min_lease_months: number | null;
+  furnished: boolean | null;
+  available_from: string | null;
+  property_type: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  area_sqm: number | null;
+  city: string | null;
+  neighbourhood: string | null;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  image_urls: string[] | null;
+  image_captions: string[] | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+// <tag>value</tag>, or nothing when the value is empty
+const element = (tag: string, value: string | number | boolean | null | undefined, indent: string) =>
+  value == null || value === "" ? "" : `${indent}<${tag}>${escapeXml(String(value))}</${tag}>\n`;
+
+function toFeedEntry(listing: FeedListing, origin: string) {
+  const captions = listing.image_captions || [];
+  return {
+    id: listing.id,
+    ref: listing.external_ref || String(listing.id),
+    url: `${origin}/listings/${listing.id}`,
+    owner: { id: listing.user_id, name: listing.owner_name },
+    title: listing.title,
+    description: listing.description,
+    price: listing.price != null ? Number(listing.price) : null,
+    currency: listing.currency,
+    listing_type: listing.listing_type,
+    // Lease terms are null for sale listings
+    rent_period: listing.rent_period,
+    deposit: listing.deposit != null ? Number(listing.deposit) : null,
+    min_lease_months: listing.min_lease_months,
+    furnished: listing.furnished,
+    available_from: listing.available_from,
+    property_type: listing.property_type,
+    bedrooms: listing.bedrooms,
+    bathrooms: listing.bathrooms,
+    area_sqm: listing.area_sqm != null ? Number(listing.area_sqm) : null,
+    location: {
+      city: listing.city,
+      neighbourhood: listing.neighbourhood,
+      address: listing.address,
+      latitude: listing.latitude,
+      longitude: listing.longitude,
+    },
+    images: (listing.image_urls || []).map((url, index) => ({ url, caption: captions[index] || null })),
+    created_at: listing.created_at,
+    updated_at: listing.updated_at || listing.created_at,
+  };
+}
+
+function buildFeedXml(entries: ReturnType<typeof toFeedEntry>[], generatedAt: string): string {
+  const properties = entries.map((entry) => {
+    const images = entry.images
+      .map((image) => `      <image>\n${element("url", image.url, "        ")}${element("caption", image.caption, "        ")}      </image>\n`)
+      .join("");
+
+    return (
+      "  <property>\n" +
+      element("id", entry.id, "    ") +
+      element("ref", entry.ref, "    ") +
+      element("url", entry.url, "    ") +
+      element("date", entry.updated_at, "    ") +
+      element("agent_id", entry.owner.id, "    ") +
+      element("agent_name", entry.owner.name, "    ") +
+      element("title", entry.title, "    ") +
+      element("description", entry.description, "    ") +
+      element("price", entry.price, "    ") +
+      element("currency", entry.currency, "    ") +
+      element("listing_type", entry.listing_type, "    ") +
+      element("rent_period", entry.rent_period, "    ") +
+      element("deposit", entry.deposit, "    ") +
+      element("min_lease_months", entry.min_lease_months, "    ") +
+      element("furnished", entry.furnished, "    ") +
+      element("available_from", entry.available_from, "    ") +
+      element("property_type", entry.property_type, "    ") +
+      element("bedrooms", entry.bedrooms, "    ") +
+      element("bathrooms", entry.bathrooms, "    ") +
+      element("area_sqm", entry.area_sqm, "    ") +
+      "    <location>\n" +
+      element("city", entry.location.city, "      ") +
+      element("neighbourhood", entry.location.neighbourhood, "      ") +
+      element("address", entry.location.address, "      ") +
+      element("latitude", entry.location.latitude, "      ") +
+      element("longitude", entry.location.longitude, "      ") +
+      "    </location>\n" +
+      (images ? `    <images>\n${images}    </images>\n` : "") +
+      "  </property>\n"
+    );
+  });
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<root generated_at="${escapeXml(generatedAt)}" count="${entries.length}">\n` +
+    properties.join("") +
+    "</root>\n"
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const token = params.get("token");
+  const format = params.get("format") || "xml";
+  const owner = params.get("owner");
+  const updatedSince = params.get("updated_since");
+  const limit = params.get("limit");
+
+  if (!token) {
+    return NextResponse.json({ error: "Feed token required" }, { status: 401 });
+  }
+  if (format !== "xml" && format !== "json") {
+    return NextResponse.json({ error: "format must be xml or json" }, { status: 400 });
+  }
+  if (owner && !/^[0-9a-f-]{36}$/i.test(owner)) {
+    return NextResponse.json({ error: "Invalid owner" }, { status: 400 });
+  }
+  if (updatedSince && Number.isNaN(Date.parse(updatedSince))) {
+    return NextResponse.json({ error: "Invalid updated_since" }, { status: 400 });
+  }
+  if (limit && !/^\d+$/.test(limit)) {
+    return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createAnonSupabaseClient();
+    const { data, error } = await supabase.rpc("get_listing_feed", {
+      p_token: token,
+      p_owner_id: owner || null,
+      p_updated_since: updatedSince ? new Date(updatedSince).toISOString() : null,
+      p_limit: limit ? Number(limit) : 500,
+    });
+
+    if (error) {
+      if (error.code === "28000") {
+        return NextResponse.json({ error: "Invalid feed token" }, { status: 401 });
+      }
+      if (error.code === "42501") {
+        return NextResponse.json({ error: "This feed token can't publish that owner's listings" }, { status: 403 });
+      }
+      console.error("[ListingFeed] Error loading feed:", error);
+      return NextResponse.json({ error: "Failed to load feed" }, { status: 502 });
+    }
+
+    const generatedAt = new Date().toISOString();
+    const entries = ((data || []) as FeedListing[]).map((listing) => toFeedEntry(listing, request.nextUrl.origin));
+
+    if (format === "json") {
+      return NextResponse.json(
+        { generated_at: generatedAt, count: entries.length, listings: entries },
+        { headers: { "Cache-Control": CACHE_CONTROL } }
+      );
+    }
+
+    return new NextResponse(buildFeedXml(entries, generatedAt), {
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+        "Cache-Control": CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    console.error("[ListingFeed] Feed error:", error);
+
+    // SECURITY: Don't expose internal error details to client
+    return NextResponse.json(
+      { error: "An error occurred processing your request" },
+      { status: 500 }
+    );
+  }
+}
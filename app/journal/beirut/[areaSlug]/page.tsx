@@ -15,6 +15,10 @@ import MobileBottomNav from "@/components/MobileBottomNav";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import toast from "react-hot-toast";
+import PropertyCard from "@/components/PropertyCard";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { fetchAreaListings } from "@/lib/areaJournals";
+import { getPriceReductionPercent, getPriceSuffix, isListingStatus, isListingType } from "@/lib/listings";
 
 interface AreaJournal {
   id: string;
@@ -55,6 +59,7 @@ export default function AreaDetailPage() {
   const router = useRouter();
   const { isAuthenticated, isLoading, loadingSession, user } = useAuth();
   const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
   const areaSlug = params.areaSlug as string;
 
   const [journal, setJournal] = useState<AreaJournal & { user_id?: string | null } | null>(null);
@@ -63,6 +68,7 @@ export default function AreaDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [areaListings, setAreaListings] = useState<any[]>([]);
 
   useEffect(() => {
     if (!loadingSession && !isLoading && !isAuthenticated) {
@@ -76,6 +82,28 @@ export default function AreaDetailPage() {
     }
   }, [areaSlug]);
 
+  // Active listings linked to this area
+  useEffect(() => {
+    if (!areaSlug || !isAuthenticated) return;
+
+    const loadAreaListings = async () => {
+      const { rows, error: listingsError } = await fetchAreaListings(areaSlug);
+      if (listingsError) {
+        console.error("[Journal] Error loading area listings:", listingsError);
+        return;
+      }
+      setAreaListings(rows);
+    };
+
+    loadAreaListings();
+  }, [areaSlug, isAuthenticated]);
+
+  // suffix: rent period ("/mo") for rentals
+  const formatListingPrice = (price: number | null, currency: string, suffix: string = "") => {
+    if (price == null) return "Price on request";
+    return formatPrice(Number(price), currency) + suffix;
+  };
+
   const loadAreaJournal = async () => {
     try {
       setIsLoadingJournal(true);
@@ -564,14 +592,47 @@ export default function AreaDetailPage() {
             </Link>
           </div>
 
-          {/* Related Listings - Placeholder */}
+          {/* Related Listings (active listings linked to this area) */}
           <section className="glass-dark rounded-2xl p-6 border border-gold/20">
             <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('journal.relatedListings')}</h2>
+            {areaListings.length === 0 ? (
+              <p className="text-gray-600 mb-4">No active listings in {journal.name} yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+                {areaListings.map((listing) => (
+                  <PropertyCard
+                    key={listing.id}
+                    listingId={listing.id}
+                    listingUserId={listing.user_id}
+                    title={listing.title}
+                    location={[listing.neighbourhood, listing.city].filter(Boolean).join(", ") || journal.name}
+                    price={formatListingPrice(listing.price, listing.currency, getPriceSuffix(listing.listing_type, listing.rent_period))}
+                    previousPrice={listing.previous_price != null ? formatListingPrice(listing.previous_price, listing.currency, getPriceSuffix(listing.listing_type, listing.rent_period)) : undefined}
+                    priceReducedPercent={getPriceReductionPercent(
+                      listing.price != null ? Number(listing.price) : null,
+                      listing.previous_price != null ? Number(listing.previous_price) : null
+                    )}
+                    description={listing.description || ""}
+                    imageUrl={listing.image_urls?.[0]}
+                    bedrooms={listing.bedrooms ?? undefined}
+                    bathrooms={listing.bathrooms ?? undefined}
+                    type={listing.property_type ?? undefined}
+                    area={listing.area_sqm != null ? Number(listing.area_sqm) : undefined}
+                    status={isListingStatus(listing.status) ? listing.status : undefined}
+                    listingType={isListingType(listing.listing_type) ? listing.listing_type : undefined}
+                    furnished={listing.furnished}
+                    availableFrom={listing.available_from}
+                    currentUserId={user?.id}
+                    currentUserRole={user?.role}
+                  />
+                ))}
+              </div>
+            )}
             <Link
-              href={`/listings?area=${journal.name}`}
+              href="/listings"
               className="text-gold hover:text-gold-dark font-semibold"
             >
-              View listings in {journal.name} →
+              Browse all listings →
             </Link>
           </section>
         </div>
@@ -0,0 +1,290 @@
+"use client";
+
+/**
+ * Listing Analytics Page
+ * Route: /listings/[id]/analytics
+ * Daily views, contact clicks and saves for a listing, compared with the
+ * average listing in the same area
+ *
+ * SECURITY: Protected route - requires authentication
+ * Frontend check for owner OR role='admin' (UX only)
+ * Real security enforced by the analytics functions (listing_analytics.sql)
+ */
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { supabase } from "@/lib/supabaseClient";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import AnalyticsChart from "@/components/AnalyticsChart";
+import toast from "react-hot-toast";
+import {
+  ANALYTICS_RANGES,
+  AnalyticsRange,
+  ListingAnalyticsDay,
+  ListingAreaComparison,
+  fetchAreaComparison,
+  fetchListingAnalytics,
+} from "@/lib/analytics";
+import { BASE_CURRENCY } from "@/lib/currency";
+
+interface ListingSummary {
+  id: number;
+  user_id: string;
+  title: string;
+  listing_type: string;
+}
+
+export default function ListingAnalyticsPage() {
+  const { isAuthenticated, isLoading, loadingSession, user } = useAuth();
+  const { formatPrice } = useCurrency();
+  const params = useParams();
+  const router = useRouter();
+  const listingId = params.id as string;
+
+  const [hasRedirected, setHasRedirected] = useState(false);
+  const [listing, setListing] = useState<ListingSummary | null>(null);
+  const [isLoadingListing, setIsLoadingListing] = useState(true);
+  const [range, setRange] = useState<AnalyticsRange>(30);
+  const [series, setSeries] = useState<ListingAnalyticsDay[]>([]);
+  const [comparison, setComparison] = useState<ListingAreaComparison | null>(null);
+  const [isLoadingStats, setIsLoadingStats] = useState(false);
+
+  useEffect(() => {
+    // Redirect to login if not authenticated
+    if (!loadingSession && !isLoading && !isAuthenticated && !hasRedirected) {
+      setHasRedirected(true);
+      router.push("/login");
+    }
+  }, [isAuthenticated, isLoading, loadingSession, router, hasRedirected]);
+
+  // Load the listing and check access
+  useEffect(() => {
+    if (!listingId || !isAuthenticated || !user) return;
+
+    const loadListing = async () => {
+      setIsLoadingListing(true);
+      try {
+        const { data, error } = await supabase
+          .from('listings')
+          .select('id, user_id, title, listing_type')
+          .eq('id', listingId)
+          .single();
+
+        if (error || !data) {
+          console.error("[ListingAnalytics] Error loading listing:", error);
+          toast.error(error?.code === 'PGRST116' || !data ? "Listing not found" : "Failed to load listing");
+          router.push("/listings");
+          return;
+        }
+
+        // Only owner or admin can see analytics
+        if (user.id !== data.user_id && user.role !== 'admin') {
+          toast.error("Not allowed");
+          router.push(`/listings/${data.id}`);
+          return;
+        }
+
+        setListing(data);
+      } catch (error: any) {
+        console.error("[ListingAnalytics] Exception loading listing:", error);
+        toast.error("Failed to load listing");
+        router.push("/listings");
+      } finally {
+        setIsLoadingListing(false);
+      }
+    };
+
+    loadListing();
+  }, [listingId, isAuthenticated, user, router]);
+
+  // Load the daily series and area comparison for the selected range
+  useEffect(() => {
+    if (!listing) return;
+
+    const loadStats = async () => {
+      setIsLoadingStats(true);
+      const [
+        { series: loadedSeries, error: seriesError },
+        { comparison: loadedComparison, error: comparisonError },
+      ] = await Promise.all([
+        fetchListingAnalytics(listing.id, range),
+        fetchAreaComparison(listing.id, range),
+      ]);
+
+      if (seriesError) {
+        console.error("[ListingAnalytics] Error loading analytics:", seriesError);
+        toast.error("Failed to load analytics");
+      } else {
+        setSeries(loadedSeries);
+      }
+
+      // The comparison is context only; the page works without it
+      if (comparisonError) {
+        console.error("[ListingAnalytics] Error loading area comparison:", comparisonError);
+      }
+      setComparison(loadedComparison);
+      setIsLoadingStats(false);
+    };
+
+    loadStats();
+  }, [listing, range]);
+
+  if (isLoading || loadingSession || isLoadingListing) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gold mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated || !listing) {
+    return null; // Will redirect via useEffect
+  }
+
+  const totals = series.reduce(
+    (sum, day) => ({
+      views: sum.views + day.views,
+      contact_clicks: sum.contact_clicks + day.contact_clicks,
+      saves: sum.saves + day.saves,
+    }),
+    { views: 0, contact_clicks: 0, saves: 0 }
+  );
+  const contactRate = totals.views > 0 ? Math.round((totals.contact_clicks / totals.views) * 100) : null;
+
+  // Rentals are compared with rentals on monthly rent
+  const isRental = listing?.listing_type === 'rent';
+  const formatPerSqm = (value: number | null) =>
+    value === null ? '—' : `${formatPrice(value, BASE_CURRENCY)}/m²${isRental ? '/mo' : ''}`;
+
+  // Relative difference vs. the area average, e.g. "+25%"
+  const formatDiff = (value: number | null, average: number | null) => {
+    if (value === null || average === null || average === 0) return null;
+    const pct = Math.round(((value - average) / average) * 100);
+    return `${pct > 0 ? '+' : ''}${pct}%`;
+  };
+
+  const comparisonRows = comparison
+    ? [
+        { label: 'Views', value: comparison.views, average: comparison.avg_views, format: (v: number | null) => (v === null ? '—' : String(v)) },
+        { label: 'Contact clicks', value: comparison.contact_clicks, average: comparison.avg_contact_clicks, format: (v: number | null) => (v === null ? '—' : String(v)) },
+        { label: 'Saves', value: comparison.saves, average: comparison.avg_saves, format: (v: number | null) => (v === null ? '—' : String(v)) },
+        { label: isRental ? 'Rent per m²' : 'Price per m²', value: comparison.price_per_sqm_usd, average: comparison.avg_price_per_sqm_usd, format: formatPerSqm },
+      ]
+    : [];
+
+  return (
+    <main className="min-h-screen">
+      <Navbar />
+      <div className="pt-24 pb-20 px-4">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div>
+            <Link href={`/listings/${listing.id}`} className="text-gold-dark hover:text-gold font-semibold text-sm">
+              ← Back to listing
+            </Link>
+            <h1 className="font-orbitron text-3xl sm:text-4xl font-bold text-gold-dark mt-2">
+              Listing Analytics
+            </h1>
+            <p className="text-gray-600 mt-1">{listing.title}</p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-500">
+              Views count each signed-in visitor once per day. Your own visits are not counted.
+            </p>
+            <select
+              value={range}
+              onChange={(e) => setRange(Number(e.target.value) as AnalyticsRange)}
+              className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none bg-white text-sm"
+            >
+              {ANALYTICS_RANGES.map((days) => (
+                <option key={days} value={days}>
+                  Last {days} days
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {[
+              { label: 'Views', value: totals.views },
+              { label: 'Contact clicks', value: totals.contact_clicks },
+              { label: 'Saves', value: totals.saves },
+              { label: 'Contact rate', value: contactRate === null ? '—' : `${contactRate}%` },
+            ].map((tile) => (
+              <div key={tile.label} className="glass-dark rounded-2xl p-4 text-center">
+                <div className="text-2xl font-bold text-gray-900">{tile.value}</div>
+                <div className="text-sm text-gray-600">{tile.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily activity */}
+          <div className="glass-dark rounded-2xl p-6">
+            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+              Daily Activity
+            </h2>
+            {isLoadingStats && series.length === 0 ? (
+              <p className="text-gray-500">Loading...</p>
+            ) : (
+              <AnalyticsChart series={series} />
+            )}
+          </div>
+
+          {/* Area comparison */}
+          <div className="glass-dark rounded-2xl p-6">
+            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-1">
+              Compared to the Area
+            </h2>
+            {!comparison || !comparison.area_label ? (
+              <p className="text-gray-500">
+                Set a city or area on this listing to compare it with similar listings.
+              </p>
+            ) : comparison.peer_count === 0 ? (
+              <p className="text-gray-500">
+                No other listings in {comparison.area_label} to compare with yet.
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 mb-4">
+                  Average of {comparison.peer_count} other {isRental ? 'rental' : 'sale'} {comparison.peer_count === 1 ? 'listing' : 'listings'} in {comparison.area_label}, last {range} days
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gold/20">
+                      <th className="py-2 font-semibold">Metric</th>
+                      <th className="py-2 font-semibold text-right">This listing</th>
+                      <th className="py-2 font-semibold text-right">Area average</th>
+                      <th className="py-2 font-semibold text-right">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparisonRows.map((row) => {
+                      const diff = formatDiff(row.value, row.average);
+                      return (
+                        <tr key={row.label} className="border-b border-gold/10 last:border-0">
+                          <td className="py-2 text-gray-700">{row.label}</td>
+                          <td className="py-2 text-right font-semibold text-gray-900">{row.format(row.value)}</td>
+                          <td className="py-2 text-right text-gray-700">{row.format(row.average)}</td>
+                          <td className="py-2 text-right text-gray-700">{diff ?? '—'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </main>
+  );
+}
@@ -17,12 +17,70 @@ import { supabase } from "@/lib/supabaseClient";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import toast from "react-hot-toast";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import MapPinPicker from "@/components/MapPinPicker";
+import RentalTermsFields from "@/components/RentalTermsFields";
+import ListingPhotoManager from "@/components/ListingPhotoManager";
+import AmenityPicker from "@/components/AmenityPicker";
+import ListingAttachmentsField from "@/components/ListingAttachmentsField";
+import {
+  ListingPhoto,
+  MAX_LISTING_IMAGE_BYTES,
+  fromListingPhotos,
+  toListingPhotos,
+  uploadListingImage,
+} from "@/lib/listingImages";
+import { LatLng } from "@/lib/geo";
+import { AreaJournalOption, fetchAreaJournalOptions } from "@/lib/areaJournals";
+import { Amenity, fetchAmenities, fetchListingAmenities, setListingAmenities } from "@/lib/amenities";
+import {
+  ListingAttachment,
+  PendingAttachment,
+  deleteListingAttachment,
+  fetchListingAttachments,
+  uploadPendingAttachments,
+} from "@/lib/listingAttachments";
+import {
+  LISTING_STATUS_LABELS,
+  ListingStatus,
+  ListingStatusChange,
+  EMPTY_RENTAL_TERMS,
+  LISTING_TYPES,
+  LISTING_TYPE_LABELS,
+  ListingType,
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  RentalTermsFormData,
+  deleteListingPhoto,
+  fetchListingExpiryDays,
+  fetchListingStatusHistory,
+  getListingExpiryDate,
+  getSelectableStatuses,
+  isListingStatus,
+  isListingType,
+  isPropertyType,
+  isRentPeriod,
+  parseOptionalInteger,
+  parseOptionalPositiveNumber,
+  parseRentalTerms,
+  toRentalTermsFormData,
+} from "@/lib/listings";
 
-interface ListingFormData {
+interface ListingFormData extends RentalTermsFormData {
+  listing_type: ListingType;
   title: string;
   description: string;
   price: string;
   city: string;
+  bedrooms: string;
+  bathrooms: string;
+  property_type: string;
+  area_sqm: string;
+  currency: string;
+  address: string;
+  neighbourhood: string;
+  area_slug: string;
+  status: ListingStatus;
 }
 
 interface ListingData {
@@ -30,13 +88,33 @@ interface ListingData {
   user_id: string;
   title: string;
   description: string | null;
+  listing_type: string;
   price: number | null;
+  currency: string;
+  rent_period: string | null;
+  deposit: number | null;
+  min_lease_months: number | null;
+  furnished: boolean | null;
+  available_from: string | null;
   city: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  property_type: string | null;
+  area_sqm: number | null;
+  address: string | null;
+  neighbourhood: string | null;
+  area_slug: string | null;
+  latitude: number | null;
+  longitude: number | null;
   image_urls: string[] | null;
+  image_captions: string[] | null;
+  status: string;
+  status_changed_at: string | null;
 }
 
 export default function EditListingPage() {
   const { isAuthenticated, isLoading, loadingSession, user } = useAuth();
+  const { rates } = useCurrency();
   const params = useParams();
   const router = useRouter();
   const listingId = params.id as string;
@@ -47,13 +125,35 @@ export default function EditListingPage() {
   const [uploadingImages, setUploadingImages] = useState(false);
   const [listing, setListing] = useState<ListingData | null>(null);
   const [formData, setFormData] = useState<ListingFormData>({
+    ...EMPTY_RENTAL_TERMS,
+    listing_type: "sale",
     title: "",
     description: "",
     price: "",
     city: "",
+    bedrooms: "",
+    bathrooms: "",
+    property_type: "",
+    area_sqm: "",
+    currency: "USD",
+    address: "",
+    neighbourhood: "",
+    area_slug: "",
+    status: "active",
   });
+  const [pin, setPin] = useState<LatLng | null>(null);
+  const [areaOptions, setAreaOptions] = useState<AreaJournalOption[]>([]);
+  const [amenityOptions, setAmenityOptions] = useState<Amenity[]>([]);
+  const [selectedAmenities, setSelectedAmenities] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<ListingAttachment[]>([]);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [deletingAttachmentId, setDeletingAttachmentId] = useState<number | null>(null);
+  const [statusHistory, setStatusHistory] = useState<ListingStatusChange[]>([]);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [existingImages, setExistingImages] = useState<string[]>([]);
+  // Saved photos in display order (editable captions/order, saved on submit)
+  const [existingPhotos, setExistingPhotos] = useState<ListingPhoto[]>([]);
+  const [deletingPhotoUrl, setDeletingPhotoUrl] = useState<string | null>(null);
   const [selectedImages, setSelectedImages] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const imageInputRef = useRef<HTMLInputElement>(null);
@@ -67,7 +167,7 @@ export default function EditListingPage() {
       try {
         const { data, error } = await supabase
           .from('listings')
-          .select('id, user_id, title, description, price, city, image_urls')
+          .select('id, user_id, title, description, listing_type, price, currency, rent_period, deposit, min_lease_months, furnished, available_from, city, bedrooms, bathrooms, property_type, area_sqm, address, neighbourhood, area_slug, latitude, longitude, image_urls, image_captions, status, status_changed_at')
           .eq('id', listingId)
           .single();
 
@@ -102,12 +202,62 @@ export default function EditListingPage() {
 
         setListing(data);
         setFormData({
+          ...toRentalTermsFormData({
+            ...data,
+            rent_period: isRentPeriod(data.rent_period) ? data.rent_period : null,
+          }),
+          listing_type: isListingType(data.listing_type) ? data.listing_type : "sale",
           title: data.title || "",
           description: data.description || "",
           price: data.price ? data.price.toString() : "",
+          currency: data.currency || "USD",
           city: data.city || "",
+          bedrooms: data.bedrooms != null ? data.bedrooms.toString() : "",
+          bathrooms: data.bathrooms != null ? data.bathrooms.toString() : "",
+          property_type: isPropertyType(data.property_type) ? data.property_type : "",
+          area_sqm: data.area_sqm != null ? data.area_sqm.toString() : "",
+          address: data.address || "",
+          neighbourhood: data.neighbourhood || "",
+          area_slug: data.area_slug || "",
+          status: isListingStatus(data.status) ? data.status : "active",
         });
-        setExistingImages(data.image_urls || []);
+        setPin(data.latitude != null && data.longitude != null ? { lat: data.latitude, lng: data.longitude } : null);
+        setExistingPhotos(toListingPhotos(data.image_urls, data.image_captions));
+
+        // Status history and expiry are informational; don't block editing on failure
+        const [
+          { history, error: historyError },
+          { expiryDays: days, error: expiryError },
+          { amenities, error: amenitiesError },
+          { amenities: listingAmenities, error: listingAmenitiesError },
+          { attachments: savedAttachments, error: attachmentsError },
+        ] = await Promise.all([
+          fetchListingStatusHistory(data.id),
+          fetchListingExpiryDays(),
+          fetchAmenities(true),
+          fetchListingAmenities(data.id),
+          fetchListingAttachments(data.id),
+        ]);
+        if (historyError) {
+          console.error("[EditListing] Error loading status history:", historyError);
+        }
+        if (expiryError) {
+          console.error("[EditListing] Error loading expiry setting:", expiryError);
+        }
+        if (amenitiesError || listingAmenitiesError) {
+          console.error("[EditListing] Error loading amenities:", amenitiesError || listingAmenitiesError);
+          toast.error("Failed to load amenities");
+        }
+        if (attachmentsError) {
+          console.error("[EditListing] Error loading attachments:", attachmentsError);
+          toast.error("Failed to load floor plans, videos and documents");
+        }
+        setStatusHistory(history);
+        setExpiryDays(days);
+        // Retired amenities are only offered if the listing already has them
+        setAmenityOptions(amenities.filter((amenity) => amenity.is_active || listingAmenities.includes(amenity.slug)));
+        setSelectedAmenities(listingAmenities);
+        setAttachments(savedAttachments);
       } catch (error: any) {
         console.error("[EditListing] Exception loading listing:", error);
         toast.error("Failed to load listing");
@@ -128,7 +278,21 @@ export default function EditListingPage() {
     }
   }, [isAuthenticated, isLoading, loadingSession, router, hasRedirected]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  // Area journals the listing can be linked to
+  useEffect(() => {
+    const loadAreaOptions = async () => {
+      const { areas, error } = await fetchAreaJournalOptions();
+      if (error) {
+        console.error("[EditListing] Error loading areas:", error);
+        return;
+      }
+      setAreaOptions(areas);
+    };
+
+    loadAreaOptions();
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
     // Clear error when user starts typing
@@ -144,7 +308,7 @@ export default function EditListingPage() {
     if (files.length === 0) return;
 
     // Calculate total images (existing + new)
-    const totalImages = existingImages.length + selectedImages.length;
+    const totalImages = existingPhotos.length + selectedImages.length;
     const remainingSlots = 5 - totalImages;
     
     if (files.length > remainingSlots) {
@@ -163,9 +327,9 @@ export default function EditListingPage() {
         continue;
       }
 
-      // Validate file size (5MB max)
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error(`${file.name} is too large. Maximum size is 5MB`);
+      // Validate file size (photos over the upload limit are shrunk in the browser)
+      if (file.size > MAX_LISTING_IMAGE_BYTES) {
+        toast.error(`${file.name} is too large. Maximum size is 15MB`);
         continue;
       }
 
@@ -187,9 +351,74 @@ export default function EditListingPage() {
     }
   };
 
-  // Remove existing image
-  const removeExistingImage = (index: number) => {
-    setExistingImages((prev) => prev.filter((_, i) => i !== index));
+  // Delete a saved photo right away (listing row + storage objects)
+  const handleDeletePhoto = async (photo: ListingPhoto) => {
+    if (!listing) return;
+
+    const confirmed = window.confirm("Delete this photo? This cannot be undone.");
+    if (!confirmed) return;
+
+    setDeletingPhotoUrl(photo.url);
+    try {
+      // Based on the saved order; unsaved reordering stays in the form
+      const remaining = toListingPhotos(listing.image_urls, listing.image_captions)
+        .filter((saved) => saved.url !== photo.url);
+      const { error: deleteError, storageError } = await deleteListingPhoto(listing.id, photo.url, remaining);
+
+      if (deleteError) {
+        console.error("[EditListing] Error deleting photo:", deleteError);
+        if (deleteError.code === '42501' || deleteError.message?.includes('permission denied') || deleteError.message?.includes('policy')) {
+          toast.error("You don't have permission to edit this listing");
+        } else {
+          toast.error("Failed to delete photo");
+        }
+        return;
+      }
+
+      if (storageError) {
+        // Photo is already removed from the listing; the file is left for cleanup
+        console.error("[EditListing] Error deleting photo file:", storageError);
+      }
+
+      setListing((prev) => (prev ? { ...prev, ...fromListingPhotos(remaining) } : prev));
+      setExistingPhotos((prev) => prev.filter((existing) => existing.url !== photo.url));
+      toast.success("Photo deleted");
+    } catch (error: any) {
+      console.error("[EditListing] Exception deleting photo:", error);
+      toast.error("Failed to delete photo");
+    } finally {
+      setDeletingPhotoUrl(null);
+    }
+  };
+
+  // Delete a saved floor plan, video or document right away (row + stored file)
+  const handleDeleteAttachment = async (attachment: ListingAttachment) => {
+    const confirmed = window.confirm(`Delete ${attachment.title || attachment.file_name}? This cannot be undone.`);
+    if (!confirmed) return;
+
+    setDeletingAttachmentId(attachment.id);
+    try {
+      const { error: deleteError, storageError } = await deleteListingAttachment(attachment);
+
+      if (deleteError) {
+        console.error("[EditListing] Error deleting attachment:", deleteError);
+        toast.error("Failed to delete file");
+        return;
+      }
+
+      if (storageError) {
+        // Already removed from the listing; the file is left for cleanup
+        console.error("[EditListing] Error deleting attachment file:", storageError);
+      }
+
+      setAttachments((prev) => prev.filter((existing) => existing.id !== attachment.id));
+      toast.success("File deleted");
+    } catch (error: any) {
+      console.error("[EditListing] Exception deleting attachment:", error);
+      toast.error("Failed to delete file");
+    } finally {
+      setDeletingAttachmentId(null);
+    }
   };
 
   // Remove selected (new) image
@@ -216,6 +445,21 @@ export default function EditListingPage() {
     if (!formData.title.trim()) {
       newErrors.title = "Title is required";
     }
+
+    const bedrooms = parseOptionalInteger(formData.bedrooms);
+    const bathrooms = parseOptionalInteger(formData.bathrooms);
+    const areaSqm = parseOptionalPositiveNumber(formData.area_sqm);
+    if (bedrooms === undefined) {
+      newErrors.bedrooms = "Bedrooms must be a whole number";
+    }
+    if (bathrooms === undefined) {
+      newErrors.bathrooms = "Bathrooms must be a whole number";
+    }
+    if (areaSqm === undefined) {
+      newErrors.area_sqm = "Area must be a positive number";
+    }
+    const { terms: rentalTerms, errors: rentalErrors } = parseRentalTerms(formData.listing_type, formData);
+    Object.assign(newErrors, rentalErrors);
     
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
@@ -247,56 +491,34 @@ export default function EditListingPage() {
     setUploadingImages(selectedImages.length > 0);
 
     try {
-      let imageUrls: string[] = [...existingImages];
+      let photos: ListingPhoto[] = [...existingPhotos];
 
       // Step 1: Upload new images (if any)
       if (selectedImages.length > 0) {
         const uploadedUrls: string[] = [];
-        const baseTimestamp = Date.now();
-
-        for (let i = 0; i < selectedImages.length; i++) {
-          const file = selectedImages[i];
-          
-          // Create unique storage path
-          const fileExt = file.name.split('.').pop()?.toLowerCase() || 'jpg';
-          const safeFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_').slice(0, 50);
-          const timestamp = baseTimestamp + i;
-          const randomId = typeof crypto !== 'undefined' && crypto.randomUUID 
-            ? crypto.randomUUID().slice(0, 8) 
-            : Math.random().toString(36).substring(2, 10);
-          const storagePath = `listings/${user.id}/${timestamp}-${randomId}-${safeFileName}`;
-
-          // Upload to Supabase Storage
-          const { error: uploadError } = await supabase.storage
-            .from('listing-images')
-            .upload(storagePath, file, {
-              cacheControl: '3600',
-              upsert: false,
-              contentType: file.type,
-            });
-
-          if (uploadError) {
-            console.error("[EditListing] Error uploading image:", uploadError);
-            toast.error(`Failed to upload ${file.name}. Please try again.`);
-            return;
-          }
 
-          // Get public URL
-          const { data: urlData } = supabase.storage
-            .from('listing-images')
-            .getPublicUrl(storagePath);
+        // Photos are processed server-side (EXIF stripped, WebP variants)
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) {
+          toast.error("Your session has expired. Please log in again.");
+          return;
+        }
+
+        for (const file of selectedImages) {
+          const { url, error: uploadError } = await uploadListingImage(file, session.access_token);
 
-          if (!urlData?.publicUrl) {
-            console.error("[EditListing] Failed to get public URL for:", storagePath);
-            toast.error(`Failed to get URL for ${file.name}. Please try again.`);
+          if (uploadError || !url) {
+            console.error("[EditListing] Error uploading image:", uploadError);
+            toast.error(`Failed to upload ${file.name}. Please try again.`);
+            // Stop and don't save the listing if upload fails
             return;
           }
 
-          uploadedUrls.push(urlData.publicUrl);
+          uploadedUrls.push(url);
         }
 
-        // Combine existing and new images
-        imageUrls = [...existingImages, ...uploadedUrls];
+        // New photos go after the existing ones (uncaptioned)
+        photos = [...existingPhotos, ...uploadedUrls.map((url) => ({ url, caption: '' }))];
       }
 
       // Step 2: Update listing in database
@@ -306,9 +528,23 @@ export default function EditListingPage() {
         .update({
           title: formData.title.trim(),
           description: formData.description.trim() || null,
+          listing_type: formData.listing_type,
           price: formData.price ? parseFloat(formData.price) : null,
+          currency: formData.currency,
+          ...rentalTerms,
           city: formData.city.trim() || null,
-          image_urls: imageUrls,
+          bedrooms: bedrooms ?? null,
+          bathrooms: bathrooms ?? null,
+          property_type: isPropertyType(formData.property_type) ? formData.property_type : null,
+          area_sqm: areaSqm ?? null,
+          address: formData.address.trim() || null,
+          neighbourhood: formData.neighbourhood.trim() || null,
+          area_slug: formData.area_slug || null,
+          latitude: pin?.lat ?? null,
+          longitude: pin?.lng ?? null,
+          ...fromListingPhotos(photos),
+          // Only send status when it changed (the trigger validates the transition)
+          ...(formData.status !== listing.status ? { status: formData.status } : {}),
         })
         .eq('id', listingId);
 
@@ -324,6 +560,38 @@ export default function EditListingPage() {
         return;
       }
 
+      // Step 3: Amenities (skipped if they failed to load, so they aren't wiped)
+      if (amenityOptions.length > 0) {
+        const { error: amenitiesError } = await setListingAmenities(listing.id, selectedAmenities);
+        if (amenitiesError) {
+          console.error("[EditListing] Error saving amenities:", amenitiesError);
+          toast.error("Listing updated, but its amenities couldn't be saved");
+          return;
+        }
+      }
+
+      // Step 4: New floor plans, videos and documents
+      // Failed files stay in the form so saving again only retries those
+      if (pendingAttachments.length > 0) {
+        const { attachments: uploaded, failed } = await uploadPendingAttachments(
+          listing.id,
+          user.id,
+          pendingAttachments,
+          attachments
+        );
+        setAttachments((prev) => [...prev, ...uploaded]);
+        if (failed.length > 0) {
+          const failedNames = new Set(failed.map((failure) => failure.fileName));
+          setPendingAttachments((prev) => prev.filter((item) => failedNames.has(item.file.name)));
+          for (const failure of failed) {
+            console.error("[EditListing] Error uploading attachment:", failure.error);
+            toast.error(`Listing updated, but ${failure.fileName} couldn't be uploaded`);
+          }
+          return;
+        }
+        setPendingAttachments([]);
+      }
+
       // Success
       toast.success("Listing updated");
       router.push("/listings");
@@ -351,7 +619,14 @@ export default function EditListingPage() {
     return null; // Will redirect via useEffect
   }
 
-  const totalImages = existingImages.length + selectedImages.length;
+  const totalImages = existingPhotos.length + selectedImages.length;
+  const currentStatus: ListingStatus = isListingStatus(listing.status) ? listing.status : "active";
+  const selectableStatuses = getSelectableStatuses(currentStatus, user?.role === 'admin', formData.listing_type);
+  // A sold / rented listing keeps its type; relist it first to change it
+  const isListingTypeLocked = currentStatus === 'sold' || currentStatus === 'rented';
+  const expiresAt = currentStatus === 'active' && listing.status_changed_at && expiryDays
+    ? getListingExpiryDate(listing.status_changed_at, expiryDays)
+    : null;
 
   return (
     <main className="min-h-screen">
@@ -367,6 +642,69 @@ export default function EditListingPage() {
 
           <div className="glass-dark rounded-2xl p-6 sm:p-8">
             <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Status */}
+              <div>
+                <label htmlFor="status" className="block text-sm font-semibold text-gray-700 mb-2">
+                  Status
+                </label>
+                <select
+                  id="status"
+                  name="status"
+                  value={formData.status}
+                  onChange={handleChange}
+                  disabled={selectableStatuses.length <= 1}
+                  className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {selectableStatuses.map((status) => (
+                    <option key={status} value={status}>
+                      {LISTING_STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+                {currentStatus === 'draft' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Drafts are only visible to you. Set to Active to publish.
+                  </p>
+                )}
+                {currentStatus === 'expired' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    This listing expired. Set it to Active to publish it again.
+                  </p>
+                )}
+                {expiresAt && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Expires automatically on {expiresAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+                  </p>
+                )}
+
+                {/* Status History */}
+                {statusHistory.length > 0 && (
+                  <details className="mt-3">
+                    <summary className="text-sm font-semibold text-gray-700 cursor-pointer">
+                      Status history ({statusHistory.length})
+                    </summary>
+                    <ul className="mt-2 space-y-1 text-sm text-gray-600">
+                      {statusHistory.map((change) => (
+                        <li key={change.id}>
+                          {new Date(change.changed_at).toLocaleString('en-US', {
+                            year: 'numeric',
+                            month: 'short',
+                            day: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                          {' · '}
+                          {change.from_status
+                            ? `${LISTING_STATUS_LABELS[change.from_status] ?? change.from_status} → ${LISTING_STATUS_LABELS[change.to_status] ?? change.to_status}`
+                            : `Created as ${LISTING_STATUS_LABELS[change.to_status] ?? change.to_status}`}
+                          {change.changed_by === null && change.from_status && ' (automatic)'}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+
               {/* Title */}
               <div>
                 <label htmlFor="title" className="block text-sm font-semibold text-gray-700 mb-2">
@@ -405,23 +743,82 @@ export default function EditListingPage() {
                 />
               </div>
 
+              {/* Sale / Rent */}
+              <div>
+                <span className="block text-sm font-semibold text-gray-700 mb-2">
+                  Listing Type
+                </span>
+                <div className="inline-flex rounded-xl overflow-hidden border-2 border-gold/40">
+                  {LISTING_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setFormData((prev) => ({
+                        ...prev,
+                        listing_type: type,
+                        // Sold only applies to sales, rented only to rentals
+                        status: prev.status === (type === 'rent' ? 'sold' : 'rented') ? currentStatus : prev.status,
+                      }))}
+                      disabled={isListingTypeLocked}
+                      className={`px-5 py-2 font-semibold transition-all ${
+                        formData.listing_type === type ? 'bg-gold text-gray-900' : 'bg-white text-gray-700 hover:bg-gold/20'
+                      } disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                      {LISTING_TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Price */}
               <div>
                 <label htmlFor="price" className="block text-sm font-semibold text-gray-700 mb-2">
-                  Price
+                  {formData.listing_type === 'rent' ? 'Rent' : 'Price'}
                 </label>
-                <input
-                  type="number"
-                  id="price"
-                  name="price"
-                  value={formData.price}
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    id="price"
+                    name="price"
+                    value={formData.price}
+                    onChange={handleChange}
+                    placeholder={formData.listing_type === 'rent' ? "e.g., 1200" : "e.g., 850000"}
+                    min="0"
+                    step="0.01"
+                    className="flex-1 min-w-0 px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  />
+                  <select
+                    id="currency"
+                    name="currency"
+                    value={formData.currency}
+                    onChange={handleChange}
+                    className="px-3 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none font-semibold"
+                    aria-label="Currency"
+                  >
+                    {!rates.some((rate) => rate.currency === formData.currency) && (
+                      <option value={formData.currency}>{formData.currency}</option>
+                    )}
+                    {rates.map((rate) => (
+                      <option key={rate.currency} value={rate.currency}>
+                        {rate.currency}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Price changes appear in the listing&apos;s price history. Users who saved it are notified of reductions.
+                </p>
+              </div>
+
+              {/* Lease Terms (rentals only) */}
+              {formData.listing_type === 'rent' && (
+                <RentalTermsFields
+                  value={formData}
+                  currency={formData.currency}
+                  errors={errors}
                   onChange={handleChange}
-                  placeholder="e.g., 850000"
-                  min="0"
-                  step="0.01"
-                  className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
                 />
-              </div>
+              )}
 
               {/* City */}
               <div>
@@ -439,6 +836,166 @@ export default function EditListingPage() {
                 />
               </div>
 
+              {/* Location */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                  <label htmlFor="address" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Address
+                  </label>
+                  <input
+                    type="text"
+                    id="address"
+                    name="address"
+                    value={formData.address}
+                    onChange={handleChange}
+                    placeholder="e.g., 12 Bliss Street"
+                    className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="neighbourhood" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Neighbourhood
+                  </label>
+                  <input
+                    type="text"
+                    id="neighbourhood"
+                    name="neighbourhood"
+                    value={formData.neighbourhood}
+                    onChange={handleChange}
+                    placeholder="e.g., Hamra"
+                    className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="area_slug" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Area Journal
+                  </label>
+                  <select
+                    id="area_slug"
+                    name="area_slug"
+                    value={formData.area_slug}
+                    onChange={handleChange}
+                    className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  >
+                    <option value="">None</option>
+                    {areaOptions.map((area) => (
+                      <option key={area.slug} value={area.slug}>
+                        {area.name} ({area.city})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Map Pin */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Map Location
+                </label>
+                <MapPinPicker value={pin} onChange={setPin} />
+              </div>
+
+              {/* Property Type */}
+              <div>
+                <label htmlFor="property_type" className="block text-sm font-semibold text-gray-700 mb-2">
+                  Property Type
+                </label>
+                <select
+                  id="property_type"
+                  name="property_type"
+                  value={formData.property_type}
+                  onChange={handleChange}
+                  className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                >
+                  <option value="">Not specified</option>
+                  {PROPERTY_TYPES.map((propertyType) => (
+                    <option key={propertyType} value={propertyType}>
+                      {PROPERTY_TYPE_LABELS[propertyType]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Bedrooms, Bathrooms, Area */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="bedrooms" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Bedrooms
+                  </label>
+                  <input
+                    type="number"
+                    id="bedrooms"
+                    name="bedrooms"
+                    value={formData.bedrooms}
+                    onChange={handleChange}
+                    placeholder="e.g., 3"
+                    min="0"
+                    step="1"
+                    className={`w-full px-4 py-3 rounded-xl border-2 ${
+                      errors.bedrooms ? "border-red-500" : "border-gold/40"
+                    } focus:border-gold focus:outline-none`}
+                  />
+                  {errors.bedrooms && (
+                    <p className="text-red-500 text-sm mt-1">{errors.bedrooms}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="bathrooms" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Bathrooms
+                  </label>
+                  <input
+                    type="number"
+                    id="bathrooms"
+                    name="bathrooms"
+                    value={formData.bathrooms}
+                    onChange={handleChange}
+                    placeholder="e.g., 2"
+                    min="0"
+                    step="1"
+                    className={`w-full px-4 py-3 rounded-xl border-2 ${
+                      errors.bathrooms ? "border-red-500" : "border-gold/40"
+                    } focus:border-gold focus:outline-none`}
+                  />
+                  {errors.bathrooms && (
+                    <p className="text-red-500 text-sm mt-1">{errors.bathrooms}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="area_sqm" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Area (m²)
+                  </label>
+                  <input
+                    type="number"
+                    id="area_sqm"
+                    name="area_sqm"
+                    value={formData.area_sqm}
+                    onChange={handleChange}
+                    placeholder="e.g., 150"
+                    min="0"
+                    step="0.01"
+                    className={`w-full px-4 py-3 rounded-xl border-2 ${
+                      errors.area_sqm ? "border-red-500" : "border-gold/40"
+                    } focus:border-gold focus:outline-none`}
+                  />
+                  {errors.area_sqm && (
+                    <p className="text-red-500 text-sm mt-1">{errors.area_sqm}</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Amenities */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Amenities & Features
+                </label>
+                <AmenityPicker
+                  amenities={amenityOptions}
+                  value={selectedAmenities}
+                  onChange={setSelectedAmenities}
+                  disabled={isSubmitting}
+                />
+              </div>
+
               {/* Images */}
               <div>
                 <label htmlFor="images" className="block text-sm font-semibold text-gray-700 mb-2">
@@ -456,43 +1013,22 @@ export default function EditListingPage() {
                   className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Each image must be less than 5MB. {totalImages}/5 selected.
+                  Each image must be less than 15MB. Large photos are shrunk before upload, and location data is removed. {totalImages}/5 selected.
                 </p>
 
-                {/* Existing Images */}
-                {existingImages.length > 0 && (
+                {/* Existing Photos (drag to reorder, first = cover) */}
+                {existingPhotos.length > 0 && (
                   <div className="mt-4">
-                    <p className="text-sm font-semibold text-gray-700 mb-2">Existing Images:</p>
-                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
-                      {existingImages.map((url, index) => (
-                        <div key={index} className="relative group">
-                          <img
-                            src={url}
-                            alt={`Existing ${index + 1}`}
-                            className="w-full h-32 object-cover rounded-xl border-2 border-gold/40"
-                          />
-                          <button
-                            type="button"
-                            onClick={() => removeExistingImage(index)}
-                            disabled={isSubmitting}
-                            className="absolute top-2 right-2 p-1.5 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-50 disabled:cursor-not-allowed"
-                            aria-label="Remove image"
-                          >
-                            <svg
-                              className="w-4 h-4"
-                              fill="none"
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth="2"
-                              viewBox="0 0 24 24"
-                              stroke="currentColor"
-                            >
-                              <path d="M6 18L18 6M6 6l12 12" />
-                            </svg>
-                          </button>
-                        </div>
-                      ))}
-                    </div>
+                    <p className="text-sm font-semibold text-gray-700 mb-2">
+                      Photos <span className="font-normal text-gray-500">(drag to reorder; the first photo is the cover)</span>
+                    </p>
+                    <ListingPhotoManager
+                      photos={existingPhotos}
+                      onChange={setExistingPhotos}
+                      onDelete={handleDeletePhoto}
+                      deletingUrl={deletingPhotoUrl}
+                      disabled={isSubmitting}
+                    />
                   </div>
                 )}
 
@@ -534,6 +1070,21 @@ export default function EditListingPage() {
                 )}
               </div>
 
+              {/* Floor plans, video tours, documents */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Floor Plans, Video Tours & Documents
+                </label>
+                <ListingAttachmentsField
+                  existing={attachments}
+                  pending={pendingAttachments}
+                  onChangePending={setPendingAttachments}
+                  onDeleteExisting={handleDeleteAttachment}
+                  deletingId={deletingAttachmentId}
+                  disabled={isSubmitting}
+                />
+              </div>
+
               {/* Submit Button */}
               <div className="flex gap-4 pt-4">
                 <button
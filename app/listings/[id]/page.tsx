@@ -12,23 +12,90 @@ import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
 import { supabase } from "@/lib/supabaseClient";
 import { findOrCreateDirectConversation } from "@/lib/messages";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import ListingGallery from "@/components/ListingGallery";
+import PropertyCard from "@/components/PropertyCard";
 import { isValidUrl } from "@/lib/utils";
 import toast from "react-hot-toast";
 import VerifiedBadge from "@/components/VerifiedBadge";
+import {
+  LISTING_STATUS_BADGE_CLASSES,
+  LISTING_STATUS_LABELS,
+  LISTING_TYPE_LABELS,
+  ListingPriceChange,
+  PROPERTY_TYPE_LABELS,
+  fetchListingPriceHistory,
+  formatArea,
+  formatAvailability,
+  formatMinLease,
+  getMonthlyRent,
+  getPriceReductionPercent,
+  getPriceSuffix,
+  isListingStatus,
+  isListingType,
+  isPropertyType,
+  isRentPeriod,
+} from "@/lib/listings";
+import { fetchFavoriteCounts, fetchFavoriteIds } from "@/lib/favorites";
+import { trackListingEvent } from "@/lib/analytics";
+import FavoriteButton from "@/components/FavoriteButton";
+import PriceHistory from "@/components/PriceHistory";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { convertAmount, formatMoney } from "@/lib/currency";
+import AreaContextCard from "@/components/AreaContextCard";
+import { AMENITY_CATEGORY_LABELS, Amenity, fetchListingAmenityDetails, groupAmenitiesByCategory } from "@/lib/amenities";
+import { ListingAttachment, fetchListingAttachments, getAttachmentDownloadUrl } from "@/lib/listingAttachments";
+import { formatBytes } from "@/lib/storageCleanup";
+import { fetchListingBrochure, isBrochureLocale } from "@/lib/listingBrochure";
+import {
+  RECOMMENDATION_KINDS,
+  RECOMMENDATION_KIND_LABELS,
+  RecommendationKind,
+  RecommendedListing,
+  fetchListingRecommendations,
+} from "@/lib/listingRecommendations";
+import {
+  AREA_JOURNAL_CURRENCY,
+  AreaJournalSnapshot,
+  fetchAreaJournalSnapshot,
+} from "@/lib/areaJournals";
+import SlippyMap from "@/components/SlippyMap";
+import ViewingScheduler from "@/components/ViewingScheduler";
+import OffersPanel from "@/components/OffersPanel";
+import MortgageCalculator from "@/components/MortgageCalculator";
+import { LatLng } from "@/lib/geo";
 
 interface ListingData {
   id: number;
   user_id: string;
   title: string;
   description: string | null;
+  listing_type: string;
   price: number | null;
+  previous_price: number | null;
+  currency: string;
+  rent_period: string | null;
+  deposit: number | null;
+  min_lease_months: number | null;
+  furnished: boolean | null;
+  available_from: string | null;
   city: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  property_type: string | null;
+  area_sqm: number | null;
+  address: string | null;
+  neighbourhood: string | null;
+  area_slug: string | null;
+  latitude: number | null;
+  longitude: number | null;
   image_urls: string[] | null;
+  image_captions: string[] | null;
+  status: string;
   created_at: string;
 }
 
@@ -44,6 +111,8 @@ export default function ListingDetailPage() {
   const params = useParams();
   const router = useRouter();
   const { isAuthenticated, isLoading, loadingSession, user } = useAuth();
+  const { displayCurrency, rates, formatPrice: formatDisplayPrice } = useCurrency();
+  const { locale } = useLanguage();
   const listingId = params.id as string;
 
   const [listing, setListing] = useState<ListingData | null>(null);
@@ -52,6 +121,19 @@ export default function ListingDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [isContacting, setIsContacting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isPreparingBrochure, setIsPreparingBrochure] = useState(false);
+  const [isFavorite, setIsFavorite] = useState(false);
+  const [favoriteCount, setFavoriteCount] = useState<number | null>(null);
+  const [priceHistory, setPriceHistory] = useState<ListingPriceChange[]>([]);
+  // Location map view (null = centred on the listing's pin)
+  const [mapView, setMapView] = useState<{ center: LatLng; zoom: number } | null>(null);
+  const [area, setArea] = useState<AreaJournalSnapshot | null>(null);
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+  const [attachments, setAttachments] = useState<ListingAttachment[]>([]);
+  const [recommendations, setRecommendations] = useState<Record<RecommendationKind, RecommendedListing[]>>({
+    similar: [],
+    also_viewed: [],
+  });
 
   // Load listing and owner data
   useEffect(() => {
@@ -65,7 +147,7 @@ export default function ListingDetailPage() {
         // Fetch listing by ID
         const { data: listingData, error: listingError } = await supabase
           .from('listings')
-          .select('id, user_id, title, description, price, city, image_urls, created_at')
+          .select('id, user_id, title, description, listing_type, price, previous_price, currency, rent_period, deposit, min_lease_months, furnished, available_from, city, bedrooms, bathrooms, property_type, area_sqm, address, neighbourhood, area_slug, latitude, longitude, image_urls, image_captions, status, created_at')
           .eq('id', listingId)
           .single();
 
@@ -112,6 +194,123 @@ export default function ListingDetailPage() {
     loadListing();
   }, [listingId]);
 
+  // Load favorite state (viewer) and favorite count (owner/admin only)
+  useEffect(() => {
+    if (!listing || !user) return;
+
+    const loadFavorites = async () => {
+      const [{ favoriteIds, error: favoritesError }, { counts, error: countsError }] = await Promise.all([
+        fetchFavoriteIds(user.id, [listing.id]),
+        fetchFavoriteCounts([listing.id]),
+      ]);
+
+      if (favoritesError) {
+        console.error("[ListingDetail] Error loading favorite state:", favoritesError);
+      } else {
+        setIsFavorite(favoriteIds.has(listing.id));
+      }
+
+      if (countsError) {
+        console.error("[ListingDetail] Error loading favorite count:", countsError);
+      } else {
+        setFavoriteCount(counts.get(listing.id) ?? null);
+      }
+    };
+
+    loadFavorites();
+  }, [listing, user]);
+
+  // Record a view (deduplicated per user per day; owners are skipped server-side)
+  const viewedListingId = listing?.id;
+  const viewerId = user?.id;
+  useEffect(() => {
+    if (!viewedListingId || !viewerId) return;
+    trackListingEvent(viewedListingId, 'view');
+  }, [viewedListingId, viewerId]);
+
+  // Load price history
+  useEffect(() => {
+    if (!listing) return;
+
+    const loadPriceHistory = async () => {
+      const { history, error: historyError } = await fetchListingPriceHistory(listing.id);
+      if (historyError) {
+        console.error("[ListingDetail] Error loading price history:", historyError);
+        return;
+      }
+      setPriceHistory(history);
+    };
+
+    loadPriceHistory();
+  }, [listing]);
+
+  // Load amenities
+  useEffect(() => {
+    if (!listing) return;
+
+    const loadAmenities = async () => {
+      const { amenities: listingAmenities, error: amenitiesError } = await fetchListingAmenityDetails(listing.id);
+      if (amenitiesError) {
+        console.error("[ListingDetail] Error loading amenities:", amenitiesError);
+        return;
+      }
+      setAmenities(listingAmenities);
+    };
+
+    loadAmenities();
+  }, [listing]);
+
+  // Load floor plans, videos and documents
+  useEffect(() => {
+    if (!listing) return;
+
+    const loadAttachments = async () => {
+      const { attachments: listingAttachments, error: attachmentsError } = await fetchListingAttachments(listing.id);
+      if (attachmentsError) {
+        console.error("[ListingDetail] Error loading attachments:", attachmentsError);
+        return;
+      }
+      setAttachments(listingAttachments);
+    };
+
+    loadAttachments();
+  }, [listing]);
+
+  // Load similar / also-viewed listings (ranked and cached server-side)
+  useEffect(() => {
+    if (!listing) return;
+
+    const loadRecommendations = async () => {
+      const { recommendations: ranked, error: recommendationsError } = await fetchListingRecommendations(listing.id);
+      if (recommendationsError) {
+        console.error("[ListingDetail] Error loading recommendations:", recommendationsError);
+        return;
+      }
+      setRecommendations(ranked);
+    };
+
+    loadRecommendations();
+  }, [listing]);
+
+  // Load the linked area journal (context only; the page works without it)
+  useEffect(() => {
+    if (!listing?.area_slug) {
+      setArea(null);
+      return;
+    }
+
+    const loadArea = async () => {
+      const { snapshot, error: areaError } = await fetchAreaJournalSnapshot(listing.area_slug as string);
+      if (areaError) {
+        console.error("[ListingDetail] Error loading area journal:", areaError);
+        return;
+      }
+      setArea(snapshot);
+    };
+
+    loadArea();
+  }, [listing]);
+
   // Handle delete listing
   const handleDeleteListing = async () => {
     if (!user || !canDelete) {
@@ -119,7 +318,9 @@ export default function ListingDetailPage() {
       return;
     }
 
-    const confirmed = window.confirm("Are you sure you want to delete this listing?");
+    const confirmed = window.confirm(
+      "Are you sure you want to delete this listing? To keep its history, mark it as Sold or Rented from the edit page instead."
+    );
     if (!confirmed) return;
 
     setIsDeleting(true);
@@ -152,6 +353,50 @@ export default function ListingDetailPage() {
     }
   };
 
+  // Open the printable brochure (in the viewer's language) in a new tab
+  const handlePrintBrochure = async () => {
+    if (!listing) return;
+
+    // Open the tab right away; pop-up blockers reject tabs opened after an await
+    const brochureWindow = window.open("", "_blank");
+    setIsPreparingBrochure(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        brochureWindow?.close();
+        toast.error("Your session has expired. Please log in again.");
+        return;
+      }
+
+      const { html, error: brochureError } = await fetchListingBrochure(
+        listing.id,
+        isBrochureLocale(locale) ? locale : "en",
+        session.access_token
+      );
+      if (brochureError || !html) {
+        brochureWindow?.close();
+        console.error("[ListingDetail] Error creating brochure:", brochureError);
+        toast.error(brochureError || "Failed to create brochure");
+        return;
+      }
+
+      const brochureUrl = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+      if (brochureWindow) {
+        brochureWindow.location.href = brochureUrl;
+      } else {
+        window.location.href = brochureUrl;
+      }
+      // Long enough for the tab to load it
+      setTimeout(() => URL.revokeObjectURL(brochureUrl), 60000);
+    } catch (error: any) {
+      brochureWindow?.close();
+      console.error("[ListingDetail] Exception creating brochure:", error);
+      toast.error("Failed to create brochure");
+    } finally {
+      setIsPreparingBrochure(false);
+    }
+  };
+
   // Handle contact owner
   const handleContactOwner = async () => {
     if (!user || !isAuthenticated) {
@@ -172,6 +417,7 @@ export default function ListingDetailPage() {
     }
 
     setIsContacting(true);
+    trackListingEvent(listing.id, 'contact_click');
 
     try {
       // Find or create conversation
@@ -196,15 +442,10 @@ export default function ListingDetailPage() {
     }
   };
 
-  // Format price
+  // Format price in the viewer's display currency
   const formatPrice = (price: number | null): string => {
-    if (!price) return "Price not specified";
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(price);
+    if (!price || !listing) return "Price not specified";
+    return formatDisplayPrice(price, listing.currency) + getPriceSuffix(listing.listing_type, listing.rent_period);
   };
 
   // Get owner initials
@@ -279,6 +520,56 @@ export default function ListingDetailPage() {
   const canDelete = isOwner || isAdmin;
   const canContact = isAuthenticated && !isOwner;
 
+  // Key facts (only the attributes the owner filled in)
+  const priceReducedPercent = getPriceReductionPercent(listing.price, listing.previous_price);
+  // History is shown in the listing's own currency; a currency switch starts a new segment
+  const lastOtherCurrencyIndex = priceHistory.map((change) => change.currency !== listing.currency).lastIndexOf(true);
+  const currentCurrencyHistory = priceHistory.slice(lastOtherCurrencyIndex + 1);
+
+  const pin: LatLng | null = listing.latitude != null && listing.longitude != null
+    ? { lat: listing.latitude, lng: listing.longitude }
+    : null;
+
+  const isRental = isListingType(listing.listing_type) && listing.listing_type === 'rent';
+
+  // Journal ranges are in USD (rents per month)
+  const priceUsd = listing.price != null
+    ? convertAmount(
+        isRental && isRentPeriod(listing.rent_period)
+          ? getMonthlyRent(Number(listing.price), listing.rent_period)
+          : Number(listing.price),
+        listing.currency,
+        AREA_JOURNAL_CURRENCY,
+        new Map(rates.map((rate) => [rate.currency, rate.rate_per_usd]))
+      )
+    : null;
+
+  const keyFacts: { icon: string; label: string; value: string }[] = [];
+  if (isPropertyType(listing.property_type)) {
+    keyFacts.push({ icon: '🏠', label: 'Type', value: PROPERTY_TYPE_LABELS[listing.property_type] });
+  }
+  if (listing.bedrooms != null) {
+    keyFacts.push({ icon: '🛏️', label: 'Bedrooms', value: listing.bedrooms.toString() });
+  }
+  if (listing.bathrooms != null) {
+    keyFacts.push({ icon: '🚿', label: 'Bathrooms', value: listing.bathrooms.toString() });
+  }
+  if (listing.area_sqm != null) {
+    keyFacts.push({ icon: '📐', label: 'Area', value: formatArea(Number(listing.area_sqm)) });
+  }
+  if (isRental) {
+    if (listing.deposit != null) {
+      keyFacts.push({ icon: '💰', label: 'Deposit', value: formatMoney(Number(listing.deposit), listing.currency) });
+    }
+    if (listing.min_lease_months != null) {
+      keyFacts.push({ icon: '📝', label: 'Minimum lease', value: formatMinLease(listing.min_lease_months) });
+    }
+    if (listing.furnished != null) {
+      keyFacts.push({ icon: '🛋️', label: 'Furnishing', value: listing.furnished ? 'Furnished' : 'Unfurnished' });
+    }
+    keyFacts.push({ icon: '📅', label: 'Availability', value: formatAvailability(listing.available_from) });
+  }
+
   return (
     <main className="min-h-screen">
       <Navbar />
@@ -308,6 +599,9 @@ export default function ListingDetailPage() {
             <ListingGallery
               images={listing.image_urls && listing.image_urls.length > 0 ? listing.image_urls : []}
               title={listing.title}
+              captions={listing.image_captions || []}
+              floorPlans={attachments.filter((attachment) => attachment.kind === 'floor_plan')}
+              videos={attachments.filter((attachment) => attachment.kind === 'video')}
             />
           </div>
 
@@ -344,25 +638,130 @@ export default function ListingDetailPage() {
                     </button>
                   </div>
                 )}
-                <h1 className="font-orbitron text-3xl sm:text-4xl font-bold text-gray-900 mb-4">
-                  {listing.title}
-                </h1>
+                {isListingType(listing.listing_type) && (
+                  <span className={`inline-block px-3 py-1 mb-3 mr-2 text-xs font-bold rounded-full uppercase ${
+                    isRental ? 'bg-blue-600 text-white' : 'bg-gray-900/80 text-white'
+                  }`}>
+                    {LISTING_TYPE_LABELS[listing.listing_type]}
+                  </span>
+                )}
+                {isListingStatus(listing.status) && listing.status !== 'active' && (
+                  <span className={`inline-block px-3 py-1 mb-3 text-xs font-bold rounded-full uppercase ${LISTING_STATUS_BADGE_CLASSES[listing.status]}`}>
+                    {LISTING_STATUS_LABELS[listing.status]}
+                  </span>
+                )}
+                <div className="flex items-start gap-3 mb-4 pr-12">
+                  <h1 className="font-orbitron text-3xl sm:text-4xl font-bold text-gray-900 flex-1">
+                    {listing.title}
+                  </h1>
+                  {user && !isOwner && (
+                    <FavoriteButton
+                      listingId={listing.id}
+                      isFavorite={isFavorite}
+                      onChange={(_, favorite) => setIsFavorite(favorite)}
+                      size="md"
+                      className="flex-shrink-0"
+                    />
+                  )}
+                </div>
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
-                  <div className="text-3xl sm:text-4xl font-bold text-gold-dark">
-                    {formatPrice(listing.price)}
+                  <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                    <div className="text-3xl sm:text-4xl font-bold text-gold-dark">
+                      {formatPrice(listing.price)}
+                    </div>
+                    {listing.price && listing.currency !== displayCurrency && (
+                      <span className="text-sm text-gray-500" title="Asking price in the listing's currency">
+                        ({formatMoney(listing.price, listing.currency)}{getPriceSuffix(listing.listing_type, listing.rent_period)})
+                      </span>
+                    )}
+                    {priceReducedPercent !== null && (
+                      <>
+                        <span className="text-lg text-gray-400 line-through">
+                          {formatPrice(listing.previous_price)}
+                        </span>
+                        <span className="px-3 py-1 bg-green-100 text-green-800 text-sm font-bold rounded-full">
+                          ↓ Price reduced {priceReducedPercent}%
+                        </span>
+                      </>
+                    )}
                   </div>
-                  {listing.city && (
+                  {(listing.city || listing.neighbourhood) && (
                     <div className="flex items-center gap-2 text-gray-600">
                       <span className="text-2xl">📍</span>
-                      <span className="text-lg font-semibold">{listing.city}</span>
+                      <span className="text-lg font-semibold">
+                        {[listing.neighbourhood, listing.city].filter(Boolean).join(', ')}
+                      </span>
                     </div>
                   )}
                 </div>
                 <div className="text-sm text-gray-500">
                   Listed on {formatDate(listing.created_at)}
+                  {favoriteCount !== null && (
+                    <span>
+                      {' · '}❤️ Saved by {favoriteCount} {favoriteCount === 1 ? 'person' : 'people'}
+                    </span>
+                  )}
+                  {canDelete && (
+                    <>
+                      {' · '}
+                      <Link href={`/listings/${listing.id}/edit`} className="text-gold-dark hover:text-gold font-semibold">
+                        Edit or change status
+                      </Link>
+                      {' · '}
+                      <Link href={`/listings/${listing.id}/analytics`} className="text-gold-dark hover:text-gold font-semibold">
+                        View analytics
+                      </Link>
+                    </>
+                  )}
                 </div>
               </div>
 
+              {/* Key Facts */}
+              {keyFacts.length > 0 && (
+                <div className="glass-dark rounded-2xl p-6">
+                  <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                    Key Facts
+                  </h2>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    {keyFacts.map((fact) => (
+                      <div key={fact.label} className="bg-gold/10 rounded-xl p-3 text-center">
+                        <div className="text-2xl mb-1">{fact.icon}</div>
+                        <div className="text-lg font-bold text-gray-900">{fact.value}</div>
+                        <div className="text-xs text-gray-500">{fact.label}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Amenities */}
+              {amenities.length > 0 && (
+                <div className="glass-dark rounded-2xl p-6">
+                  <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                    Amenities & Features
+                  </h2>
+                  <div className="space-y-3">
+                    {groupAmenitiesByCategory(amenities).map((group) => (
+                      <div key={group.category}>
+                        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">
+                          {AMENITY_CATEGORY_LABELS[group.category]}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {group.amenities.map((amenity) => (
+                            <span
+                              key={amenity.slug}
+                              className="px-3 py-1 rounded-full text-sm font-semibold bg-gold/10 border border-gold/30 text-gray-800"
+                            >
+                              ✓ {amenity.label}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Description */}
               {listing.description && (
                 <div className="glass-dark rounded-2xl p-6">
@@ -374,6 +773,128 @@ export default function ListingDetailPage() {
                   </p>
                 </div>
               )}
+
+              {/* Documents (brochures, PDFs) */}
+              {attachments.some((attachment) => attachment.kind === 'document') && (
+                <div className="glass-dark rounded-2xl p-6">
+                  <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                    Documents
+                  </h2>
+                  <ul className="space-y-2">
+                    {attachments
+                      .filter((attachment) => attachment.kind === 'document')
+                      .map((document) => (
+                        <li
+                          key={document.id}
+                          className="flex items-center gap-3 p-3 rounded-xl bg-gold/10 border border-gold/30"
+                        >
+                          <span className="text-2xl">📄</span>
+                          <span className="flex-1 min-w-0">
+                            <span className="block font-semibold text-gray-900 truncate">
+                              {document.title || document.file_name}
+                            </span>
+                            <span className="block text-xs text-gray-500">PDF · {formatBytes(document.size_bytes)}</span>
+                          </span>
+                          <a
+                            href={getAttachmentDownloadUrl(document)}
+                            className="px-4 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 text-sm font-bold rounded-xl hover:shadow-lg transition-all"
+                          >
+                            Download
+                          </a>
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Location */}
+              {(pin || listing.address) && (
+                <div className="glass-dark rounded-2xl p-6">
+                  <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                    Location
+                  </h2>
+                  {listing.address && (
+                    <p className="text-gray-700 mb-4">{listing.address}</p>
+                  )}
+                  {pin && (
+                    <SlippyMap
+                      center={mapView?.center ?? pin}
+                      zoom={mapView?.zoom ?? 15}
+                      onViewChange={(view) => setMapView({ center: view.center, zoom: view.zoom })}
+                      className="h-72"
+                      renderOverlay={(toScreen) => {
+                        const point = toScreen(pin);
+                        return (
+                          <div
+                            className="absolute z-10 -translate-x-1/2 -translate-y-full text-3xl pointer-events-none drop-shadow-lg"
+                            style={{ left: point.x, top: point.y }}
+                          >
+                            📍
+                          </div>
+                        );
+                      }}
+                    />
+                  )}
+                </div>
+              )}
+
+              {/* Area Context */}
+              {area && (
+                <AreaContextCard
+                  area={area}
+                  listingType={isRental ? 'rent' : 'sale'}
+                  priceUsd={priceUsd}
+                  areaSqm={listing.area_sqm != null ? Number(listing.area_sqm) : null}
+                  bedrooms={listing.bedrooms}
+                />
+              )}
+
+              {/* Mortgage & yield (sales only) */}
+              {!isRental && listing.price != null && Number(listing.price) > 0 && (
+                <MortgageCalculator
+                  price={Number(listing.price)}
+                  currency={listing.currency}
+                  priceUsd={priceUsd}
+                  bedrooms={listing.bedrooms}
+                  area={area}
+                />
+              )}
+
+              {/* Offers */}
+              {user && (
+                <OffersPanel
+                  listingId={listing.id}
+                  ownerId={listing.user_id}
+                  userId={user.id}
+                  isOwner={isOwner}
+                  isOpen={listing.status === 'active' || listing.status === 'under_offer'}
+                  listingCurrency={listing.currency}
+                  listingPrice={listing.price != null ? Number(listing.price) : null}
+                />
+              )}
+
+              {/* Viewing Appointments */}
+              {user && (
+                <ViewingScheduler
+                  listingId={listing.id}
+                  userId={user.id}
+                  isOwner={isOwner}
+                  isOpen={listing.status === 'active' || listing.status === 'under_offer'}
+                />
+              )}
+
+              {/* Price History (only once the price has changed) */}
+              {currentCurrencyHistory.some((change) => change.old_price != null) && (
+                <div className="glass-dark rounded-2xl p-6">
+                  <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                    Price History
+                  </h2>
+                  <PriceHistory
+                    history={currentCurrencyHistory}
+                    formatPrice={(price) => formatMoney(price, listing.currency)}
+                  />
+                </div>
+              )}
             </div>
 
             {/* Sidebar - Owner Info & Contact */}
@@ -455,9 +976,58 @@ export default function ListingDetailPage() {
                     Log in to Contact
                   </Link>
                 )}
+
+                {/* Printable brochure (for walk-in clients) */}
+                {isAuthenticated && (
+                  <button
+                    onClick={handlePrintBrochure}
+                    disabled={isPreparingBrochure}
+                    className="w-full mt-3 px-6 py-3 rounded-xl font-bold border-2 border-gold/40 text-gray-800 hover:border-gold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isPreparingBrochure ? "Preparing brochure..." : "🖨️ Print Brochure"}
+                  </button>
+                )}
               </div>
             </div>
           </div>
+
+          {/* Recommendations */}
+          {RECOMMENDATION_KINDS.filter((kind) => recommendations[kind].length > 0).map((kind) => (
+            <section key={kind} className="glass-dark rounded-2xl p-6 mt-6">
+              <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                {RECOMMENDATION_KIND_LABELS[kind]}
+              </h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {recommendations[kind].map((recommended) => {
+                  const suffix = getPriceSuffix(recommended.listing_type, recommended.rent_period);
+                  return (
+                    <PropertyCard
+                      key={recommended.id}
+                      listingId={recommended.id}
+                      listingUserId={recommended.user_id}
+                      title={recommended.title}
+                      location={[recommended.neighbourhood, recommended.city].filter(Boolean).join(", ")}
+                      price={recommended.price != null ? formatDisplayPrice(recommended.price, recommended.currency) + suffix : "Price on request"}
+                      previousPrice={recommended.previous_price != null ? formatDisplayPrice(recommended.previous_price, recommended.currency) + suffix : undefined}
+                      priceReducedPercent={getPriceReductionPercent(recommended.price, recommended.previous_price)}
+                      description={recommended.description || ""}
+                      imageUrl={recommended.image_urls?.[0]}
+                      bedrooms={recommended.bedrooms ?? undefined}
+                      bathrooms={recommended.bathrooms ?? undefined}
+                      type={recommended.property_type ?? undefined}
+                      area={recommended.area_sqm ?? undefined}
+                      status={isListingStatus(recommended.status) ? recommended.status : undefined}
+                      listingType={isListingType(recommended.listing_type) ? recommended.listing_type : undefined}
+                      furnished={recommended.furnished}
+                      availableFrom={recommended.available_from}
+                      currentUserId={user?.id}
+                      currentUserRole={user?.role}
+                    />
+                  );
+                })}
+              </div>
+            </section>
+          ))}
         </div>
       </div>
       <Footer />
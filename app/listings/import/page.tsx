@@ -0,0 +1,491 @@
+"use client";
+
+/**
+ * Import Listings Page
+ * Route: /listings/import
+ * Bulk-create or update listings from a CSV file or XML property feed:
+ * upload -> map columns -> preview validation errors -> import -> report
+ *
+ * SECURITY: Protected route - requires authentication
+ * Frontend check for is_verified OR role='admin' (UX only)
+ * Real security enforced by RLS policies on listings
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import toast from "react-hot-toast";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  ImportColumnMapping,
+  ImportField,
+  ImportFormat,
+  ImportReport,
+  ImportRowFailure,
+  ImportTable,
+  ListingImportRun,
+  MAX_IMPORT_ROWS,
+  REQUIRED_IMPORT_FIELDS,
+  buildImportFailuresCsv,
+  fetchListingImports,
+  getMappingErrors,
+  parseCsv,
+  parseXmlFeed,
+  runListingImport,
+  suggestColumnMapping,
+  validateImportRows,
+} from "@/lib/listingImport";
+
+// Rows shown in the preview table
+const PREVIEW_ROWS = 5;
+
+export default function ImportListingsPage() {
+  const { isAuthenticated, isLoading, loadingSession, user } = useAuth();
+  const { rates, displayCurrency } = useCurrency();
+  const router = useRouter();
+
+  const [hasRedirected, setHasRedirected] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [defaultCurrency, setDefaultCurrency] = useState(displayCurrency);
+  const [asDraft, setAsDraft] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [pastImports, setPastImports] = useState<ListingImportRun[]>([]);
+
+  useEffect(() => {
+    // Redirect to login if not authenticated
+    if (!loadingSession && !isLoading && !isAuthenticated && !hasRedirected) {
+      setHasRedirected(true);
+      router.push("/login");
+    }
+  }, [isAuthenticated, isLoading, loadingSession, router, hasRedirected]);
+
+  // Check if user is verified or admin
+  const canCreateListing = user && (user.is_verified === true || user.role === 'admin');
+
+  useEffect(() => {
+    // Redirect to listings if user cannot create listings
+    if (!loadingSession && !isLoading && isAuthenticated && !canCreateListing && !hasRedirected) {
+      toast.error("You must be verified to import listings. Please verify your account first.");
+      router.push("/listings");
+    }
+  }, [canCreateListing, isAuthenticated, isLoading, loadingSession, router, hasRedirected, user]);
+
+  const loadPastImports = async (userId: string) => {
+    const { imports, error } = await fetchListingImports(userId);
+    if (error) {
+      console.error("[ImportListings] Error loading past imports:", error);
+      return;
+    }
+    setPastImports(imports);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    loadPastImports(user.id);
+  }, [user]);
+
+  const knownCurrencies = useMemo(() => new Set(rates.map((rate) => rate.currency)), [rates]);
+
+  const validation = useMemo(() => {
+    if (!table) return null;
+    const mappingErrors = getMappingErrors(mapping);
+    if (mappingErrors.length > 0) {
+      return { mappingErrors, rows: [], failures: [] as ImportRowFailure[] };
+    }
+    return { mappingErrors, ...validateImportRows(table, mapping, defaultCurrency, knownCurrencies) };
+  }, [table, mapping, defaultCurrency, knownCurrencies]);
+
+  const resetImport = () => {
+    setTable(null);
+    setMapping({});
+    setFileName("");
+    setReport(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const fileFormat: ImportFormat = /\.xml$/i.test(file.name) || file.type.includes("xml") ? "xml" : "csv";
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error("[ImportListings] Error reading file:", error);
+      toast.error(`Could not read ${file.name}`);
+      return;
+    }
+
+    const { table: parsed, error } = fileFormat === "xml" ? parseXmlFeed(text) : parseCsv(text);
+    if (error || !parsed) {
+      toast.error(error || "Could not read the file");
+      return;
+    }
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      toast.error(`Imports are limited to ${MAX_IMPORT_ROWS} listings per file (this file has ${parsed.rows.length})`);
+      return;
+    }
+
+    setFileName(file.name);
+    setFormat(fileFormat);
+    setTable(parsed);
+    setMapping(suggestColumnMapping(parsed.headers));
+    setReport(null);
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === "") {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!user || !validation || validation.rows.length === 0) return;
+
+    const confirmed = window.confirm(
+      `Import ${validation.rows.length} listing(s)?${validation.failures.length > 0 ? ` ${validation.failures.length} row(s) with errors will be skipped.` : ''}`
+    );
+    if (!confirmed) return;
+
+    setIsImporting(true);
+    try {
+      const { report: importReport, error } = await runListingImport(user.id, validation.rows, {
+        fileName,
+        format,
+        asDraft,
+        defaultCurrency,
+        validationFailures: validation.failures,
+      });
+
+      if (error) {
+        console.error("[ImportListings] Error importing listings:", error);
+        toast.error(error.message || "Import failed");
+        return;
+      }
+
+      setReport(importReport);
+      setTable(null);
+      toast.success(`Created ${importReport.created}, updated ${importReport.updated}`);
+      loadPastImports(user.id);
+    } catch (error: any) {
+      console.error("[ImportListings] Exception importing listings:", error);
+      toast.error(error?.message || "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const downloadFailures = (failures: ImportRowFailure[], name: string) => {
+    const blob = new Blob([buildImportFailuresCsv(failures)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${name.replace(/\.[^.]+$/, "")}-errors.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading || loadingSession) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gold mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated || !canCreateListing) {
+    return null; // Will redirect via useEffect
+  }
+
+  const mappedFields = IMPORT_FIELDS.filter((field) => mapping[field] !== undefined);
+
+  return (
+    <main className="min-h-screen">
+      <Navbar />
+      <div className="pt-24 pb-20 px-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="text-center">
+            <h1 className="font-orbitron text-3xl sm:text-4xl font-bold mb-2 text-gold-dark">
+              Import Listings
+            </h1>
+            <p className="text-gray-600">
+              Upload a CSV file or XML property feed. Rows with a Reference ID you&apos;ve imported before update that listing.
+            </p>
+          </div>
+
+          {/* Step 1: File */}
+          {!table && !report && (
+            <div className="glass-dark rounded-2xl p-6 sm:p-8 text-center">
+              <label className="inline-block px-6 py-3 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all cursor-pointer">
+                Choose CSV or XML file
+                <input type="file" accept=".csv,.xml,text/csv,application/xml,text/xml" onChange={handleFileChange} className="hidden" />
+              </label>
+              <p className="text-xs text-gray-500 mt-4">
+                Up to {MAX_IMPORT_ROWS} listings per file. Required: {REQUIRED_IMPORT_FIELDS.map((field) => IMPORT_FIELD_LABELS[field]).join(', ')}.
+                Photos aren&apos;t imported; add them from each listing&apos;s edit page.
+              </p>
+            </div>
+          )}
+
+          {/* Step 2: Mapping + preview */}
+          {table && validation && (
+            <>
+              <div className="glass-dark rounded-2xl p-6">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                  <h2 className="font-orbitron text-xl font-bold text-gray-900">
+                    Map Columns
+                  </h2>
+                  <span className="text-sm text-gray-600">
+                    {fileName} · {table.rows.length} row(s)
+                  </span>
+                </div>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  {IMPORT_FIELDS.map((field) => (
+                    <div key={field} className="flex items-center gap-2">
+                      <label htmlFor={`map_${field}`} className="w-36 text-sm font-semibold text-gray-700">
+                        {IMPORT_FIELD_LABELS[field]}
+                        {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-600"> *</span>}
+                      </label>
+                      <select
+                        id={`map_${field}`}
+                        value={mapping[field] ?? ""}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        className="flex-1 px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
+                      >
+                        <option value="">— Not imported —</option>
+                        {table.headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-4 items-center mt-4 pt-4 border-t border-gold/20 text-sm">
+                  <label htmlFor="default_currency" className="font-semibold text-gray-700">
+                    Currency when not given
+                  </label>
+                  <select
+                    id="default_currency"
+                    value={defaultCurrency}
+                    onChange={(e) => setDefaultCurrency(e.target.value)}
+                    className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  >
+                    {rates.map((rate) => (
+                      <option key={rate.currency} value={rate.currency}>
+                        {rate.currency}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <input type="checkbox" checked={asDraft} onChange={(e) => setAsDraft(e.target.checked)} />
+                    Create new listings as drafts
+                  </label>
+                </div>
+              </div>
+
+              <div className="glass-dark rounded-2xl p-6">
+                <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                  Preview
+                </h2>
+
+                {validation.mappingErrors.length > 0 ? (
+                  <ul className="text-sm text-red-700 list-disc pl-5">
+                    {validation.mappingErrors.map((message) => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-700 mb-3">
+                      <span className="font-semibold text-green-700">{validation.rows.length} ready</span>
+                      {' · '}
+                      <span className={`font-semibold ${validation.failures.length > 0 ? 'text-red-700' : 'text-gray-700'}`}>
+                        {validation.failures.length} with errors
+                      </span>
+                    </p>
+
+                    {validation.rows.length > 0 && (
+                      <div className="overflow-x-auto mb-4">
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-left text-gray-500 border-b border-gold/20">
+                              <th className="py-1 pr-3 font-semibold">Row</th>
+                              <th className="py-1 pr-3 font-semibold">{IMPORT_FIELD_LABELS.external_ref}</th>
+                              {mappedFields.filter((field) => field !== 'external_ref').map((field) => (
+                                <th key={field} className="py-1 pr-3 font-semibold whitespace-nowrap">{IMPORT_FIELD_LABELS[field]}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {validation.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                              <tr key={row.row} className="border-b border-gold/10 last:border-0">
+                                <td className="py-1 pr-3 text-gray-500">{row.row}</td>
+                                <td className="py-1 pr-3 text-gray-900">{row.external_ref}</td>
+                                {mappedFields.filter((field) => field !== 'external_ref').map((field) => {
+                                  const value = row.values[field as Exclude<ImportField, 'external_ref'>];
+                                  return (
+                                    <td key={field} className="py-1 pr-3 text-gray-700 max-w-[12rem] truncate">
+                                      {value == null || value === '' ? '—' : String(value)}
+                                    </td>
+                                  );
+                                })}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {validation.rows.length > PREVIEW_ROWS && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            …and {validation.rows.length - PREVIEW_ROWS} more
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {validation.failures.length > 0 && (
+                      <div className="mb-4">
+                        <h3 className="text-sm font-semibold text-red-700 mb-1">Rows that will be skipped</h3>
+                        <ul className="max-h-48 overflow-y-auto text-xs text-gray-700 bg-white/50 rounded-xl p-3 space-y-1">
+                          {validation.failures.map((failure) => (
+                            <li key={failure.row}>
+                              <span className="font-semibold">Row {failure.row}</span>
+                              {failure.external_ref && ` (${failure.external_ref})`}: {failure.errors.join('; ')}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={handleImport}
+                    disabled={isImporting || validation.rows.length === 0}
+                    className="px-6 py-3 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isImporting ? "Importing..." : `Import ${validation.rows.length} listing(s)`}
+                  </button>
+                  <button
+                    onClick={resetImport}
+                    disabled={isImporting}
+                    className="px-6 py-3 border-2 border-gold/40 text-gray-700 font-semibold rounded-xl hover:border-gold transition-all disabled:opacity-50"
+                  >
+                    Choose another file
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Step 3: Report */}
+          {report && (
+            <div className="glass-dark rounded-2xl p-6">
+              <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                Import Report
+              </h2>
+              <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+                <div>
+                  <div className="text-2xl font-bold text-green-700">{report.created}</div>
+                  <div className="text-sm text-gray-600">Created</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-blue-700">{report.updated}</div>
+                  <div className="text-sm text-gray-600">Updated</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-red-700">{report.failures.length}</div>
+                  <div className="text-sm text-gray-600">Failed</div>
+                </div>
+              </div>
+              {report.failures.length > 0 && (
+                <ul className="max-h-64 overflow-y-auto text-xs text-gray-700 bg-white/50 rounded-xl p-3 space-y-1 mb-4">
+                  {report.failures.map((failure) => (
+                    <li key={failure.row}>
+                      <span className="font-semibold">Row {failure.row}</span>
+                      {failure.external_ref && ` (${failure.external_ref})`}: {failure.errors.join('; ')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex flex-wrap gap-3">
+                {report.failures.length > 0 && (
+                  <button
+                    onClick={() => downloadFailures(report.failures, fileName)}
+                    className="px-6 py-2 border-2 border-gold/40 text-gray-700 font-semibold rounded-xl hover:border-gold transition-all"
+                  >
+                    Download errors (CSV)
+                  </button>
+                )}
+                <button
+                  onClick={resetImport}
+                  className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all"
+                >
+                  Import another file
+                </button>
+                <Link
+                  href="/listings"
+                  className="px-6 py-2 border-2 border-gold/40 text-gray-700 font-semibold rounded-xl hover:border-gold transition-all"
+                >
+                  View listings
+                </Link>
+              </div>
+            </div>
+          )}
+
+          {/* History */}
+          {pastImports.length > 0 && (
+            <div className="glass-dark rounded-2xl p-6">
+              <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                Recent Imports
+              </h2>
+              <ul className="space-y-2 text-sm">
+                {pastImports.map((run) => (
+                  <li key={run.id} className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-gray-800">
+                      <span className="font-semibold">{run.file_name}</span>
+                      <span className="text-gray-500"> · {new Date(run.created_at).toLocaleString()}</span>
+                    </span>
+                    <span className="text-gray-700">
+                      {run.created_count} created · {run.updated_count} updated · {run.failed_count} failed
+                      {run.failed_count > 0 && (
+                        <button
+                          onClick={() => downloadFailures(run.failures, run.file_name)}
+                          className="ml-2 text-gold-dark hover:text-gold font-semibold"
+                        >
+                          Errors
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </main>
+  );
+}
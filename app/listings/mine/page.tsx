@@ -0,0 +1,329 @@
+"use client";
+
+/**
+ * My Listings Page
+ * Route: /listings/mine
+ * The signed-in user's own listings (every status, including drafts),
+ * with CSV export and the syndication feed for other portals / websites
+ *
+ * SECURITY: Protected route - requires authentication
+ * Feed tokens are managed through RLS + rotate_listing_feed_token()
+ */
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabaseClient";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import toast from "react-hot-toast";
+import { formatMoney } from "@/lib/currency";
+import {
+  LISTING_STATUS_BADGE_CLASSES,
+  LISTING_STATUS_LABELS,
+  LISTING_TYPE_LABELS,
+  getPriceSuffix,
+  isListingStatus,
+  isListingType,
+} from "@/lib/listings";
+import {
+  EXPORTABLE_LISTING_COLUMNS,
+  ExportableListing,
+  FeedFormat,
+  assignListingExternalRefs,
+  buildFeedUrl,
+  buildListingsCsv,
+  fetchFeedToken,
+  revokeFeedToken,
+  rotateFeedToken,
+} from "@/lib/listingExport";
+
+export default function MyListingsPage() {
+  const { isAuthenticated, isLoading, loadingSession, user } = useAuth();
+  const router = useRouter();
+
+  const [hasRedirected, setHasRedirected] = useState(false);
+  const [listings, setListings] = useState<ExportableListing[]>([]);
+  const [isLoadingListings, setIsLoadingListings] = useState(true);
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [isUpdatingFeed, setIsUpdatingFeed] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    // Redirect to login if not authenticated
+    if (!loadingSession && !isLoading && !isAuthenticated && !hasRedirected) {
+      setHasRedirected(true);
+      router.push("/login");
+    }
+  }, [isAuthenticated, isLoading, loadingSession, router, hasRedirected]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadListings = async () => {
+      setIsLoadingListings(true);
+      const [{ data, error }, { token, error: tokenError }] = await Promise.all([
+        supabase
+          .from('listings')
+          .select(EXPORTABLE_LISTING_COLUMNS)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        fetchFeedToken(user.id),
+      ]);
+
+      if (error) {
+        console.error("[MyListings] Error loading listings:", error);
+        toast.error("Failed to load your listings");
+      } else {
+        setListings((data || []) as ExportableListing[]);
+      }
+
+      if (tokenError) {
+        console.error("[MyListings] Error loading feed token:", tokenError);
+      } else {
+        setFeedToken(token);
+      }
+      setIsLoadingListings(false);
+    };
+
+    loadListings();
+  }, [user]);
+
+  const handleExportCsv = async () => {
+    // References make the file re-importable as updates
+    let exported = listings;
+    if (listings.some((listing) => !listing.external_ref)) {
+      setIsExporting(true);
+      const { refs, error } = await assignListingExternalRefs();
+      setIsExporting(false);
+      if (error) {
+        console.error("[MyListings] Error assigning references:", error);
+        toast.error("Failed to prepare the export. Please try again.");
+        return;
+      }
+      exported = listings.map((listing) => (refs.has(listing.id) ? { ...listing, external_ref: refs.get(listing.id)! } : listing));
+      setListings(exported);
+    }
+
+    const csv = buildListingsCsv(exported, window.location.origin);
+    // BOM so spreadsheet apps read UTF-8 (Arabic, Chinese titles) correctly
+    const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `listings-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRotateToken = async () => {
+    if (feedToken) {
+      const confirmed = window.confirm("Generate a new feed URL? Portals using the current URL will stop receiving updates.");
+      if (!confirmed) return;
+    }
+
+    setIsUpdatingFeed(true);
+    try {
+      const { token, error } = await rotateFeedToken();
+      if (error) {
+        console.error("[MyListings] Error creating feed token:", error);
+        toast.error(error.message || "Failed to create feed URL");
+        return;
+      }
+      setFeedToken(token);
+      toast.success("Feed URL ready");
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleRevokeToken = async () => {
+    if (!user) return;
+
+    const confirmed = window.confirm("Turn off the feed? Portals using it will stop receiving your listings.");
+    if (!confirmed) return;
+
+    setIsUpdatingFeed(true);
+    try {
+      const { error } = await revokeFeedToken(user.id);
+      if (error) {
+        console.error("[MyListings] Error revoking feed token:", error);
+        toast.error(error.message || "Failed to turn off feed");
+        return;
+      }
+      setFeedToken(null);
+      toast.success("Feed turned off");
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Copied");
+    } catch {
+      toast.error("Couldn't copy; select the URL and copy it manually");
+    }
+  };
+
+  if (isLoading || loadingSession) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gold mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated || !user) {
+    return null; // Will redirect via useEffect
+  }
+
+  const activeCount = listings.filter((listing) => listing.status === 'active').length;
+
+  return (
+    <main className="min-h-screen">
+      <Navbar />
+      <div className="pt-24 pb-20 px-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="font-orbitron text-3xl sm:text-4xl font-bold text-gold-dark">
+                My Listings
+              </h1>
+              <p className="text-gray-600 mt-1">
+                {listings.length} listing(s), {activeCount} active
+              </p>
+            </div>
+            <button
+              onClick={handleExportCsv}
+              disabled={listings.length === 0 || isExporting}
+              className="px-6 py-2 border-2 border-gold/40 text-gray-700 font-semibold rounded-xl hover:border-gold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isExporting ? "Exporting..." : "Export CSV"}
+            </button>
+          </div>
+
+          {/* Listings */}
+          <div className="glass-dark rounded-2xl p-6">
+            {isLoadingListings ? (
+              <p className="text-gray-500">Loading...</p>
+            ) : listings.length === 0 ? (
+              <p className="text-gray-600">
+                You haven&apos;t posted any listings yet.{' '}
+                <Link href="/listings/new" className="text-gold-dark hover:text-gold font-semibold">
+                  Add a listing
+                </Link>
+              </p>
+            ) : (
+              <ul className="divide-y divide-gold/10">
+                {listings.map((listing) => (
+                  <li key={listing.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <Link href={`/listings/${listing.id}`} className="font-semibold text-gray-900 hover:text-gold-dark">
+                        {listing.title}
+                      </Link>
+                      <p className="text-sm text-gray-600">
+                        {[
+                          listing.city,
+                          isListingType(listing.listing_type) ? LISTING_TYPE_LABELS[listing.listing_type] : null,
+                          listing.price != null
+                            ? formatMoney(listing.price, listing.currency) + getPriceSuffix(listing.listing_type, listing.rent_period)
+                            : null,
+                          listing.external_ref ? `Ref ${listing.external_ref}` : null,
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm">
+                      {isListingStatus(listing.status) && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${LISTING_STATUS_BADGE_CLASSES[listing.status]}`}>
+                          {LISTING_STATUS_LABELS[listing.status]}
+                        </span>
+                      )}
+                      <Link href={`/listings/${listing.id}/edit`} className="text-gold-dark hover:text-gold font-semibold">
+                        Edit
+                      </Link>
+                      <Link href={`/listings/${listing.id}/analytics`} className="text-gold-dark hover:text-gold font-semibold">
+                        Analytics
+                      </Link>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Syndication feed */}
+          <div className="glass-dark rounded-2xl p-6">
+            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-2">
+              Syndication Feed
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Give this private URL to other portals or your agency website to publish your active listings automatically.
+              Anyone with the URL can read the feed, so regenerate it if it leaks.
+            </p>
+
+            {feedToken ? (
+              <div className="space-y-3">
+                {(['xml', 'json'] as FeedFormat[]).map((format) => {
+                  const url = buildFeedUrl(window.location.origin, feedToken, format);
+                  return (
+                    <div key={format}>
+                      <label className="block text-xs font-semibold text-gray-700 mb-1">
+                        {format.toUpperCase()} feed
+                      </label>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          readOnly
+                          value={url}
+                          onFocus={(e) => e.target.select()}
+                          className="flex-1 px-3 py-2 rounded-xl border-2 border-gold/40 text-xs font-mono bg-white/60"
+                        />
+                        <button
+                          onClick={() => handleCopy(url)}
+                          className="px-4 py-2 border-2 border-gold/40 text-gray-700 font-semibold rounded-xl hover:border-gold transition-all text-sm"
+                        >
+                          Copy
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+                <div className="flex flex-wrap gap-3 pt-2">
+                  <button
+                    onClick={handleRotateToken}
+                    disabled={isUpdatingFeed}
+                    className="px-4 py-2 border-2 border-gold/40 text-gray-700 font-semibold rounded-xl hover:border-gold transition-all text-sm disabled:opacity-50"
+                  >
+                    Regenerate URL
+                  </button>
+                  <button
+                    onClick={handleRevokeToken}
+                    disabled={isUpdatingFeed}
+                    className="px-4 py-2 text-red-600 hover:text-red-700 font-semibold text-sm disabled:opacity-50"
+                  >
+                    Turn off feed
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={handleRotateToken}
+                disabled={isUpdatingFeed}
+                className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUpdatingFeed ? "Creating..." : "Create feed URL"}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </main>
+  );
+}
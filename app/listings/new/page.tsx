@@ -17,30 +17,82 @@ import { supabase } from "@/lib/supabaseClient";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import toast from "react-hot-toast";
-
-interface ListingFormData {
+import { useCurrency } from "@/contexts/CurrencyContext";
+import MapPinPicker from "@/components/MapPinPicker";
+import RentalTermsFields from "@/components/RentalTermsFields";
+import AmenityPicker from "@/components/AmenityPicker";
+import ListingAttachmentsField from "@/components/ListingAttachmentsField";
+import { MAX_LISTING_IMAGE_BYTES, uploadListingImage } from "@/lib/listingImages";
+import { DUPLICATE_REASON_LABELS, checkListingDuplicates } from "@/lib/duplicates";
+import { LatLng } from "@/lib/geo";
+import { AreaJournalOption, fetchAreaJournalOptions } from "@/lib/areaJournals";
+import { Amenity, fetchAmenities, setListingAmenities } from "@/lib/amenities";
+import { PendingAttachment, uploadPendingAttachments } from "@/lib/listingAttachments";
+import {
+  EMPTY_RENTAL_TERMS,
+  LISTING_TYPES,
+  LISTING_TYPE_LABELS,
+  ListingType,
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  RentalTermsFormData,
+  isPropertyType,
+  parseOptionalInteger,
+  parseOptionalPositiveNumber,
+  parseRentalTerms,
+} from "@/lib/listings";
+
+interface ListingFormData extends RentalTermsFormData {
+  listing_type: ListingType;
   title: string;
   description: string;
   price: string;
   city: string;
+  bedrooms: string;
+  bathrooms: string;
+  property_type: string;
+  area_sqm: string;
+  currency: string;
+  address: string;
+  neighbourhood: string;
+  area_slug: string;
 }
 
 export default function NewListingPage() {
   const { isAuthenticated, isLoading, loadingSession, user } = useAuth();
+  const { displayCurrency, rates } = useCurrency();
   const router = useRouter();
   const [hasRedirected, setHasRedirected] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadingImages, setUploadingImages] = useState(false);
   const [formData, setFormData] = useState<ListingFormData>({
+    ...EMPTY_RENTAL_TERMS,
+    listing_type: "sale",
     title: "",
     description: "",
     price: "",
     city: "",
+    bedrooms: "",
+    bathrooms: "",
+    property_type: "",
+    area_sqm: "",
+    // Default to the currency the user browses in
+    currency: displayCurrency,
+    address: "",
+    neighbourhood: "",
+    area_slug: "",
   });
+  const [pin, setPin] = useState<LatLng | null>(null);
+  const [areaOptions, setAreaOptions] = useState<AreaJournalOption[]>([]);
+  const [amenityOptions, setAmenityOptions] = useState<Amenity[]>([]);
+  const [selectedAmenities, setSelectedAmenities] = useState<string[]>([]);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [selectedImages, setSelectedImages] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const imageInputRef = useRef<HTMLInputElement>(null);
+  // Set by the "Save as Draft" button right before it submits the form
+  const saveAsDraftRef = useRef(false);
 
   useEffect(() => {
     // Redirect to login if not authenticated
@@ -61,7 +113,34 @@ export default function NewListingPage() {
     }
   }, [canCreateListing, isAuthenticated, isLoading, loadingSession, router, hasRedirected, user]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  // Area journals the listing can be linked to
+  useEffect(() => {
+    const loadAreaOptions = async () => {
+      const { areas, error } = await fetchAreaJournalOptions();
+      if (error) {
+        console.error("[NewListing] Error loading areas:", error);
+        return;
+      }
+      setAreaOptions(areas);
+    };
+
+    loadAreaOptions();
+  }, []);
+
+  useEffect(() => {
+    const loadAmenityOptions = async () => {
+      const { amenities, error } = await fetchAmenities();
+      if (error) {
+        console.error("[NewListing] Error loading amenities:", error);
+        return;
+      }
+      setAmenityOptions(amenities);
+    };
+
+    loadAmenityOptions();
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
     // Clear error when user starts typing
@@ -94,9 +173,9 @@ export default function NewListingPage() {
         continue;
       }
 
-      // Validate file size (5MB max)
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error(`${file.name} is too large. Maximum size is 5MB`);
+      // Validate file size (photos over the upload limit are shrunk in the browser)
+      if (file.size > MAX_LISTING_IMAGE_BYTES) {
+        toast.error(`${file.name} is too large. Maximum size is 15MB`);
         continue;
       }
 
@@ -136,12 +215,29 @@ export default function NewListingPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const saveAsDraft = saveAsDraftRef.current;
+    saveAsDraftRef.current = false;
     
     // Validation
     const newErrors: Record<string, string> = {};
     if (!formData.title.trim()) {
       newErrors.title = "Title is required";
     }
+
+    const bedrooms = parseOptionalInteger(formData.bedrooms);
+    const bathrooms = parseOptionalInteger(formData.bathrooms);
+    const areaSqm = parseOptionalPositiveNumber(formData.area_sqm);
+    if (bedrooms === undefined) {
+      newErrors.bedrooms = "Bedrooms must be a whole number";
+    }
+    if (bathrooms === undefined) {
+      newErrors.bathrooms = "Bathrooms must be a whole number";
+    }
+    if (areaSqm === undefined) {
+      newErrors.area_sqm = "Area must be a positive number";
+    }
+    const { terms: rentalTerms, errors: rentalErrors } = parseRentalTerms(formData.listing_type, formData);
+    Object.assign(newErrors, rentalErrors);
     
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
@@ -168,56 +264,60 @@ export default function NewListingPage() {
       // Step 1: Upload images first (if any)
       if (selectedImages.length > 0) {
         const uploadedUrls: string[] = [];
-        const baseTimestamp = Date.now();
-
-        for (let i = 0; i < selectedImages.length; i++) {
-          const file = selectedImages[i];
-          
-          // Create unique storage path (unique per file to avoid collisions)
-          const fileExt = file.name.split('.').pop()?.toLowerCase() || 'jpg';
-          const safeFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_').slice(0, 50); // Limit filename length
-          // Use base timestamp + index + microsecond offset for uniqueness
-          const timestamp = baseTimestamp + i;
-          // Generate random string if crypto.randomUUID is available, else use Math.random
-          const randomId = typeof crypto !== 'undefined' && crypto.randomUUID 
-            ? crypto.randomUUID().slice(0, 8) 
-            : Math.random().toString(36).substring(2, 10);
-          const storagePath = `listings/${user.id}/${timestamp}-${randomId}-${safeFileName}`;
-
-          // Upload to Supabase Storage
-          const { error: uploadError } = await supabase.storage
-            .from('listing-images')
-            .upload(storagePath, file, {
-              cacheControl: '3600',
-              upsert: false,
-              contentType: file.type,
-            });
-
-          if (uploadError) {
-            console.error("[NewListing] Error uploading image:", uploadError);
-            toast.error(`Failed to upload ${file.name}. Please try again.`);
-            // Stop and don't create listing if upload fails
-            return;
-          }
 
-          // Get public URL
-          const { data: urlData } = supabase.storage
-            .from('listing-images')
-            .getPublicUrl(storagePath);
+        // Photos are processed server-side (EXIF stripped, WebP variants)
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) {
+          toast.error("Your session has expired. Please log in again.");
+          return;
+        }
+
+        for (const file of selectedImages) {
+          const { url, error: uploadError } = await uploadListingImage(file, session.access_token);
 
-          if (!urlData?.publicUrl) {
-            console.error("[NewListing] Failed to get public URL for:", storagePath);
-            toast.error(`Failed to get URL for ${file.name}. Please try again.`);
+          if (uploadError || !url) {
+            console.error("[NewListing] Error uploading image:", uploadError);
+            toast.error(`Failed to upload ${file.name}. Please try again.`);
+            // Stop and don't save the listing if upload fails
             return;
           }
 
-          uploadedUrls.push(urlData.publicUrl);
+          uploadedUrls.push(url);
         }
 
         imageUrls = uploadedUrls;
       }
 
-      // Step 2: Insert listing into database with image URLs
+      // Step 2: Warn if this looks like a listing that's already published
+      // (drafts are checked when they're published)
+      if (!saveAsDraft) {
+        const { candidates, error: duplicateError } = await checkListingDuplicates({
+          title: formData.title.trim(),
+          description: formData.description.trim() || null,
+          price: formData.price ? parseFloat(formData.price) : null,
+          currency: formData.currency,
+          city: formData.city.trim() || null,
+          imageUrls,
+        });
+
+        if (duplicateError) {
+          // Detection is advisory; don't block posting on it
+          console.error("[NewListing] Error checking for duplicates:", duplicateError);
+        } else if (candidates.length > 0) {
+          const summary = candidates
+            .slice(0, 3)
+            .map((candidate) =>
+              `• ${candidate.title}${candidate.city ? ` (${candidate.city})` : ''}: ${candidate.reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(', ')}`
+            )
+            .join('\n');
+          const confirmed = window.confirm(
+            `This looks like ${candidates.length === 1 ? 'a listing' : 'listings'} already on the site:\n\n${summary}\n\nDuplicate listings may be merged or removed by admins. Post anyway?`
+          );
+          if (!confirmed) return;
+        }
+      }
+
+      // Step 3: Insert listing into database with image URLs
       // RLS will enforce that only verified users or admins can insert
       const { data, error } = await supabase
         .from('listings')
@@ -225,9 +325,22 @@ export default function NewListingPage() {
           user_id: user.id,
           title: formData.title.trim(),
           description: formData.description.trim() || null,
+          listing_type: formData.listing_type,
           price: formData.price ? parseFloat(formData.price) : null,
+          currency: formData.currency,
+          ...rentalTerms,
           city: formData.city.trim() || null,
+          bedrooms: bedrooms ?? null,
+          bathrooms: bathrooms ?? null,
+          property_type: isPropertyType(formData.property_type) ? formData.property_type : null,
+          area_sqm: areaSqm ?? null,
+          address: formData.address.trim() || null,
+          neighbourhood: formData.neighbourhood.trim() || null,
+          area_slug: formData.area_slug || null,
+          latitude: pin?.lat ?? null,
+          longitude: pin?.lng ?? null,
           image_urls: imageUrls.length > 0 ? imageUrls : [],
+          status: saveAsDraft ? 'draft' : 'active',
         })
         .select()
         .single();
@@ -244,7 +357,31 @@ export default function NewListingPage() {
         return;
       }
 
+      // Step 4: Amenities (the listing is already saved, so only warn on failure)
+      if (selectedAmenities.length > 0) {
+        const { error: amenitiesError } = await setListingAmenities(data.id, selectedAmenities);
+        if (amenitiesError) {
+          console.error("[NewListing] Error saving amenities:", amenitiesError);
+          toast.error("Listing saved, but its amenities couldn't be saved. Edit the listing to add them.");
+        }
+      }
+
+      // Step 5: Floor plans, videos and documents (same: warn per failed file)
+      if (pendingAttachments.length > 0) {
+        const { failed } = await uploadPendingAttachments(data.id, user.id, pendingAttachments);
+        for (const failure of failed) {
+          console.error("[NewListing] Error uploading attachment:", failure.error);
+          toast.error(`Listing saved, but ${failure.fileName} couldn't be uploaded. Edit the listing to try again.`);
+        }
+      }
+
       // Success
+      // Drafts don't show up on /listings, so open the draft instead
+      if (saveAsDraft) {
+        toast.success("Draft saved");
+        router.push(`/listings/${data.id}`);
+        return;
+      }
       toast.success("Listing created successfully!");
       router.push("/listings");
     } catch (error: any) {
@@ -323,23 +460,73 @@ export default function NewListingPage() {
                 />
               </div>
 
+              {/* Sale / Rent */}
+              <div>
+                <span className="block text-sm font-semibold text-gray-700 mb-2">
+                  Listing Type
+                </span>
+                <div className="inline-flex rounded-xl overflow-hidden border-2 border-gold/40">
+                  {LISTING_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setFormData((prev) => ({ ...prev, listing_type: type }))}
+                      className={`px-5 py-2 font-semibold transition-all ${
+                        formData.listing_type === type ? 'bg-gold text-gray-900' : 'bg-white text-gray-700 hover:bg-gold/20'
+                      }`}
+                    >
+                      {LISTING_TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Price */}
               <div>
                 <label htmlFor="price" className="block text-sm font-semibold text-gray-700 mb-2">
-                  Price
+                  {formData.listing_type === 'rent' ? 'Rent' : 'Price'}
                 </label>
-                <input
-                  type="number"
-                  id="price"
-                  name="price"
-                  value={formData.price}
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    id="price"
+                    name="price"
+                    value={formData.price}
+                    onChange={handleChange}
+                    placeholder={formData.listing_type === 'rent' ? "e.g., 1200" : "e.g., 850000"}
+                    min="0"
+                    step="0.01"
+                    className="flex-1 min-w-0 px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  />
+                  <select
+                    id="currency"
+                    name="currency"
+                    value={formData.currency}
+                    onChange={handleChange}
+                    className="px-3 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none font-semibold"
+                    aria-label="Currency"
+                  >
+                    {!rates.some((rate) => rate.currency === formData.currency) && (
+                      <option value={formData.currency}>{formData.currency}</option>
+                    )}
+                    {rates.map((rate) => (
+                      <option key={rate.currency} value={rate.currency}>
+                        {rate.currency}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Lease Terms (rentals only) */}
+              {formData.listing_type === 'rent' && (
+                <RentalTermsFields
+                  value={formData}
+                  currency={formData.currency}
+                  errors={errors}
                   onChange={handleChange}
-                  placeholder="e.g., 850000"
-                  min="0"
-                  step="0.01"
-                  className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
                 />
-              </div>
+              )}
 
               {/* City */}
               <div>
@@ -357,6 +544,166 @@ export default function NewListingPage() {
                 />
               </div>
 
+              {/* Location */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                  <label htmlFor="address" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Address
+                  </label>
+                  <input
+                    type="text"
+                    id="address"
+                    name="address"
+                    value={formData.address}
+                    onChange={handleChange}
+                    placeholder="e.g., 12 Bliss Street"
+                    className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="neighbourhood" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Neighbourhood
+                  </label>
+                  <input
+                    type="text"
+                    id="neighbourhood"
+                    name="neighbourhood"
+                    value={formData.neighbourhood}
+                    onChange={handleChange}
+                    placeholder="e.g., Hamra"
+                    className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="area_slug" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Area Journal
+                  </label>
+                  <select
+                    id="area_slug"
+                    name="area_slug"
+                    value={formData.area_slug}
+                    onChange={handleChange}
+                    className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                  >
+                    <option value="">None</option>
+                    {areaOptions.map((area) => (
+                      <option key={area.slug} value={area.slug}>
+                        {area.name} ({area.city})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Map Pin */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Map Location
+                </label>
+                <MapPinPicker value={pin} onChange={setPin} />
+              </div>
+
+              {/* Property Type */}
+              <div>
+                <label htmlFor="property_type" className="block text-sm font-semibold text-gray-700 mb-2">
+                  Property Type
+                </label>
+                <select
+                  id="property_type"
+                  name="property_type"
+                  value={formData.property_type}
+                  onChange={handleChange}
+                  className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                >
+                  <option value="">Not specified</option>
+                  {PROPERTY_TYPES.map((propertyType) => (
+                    <option key={propertyType} value={propertyType}>
+                      {PROPERTY_TYPE_LABELS[propertyType]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Bedrooms, Bathrooms, Area */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="bedrooms" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Bedrooms
+                  </label>
+                  <input
+                    type="number"
+                    id="bedrooms"
+                    name="bedrooms"
+                    value={formData.bedrooms}
+                    onChange={handleChange}
+                    placeholder="e.g., 3"
+                    min="0"
+                    step="1"
+                    className={`w-full px-4 py-3 rounded-xl border-2 ${
+                      errors.bedrooms ? "border-red-500" : "border-gold/40"
+                    } focus:border-gold focus:outline-none`}
+                  />
+                  {errors.bedrooms && (
+                    <p className="text-red-500 text-sm mt-1">{errors.bedrooms}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="bathrooms" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Bathrooms
+                  </label>
+                  <input
+                    type="number"
+                    id="bathrooms"
+                    name="bathrooms"
+                    value={formData.bathrooms}
+                    onChange={handleChange}
+                    placeholder="e.g., 2"
+                    min="0"
+                    step="1"
+                    className={`w-full px-4 py-3 rounded-xl border-2 ${
+                      errors.bathrooms ? "border-red-500" : "border-gold/40"
+                    } focus:border-gold focus:outline-none`}
+                  />
+                  {errors.bathrooms && (
+                    <p className="text-red-500 text-sm mt-1">{errors.bathrooms}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="area_sqm" className="block text-sm font-semibold text-gray-700 mb-2">
+                    Area (m²)
+                  </label>
+                  <input
+                    type="number"
+                    id="area_sqm"
+                    name="area_sqm"
+                    value={formData.area_sqm}
+                    onChange={handleChange}
+                    placeholder="e.g., 150"
+                    min="0"
+                    step="0.01"
+                    className={`w-full px-4 py-3 rounded-xl border-2 ${
+                      errors.area_sqm ? "border-red-500" : "border-gold/40"
+                    } focus:border-gold focus:outline-none`}
+                  />
+                  {errors.area_sqm && (
+                    <p className="text-red-500 text-sm mt-1">{errors.area_sqm}</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Amenities */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Amenities & Features
+                </label>
+                <AmenityPicker
+                  amenities={amenityOptions}
+                  value={selectedAmenities}
+                  onChange={setSelectedAmenities}
+                  disabled={isSubmitting}
+                />
+              </div>
+
               {/* Images */}
               <div>
                 <label htmlFor="images" className="block text-sm font-semibold text-gray-700 mb-2">
@@ -374,7 +721,7 @@ export default function NewListingPage() {
                   className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Each image must be less than 5MB. {selectedImages.length}/5 selected.
+                  Each image must be less than 15MB. Large photos are shrunk before upload, and location data is removed. {selectedImages.length}/5 selected.
                 </p>
 
                 {/* Image Previews */}
@@ -412,6 +759,18 @@ export default function NewListingPage() {
                 )}
               </div>
 
+              {/* Floor plans, video tours, documents */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Floor Plans, Video Tours & Documents
+                </label>
+                <ListingAttachmentsField
+                  pending={pendingAttachments}
+                  onChangePending={setPendingAttachments}
+                  disabled={isSubmitting}
+                />
+              </div>
+
               {/* Submit Button */}
               <div className="flex gap-4 pt-4">
                 <button
@@ -422,6 +781,18 @@ export default function NewListingPage() {
                 >
                   Cancel
                 </button>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    // type="button" so pressing Enter still publishes
+                    saveAsDraftRef.current = true;
+                    e.currentTarget.form?.requestSubmit();
+                  }}
+                  disabled={isSubmitting || uploadingImages}
+                  className="flex-1 px-6 py-3 bg-white/70 border-2 border-gold/40 text-gray-800 font-bold rounded-xl hover:border-gold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save as Draft
+                </button>
                 <button
                   type="submit"
                   disabled={isSubmitting || uploadingImages}
@@ -4,22 +4,59 @@
  * Property Listings Page
  * Route: /listings
  * Enhanced listings with search, filters, and sorting
+ * Filtering, sorting and cursor pagination run server-side (get_listings_page RPC)
+ * Map mode shows clustered pins and filters by the visible bounding box
  * 
  * SECURITY: Protected route - requires authentication
  * All property data is treated as untrusted and rendered safely
  */
 
-import { useEffect, useState, useMemo, useCallback } from "react";
+import { useEffect, useState, useMemo, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { convertAmount } from "@/lib/currency";
 import { supabase } from "@/lib/supabaseClient";
 import Navbar from "@/components/Navbar";
 import PropertyCard from "@/components/PropertyCard";
 import Footer from "@/components/Footer";
 import toast from "react-hot-toast";
 import VerifiedBadge from "@/components/VerifiedBadge";
+import ListingMap, { ListingMapMarker } from "@/components/ListingMap";
+import { MapView } from "@/components/SlippyMap";
+import { BoundingBox, DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM, LatLng } from "@/lib/geo";
+import {
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  PropertyType,
+  ListingFilters,
+  ListingSort,
+  LISTINGS_MAP_PAGE_SIZE,
+  fetchListingsPage,
+  isPropertyType,
+  LISTING_STATUSES,
+  LISTING_STATUS_LABELS,
+  ListingStatus,
+  isListingStatus,
+  LISTING_TYPES,
+  LISTING_TYPE_LABELS,
+  ListingType,
+  isListingType,
+  getPriceReductionPercent,
+  getPriceSuffix,
+  searchListings,
+} from "@/lib/listings";
+import {
+  SavedSearch,
+  createSavedSearch,
+  deleteSavedSearch,
+  fetchSavedSearches,
+  setSavedSearchNotify,
+} from "@/lib/savedSearches";
+import { fetchFavoriteCounts, fetchFavoriteIds } from "@/lib/favorites";
+import { Amenity, fetchAmenities, fetchAmenityFacets } from "@/lib/amenities";
 
 // Enhanced property data structure (matches database schema)
 interface Property {
@@ -29,55 +66,256 @@ interface Property {
   location: string; // Using city as location
   price: number | null; // Numeric for sorting
   priceDisplay: string; // Formatted display
+  previousPriceDisplay?: string;
+  priceReducedPercent?: number | null;
   description: string | null;
   bedrooms?: number;
   bathrooms?: number;
-  type?: 'house' | 'apartment' | 'condo' | 'villa' | 'townhouse';
-  area?: number;
+  type?: PropertyType;
+  area?: number; // Square metres
+  status?: ListingStatus;
+  listingType?: ListingType;
+  furnished?: boolean | null;
+  availableFrom?: string | null;
+  lat?: number;
+  lng?: number;
   imageUrl?: string;
   image_urls?: string[] | null;
   created_at: string;
+  titleHighlight?: string;
+  snippet?: string;
   ownerName?: string | null;
   ownerVerified?: boolean;
   ownerRole?: string;
+  isFavorite?: boolean;
+  favoriteCount?: number; // Only for the current user's own listings
 }
 
-type SortOption = 'newest' | 'price-low' | 'price-high';
+type SortOption = ListingSort;
+
+// 0 = no limit; bounds are in the viewer's display currency
+// (monthly rent when browsing rentals)
+const DEFAULT_PRICE_RANGE: [number, number] = [0, 0];
+
+type FurnishedFilter = 'any' | 'furnished' | 'unfurnished';
 
 export default function ListingsPage() {
   const { isAuthenticated, isLoading, loadingSession, user } = useAuth();
   const { t } = useLanguage();
+  const { displayCurrency, setDisplayCurrency, rates, formatPrice } = useCurrency();
   const router = useRouter();
   const [hasRedirected, setHasRedirected] = useState(false);
   const [listings, setListings] = useState<Property[]>([]);
   const [isLoadingListings, setIsLoadingListings] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const [searchQuery, setSearchQuery] = useState("");
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 5000000]);
+  const [city, setCity] = useState("");
+  const [priceRange, setPriceRange] = useState<[number, number]>(DEFAULT_PRICE_RANGE);
   const [bedrooms, setBedrooms] = useState<number | 'all'>('all');
-  const [propertyType, setPropertyType] = useState<'all' | 'house' | 'apartment' | 'condo' | 'villa' | 'townhouse'>('all');
+  const [propertyType, setPropertyType] = useState<'all' | PropertyType>('all');
+  const [listingType, setListingType] = useState<'all' | ListingType>('all');
+  // Rental-only filters (ignored unless listingType is 'rent')
+  const [furnished, setFurnished] = useState<FurnishedFilter>('any');
+  const [availableBy, setAvailableBy] = useState("");
+  const [amenityOptions, setAmenityOptions] = useState<Amenity[]>([]);
+  const [selectedAmenities, setSelectedAmenities] = useState<string[]>([]);
+  // Listings matching the other filters that have each amenity
+  const [amenityCounts, setAmenityCounts] = useState<Map<string, number>>(new Map());
+  // 'available' = active + under offer (server default)
+  const [statusFilter, setStatusFilter] = useState<'available' | 'all' | ListingStatus>('available');
   const [sortBy, setSortBy] = useState<SortOption>('newest');
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [debouncedCity, setDebouncedCity] = useState("");
+  const [debouncedPriceRange, setDebouncedPriceRange] = useState<[number, number]>(DEFAULT_PRICE_RANGE);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [mapCenter, setMapCenter] = useState<LatLng>(DEFAULT_MAP_CENTER);
+  const [mapZoom, setMapZoom] = useState<number>(DEFAULT_MAP_ZOOM);
+  const [mapBounds, setMapBounds] = useState<BoundingBox | null>(null);
+  const [debouncedMapBounds, setDebouncedMapBounds] = useState<BoundingBox | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [isSavingSearch, setIsSavingSearch] = useState(false);
+  // Incremented on every first-page load so stale responses are ignored
+  const requestIdRef = useRef(0);
+  const facetRequestIdRef = useRef(0);
 
   // Check if user can create listings
   const canCreateListing = user && (user.is_verified === true || user.role === 'admin');
   const [deletingListingId, setDeletingListingId] = useState<number | null>(null);
 
-  // Load listings from database
+  // Debounce free-text inputs so every keystroke doesn't hit the database
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery);
+      // Rank by relevance while searching, fall back to newest when cleared
+      if (searchQuery.trim()) {
+        setSortBy((prev) => (prev === 'newest' ? 'relevance' : prev));
+      } else {
+        setSortBy((prev) => (prev === 'relevance' ? 'newest' : prev));
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedCity(city), 300);
+    return () => clearTimeout(timer);
+  }, [city]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedPriceRange(priceRange), 300);
+    return () => clearTimeout(timer);
+  }, [priceRange]);
+
+  // Panning fires many view changes; only reload once the map settles
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedMapBounds(mapBounds), 400);
+    return () => clearTimeout(timer);
+  }, [mapBounds]);
+
+  // Active filter set sent to the server
+  const filters = useMemo<ListingFilters>(() => ({
+    query: debouncedSearch,
+    minPrice: debouncedPriceRange[0] > 0 ? debouncedPriceRange[0] : null,
+    maxPrice: debouncedPriceRange[1] > 0 ? debouncedPriceRange[1] : null,
+    currency: displayCurrency,
+    city: debouncedCity,
+    minBedrooms: bedrooms === 'all' ? null : bedrooms,
+    propertyType: propertyType === 'all' ? null : propertyType,
+    listingType: listingType === 'all' ? null : listingType,
+    furnished: listingType === 'rent' && furnished !== 'any' ? furnished === 'furnished' : null,
+    availableBy: listingType === 'rent' && availableBy ? availableBy : null,
+    amenities: selectedAmenities,
+    statuses: statusFilter === 'available'
+      ? null
+      : statusFilter === 'all'
+        ? [...LISTING_STATUSES]
+        : [statusFilter],
+    bounds: viewMode === 'map' ? debouncedMapBounds : null,
+    sort: sortBy,
+  }), [debouncedSearch, debouncedCity, debouncedPriceRange, displayCurrency, bedrooms, propertyType, listingType, furnished, availableBy, selectedAmenities, statusFilter, viewMode, debouncedMapBounds, sortBy]);
+
+  const pageSize = viewMode === 'map' ? LISTINGS_MAP_PAGE_SIZE : undefined;
+
+  const hasActiveFilters =
+    debouncedSearch.trim() !== "" ||
+    debouncedCity.trim() !== "" ||
+    debouncedPriceRange[0] !== DEFAULT_PRICE_RANGE[0] ||
+    debouncedPriceRange[1] !== DEFAULT_PRICE_RANGE[1] ||
+    bedrooms !== 'all' ||
+    propertyType !== 'all' ||
+    listingType !== 'all' ||
+    selectedAmenities.length > 0 ||
+    statusFilter !== 'available';
+
+  // Transform database rows to Property format (include owner info and search highlights)
+  const transformListings = useCallback(async (rows: any[], query?: string): Promise<Property[]> => {
+    // Get unique owner IDs and fetch profiles (batch fetch to avoid N+1)
+    const ownerIds = [...new Set(rows.map((listing) => listing.user_id))];
+    const { data: ownerProfiles } = ownerIds.length > 0
+      ? await supabase
+          .from('profiles')
+          .select('id, display_name, is_verified, role')
+          .in('id', ownerIds)
+      : { data: [] };
+
+    // Create a map of owner profiles for quick lookup
+    const ownerMap = new Map(
+      (ownerProfiles || []).map((profile) => [profile.id, profile])
+    );
+
+    // Favorites: which listings the user saved, and save counts for their own listings
+    const listingIds = rows.map((listing) => listing.id);
+    const ownListingIds = rows
+      .filter((listing) => listing.user_id === user?.id)
+      .map((listing) => listing.id);
+    const [{ favoriteIds, error: favoritesError }, { counts: favoriteCounts, error: countsError }] = await Promise.all([
+      user ? fetchFavoriteIds(user.id, listingIds) : Promise.resolve({ favoriteIds: new Set<number>(), error: null }),
+      fetchFavoriteCounts(ownListingIds),
+    ]);
+    if (favoritesError) {
+      console.error("[Listings] Error loading favorites:", favoritesError);
+    }
+    if (countsError) {
+      console.error("[Listings] Error loading favorite counts:", countsError);
+    }
+
+    // Highlighted title/snippet for this page (non-critical: plain text on failure)
+    const highlightMap = new Map<number, { title_highlight: string; snippet: string }>();
+    if (query?.trim() && rows.length > 0) {
+      const { results, error: highlightError } = await searchListings(query, {
+        ids: rows.map((listing) => listing.id),
+        limit: rows.length,
+      });
+      if (highlightError) {
+        console.error("[Listings] Error loading search highlights:", highlightError);
+      }
+      results.forEach((result) => highlightMap.set(result.id, result));
+    }
+
+    return rows.map((listing) => {
+      const owner = ownerMap.get(listing.user_id);
+      const highlight = highlightMap.get(listing.id);
+      const priceSuffix = getPriceSuffix(listing.listing_type, listing.rent_period);
+      return {
+        id: listing.id,
+        user_id: listing.user_id,
+        title: listing.title,
+        location: listing.city || 'Location not specified',
+        price: listing.price ? parseFloat(listing.price.toString()) : null,
+        priceDisplay: listing.price
+          ? formatPrice(parseFloat(listing.price.toString()), listing.currency) + priceSuffix
+          : 'Price not specified',
+        previousPriceDisplay: listing.previous_price
+          ? formatPrice(parseFloat(listing.previous_price.toString()), listing.currency) + priceSuffix
+          : undefined,
+        priceReducedPercent: getPriceReductionPercent(
+          listing.price != null ? Number(listing.price) : null,
+          listing.previous_price != null ? Number(listing.previous_price) : null
+        ),
+        description: listing.description || null,
+        bedrooms: listing.bedrooms ?? undefined,
+        bathrooms: listing.bathrooms ?? undefined,
+        type: isPropertyType(listing.property_type) ? listing.property_type : undefined,
+        area: listing.area_sqm != null ? parseFloat(listing.area_sqm.toString()) : undefined,
+        status: isListingStatus(listing.status) ? listing.status : undefined,
+        listingType: isListingType(listing.listing_type) ? listing.listing_type : undefined,
+        furnished: listing.furnished ?? null,
+        availableFrom: listing.available_from ?? null,
+        lat: listing.latitude ?? undefined,
+        lng: listing.longitude ?? undefined,
+        image_urls: listing.image_urls || null,
+        imageUrl: listing.image_urls && listing.image_urls.length > 0 ? listing.image_urls[0] : undefined,
+        created_at: listing.created_at,
+        ownerName: owner?.display_name || null,
+        ownerVerified: owner?.is_verified,
+        ownerRole: owner?.role,
+        titleHighlight: highlight?.title_highlight,
+        snippet: highlight?.snippet?.trim() || undefined,
+        isFavorite: favoriteIds.has(listing.id),
+        favoriteCount: favoriteCounts.get(listing.id),
+      };
+    });
+  }, [user, formatPrice]);
+
+  // Load the first page of listings for the current filters
   const loadListings = useCallback(async () => {
     if (!isAuthenticated || !user) {
       setIsLoadingListings(false);
       return;
     }
 
+    const requestId = ++requestIdRef.current;
+
     try {
       setIsLoadingListings(true);
       setError(null);
 
-      const { data, error: fetchError } = await supabase
-        .from('listings')
-        .select('id, user_id, title, description, price, city, image_urls, created_at')
-        .order('created_at', { ascending: false });
+      const { rows, hasMore: more, error: fetchError } = await fetchListingsPage(filters, null, pageSize);
+      if (requestId !== requestIdRef.current) return; // Filters changed meanwhile
 
       if (fetchError) {
         console.error("[Listings] Error loading listings:", fetchError);
@@ -86,54 +324,55 @@ export default function ListingsPage() {
         return;
       }
 
-      // Get unique owner IDs and fetch profiles (batch fetch to avoid N+1)
-      const ownerIds = [...new Set((data || []).map((listing) => listing.user_id))];
-      const { data: ownerProfiles } = await supabase
-        .from('profiles')
-        .select('id, display_name, is_verified, role')
-        .in('id', ownerIds);
-
-      // Create a map of owner profiles for quick lookup
-      const ownerMap = new Map(
-        (ownerProfiles || []).map((profile) => [profile.id, profile])
-      );
-
-      // Transform database data to Property format (include owner info)
-      const transformedListings: Property[] = (data || []).map((listing) => {
-        const owner = ownerMap.get(listing.user_id);
-        return {
-          id: listing.id,
-          user_id: listing.user_id,
-          title: listing.title,
-          location: listing.city || 'Location not specified',
-          price: listing.price ? parseFloat(listing.price.toString()) : null,
-          priceDisplay: listing.price
-            ? new Intl.NumberFormat('en-US', {
-                style: 'currency',
-                currency: 'USD',
-                minimumFractionDigits: 0,
-                maximumFractionDigits: 0,
-              }).format(parseFloat(listing.price.toString()))
-            : 'Price not specified',
-          description: listing.description || null,
-          image_urls: listing.image_urls || null,
-          imageUrl: listing.image_urls && listing.image_urls.length > 0 ? listing.image_urls[0] : undefined,
-          created_at: listing.created_at,
-          ownerName: owner?.display_name || null,
-          ownerVerified: owner?.is_verified,
-          ownerRole: owner?.role,
-        };
-      });
+      const transformedListings = await transformListings(rows, filters.query);
+      if (requestId !== requestIdRef.current) return;
 
       setListings(transformedListings);
+      setHasMore(more);
     } catch (error: any) {
       console.error("[Listings] Exception loading listings:", error);
       setError(error?.message || "An error occurred");
       toast.error("Failed to load listings");
     } finally {
-      setIsLoadingListings(false);
+      if (requestId === requestIdRef.current) {
+        setIsLoadingListings(false);
+      }
     }
-  }, [isAuthenticated, user]);
+  }, [isAuthenticated, user, filters, pageSize, transformListings]);
+
+  // Load the next page (cursor = id of the last loaded listing)
+  const loadMoreListings = useCallback(async () => {
+    if (isLoadingMore || isLoadingListings || !hasMore || listings.length === 0) return;
+
+    const requestId = requestIdRef.current;
+    const afterId = listings[listings.length - 1].id;
+
+    setIsLoadingMore(true);
+    try {
+      const { rows, hasMore: more, error: fetchError } = await fetchListingsPage(filters, afterId, pageSize);
+      if (requestId !== requestIdRef.current) return;
+
+      if (fetchError) {
+        console.error("[Listings] Error loading more listings:", fetchError);
+        toast.error("Failed to load more listings");
+        return;
+      }
+
+      const transformedListings = await transformListings(rows, filters.query);
+      if (requestId !== requestIdRef.current) return;
+
+      setListings((prev) => {
+        const seen = new Set(prev.map((listing) => listing.id));
+        return [...prev, ...transformedListings.filter((listing) => !seen.has(listing.id))];
+      });
+      setHasMore(more);
+    } catch (error: any) {
+      console.error("[Listings] Exception loading more listings:", error);
+      toast.error("Failed to load more listings");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoadingMore, isLoadingListings, hasMore, listings, filters, pageSize, transformListings]);
 
   useEffect(() => {
     if (isAuthenticated && user) {
@@ -141,6 +380,84 @@ export default function ListingsPage() {
     }
   }, [isAuthenticated, user, loadListings]);
 
+  // Amenities offered in the filter panel
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
+
+    const loadAmenityOptions = async () => {
+      const { amenities, error: amenitiesError } = await fetchAmenities();
+      if (amenitiesError) {
+        console.error("[Listings] Error loading amenities:", amenitiesError);
+        return;
+      }
+      setAmenityOptions(amenities);
+    };
+
+    loadAmenityOptions();
+  }, [isAuthenticated, user]);
+
+  // Facet counts follow the active filters (non-critical: counts are hidden on failure)
+  useEffect(() => {
+    if (!isAuthenticated || !user || amenityOptions.length === 0) return;
+
+    const requestId = ++facetRequestIdRef.current;
+    const loadAmenityCounts = async () => {
+      const { counts, error: countsError } = await fetchAmenityFacets(filters);
+      if (requestId !== facetRequestIdRef.current) return;
+      if (countsError) {
+        console.error("[Listings] Error loading amenity counts:", countsError);
+        setAmenityCounts(new Map());
+        return;
+      }
+      setAmenityCounts(counts);
+    };
+
+    loadAmenityCounts();
+  }, [isAuthenticated, user, amenityOptions, filters]);
+
+  const handleToggleAmenity = (slug: string) => {
+    setSelectedAmenities((prev) => (prev.includes(slug) ? prev.filter((item) => item !== slug) : [...prev, slug]));
+  };
+
+  // Infinite scroll: load the next page when the sentinel scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || viewMode === 'map') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMoreListings();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, viewMode, loadMoreListings]);
+
+  // Pins for map mode (listings without coordinates are left out)
+  const mapMarkers = useMemo<ListingMapMarker[]>(
+    () => listings
+      .filter((listing) => listing.lat != null && listing.lng != null)
+      .map((listing) => ({
+        id: String(listing.id),
+        lat: listing.lat as number,
+        lng: listing.lng as number,
+        title: listing.title,
+        price: listing.priceDisplay,
+        image: listing.imageUrl,
+      })),
+    [listings]
+  );
+
+  const handleMapViewChange = (view: MapView) => {
+    setMapCenter(view.center);
+    setMapZoom(view.zoom);
+    setMapBounds(view.bounds);
+  };
+
   useEffect(() => {
     // Do not redirect until initial session check completes
     if (!loadingSession && !isLoading && !isAuthenticated && !hasRedirected) {
@@ -229,58 +546,156 @@ export default function ListingsPage() {
     }
   };
 
-  // Filter and sort properties
-  const filteredProperties = useMemo(() => {
-    let filtered = [...listings];
-
-    // Search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (p) =>
-          p.title.toLowerCase().includes(query) ||
-          p.location.toLowerCase().includes(query) ||
-          (p.description && p.description.toLowerCase().includes(query))
-      );
-    }
+  // Load the user's saved searches
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
 
-    // Price range filter (only if price exists)
-    filtered = filtered.filter((p) => {
-      if (p.price === null) return true; // Include listings without price
-      return p.price >= priceRange[0] && p.price <= priceRange[1];
-    });
+    const loadSavedSearches = async () => {
+      const { searches, error: savedError } = await fetchSavedSearches(user.id);
+      if (savedError) {
+        console.error("[Listings] Error loading saved searches:", savedError);
+        return;
+      }
+      setSavedSearches(searches);
+    };
+
+    loadSavedSearches();
+  }, [isAuthenticated, user]);
 
-    // Bedrooms filter (skip if not available)
-    if (bedrooms !== 'all') {
-      filtered = filtered.filter((p) => p.bedrooms === bedrooms);
+  // Save the current filter set as a named search
+  const handleSaveSearch = async () => {
+    if (!user) {
+      toast.error("You must be logged in to save searches");
+      return;
     }
 
-    // Property type filter (skip if not available)
-    if (propertyType !== 'all') {
-      filtered = filtered.filter((p) => p.type === propertyType);
+    const defaultName = [searchQuery.trim(), city.trim()].filter(Boolean).join(" in ") || "My search";
+    const name = window.prompt("Name this search:", defaultName);
+    if (!name || !name.trim()) {
+      return;
     }
 
-    // Sort
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'price-low':
-          if (a.price === null && b.price === null) return 0;
-          if (a.price === null) return 1;
-          if (b.price === null) return -1;
-          return a.price - b.price;
-        case 'price-high':
-          if (a.price === null && b.price === null) return 0;
-          if (a.price === null) return 1;
-          if (b.price === null) return -1;
-          return b.price - a.price;
-        case 'newest':
-        default:
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    setIsSavingSearch(true);
+    try {
+      // Save what the user typed, not the debounced value
+      // (amenities aren't saved: alerts run before a new listing's amenities are added)
+      const { search, error: saveError } = await createSavedSearch(user.id, name, {
+        ...filters,
+        query: searchQuery,
+        city,
+        minPrice: priceRange[0] > 0 ? priceRange[0] : null,
+        maxPrice: priceRange[1] > 0 ? priceRange[1] : null,
+      });
+
+      if (saveError || !search) {
+        console.error("[Listings] Error saving search:", saveError);
+        toast.error("Failed to save search");
+        return;
       }
-    });
 
-    return filtered;
-  }, [listings, searchQuery, priceRange, bedrooms, propertyType, sortBy]);
+      setSavedSearches((prev) => [search, ...prev]);
+      toast.success("Search saved. We'll notify you about new matching listings.");
+    } catch (error: any) {
+      console.error("[Listings] Exception saving search:", error);
+      toast.error("Failed to save search");
+    } finally {
+      setIsSavingSearch(false);
+    }
+  };
+
+  // Switch display currency, keeping the price range equivalent
+  const handleDisplayCurrencyChange = (currency: string) => {
+    const rateMap = new Map(rates.map((rate) => [rate.currency, rate.rate_per_usd]));
+    const convertBound = (value: number) => {
+      if (value <= 0) return value;
+      const converted = convertAmount(value, displayCurrency, currency, rateMap);
+      return converted === null ? 0 : Math.round(converted);
+    };
+    setPriceRange(([min, max]) => [convertBound(min), convertBound(max)]);
+    setDisplayCurrency(currency);
+  };
+
+  // Apply a saved search to the filter controls
+  const applySavedSearch = (search: SavedSearch) => {
+    setSearchQuery(search.query || "");
+    setCity(search.city || "");
+    // Price bounds were saved in the search's own currency
+    setDisplayCurrency(search.currency);
+    setPriceRange([
+      search.min_price != null ? Number(search.min_price) : DEFAULT_PRICE_RANGE[0],
+      search.max_price != null ? Number(search.max_price) : DEFAULT_PRICE_RANGE[1],
+    ]);
+    setBedrooms(search.min_bedrooms != null ? search.min_bedrooms : 'all');
+    setPropertyType(isPropertyType(search.property_type) ? search.property_type : 'all');
+    setListingType(isListingType(search.listing_type) ? search.listing_type : 'all');
+    setFurnished(search.furnished == null ? 'any' : search.furnished ? 'furnished' : 'unfurnished');
+    setAvailableBy("");
+    setSelectedAmenities([]);
+  };
+
+  // Switch between sale, rent and all listings
+  const handleListingTypeChange = (type: 'all' | ListingType) => {
+    setListingType(type);
+    // Sale and rent price ranges aren't comparable
+    if (type !== listingType) {
+      setPriceRange(DEFAULT_PRICE_RANGE);
+    }
+    if (type !== 'rent') {
+      setFurnished('any');
+      setAvailableBy("");
+    }
+    // Drop a status filter that doesn't apply to the new type
+    if ((type === 'rent' && statusFilter === 'sold') || (type === 'sale' && statusFilter === 'rented')) {
+      setStatusFilter('available');
+    }
+  };
+
+  const handleToggleSavedSearchNotify = async (search: SavedSearch) => {
+    const notify = !search.notify;
+    setSavedSearches((prev) => prev.map((s) => (s.id === search.id ? { ...s, notify } : s)));
+
+    const { error: notifyError } = await setSavedSearchNotify(search.id, notify);
+    if (notifyError) {
+      console.error("[Listings] Error updating saved search alerts:", notifyError);
+      toast.error("Failed to update alerts");
+      // Revert optimistic update
+      setSavedSearches((prev) => prev.map((s) => (s.id === search.id ? { ...s, notify: !notify } : s)));
+    }
+  };
+
+  const handleDeleteSavedSearch = async (search: SavedSearch) => {
+    const confirmed = window.confirm(`Delete saved search "${search.name}"?`);
+    if (!confirmed) return;
+
+    const { error: deleteError } = await deleteSavedSearch(search.id);
+    if (deleteError) {
+      console.error("[Listings] Error deleting saved search:", deleteError);
+      toast.error("Failed to delete saved search");
+      return;
+    }
+
+    setSavedSearches((prev) => prev.filter((s) => s.id !== search.id));
+    toast.success("Saved search deleted");
+  };
+
+  const resetFilters = () => {
+    setSearchQuery("");
+    setCity("");
+    setPriceRange(DEFAULT_PRICE_RANGE);
+    setBedrooms('all');
+    setPropertyType('all');
+    setListingType('all');
+    setFurnished('any');
+    setAvailableBy("");
+    setSelectedAmenities([]);
+    setStatusFilter('available');
+    setSortBy('newest');
+  };
+
+  // Sold only applies to sales, rented only to rentals
+  const browsableStatuses = LISTING_STATUSES.filter((status) =>
+    !(listingType === 'rent' && status === 'sold') && !(listingType === 'sale' && status === 'rented')
+  );
 
   if (isLoading) {
     return (
@@ -322,12 +737,20 @@ export default function ListingsPage() {
             </div>
             {/* Add Listing Button - Only for verified users or admins */}
             {canCreateListing ? (
-              <Link
-                href="/listings/new"
-                className="px-6 py-3 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg hover:scale-105 transition-all whitespace-nowrap"
-              >
-                + Add Listing
-              </Link>
+              <div className="flex items-center gap-3">
+                <Link
+                  href="/listings/import"
+                  className="px-4 py-3 border-2 border-gold/40 text-gray-700 font-semibold rounded-xl hover:border-gold transition-all whitespace-nowrap"
+                >
+                  Import
+                </Link>
+                <Link
+                  href="/listings/new"
+                  className="px-6 py-3 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg hover:scale-105 transition-all whitespace-nowrap"
+                >
+                  + Add Listing
+                </Link>
+              </div>
             ) : user ? (
               <div className="px-6 py-3 bg-gray-200 text-gray-600 font-semibold rounded-xl cursor-not-allowed whitespace-nowrap text-sm text-center">
                 Verification Required
@@ -338,34 +761,123 @@ export default function ListingsPage() {
           {/* Search and Filters */}
           <div className="glass-dark rounded-2xl p-4 sm:p-6 mb-8">
             {/* Search Bar */}
-            <div className="mb-4">
+            <div className="mb-4 flex flex-col sm:flex-row gap-2">
               <input
                 type="text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 placeholder="Search by city, area, or keyword..."
-                className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+                className="flex-1 px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
               />
+              <button
+                onClick={handleSaveSearch}
+                disabled={isSavingSearch}
+                className="px-4 py-3 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSavingSearch ? "Saving..." : "🔔 Save Search"}
+              </button>
+            </div>
+
+            {/* Saved Searches */}
+            {savedSearches.length > 0 && (
+              <div className="mb-4 flex flex-wrap items-center gap-2">
+                <span className="text-sm font-semibold text-gray-700">Saved:</span>
+                {savedSearches.map((search) => (
+                  <div
+                    key={search.id}
+                    className="flex items-center gap-1 pl-3 pr-1 py-1 bg-gold/20 rounded-full text-sm"
+                  >
+                    <button
+                      onClick={() => applySavedSearch(search)}
+                      className="font-semibold text-gray-800 hover:text-gold-dark"
+                      title="Apply this search"
+                    >
+                      {search.name}
+                    </button>
+                    <button
+                      onClick={() => handleToggleSavedSearchNotify(search)}
+                      className="p-1 rounded-full hover:bg-gold/30"
+                      aria-label={search.notify ? "Turn off alerts" : "Turn on alerts"}
+                      title={search.notify ? "Alerts on" : "Alerts off"}
+                    >
+                      {search.notify ? "🔔" : "🔕"}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSavedSearch(search)}
+                      className="p-1 rounded-full text-gray-500 hover:text-red-600 hover:bg-gold/30"
+                      aria-label="Delete saved search"
+                      title="Delete saved search"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Sale / Rent */}
+            <div className="mb-4 inline-flex rounded-xl overflow-hidden border-2 border-gold/40">
+              {(['all', ...LISTING_TYPES] as const).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => handleListingTypeChange(type)}
+                  className={`px-4 py-2 text-sm font-semibold transition-all ${
+                    listingType === type ? 'bg-gold text-gray-900' : 'bg-white text-gray-700 hover:bg-gold/20'
+                  }`}
+                >
+                  {type === 'all' ? 'All' : LISTING_TYPE_LABELS[type]}
+                </button>
+              ))}
             </div>
 
             {/* Filters Row */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-              {/* Price Range */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
+              {/* City */}
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Price Range
+                  City
                 </label>
+                <input
+                  type="text"
+                  value={city}
+                  onChange={(e) => setCity(e.target.value)}
+                  placeholder="Any city"
+                  className="w-full px-3 py-2 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
+                />
+              </div>
+
+              {/* Price Range (in display currency) */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-semibold text-gray-700">
+                    {listingType === 'rent' ? 'Monthly Rent' : 'Price Range'}
+                  </label>
+                  <select
+                    value={displayCurrency}
+                    onChange={(e) => handleDisplayCurrencyChange(e.target.value)}
+                    className="px-1 py-0.5 rounded border border-gold/40 focus:border-gold focus:outline-none text-xs font-semibold"
+                    aria-label="Display currency"
+                    title="Show prices in"
+                  >
+                    {rates.length === 0 && <option value={displayCurrency}>{displayCurrency}</option>}
+                    {rates.map((rate) => (
+                      <option key={rate.currency} value={rate.currency}>
+                        {rate.currency}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div className="flex gap-2">
                   <input
                     type="number"
-                    value={priceRange[0]}
+                    value={priceRange[0] || ''}
                     onChange={(e) => setPriceRange([Number(e.target.value), priceRange[1]])}
                     placeholder="Min"
                     className="flex-1 px-3 py-2 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
                   />
                   <input
                     type="number"
-                    value={priceRange[1]}
+                    value={priceRange[1] || ''}
                     onChange={(e) => setPriceRange([priceRange[0], Number(e.target.value)])}
                     placeholder="Max"
                     className="flex-1 px-3 py-2 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
@@ -399,15 +911,38 @@ export default function ListingsPage() {
                 </label>
                 <select
                   value={propertyType}
-                  onChange={(e) => setPropertyType(e.target.value as 'all' | 'house' | 'apartment' | 'condo' | 'villa' | 'townhouse')}
+                  onChange={(e) => setPropertyType(isPropertyType(e.target.value) ? e.target.value : 'all')}
                   className="w-full px-3 py-2 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
                 >
                   <option value="all">All Types</option>
-                  <option value="house">House</option>
-                  <option value="apartment">Apartment</option>
-                  <option value="condo">Condo</option>
-                  <option value="villa">Villa</option>
-                  <option value="townhouse">Townhouse</option>
+                  {PROPERTY_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {PROPERTY_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Status */}
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Status
+                </label>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setStatusFilter(value === 'all' ? 'all' : isListingStatus(value) ? value : 'available');
+                  }}
+                  className="w-full px-3 py-2 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
+                >
+                  <option value="available">Available</option>
+                  <option value="all">All Statuses</option>
+                  {browsableStatuses.map((status) => (
+                    <option key={status} value={status}>
+                      {status === 'draft' ? 'My Drafts' : LISTING_STATUS_LABELS[status]}
+                    </option>
+                  ))}
                 </select>
               </div>
 
@@ -421,16 +956,122 @@ export default function ListingsPage() {
                   onChange={(e) => setSortBy(e.target.value as SortOption)}
                   className="w-full px-3 py-2 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
                 >
+                  {debouncedSearch.trim() && <option value="relevance">Best Match</option>}
                   <option value="newest">Newest First</option>
                   <option value="price-low">Price: Low to High</option>
                   <option value="price-high">Price: High to Low</option>
                 </select>
               </div>
             </div>
+
+            {/* Rental Filters */}
+            {listingType === 'rent' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 mt-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Furnishing
+                  </label>
+                  <select
+                    value={furnished}
+                    onChange={(e) => setFurnished(e.target.value as FurnishedFilter)}
+                    className="w-full px-3 py-2 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
+                  >
+                    <option value="any">Any</option>
+                    <option value="furnished">Furnished</option>
+                    <option value="unfurnished">Unfurnished</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Move in by
+                  </label>
+                  <input
+                    type="date"
+                    value={availableBy}
+                    onChange={(e) => setAvailableBy(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Amenities (count = matching listings that have it) */}
+            {amenityOptions.length > 0 && (
+              <div className="mt-4">
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Amenities
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {amenityOptions.map((amenity) => {
+                    const isSelected = selectedAmenities.includes(amenity.slug);
+                    const count = amenityCounts.get(amenity.slug) ?? 0;
+                    return (
+                      <button
+                        key={amenity.slug}
+                        onClick={() => handleToggleAmenity(amenity.slug)}
+                        disabled={!isSelected && count === 0}
+                        aria-pressed={isSelected}
+                        className={`px-3 py-1 rounded-full text-sm font-semibold border-2 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                          isSelected
+                            ? 'bg-gold border-gold text-gray-900'
+                            : 'bg-white border-gold/40 text-gray-700 hover:border-gold'
+                        }`}
+                      >
+                        {amenity.label} <span className="text-xs font-normal">({count})</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
 
-          {/* Loading State */}
-          {isLoadingListings ? (
+          {/* View Toggle */}
+          <div className="flex justify-end mb-4">
+            <div className="inline-flex rounded-xl overflow-hidden border-2 border-gold/40">
+              <button
+                onClick={() => setViewMode('list')}
+                className={`px-4 py-2 text-sm font-semibold transition-all ${
+                  viewMode === 'list' ? 'bg-gold text-gray-900' : 'bg-white text-gray-700 hover:bg-gold/20'
+                }`}
+              >
+                ☰ List
+              </button>
+              <button
+                onClick={() => setViewMode('map')}
+                className={`px-4 py-2 text-sm font-semibold transition-all ${
+                  viewMode === 'map' ? 'bg-gold text-gray-900' : 'bg-white text-gray-700 hover:bg-gold/20'
+                }`}
+              >
+                🗺️ Map
+              </button>
+            </div>
+          </div>
+
+          {viewMode === 'map' ? (
+            /* Map View (kept mounted while reloading so the view doesn't jump) */
+            <div>
+              <div className="mb-4 flex items-center gap-3 text-gray-600">
+                {isLoadingListings ? (
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gold"></div>
+                ) : error ? (
+                  <span className="text-red-600">{error}</span>
+                ) : (
+                  <p>
+                    <span className="font-bold text-gold-dark">{mapMarkers.length}</span>{hasMore ? '+' : ''} {mapMarkers.length === 1 ? 'listing' : 'listings'} in this area
+                    {hasMore && <span className="text-sm"> · zoom in to see more</span>}
+                  </p>
+                )}
+              </div>
+              <ListingMap
+                markers={mapMarkers}
+                center={mapCenter}
+                zoom={mapZoom}
+                onViewChange={handleMapViewChange}
+                className="h-[70vh]"
+              />
+            </div>
+          ) : isLoadingListings ? (
             <div className="text-center py-12">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gold mx-auto mb-4"></div>
               <p className="text-gray-600">Loading listings...</p>
@@ -450,19 +1091,19 @@ export default function ListingsPage() {
               {/* Results Count */}
               <div className="mb-6">
                 <p className="text-gray-600">
-                  Found <span className="font-bold text-gold-dark">{filteredProperties.length}</span> {filteredProperties.length === 1 ? 'listing' : 'listings'}
+                  Showing <span className="font-bold text-gold-dark">{listings.length}</span>{hasMore ? '+' : ''} {listings.length === 1 ? 'listing' : 'listings'}
                 </p>
               </div>
 
               {/* Properties Grid */}
-              {filteredProperties.length === 0 ? (
+              {listings.length === 0 ? (
                 <div className="text-center py-12">
                   <p className="text-gray-600 mb-4">
-                    {listings.length === 0
+                    {!hasActiveFilters
                       ? "No listings yet. Be the first to create one!"
                       : "No properties found matching your criteria."}
                   </p>
-                  {listings.length === 0 && canCreateListing && (
+                  {!hasActiveFilters && canCreateListing && (
                     <Link
                       href="/listings/new"
                       className="inline-block px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all"
@@ -470,15 +1111,9 @@ export default function ListingsPage() {
                       Create First Listing
                     </Link>
                   )}
-                  {listings.length > 0 && (
+                  {hasActiveFilters && (
                     <button
-                      onClick={() => {
-                        setSearchQuery("");
-                        setPriceRange([0, 5000000]);
-                        setBedrooms('all');
-                        setPropertyType('all');
-                        setSortBy('newest');
-                      }}
+                      onClick={resetFilters}
                       className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all"
                     >
                       Clear Filters
@@ -486,8 +1121,9 @@ export default function ListingsPage() {
                   )}
                 </div>
               ) : (
+                <>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-                  {filteredProperties.map((property) => (
+                  {listings.map((property) => (
                     <PropertyCard
                       key={property.id}
                       listingId={property.id}
@@ -495,12 +1131,20 @@ export default function ListingsPage() {
                       title={property.title}
                       location={property.location}
                       price={property.priceDisplay}
+                      previousPrice={property.previousPriceDisplay}
+                      priceReducedPercent={property.priceReducedPercent}
                       description={property.description || ""}
+                      titleHighlight={property.titleHighlight}
+                      snippet={property.snippet}
                       imageUrl={property.image_urls && property.image_urls.length > 0 ? property.image_urls[0] : undefined}
                       bedrooms={property.bedrooms}
                       bathrooms={property.bathrooms}
                       type={property.type}
                       area={property.area}
+                      status={property.status}
+                      listingType={property.listingType}
+                      furnished={property.furnished}
+                      availableFrom={property.availableFrom}
                       currentUserId={user?.id}
                       currentUserRole={user?.role}
                       onEdit={handleEditListing}
@@ -509,9 +1153,28 @@ export default function ListingsPage() {
                       ownerName={property.ownerName}
                       ownerVerified={property.ownerVerified}
                       ownerRole={property.ownerRole}
+                      isFavorite={property.isFavorite}
+                      favoriteCount={property.favoriteCount}
                     />
                   ))}
                 </div>
+
+                {/* Pagination: infinite scroll sentinel + manual fallback */}
+                {hasMore && (
+                  <div ref={loadMoreRef} className="text-center py-8">
+                    {isLoadingMore ? (
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gold mx-auto"></div>
+                    ) : (
+                      <button
+                        onClick={loadMoreListings}
+                        className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all"
+                      >
+                        Load More
+                      </button>
+                    )}
+                  </div>
+                )}
+                </>
               )}
             </>
           )}
@@ -28,6 +28,7 @@ interface Message {
   read_at: string | null;
   image_url: string | null;
   attachment_url: string | null;
+  message_type?: 'text' | 'system'; // 'system' = offer events (supabase/offers.sql)
 }
 
 interface OtherUser {
@@ -210,7 +211,7 @@ export default function ChatPage() {
       const messagePromise = Promise.resolve(
         supabase
           .from("messages")
-          .select("id, sender_id, content, body, created_at, read_at")
+          .select("id, sender_id, content, body, created_at, read_at, message_type")
           .eq("conversation_id", conversationId)
           .order("created_at", { ascending: true })
       ) as Promise<{ data: any; error: any }>;
@@ -368,6 +369,7 @@ export default function ChatPage() {
             read_at: newMessage.read_at || null,
             image_url: newMessage.image_url || null,
             attachment_url: newMessage.attachment_url || null,
+            message_type: newMessage.message_type || 'text',
           };
           
           // Prevent duplicates: check if message ID already exists
@@ -934,6 +936,19 @@ export default function ChatPage() {
             ) : (
               messages.map((message) => {
                 const isOwnMessage = message.sender_id === user?.id;
+
+                // Offer events are shown centered, not as a chat bubble
+                if (message.message_type === 'system') {
+                  return (
+                    <div key={message.id} className="flex justify-center">
+                      <div className="max-w-[85%] rounded-xl px-4 py-2 bg-gold/10 border border-gold/30 text-center">
+                        <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{message.content}</p>
+                        <p className="text-xs mt-1 text-gray-500">{formatTimestamp(message.created_at)}</p>
+                      </div>
+                    </div>
+                  );
+                }
+
                 return (
                   <div
                     key={message.id}
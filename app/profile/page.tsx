@@ -18,8 +18,11 @@ import Link from "next/link";
 import PostCard from "@/components/PostCard";
 import { isValidUrl } from "@/lib/utils";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
 import FollowersFollowingModal from "@/components/FollowersFollowingModal";
 import VerifiedBadge from "@/components/VerifiedBadge";
+import PropertyCard from "@/components/PropertyCard";
+import { getPriceReductionPercent, getPriceSuffix, isListingStatus, isListingType } from "@/lib/listings";
 
 // Clickable button component for Followers/Following counts
 function FollowersFollowingButton({
@@ -74,11 +77,15 @@ interface Profile {
 export default function ProfilePage() {
   const { isAuthenticated, isLoading: authLoading, loadingSession, user } = useAuth();
   const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
   const router = useRouter();
   const [hasRedirected, setHasRedirected] = useState(false);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [userPosts, setUserPosts] = useState<any[]>([]);
+  const [activeTab, setActiveTab] = useState<'posts' | 'saved'>('posts');
+  const [savedListings, setSavedListings] = useState<any[]>([]);
+  const [isLoadingSaved, setIsLoadingSaved] = useState(false);
   const [postsCount, setPostsCount] = useState(0);
   const [followersCount, setFollowersCount] = useState(0);
   const [followingCount, setFollowingCount] = useState(0);
@@ -160,6 +167,66 @@ export default function ProfilePage() {
     }
   };
 
+  // Saved (favorited) listings, most recently saved first
+  const loadSavedListings = async () => {
+    if (!user) return;
+    try {
+      setIsLoadingSaved(true);
+      const { data: favorites, error: favoritesError } = await supabase
+        .from('listing_favorites')
+        .select('listing_id, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (favoritesError) {
+        console.error('Error loading saved listings:', favoritesError);
+        return;
+      }
+
+      const listingIds = (favorites || []).map((f: { listing_id: number }) => f.listing_id);
+      if (listingIds.length === 0) {
+        setSavedListings([]);
+        return;
+      }
+
+      const { data: listingsData, error: listingsError } = await supabase
+        .from('listings')
+        .select('id, user_id, title, description, listing_type, price, rent_period, furnished, available_from, city, image_urls, bedrooms, bathrooms, property_type, area_sqm, status, previous_price, currency')
+        .in('id', listingIds);
+
+      if (listingsError) {
+        console.error('Error loading saved listings:', listingsError);
+        return;
+      }
+
+      // Keep the saved order (the IN query doesn't preserve it)
+      const listingsById = new Map((listingsData || []).map((l: any) => [l.id, l]));
+      setSavedListings(listingIds.map((id: number) => listingsById.get(id)).filter(Boolean));
+    } catch (error) {
+      console.error('Error in loadSavedListings:', error);
+    } finally {
+      setIsLoadingSaved(false);
+    }
+  };
+
+  useEffect(() => {
+    if (activeTab === 'saved' && user) {
+      loadSavedListings();
+    }
+  }, [activeTab, user]);
+
+  const handleSavedFavoriteChange = (listingId: number, isFavorite: boolean) => {
+    if (!isFavorite) {
+      setSavedListings((prev) => prev.filter((l) => l.id !== listingId));
+    }
+  };
+
+  // suffix: rent period ("/mo") for rentals
+  const formatListingPrice = (price: number | null, currency: string, suffix: string = '') => {
+    if (price == null) return 'Price on request';
+    return formatPrice(price, currency) + suffix;
+  };
+
   const loadCounts = async () => {
     if (!user) return;
     try {
@@ -392,9 +459,80 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          {/* Posts / Saved Tabs */}
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={() => setActiveTab('posts')}
+              className={`px-4 py-2 rounded-lg font-semibold transition-all ${
+                activeTab === 'posts'
+                  ? 'bg-gold text-gray-900'
+                  : 'glass-dark text-gray-700 hover:text-gold-dark'
+              }`}
+            >
+              Posts
+            </button>
+            <button
+              onClick={() => setActiveTab('saved')}
+              className={`px-4 py-2 rounded-lg font-semibold transition-all ${
+                activeTab === 'saved'
+                  ? 'bg-gold text-gray-900'
+                  : 'glass-dark text-gray-700 hover:text-gold-dark'
+              }`}
+            >
+              ❤️ Saved
+            </button>
+          </div>
+
+          {/* Saved Listings Grid */}
+          {activeTab === 'saved' && (
+            <div className="mb-6">
+              {isLoadingSaved ? (
+                <div className="glass-dark rounded-2xl p-12 text-center">
+                  <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gold"></div>
+                </div>
+              ) : savedListings.length === 0 ? (
+                <div className="glass-dark rounded-2xl p-12 text-center">
+                  <p className="text-gray-600 mb-4">No saved listings yet.</p>
+                  <Link href="/listings" className="text-gold-dark hover:text-gold font-semibold">
+                    Browse listings →
+                  </Link>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {savedListings.map((listing) => (
+                    <PropertyCard
+                      key={listing.id}
+                      listingId={listing.id}
+                      listingUserId={listing.user_id}
+                      title={listing.title}
+                      location={listing.city || 'Location not specified'}
+                      price={formatListingPrice(listing.price, listing.currency, getPriceSuffix(listing.listing_type, listing.rent_period))}
+                      previousPrice={listing.previous_price != null ? formatListingPrice(listing.previous_price, listing.currency, getPriceSuffix(listing.listing_type, listing.rent_period)) : undefined}
+                      priceReducedPercent={getPriceReductionPercent(listing.price, listing.previous_price)}
+                      description={listing.description || ''}
+                      imageUrl={listing.image_urls?.[0]}
+                      bedrooms={listing.bedrooms ?? undefined}
+                      bathrooms={listing.bathrooms ?? undefined}
+                      type={listing.property_type ?? undefined}
+                      area={listing.area_sqm != null ? Number(listing.area_sqm) : undefined}
+                      status={isListingStatus(listing.status) ? listing.status : undefined}
+                      listingType={isListingType(listing.listing_type) ? listing.listing_type : undefined}
+                      furnished={listing.furnished}
+                      availableFrom={listing.available_from}
+                      currentUserId={user?.id}
+                      currentUserRole={profile?.role}
+                      isFavorite={true}
+                      onFavoriteChange={handleSavedFavoriteChange}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* User's Posts Grid */}
+          {activeTab === 'posts' && (
           <div className="mb-6">
-            <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">Posts</h2>
             {userPosts.length === 0 ? (
               <div className="glass-dark rounded-2xl p-12 text-center">
                 <p className="text-gray-600">No posts yet. Start sharing!</p>
@@ -434,6 +572,7 @@ export default function ProfilePage() {
               </div>
             )}
           </div>
+          )}
         </div>
       </div>
       <MobileBottomNav />
@@ -1,9 +1,10 @@
 "use client";
 
 /**
- * User Search Page
+ * Search Page
  * Route: /search
- * Instagram-like user search with follow/unfollow functionality
+ * Instagram-like user search with follow/unfollow functionality,
+ * plus ranked full-text listing search (search_listings RPC)
  */
 
 import { useState, useEffect, useRef } from "react";
@@ -15,6 +16,10 @@ import MobileBottomNav from "@/components/MobileBottomNav";
 import Link from "next/link";
 import { isValidUrl } from "@/lib/utils";
 import { safeGet, safeSet, safeRemove } from "@/lib/safeStorage";
+import { ListingSearchResult, searchListings } from "@/lib/listings";
+import { getListingImageUrl } from "@/lib/listingImages";
+import HighlightedText from "@/components/HighlightedText";
+import { useCurrency } from "@/contexts/CurrencyContext";
 
 interface UserProfile {
   id: string;
@@ -26,6 +31,7 @@ interface UserProfile {
 
 export default function SearchPage() {
   const { isAuthenticated, user } = useAuth();
+  const { formatPrice } = useCurrency();
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedTerm, setDebouncedTerm] = useState("");
@@ -33,6 +39,9 @@ export default function SearchPage() {
   const [isSearching, setIsSearching] = useState(false);
   const [followingMap, setFollowingMap] = useState<Record<string, boolean>>({});
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [searchType, setSearchType] = useState<'users' | 'listings'>('users');
+  const [listingResults, setListingResults] = useState<ListingSearchResult[]>([]);
+  const [isSearchingListings, setIsSearchingListings] = useState(false);
   
   // AbortController ref to cancel requests on unmount
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -194,6 +203,53 @@ export default function SearchPage() {
     };
   }, [debouncedTerm]); // ONLY depend on debouncedTerm
 
+  // Search listings when debouncedTerm changes (listings tab only)
+  useEffect(() => {
+    if (searchType !== 'listings' || !debouncedTerm || debouncedTerm.trim().length < 2) {
+      setListingResults([]);
+      setIsSearchingListings(false);
+      return;
+    }
+
+    let isMounted = true;
+
+    const performListingSearch = async () => {
+      setIsSearchingListings(true);
+      try {
+        const { results, error } = await searchListings(debouncedTerm, { limit: 20 });
+        if (!isMounted) return;
+
+        if (error) {
+          console.error("[Search] Error searching listings:", error);
+          setListingResults([]);
+          return;
+        }
+
+        setListingResults(results);
+      } catch (error: any) {
+        console.error("[Search] Exception searching listings:", error);
+        if (isMounted) {
+          setListingResults([]);
+        }
+      } finally {
+        if (isMounted) {
+          setIsSearchingListings(false);
+        }
+      }
+    };
+
+    performListingSearch();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [debouncedTerm, searchType]);
+
+  const formatListingPrice = (price: number | null, currency: string): string => {
+    if (!price) return "Price not specified";
+    return formatPrice(Number(price), currency);
+  };
+
   const loadFollowingStatus = async () => {
     if (!user) return;
 
@@ -307,9 +363,26 @@ export default function SearchPage() {
       <div className="pt-24 pb-20 px-4">
         <div className="max-w-2xl mx-auto w-full">
           <h1 className="font-orbitron text-3xl sm:text-4xl font-bold text-center mb-6 text-gold-dark">
-            Search Users
+            {searchType === 'users' ? "Search Users" : "Search Listings"}
           </h1>
 
+          {/* Search Type Tabs */}
+          <div className="flex gap-2 mb-4">
+            {(['users', 'listings'] as const).map((type) => (
+              <button
+                key={type}
+                onClick={() => setSearchType(type)}
+                className={`flex-1 px-4 py-2 rounded-xl font-semibold transition-all ${
+                  searchType === type
+                    ? "bg-gradient-to-r from-gold to-gold-light text-gray-900"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                {type === 'users' ? "Users" : "Listings"}
+              </button>
+            ))}
+          </div>
+
           {/* Search Input */}
           <div className="glass-dark rounded-2xl p-4 mb-6">
             <div className="flex items-center gap-3">
@@ -326,19 +399,73 @@ export default function SearchPage() {
               </svg>
               <input
                 type="text"
-                placeholder="Search by name..."
+                placeholder={searchType === 'users' ? "Search by name..." : "Search by title, city, or keyword..."}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="flex-1 bg-transparent border-none outline-none text-gray-900 placeholder-gray-500"
               />
-              {isSearching && (
+              {(isSearching || isSearchingListings) && (
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gold"></div>
               )}
             </div>
           </div>
 
+          {/* Listing Results */}
+          {searchType === 'listings' && debouncedTerm.trim().length >= 2 && (
+            <div className="space-y-3">
+              {isSearchingListings ? (
+                <div className="text-center py-12">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gold mx-auto mb-4"></div>
+                  <p className="text-gray-600">Searching...</p>
+                </div>
+              ) : listingResults.length === 0 ? (
+                <div className="glass-dark rounded-2xl p-12 text-center">
+                  <p className="text-gray-600">No listings found</p>
+                </div>
+              ) : (
+                listingResults.map((listing) => {
+                  const coverImage = listing.image_urls && listing.image_urls.length > 0 ? listing.image_urls[0] : null;
+
+                  return (
+                    <Link
+                      key={listing.id}
+                      href={`/listings/${listing.id}`}
+                      className="glass-dark rounded-2xl p-4 flex items-start gap-4 hover:bg-gold/5 transition-colors"
+                    >
+                      {coverImage && isValidUrl(coverImage) ? (
+                        <img
+                          src={getListingImageUrl(coverImage, 'thumb')}
+                          alt={listing.title}
+                          className="w-20 h-20 rounded-xl object-cover flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-20 h-20 rounded-xl bg-gradient-to-br from-gold/20 to-gold-dark/20 flex items-center justify-center text-3xl flex-shrink-0">
+                          🏠
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-semibold text-gray-900 truncate">
+                          <HighlightedText text={listing.title_highlight || listing.title} />
+                        </h3>
+                        <p className="text-sm font-bold text-gold-dark">
+                          {formatListingPrice(listing.price, listing.currency)}
+                          {listing.city && <span className="text-gray-500 font-normal"> · {listing.city}</span>}
+                        </p>
+                        {listing.snippet?.trim() && (
+                          <p className="text-sm text-gray-600 line-clamp-2 mt-1">
+                            <HighlightedText text={listing.snippet} />
+                          </p>
+                        )}
+                      </div>
+                    </Link>
+                  );
+                })
+              )}
+            </div>
+          )}
+
           {/* Search Results */}
-          {debouncedTerm.trim().length >= 2 && (
+          {searchType === 'users' && debouncedTerm.trim().length >= 2 && (
             <div className="space-y-3">
               {isSearching ? (
                 <div className="text-center py-12">
@@ -433,7 +560,9 @@ export default function SearchPage() {
                 <p className="text-gray-600">
                   {searchQuery.trim() && debouncedTerm.trim().length < 2
                     ? "Type at least 2 characters to search"
-                    : "Type to search for users by name"}
+                    : searchType === 'users'
+                    ? "Type to search for users by name"
+                    : "Type to search listings by title, city, or description"}
                 </p>
               </div>
 
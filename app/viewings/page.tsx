@@ -0,0 +1,286 @@
+"use client";
+
+/**
+ * My Viewings Page
+ * Route: /viewings
+ * Viewing appointments the user requested or received on their listings,
+ * with confirm/decline/cancel and .ics export of confirmed viewings
+ */
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabaseClient";
+import Navbar from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import {
+  VIEWING_REQUEST_STATUS_BADGE_CLASSES,
+  VIEWING_REQUEST_STATUS_LABELS,
+  Viewing,
+  ViewingRequestStatus,
+  downloadViewingsIcs,
+  fetchMyViewings,
+  formatViewingTime,
+  updateViewingRequestStatus,
+} from "@/lib/viewings";
+
+// How many past/closed viewings to list
+const HISTORY_LIMIT = 20;
+
+export default function MyViewingsPage() {
+  const { isAuthenticated, isLoading: authLoading, loadingSession, user } = useAuth();
+  const router = useRouter();
+  const [viewings, setViewings] = useState<Viewing[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loadingSession && !authLoading && !isAuthenticated) {
+      router.push("/login");
+    }
+  }, [isAuthenticated, authLoading, loadingSession, router]);
+
+  const loadViewings = async () => {
+    const { viewings: data, error } = await fetchMyViewings();
+    if (error) {
+      console.error("[Viewings] Error loading viewings:", error);
+      toast.error("Failed to load viewings");
+      setIsLoading(false);
+      return;
+    }
+
+    setViewings(data);
+    setIsLoading(false);
+
+    // Names of the other side of each viewing
+    const ids = Array.from(new Set(data.flatMap((viewing) => [viewing.requester_id, viewing.owner_id])));
+    if (ids.length > 0) {
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, display_name")
+        .in("id", ids);
+      const nextNames: Record<string, string> = {};
+      for (const profile of profiles || []) {
+        nextNames[profile.id] = profile.display_name || "User";
+      }
+      setNames(nextNames);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    loadViewings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
+
+  const handleStatusChange = async (viewing: Viewing, status: Exclude<ViewingRequestStatus, 'pending'>) => {
+    if (status === 'cancelled' && !window.confirm("Cancel this viewing?")) return;
+
+    setBusyId(viewing.id);
+    try {
+      const { error } = await updateViewingRequestStatus(viewing.id, status);
+      if (error) {
+        console.error("[Viewings] Error updating viewing:", error);
+        toast.error(error.message || "Failed to update viewing");
+        return;
+      }
+      toast.success(`Viewing ${VIEWING_REQUEST_STATUS_LABELS[status].toLowerCase()}`);
+      await loadViewings();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loadingSession || authLoading || (isAuthenticated && isLoading)) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gold mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading viewings...</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!isAuthenticated || !user) {
+    return null; // Will redirect
+  }
+
+  const now = Date.now();
+  const isUpcoming = (viewing: Viewing) => new Date(viewing.slot.ends_at).getTime() > now;
+
+  const toRespond = viewings.filter((v) => v.owner_id === user.id && v.status === 'pending' && isUpcoming(v));
+  const upcoming = viewings.filter((v) => v.status === 'confirmed' && isUpcoming(v));
+  const awaiting = viewings.filter((v) => v.requester_id === user.id && v.status === 'pending' && isUpcoming(v));
+  const history = viewings
+    .filter((v) => !isUpcoming(v) || v.status === 'declined' || v.status === 'cancelled')
+    .reverse()
+    .slice(0, HISTORY_LIMIT);
+
+  const renderViewing = (viewing: Viewing, actions: React.ReactNode) => {
+    const isHost = viewing.owner_id === user.id;
+    const otherId = isHost ? viewing.requester_id : viewing.owner_id;
+
+    return (
+      <div key={viewing.id} className="p-4 rounded-xl bg-white/50 border border-gold/20">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="min-w-0">
+            <Link
+              href={`/listings/${viewing.listing.id}`}
+              className="font-semibold text-gray-900 hover:text-gold-dark block truncate"
+            >
+              {viewing.listing.title}
+            </Link>
+            <p className="text-sm text-gray-700">
+              {formatViewingTime(viewing.slot.starts_at, viewing.slot.ends_at)}
+            </p>
+            <p className="text-xs text-gray-500">
+              {isHost ? "Visitor" : "Host"}: {names[otherId] || "User"}
+              {viewing.listing.city && ` · ${viewing.listing.city}`}
+            </p>
+            {viewing.note && (
+              <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">{viewing.note}</p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${VIEWING_REQUEST_STATUS_BADGE_CLASSES[viewing.status]}`}>
+              {VIEWING_REQUEST_STATUS_LABELS[viewing.status]}
+            </span>
+            {actions}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const cancelButton = (viewing: Viewing) => (
+    <button
+      type="button"
+      onClick={() => handleStatusChange(viewing, 'cancelled')}
+      disabled={busyId === viewing.id}
+      className="px-3 py-1 rounded-lg bg-red-50 hover:bg-red-100 text-red-600 text-xs font-bold disabled:opacity-50"
+    >
+      Cancel
+    </button>
+  );
+
+  return (
+    <main className="min-h-screen">
+      <Navbar />
+      <div className="pt-24 pb-20 px-4">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <h1 className="font-orbitron text-3xl font-bold text-gray-900">
+            My Viewings
+          </h1>
+
+          {viewings.length === 0 && (
+            <div className="glass-dark rounded-2xl p-6 text-center text-gray-600">
+              No viewings yet. Request a slot from a listing page, or add slots to your own listings.
+              <Link href="/listings" className="block mt-3 text-gold-dark hover:text-gold font-semibold">
+                Browse listings →
+              </Link>
+            </div>
+          )}
+
+          {/* Needs Your Response (owner) */}
+          {toRespond.length > 0 && (
+            <div className="glass-dark rounded-2xl p-6">
+              <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                Needs Your Response
+              </h2>
+              <div className="space-y-3">
+                {toRespond.map((viewing) =>
+                  renderViewing(
+                    viewing,
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleStatusChange(viewing, 'confirmed')}
+                        disabled={busyId === viewing.id}
+                        className="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 text-white text-xs font-bold disabled:opacity-50"
+                      >
+                        Confirm
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleStatusChange(viewing, 'declined')}
+                        disabled={busyId === viewing.id}
+                        className="px-3 py-1 rounded-lg bg-gray-200 hover:bg-gray-300 text-gray-800 text-xs font-bold disabled:opacity-50"
+                      >
+                        Decline
+                      </button>
+                    </>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Upcoming (confirmed) */}
+          {upcoming.length > 0 && (
+            <div className="glass-dark rounded-2xl p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="font-orbitron text-xl font-bold text-gray-900">
+                  Upcoming Viewings
+                </h2>
+                <button
+                  type="button"
+                  onClick={() => downloadViewingsIcs(upcoming, "viewings.ics")}
+                  className="px-4 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 text-sm font-bold rounded-xl hover:shadow-lg transition-all"
+                >
+                  📅 Export all (.ics)
+                </button>
+              </div>
+              <div className="space-y-3">
+                {upcoming.map((viewing) =>
+                  renderViewing(
+                    viewing,
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => downloadViewingsIcs([viewing], `viewing-${viewing.id}.ics`)}
+                        className="px-3 py-1 rounded-lg bg-gold/20 hover:bg-gold/40 text-gray-800 text-xs font-bold"
+                      >
+                        .ics
+                      </button>
+                      {cancelButton(viewing)}
+                    </>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Awaiting Confirmation (requester) */}
+          {awaiting.length > 0 && (
+            <div className="glass-dark rounded-2xl p-6">
+              <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                Awaiting Confirmation
+              </h2>
+              <div className="space-y-3">
+                {awaiting.map((viewing) => renderViewing(viewing, cancelButton(viewing)))}
+              </div>
+            </div>
+          )}
+
+          {/* Past & Closed */}
+          {history.length > 0 && (
+            <div className="glass-dark rounded-2xl p-6">
+              <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+                Past & Closed
+              </h2>
+              <div className="space-y-3 opacity-80">
+                {history.map((viewing) => renderViewing(viewing, null))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </main>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Amenity Picker Component
+ * Multi-select amenities, grouped by category, for the create / edit listing forms
+ */
+
+import { AMENITY_CATEGORY_LABELS, Amenity, groupAmenitiesByCategory } from "@/lib/amenities";
+
+interface AmenityPickerProps {
+  amenities: Amenity[]; // Offered amenities (plus any retired ones already selected)
+  value: string[]; // Selected slugs
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+}
+
+export default function AmenityPicker({ amenities, value, onChange, disabled = false }: AmenityPickerProps) {
+  const selected = new Set(value);
+
+  const toggle = (slug: string) => {
+    onChange(selected.has(slug) ? value.filter((item) => item !== slug) : [...value, slug]);
+  };
+
+  if (amenities.length === 0) {
+    return <p className="text-sm text-gray-500">No amenities available yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {groupAmenitiesByCategory(amenities).map((group) => (
+        <div key={group.category}>
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">
+            {AMENITY_CATEGORY_LABELS[group.category]}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {group.amenities.map((amenity) => {
+              const isSelected = selected.has(amenity.slug);
+              return (
+                <button
+                  key={amenity.slug}
+                  type="button"
+                  onClick={() => toggle(amenity.slug)}
+                  disabled={disabled}
+                  aria-pressed={isSelected}
+                  className={`px-3 py-1.5 rounded-full text-sm font-semibold border-2 transition-all disabled:opacity-50 ${
+                    isSelected
+                      ? 'bg-gold border-gold text-gray-900'
+                      : 'bg-white border-gold/40 text-gray-700 hover:border-gold'
+                  }`}
+                >
+                  {amenity.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
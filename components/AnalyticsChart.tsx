@@ -0,0 +1,113 @@
+"use client";
+
+/**
+ * Analytics Chart Component
+ * Daily views, contact clicks and saves for a listing as lines on one chart
+ * Plain SVG (no chart library); series come from get_listing_analytics
+ */
+
+import { ListingAnalyticsDay } from "@/lib/analytics";
+
+interface AnalyticsChartProps {
+  series: ListingAnalyticsDay[]; // Oldest first, one entry per day
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 32 };
+
+const METRICS: { key: 'views' | 'contact_clicks' | 'saves'; label: string; className: string }[] = [
+  { key: 'views', label: 'Views', className: 'text-gold-dark' },
+  { key: 'contact_clicks', label: 'Contact clicks', className: 'text-blue-600' },
+  { key: 'saves', label: 'Saves', className: 'text-red-500' },
+];
+
+export default function AnalyticsChart({ series }: AnalyticsChartProps) {
+  if (series.length === 0) {
+    return null;
+  }
+
+  // Days are UTC dates; format them as such so labels don't shift a day
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  const maxValue = Math.max(1, ...series.flatMap((day) => METRICS.map((metric) => day[metric.key])));
+
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) =>
+    PADDING.left + (series.length === 1 ? innerWidth / 2 : (index / (series.length - 1)) * innerWidth);
+  const y = (value: number) => PADDING.top + (1 - value / maxValue) * innerHeight;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Daily listing activity chart"
+      >
+        {/* Baseline and max gridline */}
+        <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(0)} y2={y(0)} className="stroke-gray-300" />
+        <line
+          x1={PADDING.left}
+          x2={CHART_WIDTH - PADDING.right}
+          y1={y(maxValue)}
+          y2={y(maxValue)}
+          className="stroke-gray-200"
+          strokeDasharray="4 4"
+        />
+        <text x={PADDING.left - 6} y={y(maxValue) + 4} textAnchor="end" className="fill-gray-500 text-xs">
+          {maxValue}
+        </text>
+        <text x={PADDING.left - 6} y={y(0) + 4} textAnchor="end" className="fill-gray-500 text-xs">
+          0
+        </text>
+
+        {METRICS.map((metric) => (
+          <polyline
+            key={metric.key}
+            points={series.map((day, index) => `${x(index)},${y(day[metric.key])}`).join(' ')}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2.5"
+            strokeLinejoin="round"
+            className={metric.className}
+          />
+        ))}
+
+        {/* Invisible hover targets with a per-day tooltip */}
+        {series.map((day, index) => (
+          <rect
+            key={day.day}
+            x={x(index) - innerWidth / series.length / 2}
+            y={PADDING.top}
+            width={innerWidth / series.length}
+            height={innerHeight}
+            fill="transparent"
+          >
+            <title>
+              {`${formatDay(day.day)} · ${day.views} views · ${day.contact_clicks} contact clicks · ${day.saves} saves`}
+            </title>
+          </rect>
+        ))}
+
+        <text x={PADDING.left} y={CHART_HEIGHT - 6} className="fill-gray-500 text-xs">
+          {formatDay(series[0].day)}
+        </text>
+        <text x={CHART_WIDTH - PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-xs">
+          Today
+        </text>
+      </svg>
+
+      <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-700">
+        {METRICS.map((metric) => (
+          <span key={metric.key} className="flex items-center gap-2">
+            <span className={`inline-block w-4 h-1 rounded bg-current ${metric.className}`} />
+            {metric.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
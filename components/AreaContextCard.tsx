@@ -0,0 +1,137 @@
+/**
+ * Area Context Card Component
+ * Shows the linked area journal next to a listing and how the asking
+ * price compares with the journal's published ranges: sale price per m²
+ * for sales, the rent range for the bedroom count for rentals
+ */
+
+import Link from "next/link";
+import { formatMoney } from "@/lib/currency";
+import {
+  AREA_JOURNAL_CURRENCY,
+  AREA_OUTLOOK_LABELS,
+  AREA_STATUS_BADGE_CLASSES,
+  AreaJournalSnapshot,
+  PricePosition,
+  getAreaRentRange,
+  getPricePosition,
+} from "@/lib/areaJournals";
+import { ListingType } from "@/lib/listings";
+
+interface AreaContextCardProps {
+  area: AreaJournalSnapshot;
+  listingType: ListingType;
+  priceUsd: number | null; // Asking price (monthly rent for rentals) in the journal currency
+  areaSqm: number | null;
+  bedrooms: number | null;
+}
+
+const POSITION_STYLES: Record<PricePosition, { label: string; className: string }> = {
+  below: { label: 'below', className: 'bg-green-100 text-green-800 border-green-300' },
+  within: { label: 'within', className: 'bg-gold/20 text-gray-900 border-gold/40' },
+  above: { label: 'above', className: 'bg-red-100 text-red-800 border-red-300' },
+};
+
+const formatUsd = (amount: number) => formatMoney(amount, AREA_JOURNAL_CURRENCY);
+
+export default function AreaContextCard({ area, listingType, priceUsd, areaSqm, bedrooms }: AreaContextCardProps) {
+  const isRental = listingType === 'rent';
+  const rentRanges = [
+    { beds: 1, min: area.rent_1br_min, max: area.rent_1br_max },
+    { beds: 2, min: area.rent_2br_min, max: area.rent_2br_max },
+    { beds: 3, min: area.rent_3br_min, max: area.rent_3br_max },
+  ].filter((range) => range.min != null && range.max != null);
+
+  // Sale ranges are per m², so the listing needs an area to compare
+  const pricePerSqm = !isRental && priceUsd != null && areaSqm ? priceUsd / areaSqm : null;
+  const position = pricePerSqm != null ? getPricePosition(pricePerSqm, area.sale_min, area.sale_max) : null;
+
+  // Rentals compare with the rent range for their bedroom count
+  const rentRange = isRental ? getAreaRentRange(area, bedrooms) : null;
+  const rentPosition = rentRange && priceUsd != null ? getPricePosition(priceUsd, rentRange.min, rentRange.max) : null;
+
+  return (
+    <div className="glass-dark rounded-2xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="font-orbitron text-xl font-bold text-gray-900">
+          Area: {area.name}
+        </h2>
+        <span className={`px-3 py-1 rounded-full text-sm font-semibold border capitalize ${AREA_STATUS_BADGE_CLASSES[area.status]}`}>
+          {area.status}
+        </span>
+      </div>
+
+      {/* Price vs. area */}
+      {position && pricePerSqm != null && (
+        <div className={`mb-4 p-3 rounded-xl border text-sm ${POSITION_STYLES[position].className}`}>
+          At <span className="font-bold">{formatUsd(pricePerSqm)}/m²</span>, this listing is{' '}
+          <span className="font-bold">{POSITION_STYLES[position].label}</span> the {area.name} sale range
+          of {formatUsd(area.sale_min as number)} – {formatUsd(area.sale_max as number)}/m².
+        </div>
+      )}
+      {rentPosition && rentRange && priceUsd != null && (
+        <div className={`mb-4 p-3 rounded-xl border text-sm ${POSITION_STYLES[rentPosition].className}`}>
+          At <span className="font-bold">{formatUsd(priceUsd)}/mo</span>, this rental is{' '}
+          <span className="font-bold">{POSITION_STYLES[rentPosition].label}</span> the {area.name} {rentRange.beds}BR rent range
+          of {formatUsd(rentRange.min)} – {formatUsd(rentRange.max)}/mo.
+        </div>
+      )}
+      {isRental && !rentPosition && priceUsd != null && bedrooms == null && (
+        <p className="mb-4 text-sm text-gray-500">
+          Add the number of bedrooms to compare this rent with the area.
+        </p>
+      )}
+      {!isRental && !position && area.sale_min != null && area.sale_max != null && (
+        <p className="mb-4 text-sm text-gray-500">
+          Sale range {formatUsd(area.sale_min)} – {formatUsd(area.sale_max)}/m²
+          {priceUsd != null && !areaSqm && ' (add the floor area to compare this listing)'}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+        <div>
+          {area.demand && (
+            <p className="mb-1">
+              <span className="text-gray-500">Demand:</span>{' '}
+              <span className="font-semibold text-gray-900">{area.demand}</span>
+            </p>
+          )}
+          {area.outlook && (
+            <p className="mb-1">
+              <span className="text-gray-500">90-day outlook:</span>{' '}
+              <span className="font-semibold text-gray-900">{AREA_OUTLOOK_LABELS[area.outlook]}</span>
+            </p>
+          )}
+          <p className="text-xs text-gray-500 mt-2">
+            Updated {new Date(area.last_updated).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+          </p>
+        </div>
+
+        {rentRanges.length > 0 && (
+          <div className="space-y-1">
+            {rentRanges.map((range) => (
+              <div
+                key={range.beds}
+                className={`flex justify-between px-3 py-1.5 rounded-lg ${
+                  bedrooms === range.beds ? 'bg-gold/20 font-semibold' : 'bg-white/50'
+                }`}
+              >
+                <span>{range.beds}BR rent</span>
+                <span className="text-gold-dark">
+                  {formatUsd(range.min as number)} – {formatUsd(range.max as number)}/mo
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Link
+        href={`/journal/beirut/${area.slug}`}
+        className="inline-block mt-4 text-gold-dark hover:text-gold font-semibold text-sm"
+      >
+        Read the {area.name} journal →
+      </Link>
+    </div>
+  );
+}
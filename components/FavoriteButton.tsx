@@ -0,0 +1,97 @@
+"use client";
+
+/**
+ * Favorite Button Component
+ * Heart toggle that adds/removes a listing from the user's watchlist
+ * Optimistic update, reverted if the request fails (same flow as post likes)
+ */
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { toggleFavorite } from "@/lib/favorites";
+import toast from "react-hot-toast";
+
+interface FavoriteButtonProps {
+  listingId: number;
+  isFavorite: boolean;
+  onChange?: (listingId: number, isFavorite: boolean) => void;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+export default function FavoriteButton({
+  listingId,
+  isFavorite: initialIsFavorite,
+  onChange,
+  size = "sm",
+  className = "",
+}: FavoriteButtonProps) {
+  const { user } = useAuth();
+  const [isFavorite, setIsFavorite] = useState(initialIsFavorite);
+  const [isToggling, setIsToggling] = useState(false);
+
+  // Keep in sync when the parent reloads favorites
+  useEffect(() => {
+    setIsFavorite(initialIsFavorite);
+  }, [initialIsFavorite]);
+
+  const handleToggle = async (e: React.MouseEvent) => {
+    // Cards wrap content in a <Link>; don't navigate when toggling
+    e.stopPropagation();
+    e.preventDefault();
+
+    if (!user) {
+      toast.error("Please log in to save listings");
+      return;
+    }
+    if (isToggling) return;
+
+    const wasFavorite = isFavorite;
+    setIsToggling(true);
+    setIsFavorite(!wasFavorite);
+
+    try {
+      const { error } = await toggleFavorite(user.id, listingId, wasFavorite);
+
+      if (error) {
+        console.error("[FavoriteButton] Error toggling favorite:", error);
+        setIsFavorite(wasFavorite);
+        toast.error(wasFavorite ? "Failed to remove from saved" : "Failed to save listing");
+        return;
+      }
+
+      onChange?.(listingId, !wasFavorite);
+    } catch (error) {
+      console.error("[FavoriteButton] Exception toggling favorite:", error);
+      setIsFavorite(wasFavorite);
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const sizeClasses = size === "sm" ? "p-2 w-9 h-9" : "p-2.5 w-11 h-11";
+  const iconClasses = size === "sm" ? "w-5 h-5" : "w-6 h-6";
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={isToggling}
+      className={`${sizeClasses} flex items-center justify-center bg-white/90 hover:bg-white rounded-full shadow-lg transition-all disabled:opacity-70 ${className}`}
+      aria-label={isFavorite ? "Remove from saved" : "Save listing"}
+      aria-pressed={isFavorite}
+      title={isFavorite ? "Remove from saved" : "Save listing"}
+    >
+      <svg
+        className={`${iconClasses} ${isFavorite ? "text-red-500" : "text-gray-600"}`}
+        fill={isFavorite ? "currentColor" : "none"}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth="2"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+      </svg>
+    </button>
+  );
+}
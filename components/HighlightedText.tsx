@@ -0,0 +1,30 @@
+/**
+ * Highlighted Text Component
+ * Renders search highlights from the search_listings RPC as <mark> elements
+ *
+ * SECURITY: Text is split into segments and rendered as React children
+ * (no dangerouslySetInnerHTML)
+ */
+
+import { splitHighlights } from "@/lib/listings";
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+export default function HighlightedText({ text, className = "" }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {splitHighlights(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-gold/40 text-gray-900 rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+/**
+ * Listing Attachments Field Component
+ * Floor plans, video tours and PDF documents for the create / edit listing forms
+ * Picked files stay pending until the listing is saved; saved ones can be deleted
+ */
+
+import { useRef } from "react";
+import toast from "react-hot-toast";
+import {
+  ATTACHMENT_KINDS,
+  ATTACHMENT_KIND_LABELS,
+  ATTACHMENT_MIME_TYPES,
+  AttachmentKind,
+  ListingAttachment,
+  MAX_ATTACHMENTS_PER_KIND,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENT_TITLE_LENGTH,
+  PendingAttachment,
+  validateAttachmentFile,
+} from "@/lib/listingAttachments";
+import { formatBytes } from "@/lib/storageCleanup";
+
+interface ListingAttachmentsFieldProps {
+  existing?: ListingAttachment[]; // Already saved (edit form)
+  pending: PendingAttachment[];
+  onChangePending: (pending: PendingAttachment[]) => void;
+  onDeleteExisting?: (attachment: ListingAttachment) => void;
+  deletingId?: number | null;
+  disabled?: boolean;
+}
+
+const KIND_HINTS: Record<AttachmentKind, string> = {
+  floor_plan: 'JPEG, PNG or WebP',
+  video: 'MP4, WebM or MOV',
+  document: 'PDF brochures and documents',
+};
+
+export default function ListingAttachmentsField({
+  existing = [],
+  pending,
+  onChangePending,
+  onDeleteExisting,
+  deletingId = null,
+  disabled = false,
+}: ListingAttachmentsFieldProps) {
+  const inputRefs = useRef<Partial<Record<AttachmentKind, HTMLInputElement | null>>>({});
+
+  const handleFiles = (kind: AttachmentKind, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    const used = existing.filter((item) => item.kind === kind).length
+      + pending.filter((item) => item.kind === kind).length;
+    const remainingSlots = MAX_ATTACHMENTS_PER_KIND[kind] - used;
+    if (files.length > remainingSlots) {
+      toast.error(`You can add up to ${MAX_ATTACHMENTS_PER_KIND[kind]} ${ATTACHMENT_KIND_LABELS[kind].toLowerCase()}. ${remainingSlots} slot(s) remaining.`);
+      files.splice(Math.max(remainingSlots, 0));
+    }
+
+    const added: PendingAttachment[] = [];
+    for (const file of files) {
+      const validationError = validateAttachmentFile(kind, file);
+      if (validationError) {
+        toast.error(validationError);
+        continue;
+      }
+      added.push({ file, kind, title: '' });
+    }
+
+    if (added.length > 0) {
+      onChangePending([...pending, ...added]);
+    }
+
+    // Reset input
+    const input = inputRefs.current[kind];
+    if (input) {
+      input.value = '';
+    }
+  };
+
+  const updateTitle = (item: PendingAttachment, title: string) => {
+    onChangePending(pending.map((entry) => (entry === item ? { ...entry, title } : entry)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {ATTACHMENT_KINDS.map((kind) => {
+        const saved = existing.filter((item) => item.kind === kind);
+        const picked = pending.filter((item) => item.kind === kind);
+        const isFull = saved.length + picked.length >= MAX_ATTACHMENTS_PER_KIND[kind];
+
+        return (
+          <div key={kind}>
+            <label htmlFor={`attachments-${kind}`} className="block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">
+              {ATTACHMENT_KIND_LABELS[kind]}
+            </label>
+            <input
+              ref={(el) => { inputRefs.current[kind] = el; }}
+              type="file"
+              id={`attachments-${kind}`}
+              accept={ATTACHMENT_MIME_TYPES[kind].join(',')}
+              multiple
+              onChange={(e) => handleFiles(kind, e)}
+              disabled={isFull || disabled}
+              className="w-full px-4 py-3 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {KIND_HINTS[kind]}, up to {MAX_ATTACHMENT_BYTES[kind] / (1024 * 1024)}MB each. {saved.length + picked.length}/{MAX_ATTACHMENTS_PER_KIND[kind]} added.
+            </p>
+
+            {(saved.length > 0 || picked.length > 0) && (
+              <ul className="mt-2 space-y-2">
+                {saved.map((attachment) => {
+                  const isDeleting = deletingId === attachment.id;
+                  return (
+                    <li
+                      key={`saved-${attachment.id}`}
+                      className={`flex items-center gap-3 px-3 py-2 rounded-xl border-2 border-gold/30 bg-white/60 text-sm ${isDeleting ? 'opacity-50' : ''}`}
+                    >
+                      <span className="flex-1 min-w-0">
+                        <span className="block font-semibold text-gray-800 truncate">
+                          {attachment.title || attachment.file_name}
+                        </span>
+                        <span className="block text-xs text-gray-500">{formatBytes(attachment.size_bytes)}</span>
+                      </span>
+                      {onDeleteExisting && (
+                        <button
+                          type="button"
+                          onClick={() => onDeleteExisting(attachment)}
+                          disabled={disabled || isDeleting}
+                          className="px-2 py-1 rounded bg-red-50 hover:bg-red-100 text-red-600 text-xs font-semibold disabled:opacity-40"
+                        >
+                          {isDeleting ? 'Deleting...' : 'Delete'}
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+                {picked.map((item, index) => (
+                  <li
+                    key={`pending-${index}-${item.file.name}`}
+                    className="flex items-center gap-3 px-3 py-2 rounded-xl border-2 border-dashed border-gold/40 bg-white/60 text-sm"
+                  >
+                    <span className="flex-1 min-w-0 space-y-1">
+                      <span className="block text-xs text-gray-500 truncate">
+                        {item.file.name} · {formatBytes(item.file.size)} · uploads when saved
+                      </span>
+                      <input
+                        type="text"
+                        value={item.title}
+                        onChange={(e) => updateTitle(item, e.target.value)}
+                        placeholder="Title (optional)"
+                        maxLength={MAX_ATTACHMENT_TITLE_LENGTH}
+                        disabled={disabled}
+                        className="w-full px-3 py-1.5 rounded-lg border border-gold/40 focus:border-gold focus:outline-none text-sm"
+                      />
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onChangePending(pending.filter((entry) => entry !== item))}
+                      disabled={disabled}
+                      className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-semibold disabled:opacity-40"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
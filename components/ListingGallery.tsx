@@ -4,19 +4,55 @@
  * Listing Gallery Component
  * Displays listing images with thumbnail grid and fullscreen modal
  * Supports next/prev navigation and ESC key to close
+ * Uses processed variants: medium for the preview, thumb for the grid, full in the modal
+ * Floor plans (stored as uploaded) and video tours get their own tabs
  */
 
 import { useState, useEffect } from "react";
+import { getListingImageSrcSet, getListingImageUrl } from "@/lib/listingImages";
+import { ListingAttachment } from "@/lib/listingAttachments";
 
 interface ListingGalleryProps {
   images: string[];
   title: string;
+  captions?: string[]; // Same order as images ('' = no caption)
+  floorPlans?: ListingAttachment[];
+  videos?: ListingAttachment[];
 }
 
-export default function ListingGallery({ images, title }: ListingGalleryProps) {
+type GalleryTab = 'photos' | 'floor_plans' | 'video';
+
+const GALLERY_TAB_LABELS: Record<GalleryTab, string> = {
+  photos: 'Photos',
+  floor_plans: 'Floor Plans',
+  video: 'Video',
+};
+
+export default function ListingGallery({
+  images: photos,
+  title,
+  captions: photoCaptions = [],
+  floorPlans = [],
+  videos = [],
+}: ListingGalleryProps) {
+  const [activeTab, setActiveTab] = useState<GalleryTab>('photos');
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const isFullscreen = selectedIndex !== null;
 
+  // Only tabs with something in them; falls back to the first one
+  const tabs = ([
+    ['photos', photos.length],
+    ['floor_plans', floorPlans.length],
+    ['video', videos.length],
+  ] as [GalleryTab, number][])
+    .filter(([, count]) => count > 0)
+    .map(([tab]) => tab);
+  const currentTab = tabs.includes(activeTab) ? activeTab : tabs[0];
+
+  // The image tabs share the preview, grid and modal below
+  const images = currentTab === 'floor_plans' ? floorPlans.map((plan) => plan.url) : photos;
+  const captions = currentTab === 'floor_plans' ? floorPlans.map((plan) => plan.title || '') : photoCaptions;
+
   // Handle ESC key to close modal
   useEffect(() => {
     if (!isFullscreen) return;
@@ -61,7 +97,7 @@ export default function ListingGallery({ images, title }: ListingGalleryProps) {
     };
   }, [isFullscreen]);
 
-  if (!images || images.length === 0) {
+  if (tabs.length === 0) {
     return (
       <div className="w-full aspect-video bg-gradient-to-br from-gold/20 to-gold-dark/20 rounded-2xl flex flex-col items-center justify-center text-gray-400">
         <div className="text-4xl sm:text-6xl mb-2">🏠</div>
@@ -88,21 +124,78 @@ export default function ListingGallery({ images, title }: ListingGalleryProps) {
     setSelectedIndex(selectedIndex === images.length - 1 ? 0 : selectedIndex + 1);
   };
 
+  const tabBar = tabs.length > 1 && (
+    <div className="flex flex-wrap gap-2" role="tablist">
+      {tabs.map((tab) => (
+        <button
+          key={tab}
+          type="button"
+          role="tab"
+          aria-selected={currentTab === tab}
+          onClick={() => setActiveTab(tab)}
+          className={`px-4 py-1.5 rounded-full text-sm font-semibold border-2 transition-all ${
+            currentTab === tab
+              ? 'bg-gold border-gold text-gray-900'
+              : 'bg-white border-gold/40 text-gray-700 hover:border-gold'
+          }`}
+        >
+          {GALLERY_TAB_LABELS[tab]}
+          {tab === 'floor_plans' && ` (${floorPlans.length})`}
+          {tab === 'video' && ` (${videos.length})`}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (currentTab === 'video') {
+    return (
+      <div className="space-y-4">
+        {tabBar}
+        {videos.map((video) => (
+          <figure key={video.id} className="space-y-2">
+            <video
+              src={video.url}
+              controls
+              preload="metadata"
+              className="w-full aspect-video rounded-2xl bg-black"
+            >
+              Your browser can&apos;t play this video.
+            </video>
+            {video.title && (
+              <figcaption className="text-sm text-gray-600">{video.title}</figcaption>
+            )}
+          </figure>
+        ))}
+      </div>
+    );
+  }
+
   return (
     <>
       {/* Thumbnail Grid */}
       <div className="space-y-4">
+        {tabBar}
+
         {/* Main Preview (first image) */}
         <div className="relative w-full aspect-video rounded-2xl overflow-hidden cursor-pointer group" onClick={() => openModal(0)}>
           <img
-            src={images[0]}
-            alt={`${title} - Main view`}
-            className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+            src={getListingImageUrl(images[0], 'medium')}
+            srcSet={getListingImageSrcSet(images[0])}
+            sizes="(min-width: 1024px) 66vw, 100vw"
+            alt={captions[0] || `${title} - Main view`}
+            className={`w-full h-full transition-transform duration-300 group-hover:scale-105 ${
+              currentTab === 'floor_plans' ? 'object-contain bg-white' : 'object-cover'
+            }`}
           />
+          {captions[0] && (
+            <div className="absolute bottom-3 left-3 z-10 bg-black/60 text-white text-sm px-3 py-1 rounded-full">
+              {captions[0]}
+            </div>
+          )}
           {images.length > 1 && (
             <div className="absolute inset-0 bg-black/30 group-hover:bg-black/40 transition-colors flex items-center justify-center">
               <div className="text-white text-sm font-semibold bg-black/50 px-3 py-1 rounded-full">
-                {images.length} photos - Click to view
+                {images.length} {currentTab === 'floor_plans' ? 'floor plans' : 'photos'} - Click to view
               </div>
             </div>
           )}
@@ -118,8 +211,8 @@ export default function ListingGallery({ images, title }: ListingGalleryProps) {
                 className="relative aspect-video rounded-lg overflow-hidden cursor-pointer group focus:outline-none focus:ring-2 focus:ring-gold"
               >
                 <img
-                  src={image}
-                  alt={`${title} - View ${index + 2}`}
+                  src={getListingImageUrl(image, 'thumb')}
+                  alt={captions[index + 1] || `${title} - View ${index + 2}`}
                   className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110"
                 />
                 {index === 3 && images.length > 5 && (
@@ -215,14 +308,17 @@ export default function ListingGallery({ images, title }: ListingGalleryProps) {
 
           {/* Main Image */}
           <div
-            className="max-w-7xl max-h-full w-full h-full flex items-center justify-center"
+            className="max-w-7xl max-h-full w-full h-full flex flex-col items-center justify-center"
             onClick={(e) => e.stopPropagation()}
           >
             <img
-              src={images[selectedIndex]}
-              alt={`${title} - Image ${selectedIndex + 1}`}
-              className="max-w-full max-h-full object-contain"
+              src={getListingImageUrl(images[selectedIndex], 'full')}
+              alt={captions[selectedIndex] || `${title} - Image ${selectedIndex + 1}`}
+              className="max-w-full min-h-0 flex-1 object-contain"
             />
+            {captions[selectedIndex] && (
+              <p className="mt-3 text-white text-center text-base">{captions[selectedIndex]}</p>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,112 @@
+"use client";
+
+/**
+ * Listing Map Component
+ * Clustered listing pins on a SlippyMap
+ * Clicking a cluster zooms in; clicking a pin shows a preview card
+ */
+
+import { useState, useMemo } from "react";
+import Link from "next/link";
+import SlippyMap, { MapView } from "./SlippyMap";
+import { LatLng, MAX_ZOOM, clusterPoints } from "@/lib/geo";
+import { getListingImageUrl } from "@/lib/listingImages";
+
+export interface ListingMapMarker extends LatLng {
+  id: string;
+  title: string;
+  price: string; // Already formatted in the display currency
+  image?: string;
+}
+
+interface ListingMapProps {
+  markers: ListingMapMarker[];
+  center: LatLng;
+  zoom: number;
+  onViewChange: (view: MapView) => void;
+  className?: string;
+}
+
+export default function ListingMap({ markers, center, zoom, onViewChange, className }: ListingMapProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const clusters = useMemo(() => clusterPoints(markers, zoom), [markers, zoom]);
+  const selected = markers.find((marker) => marker.id === selectedId) || null;
+
+  return (
+    <SlippyMap
+      center={center}
+      zoom={zoom}
+      onViewChange={onViewChange}
+      onMapClick={() => setSelectedId(null)}
+      className={className}
+      renderOverlay={(toScreen, setView) => (
+        <>
+          {clusters.map((cluster) => {
+            const point = toScreen(cluster.position);
+
+            // Single pin (or stacked pins that can't be split further)
+            if (cluster.items.length === 1 || zoom >= MAX_ZOOM) {
+              const marker = cluster.items[0];
+              return (
+                <button
+                  key={cluster.key}
+                  type="button"
+                  onClick={() => setSelectedId(marker.id)}
+                  className={`absolute z-10 -translate-x-1/2 -translate-y-full px-2 py-1 rounded-lg text-xs font-bold shadow-lg whitespace-nowrap transition-colors ${
+                    selectedId === marker.id
+                      ? 'bg-gray-900 text-gold'
+                      : 'bg-gold text-gray-900 hover:bg-gold-light'
+                  }`}
+                  style={{ left: point.x, top: point.y }}
+                >
+                  {marker.price}
+                  {cluster.items.length > 1 && ` +${cluster.items.length - 1}`}
+                </button>
+              );
+            }
+
+            return (
+              <button
+                key={cluster.key}
+                type="button"
+                onClick={() => {
+                  setSelectedId(null);
+                  setView(cluster.position, zoom + 2);
+                }}
+                className="absolute z-10 -translate-x-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-gray-900/90 border-2 border-gold text-gold text-sm font-bold shadow-lg hover:scale-110 transition-transform"
+                style={{ left: point.x, top: point.y }}
+                aria-label={`${cluster.items.length} listings, zoom in`}
+              >
+                {cluster.items.length}
+              </button>
+            );
+          })}
+
+          {/* Selected Listing Preview */}
+          {selected && (
+            <div className="absolute bottom-4 left-4 z-20 w-64 bg-white rounded-xl shadow-2xl overflow-hidden">
+              <Link href={`/listings/${selected.id}`} className="block hover:bg-gray-50">
+                {selected.image && (
+                  <img src={getListingImageUrl(selected.image, 'thumb')} alt={selected.title} className="w-full h-32 object-cover" />
+                )}
+                <div className="p-3">
+                  <p className="font-bold text-gray-900 truncate">{selected.title}</p>
+                  <p className="text-gold-dark font-semibold">{selected.price}</p>
+                </div>
+              </Link>
+              <button
+                type="button"
+                onClick={() => setSelectedId(null)}
+                className="absolute top-2 right-2 w-7 h-7 rounded-full bg-black/60 text-white text-sm hover:bg-black/80"
+                aria-label="Close preview"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    />
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+/**
+ * Listing Photo Manager Component
+ * Drag (or arrow buttons) to reorder, pick the cover, caption and delete photos
+ * The first photo is the cover
+ */
+
+import { useState } from "react";
+import {
+  ListingPhoto,
+  MAX_LISTING_IMAGE_CAPTION_LENGTH,
+  getListingImageUrl,
+} from "@/lib/listingImages";
+
+interface ListingPhotoManagerProps {
+  photos: ListingPhoto[];
+  onChange: (photos: ListingPhoto[]) => void;
+  onDelete: (photo: ListingPhoto) => void;
+  deletingUrl?: string | null;
+  disabled?: boolean;
+}
+
+// Move one item to a new index
+function movePhoto(photos: ListingPhoto[], from: number, to: number): ListingPhoto[] {
+  const next = [...photos];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export default function ListingPhotoManager({
+  photos,
+  onChange,
+  onDelete,
+  deletingUrl = null,
+  disabled = false,
+}: ListingPhotoManagerProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(movePhoto(photos, dragIndex, index));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const updateCaption = (index: number, caption: string) => {
+    onChange(photos.map((photo, i) => (i === index ? { ...photo, caption } : photo)));
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {photos.map((photo, index) => {
+        const isCover = index === 0;
+        const isDeleting = deletingUrl === photo.url;
+
+        return (
+          <div
+            key={photo.url}
+            draggable={!disabled}
+            onDragStart={(e) => {
+              setDragIndex(index);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex((prev) => (prev === index ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className={`rounded-xl border-2 bg-white/60 overflow-hidden transition-all ${
+              dropIndex === index && dragIndex !== index
+                ? 'border-gold shadow-lg'
+                : isCover
+                ? 'border-gold/70'
+                : 'border-gold/30'
+            } ${dragIndex === index ? 'opacity-50' : ''} ${isDeleting ? 'opacity-50' : ''}`}
+          >
+            <div className="relative cursor-move">
+              <img
+                src={getListingImageUrl(photo.url, 'thumb')}
+                alt={photo.caption || `Photo ${index + 1}`}
+                draggable={false}
+                className="w-full h-36 object-cover"
+              />
+              {isCover && (
+                <span className="absolute top-2 left-2 px-2 py-0.5 bg-gold text-gray-900 text-xs font-bold rounded-full">
+                  ★ Cover
+                </span>
+              )}
+              <span className="absolute top-2 right-2 px-2 py-0.5 bg-black/60 text-white text-xs rounded-full">
+                {index + 1}/{photos.length}
+              </span>
+            </div>
+
+            <div className="p-2 space-y-2">
+              <input
+                type="text"
+                value={photo.caption}
+                onChange={(e) => updateCaption(index, e.target.value)}
+                placeholder="Caption (e.g. Master bedroom)"
+                maxLength={MAX_LISTING_IMAGE_CAPTION_LENGTH}
+                disabled={disabled}
+                className="w-full px-3 py-1.5 rounded-lg border border-gold/40 focus:border-gold focus:outline-none text-sm"
+              />
+              <div className="flex items-center gap-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() => onChange(movePhoto(photos, index, index - 1))}
+                  disabled={disabled || index === 0}
+                  className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-40"
+                  aria-label="Move earlier"
+                >
+                  ←
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(movePhoto(photos, index, index + 1))}
+                  disabled={disabled || index === photos.length - 1}
+                  className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-40"
+                  aria-label="Move later"
+                >
+                  →
+                </button>
+                {!isCover && (
+                  <button
+                    type="button"
+                    onClick={() => onChange(movePhoto(photos, index, 0))}
+                    disabled={disabled}
+                    className="px-2 py-1 rounded bg-gold/20 hover:bg-gold/40 text-gray-800 font-semibold disabled:opacity-40"
+                  >
+                    ★ Make cover
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onDelete(photo)}
+                  disabled={disabled || isDeleting}
+                  className="ml-auto px-2 py-1 rounded bg-red-50 hover:bg-red-100 text-red-600 font-semibold disabled:opacity-40"
+                >
+                  {isDeleting ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+/**
+ * Map Pin Picker Component
+ * Lets a listing owner place the property on a map (click to drop the pin)
+ */
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import SlippyMap from "./SlippyMap";
+import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM, LatLng } from "@/lib/geo";
+
+interface MapPinPickerProps {
+  value: LatLng | null;
+  onChange: (value: LatLng | null) => void;
+}
+
+// Zoom used once a pin is placed
+const PIN_ZOOM = 16;
+
+export default function MapPinPicker({ value, onChange }: MapPinPickerProps) {
+  const [center, setCenter] = useState<LatLng>(value || DEFAULT_MAP_CENTER);
+  const [zoom, setZoom] = useState<number>(value ? PIN_ZOOM : DEFAULT_MAP_ZOOM);
+  const [locating, setLocating] = useState(false);
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error("Location is not available in this browser");
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const pin = { lat: position.coords.latitude, lng: position.coords.longitude };
+        onChange(pin);
+        setCenter(pin);
+        setZoom(PIN_ZOOM);
+        setLocating(false);
+      },
+      (err) => {
+        console.error("[MapPinPicker] Error getting location:", err);
+        toast.error("Could not get your location");
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  return (
+    <div>
+      <SlippyMap
+        center={center}
+        zoom={zoom}
+        onViewChange={(view) => {
+          setCenter(view.center);
+          setZoom(view.zoom);
+        }}
+        onMapClick={onChange}
+        className="h-72"
+        renderOverlay={(toScreen) => {
+          if (!value) return null;
+          const point = toScreen(value);
+          return (
+            <div
+              className="absolute z-10 -translate-x-1/2 -translate-y-full text-3xl pointer-events-none drop-shadow-lg"
+              style={{ left: point.x, top: point.y }}
+            >
+              📍
+            </div>
+          );
+        }}
+      />
+
+      <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+        <button
+          type="button"
+          onClick={handleUseMyLocation}
+          disabled={locating}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gold rounded-lg transition-all disabled:opacity-50"
+        >
+          {locating ? "Locating..." : "📍 Use my location"}
+        </button>
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-all"
+          >
+            Clear pin
+          </button>
+        )}
+        <span className="text-gray-500">
+          {value
+            ? `${value.lat.toFixed(5)}, ${value.lng.toFixed(5)}`
+            : "Click the map to place the property"}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+/**
+ * Mortgage Calculator Component
+ * Monthly payment and amortization for a listing's asking price, plus an
+ * estimated rental yield from the linked area journal's rent range
+ * Figures are estimates for guidance only
+ */
+
+import { useState } from "react";
+import { formatMoney } from "@/lib/currency";
+import { AREA_JOURNAL_CURRENCY, AreaJournalSnapshot, getAreaRentRange } from "@/lib/areaJournals";
+import {
+  DEFAULT_DOWN_PAYMENT_PCT,
+  DEFAULT_INTEREST_RATE_PCT,
+  DEFAULT_RUNNING_COSTS_PCT,
+  DEFAULT_TERM_YEARS,
+  MORTGAGE_TERM_YEARS,
+  getAmortizationSchedule,
+  getMonthlyPayment,
+  getRentalYield,
+} from "@/lib/mortgage";
+
+interface MortgageCalculatorProps {
+  price: number;
+  currency: string;
+  priceUsd: number | null; // Asking price in the journal currency (null without a rate)
+  bedrooms: number | null;
+  area: AreaJournalSnapshot | null;
+}
+
+// Parse a numeric input, falling back to 0 while the field is being edited
+const toNumber = (value: string) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+};
+
+const formatPct = (value: number) => `${value.toFixed(1)}%`;
+
+export default function MortgageCalculator({ price, currency, priceUsd, bedrooms, area }: MortgageCalculatorProps) {
+  const [homePrice, setHomePrice] = useState(String(Math.round(price)));
+  const [downPaymentPct, setDownPaymentPct] = useState(String(DEFAULT_DOWN_PAYMENT_PCT));
+  const [ratePct, setRatePct] = useState(String(DEFAULT_INTEREST_RATE_PCT));
+  const [termYears, setTermYears] = useState<number>(DEFAULT_TERM_YEARS);
+  const [runningCostsPct, setRunningCostsPct] = useState(String(DEFAULT_RUNNING_COSTS_PCT));
+  const [showSchedule, setShowSchedule] = useState(false);
+
+  const formatAmount = (amount: number) => formatMoney(amount, currency);
+
+  const priceValue = toNumber(homePrice);
+  const downPayment = (priceValue * Math.min(toNumber(downPaymentPct), 100)) / 100;
+  const loanAmount = priceValue - downPayment;
+  const rate = toNumber(ratePct);
+  const monthlyPayment = getMonthlyPayment(loanAmount, rate, termYears);
+  const totalPaid = monthlyPayment * termYears * 12;
+  const schedule = showSchedule ? getAmortizationSchedule(loanAmount, rate, termYears) : [];
+
+  // Yield compares journal rents (USD) with the entered price, converted at
+  // the same rate as the asking price
+  const usdRate = priceUsd && price > 0 ? priceUsd / price : null;
+  const rentRange = area ? getAreaRentRange(area, bedrooms) : null;
+  const costs = Math.min(toNumber(runningCostsPct), 100);
+  const lowYield = rentRange && usdRate ? getRentalYield(priceValue * usdRate, rentRange.min, costs) : null;
+  const highYield = rentRange && usdRate ? getRentalYield(priceValue * usdRate, rentRange.max, costs) : null;
+
+  const inputClassName = "w-full px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none";
+
+  return (
+    <div className="glass-dark rounded-2xl p-6">
+      <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+        Mortgage & Yield Calculator
+      </h2>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div>
+          <label htmlFor="calc_price" className="block text-sm font-semibold text-gray-700 mb-1">
+            Price ({currency})
+          </label>
+          <input
+            id="calc_price"
+            type="number"
+            min="0"
+            value={homePrice}
+            onChange={(e) => setHomePrice(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="calc_down" className="block text-sm font-semibold text-gray-700 mb-1">
+            Down payment (%)
+          </label>
+          <input
+            id="calc_down"
+            type="number"
+            min="0"
+            max="100"
+            step="1"
+            value={downPaymentPct}
+            onChange={(e) => setDownPaymentPct(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="calc_rate" className="block text-sm font-semibold text-gray-700 mb-1">
+            Interest rate (% / year)
+          </label>
+          <input
+            id="calc_rate"
+            type="number"
+            min="0"
+            step="0.1"
+            value={ratePct}
+            onChange={(e) => setRatePct(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="calc_term" className="block text-sm font-semibold text-gray-700 mb-1">
+            Term
+          </label>
+          <select
+            id="calc_term"
+            value={termYears}
+            onChange={(e) => setTermYears(Number(e.target.value))}
+            className={inputClassName}
+          >
+            {MORTGAGE_TERM_YEARS.map((years) => (
+              <option key={years} value={years}>
+                {years} years
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4 text-center">
+        {[
+          { label: 'Monthly payment', value: formatAmount(monthlyPayment), highlight: true },
+          { label: 'Loan amount', value: formatAmount(loanAmount) },
+          { label: 'Down payment', value: formatAmount(downPayment) },
+          { label: 'Total interest', value: formatAmount(Math.max(totalPaid - loanAmount, 0)) },
+        ].map((item) => (
+          <div key={item.label} className={`rounded-xl p-3 ${item.highlight ? 'bg-gold/20' : 'bg-white/50'}`}>
+            <div className={`font-bold ${item.highlight ? 'text-gold-dark text-lg' : 'text-gray-900'}`}>{item.value}</div>
+            <div className="text-xs text-gray-600">{item.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {loanAmount > 0 && (
+        <button
+          onClick={() => setShowSchedule((prev) => !prev)}
+          className="text-sm text-gold-dark hover:text-gold font-semibold mb-2"
+        >
+          {showSchedule ? 'Hide amortization table' : 'Show amortization table'}
+        </button>
+      )}
+
+      {showSchedule && schedule.length > 0 && (
+        <div className="max-h-64 overflow-y-auto mb-4">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white/90">
+              <tr className="text-left text-gray-500 border-b border-gold/20">
+                <th className="py-1 font-semibold">Year</th>
+                <th className="py-1 font-semibold text-right">Principal</th>
+                <th className="py-1 font-semibold text-right">Interest</th>
+                <th className="py-1 font-semibold text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {schedule.map((row) => (
+                <tr key={row.year} className="border-b border-gold/10 last:border-0">
+                  <td className="py-1 text-gray-700">{row.year}</td>
+                  <td className="py-1 text-right text-gray-900">{formatAmount(row.principal)}</td>
+                  <td className="py-1 text-right text-gray-700">{formatAmount(row.interest)}</td>
+                  <td className="py-1 text-right text-gray-700">{formatAmount(row.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Rental yield */}
+      <div className="pt-4 border-t border-gold/20">
+        <h3 className="font-semibold text-gray-900 mb-2">Estimated Rental Yield</h3>
+        {!area ? (
+          <p className="text-sm text-gray-500">Link this listing to an area journal to estimate rental yield.</p>
+        ) : !rentRange ? (
+          <p className="text-sm text-gray-500">
+            {area.name} has no published rent range for {bedrooms == null ? 'this property' : `${bedrooms}-bedroom homes`}.
+          </p>
+        ) : !usdRate ? (
+          <p className="text-sm text-gray-500">No exchange rate for {currency}, so the yield can&apos;t be estimated.</p>
+        ) : !lowYield || !highYield ? (
+          <p className="text-sm text-gray-500">Enter a price to estimate the rental yield.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+              <span className="text-gray-700">
+                {rentRange.beds}BR rent in {area.name}:{' '}
+                <span className="font-semibold text-gray-900">
+                  {formatMoney(rentRange.min, AREA_JOURNAL_CURRENCY)} – {formatMoney(rentRange.max, AREA_JOURNAL_CURRENCY)}/mo
+                </span>
+              </span>
+              <label htmlFor="calc_costs" className="text-gray-700 ml-auto">Running costs</label>
+              <input
+                id="calc_costs"
+                type="number"
+                min="0"
+                max="100"
+                value={runningCostsPct}
+                onChange={(e) => setRunningCostsPct(e.target.value)}
+                className="w-20 px-2 py-1 rounded-lg border-2 border-gold/40 focus:border-gold focus:outline-none"
+              />
+              <span className="text-gray-700">% of rent</span>
+            </div>
+            <div className="grid grid-cols-2 gap-3 text-center">
+              <div className="rounded-xl p-3 bg-white/50">
+                <div className="font-bold text-gray-900">
+                  {formatPct(lowYield.gross)} – {formatPct(highYield.gross)}
+                </div>
+                <div className="text-xs text-gray-600">Gross yield</div>
+              </div>
+              <div className="rounded-xl p-3 bg-white/50">
+                <div className="font-bold text-gray-900">
+                  {formatPct(lowYield.net)} – {formatPct(highYield.net)}
+                </div>
+                <div className="text-xs text-gray-600">Net yield (after running costs)</div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Estimates only. Actual rates, fees and rents vary; check with a lender before making decisions.
+      </p>
+    </div>
+  );
+}
@@ -287,6 +287,20 @@ export default function Navbar() {
                   >
                     {t('common.editProfile')}
                   </Link>
+                  <Link
+                    href="/listings/mine"
+                    onClick={closeMobileMenu}
+                    className="px-4 py-2 text-gray-700 hover:text-gold hover:bg-gold/10 transition-colors font-semibold rounded-lg"
+                  >
+                    {t('common.myListings')}
+                  </Link>
+                  <Link
+                    href="/viewings"
+                    onClick={closeMobileMenu}
+                    className="px-4 py-2 text-gray-700 hover:text-gold hover:bg-gold/10 transition-colors font-semibold rounded-lg"
+                  >
+                    {t('common.myViewings')}
+                  </Link>
                   <div className="px-4 py-2">
                     <LanguageSwitcher />
                   </div>
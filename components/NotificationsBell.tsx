@@ -15,9 +15,18 @@ import Link from "next/link";
 interface Notification {
   id: string;
   actor_id: string | null;
-  type: 'follow' | 'new_post' | 'message';
+  type:
+    | 'follow'
+    | 'new_post'
+    | 'message'
+    | 'saved_search_match'
+    | 'price_drop'
+    | 'viewing_request'
+    | 'viewing_confirmed'
+    | 'viewing_declined'
+    | 'viewing_cancelled';
   entity_id: string | null; // UUID for conversations (messages)
-  entity_id_bigint: number | null; // BIGINT for post IDs (new_post)
+  entity_id_bigint: number | null; // BIGINT for post IDs (new_post) and listing IDs (saved_search_match, price_drop, viewing_*)
   title: string;
   body: string | null;
   is_read: boolean;
@@ -341,6 +350,15 @@ export default function NotificationsBell() {
       // Navigate to conversation
       // entity_id contains the conversation_id (UUID)
       router.push(`/messages/${notification.entity_id}`);
+    } else if (notification.type === 'saved_search_match' || notification.type === 'price_drop') {
+      // entity_id_bigint contains the listing ID
+      if (notification.entity_id_bigint) {
+        router.push(`/listings/${notification.entity_id_bigint}`);
+      } else {
+        router.push('/listings');
+      }
+    } else if (notification.type.startsWith('viewing_')) {
+      router.push('/viewings');
     }
   };
 
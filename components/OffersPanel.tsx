@@ -0,0 +1,403 @@
+"use client";
+
+/**
+ * Offers Panel Component
+ * Owners see every buyer's negotiation thread and accept / reject / counter;
+ * buyers make an offer and follow their own thread
+ */
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { supabase } from "@/lib/supabaseClient";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { formatMoney } from "@/lib/currency";
+import {
+  MAX_OFFER_CONDITIONS_LENGTH,
+  OFFER_EXPIRY_OPTIONS,
+  OFFER_STATUS_BADGE_CLASSES,
+  OFFER_STATUS_LABELS,
+  Offer,
+  OfferInput,
+  OfferThread,
+  counterOffer,
+  fetchListingOffers,
+  getEffectiveOfferStatus,
+  groupOfferThreads,
+  makeOffer,
+  updateOfferStatus,
+} from "@/lib/offers";
+
+interface OffersPanelProps {
+  listingId: number;
+  ownerId: string;
+  userId: string;
+  isOwner: boolean;
+  isOpen: boolean; // Listing accepts new offers (active / under offer)
+  listingCurrency: string;
+  listingPrice: number | null;
+}
+
+interface OfferFormProps {
+  defaultAmount: number | null;
+  defaultCurrency: string;
+  submitLabel: string;
+  onSubmit: (input: OfferInput) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function OfferForm({ defaultAmount, defaultCurrency, submitLabel, onSubmit, onCancel }: OfferFormProps) {
+  const { rates } = useCurrency();
+  const [amount, setAmount] = useState(defaultAmount != null ? defaultAmount.toString() : "");
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [conditions, setConditions] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      toast.error("Enter an amount greater than zero");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ amount: value, currency, conditions, expiresInDays });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // The listing currency stays selectable even if its rate was removed
+  const currencies = Array.from(new Set([defaultCurrency, ...rates.map((rate) => rate.currency)]));
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex flex-wrap gap-3">
+        <input
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Amount"
+          min="0"
+          step="any"
+          required
+          className="flex-1 min-w-[10rem] px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+        />
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+        >
+          {currencies.map((code) => (
+            <option key={code} value={code}>
+              {code}
+            </option>
+          ))}
+        </select>
+        <select
+          value={expiresInDays ?? ""}
+          onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+          className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+          aria-label="Offer valid for"
+        >
+          {OFFER_EXPIRY_OPTIONS.map((option) => (
+            <option key={option.label} value={option.days ?? ""}>
+              {option.days ? `Valid ${option.label}` : option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        value={conditions}
+        onChange={(e) => setConditions(e.target.value)}
+        placeholder="Conditions (e.g. subject to financing, furniture included)"
+        maxLength={MAX_OFFER_CONDITIONS_LENGTH}
+        rows={2}
+        className="w-full px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? "Sending..." : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-2 bg-gray-200 text-gray-800 font-bold rounded-xl hover:bg-gray-300 transition-all"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export default function OffersPanel({
+  listingId,
+  ownerId,
+  userId,
+  isOwner,
+  isOpen,
+  listingCurrency,
+  listingPrice,
+}: OffersPanelProps) {
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [buyerNames, setBuyerNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [counteringId, setCounteringId] = useState<number | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [showOfferForm, setShowOfferForm] = useState(false);
+
+  const loadOffers = async () => {
+    const { offers: data, error } = await fetchListingOffers(listingId);
+    if (error) {
+      console.error("[OffersPanel] Error loading offers:", error);
+      setIsLoading(false);
+      return;
+    }
+
+    setOffers(data);
+    setIsLoading(false);
+
+    // Owners see who made each offer
+    if (isOwner) {
+      const ids = Array.from(new Set(data.map((offer) => offer.buyer_id)));
+      if (ids.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, display_name")
+          .in("id", ids);
+        const names: Record<string, string> = {};
+        for (const profile of profiles || []) {
+          names[profile.id] = profile.display_name || "User";
+        }
+        setBuyerNames(names);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadOffers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listingId, userId, isOwner]);
+
+  const handleMakeOffer = async (input: OfferInput) => {
+    const { error } = await makeOffer(listingId, userId, ownerId, input);
+    if (error) {
+      console.error("[OffersPanel] Error making offer:", error);
+      toast.error(error.message || "Failed to send offer");
+      return;
+    }
+    toast.success("Offer sent");
+    setShowOfferForm(false);
+    await loadOffers();
+  };
+
+  const handleCounter = async (parent: Offer, input: OfferInput) => {
+    const { error } = await counterOffer(parent, userId, input);
+    if (error) {
+      console.error("[OffersPanel] Error sending counter-offer:", error);
+      toast.error(error.message || "Failed to send counter-offer");
+      return;
+    }
+    toast.success("Counter-offer sent");
+    setCounteringId(null);
+    await loadOffers();
+  };
+
+  const handleStatusChange = async (offer: Offer, status: 'accepted' | 'rejected' | 'withdrawn') => {
+    const prompts = {
+      accepted: `Accept ${formatMoney(offer.amount, offer.currency)}?${isOwner ? " The listing will be marked Under Offer." : ""}`,
+      rejected: `Reject ${formatMoney(offer.amount, offer.currency)}?`,
+      withdrawn: "Withdraw this offer?",
+    };
+    if (!window.confirm(prompts[status])) return;
+
+    setBusyId(offer.id);
+    try {
+      const { error } = await updateOfferStatus(offer.id, status);
+      if (error) {
+        console.error("[OffersPanel] Error updating offer:", error);
+        toast.error(error.message || "Failed to update offer");
+        return;
+      }
+      toast.success(`Offer ${OFFER_STATUS_LABELS[status].toLowerCase()}`);
+      await loadOffers();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  const threads = groupOfferThreads(offers);
+  const myThread = isOwner ? null : threads.find((thread) => thread.buyerId === userId) || null;
+  const canOpenOffer = !isOwner && isOpen && (!myThread || getEffectiveOfferStatus(myThread.latest) !== 'pending');
+
+  const sideLabel = (offer: Offer) => {
+    if (offer.made_by === userId) return "You";
+    return offer.made_by === ownerId ? "Owner" : buyerNames[offer.buyer_id] || "Buyer";
+  };
+
+  const renderThread = (thread: OfferThread) => {
+    const latest = thread.latest;
+    const latestStatus = getEffectiveOfferStatus(latest);
+    const isMine = latest.made_by === userId;
+
+    return (
+      <div key={thread.buyerId} className="p-4 rounded-xl bg-white/50 border border-gold/20">
+        {isOwner && (
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <span className="font-semibold text-gray-900">{buyerNames[thread.buyerId] || "Buyer"}</span>
+            {latest.conversation_id && (
+              <Link href={`/messages/${latest.conversation_id}`} className="text-xs text-gold-dark hover:text-gold font-semibold">
+                Open conversation →
+              </Link>
+            )}
+          </div>
+        )}
+
+        {/* Offer history, oldest first */}
+        <ol className="space-y-2">
+          {thread.offers.map((offer) => {
+            const status = getEffectiveOfferStatus(offer);
+            return (
+              <li key={offer.id} className="text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-gray-500">
+                    {sideLabel(offer)}{offer.parent_offer_id ? " countered" : " offered"}
+                  </span>
+                  <span className="font-bold text-gray-900">{formatMoney(offer.amount, offer.currency)}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${OFFER_STATUS_BADGE_CLASSES[status]}`}>
+                    {OFFER_STATUS_LABELS[status]}
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    {new Date(offer.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </span>
+                </div>
+                {offer.conditions && (
+                  <p className="mt-0.5 text-gray-600 whitespace-pre-wrap">{offer.conditions}</p>
+                )}
+                {status === 'pending' && offer.expires_at && (
+                  <p className="text-xs text-gray-500">
+                    Valid until {new Date(offer.expires_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        {/* Actions on the open offer */}
+        {latestStatus === 'pending' && counteringId !== latest.id && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {isMine ? (
+              <button
+                type="button"
+                onClick={() => handleStatusChange(latest, 'withdrawn')}
+                disabled={busyId === latest.id}
+                className="px-3 py-1 rounded-lg bg-gray-200 hover:bg-gray-300 text-gray-800 text-xs font-bold disabled:opacity-50"
+              >
+                Withdraw
+              </button>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => handleStatusChange(latest, 'accepted')}
+                  disabled={busyId === latest.id}
+                  className="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 text-white text-xs font-bold disabled:opacity-50"
+                >
+                  Accept
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleStatusChange(latest, 'rejected')}
+                  disabled={busyId === latest.id}
+                  className="px-3 py-1 rounded-lg bg-red-50 hover:bg-red-100 text-red-600 text-xs font-bold disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setCounteringId(latest.id)}
+                  disabled={busyId === latest.id}
+                  className="px-3 py-1 rounded-lg bg-gold/20 hover:bg-gold/40 text-gray-800 text-xs font-bold disabled:opacity-50"
+                >
+                  Counter
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {counteringId === latest.id && (
+          <div className="mt-3 pt-3 border-t border-gold/20">
+            <OfferForm
+              defaultAmount={latest.amount}
+              defaultCurrency={latest.currency}
+              submitLabel="Send Counter-Offer"
+              onSubmit={(input) => handleCounter(latest, input)}
+              onCancel={() => setCounteringId(null)}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Visitors only see the panel when they can make an offer or have one
+  if (!isOwner && !myThread && !isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="glass-dark rounded-2xl p-6">
+      <h2 className="font-orbitron text-xl font-bold text-gray-900 mb-4">
+        Offers
+      </h2>
+
+      {isOwner ? (
+        threads.length === 0 ? (
+          <p className="text-sm text-gray-500">No offers yet.</p>
+        ) : (
+          <div className="space-y-3">{threads.map(renderThread)}</div>
+        )
+      ) : (
+        <div className="space-y-3">
+          {myThread && renderThread(myThread)}
+
+          {canOpenOffer && (
+            showOfferForm ? (
+              <OfferForm
+                defaultAmount={listingPrice}
+                defaultCurrency={listingCurrency}
+                submitLabel="Send Offer"
+                onSubmit={handleMakeOffer}
+                onCancel={() => setShowOfferForm(false)}
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => setShowOfferForm(true)}
+                className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all"
+              >
+                {myThread ? "Make a New Offer" : "Make an Offer"}
+              </button>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
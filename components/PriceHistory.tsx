@@ -0,0 +1,124 @@
+"use client";
+
+/**
+ * Price History Component
+ * Step chart of a listing's asking price over time, plus a timeline of changes
+ * Plain SVG (no chart library); history comes from listing_price_history
+ */
+
+import { ListingPriceChange } from "@/lib/listings";
+
+interface PriceHistoryProps {
+  history: ListingPriceChange[]; // Oldest first
+  formatPrice: (price: number) => string;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 16 };
+
+export default function PriceHistory({ history, formatPrice }: PriceHistoryProps) {
+  // Only entries with a price can be plotted
+  const points = history
+    .filter((change) => change.new_price != null)
+    .map((change) => ({
+      time: new Date(change.changed_at).getTime(),
+      price: change.new_price as number,
+    }));
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const formatDate = (value: string | number) =>
+    new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  // Extend the last price to today so the final step is visible
+  const now = Date.now();
+  const minTime = points[0].time;
+  const maxTime = Math.max(now, points[points.length - 1].time);
+  const prices = points.map((p) => p.price);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  // Pad the range so a flat history draws in the middle
+  const priceSpan = maxPrice - minPrice || Math.max(maxPrice * 0.1, 1);
+  const lowPrice = minPrice - priceSpan * 0.15;
+  const highPrice = maxPrice + priceSpan * 0.15;
+
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) =>
+    PADDING.left + (maxTime === minTime ? innerWidth / 2 : ((time - minTime) / (maxTime - minTime)) * innerWidth);
+  const y = (price: number) =>
+    PADDING.top + (1 - (price - lowPrice) / (highPrice - lowPrice)) * innerHeight;
+
+  // Step path: price holds until the next change
+  let path = `M ${x(points[0].time)} ${y(points[0].price)}`;
+  for (let i = 1; i < points.length; i++) {
+    path += ` H ${x(points[i].time)} V ${y(points[i].price)}`;
+  }
+  path += ` H ${x(maxTime)}`;
+
+  const changes = history.filter((change) => change.old_price != null);
+
+  return (
+    <div>
+      {points.length > 1 && (
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full h-auto mb-4"
+          role="img"
+          aria-label="Price history chart"
+        >
+          <path d={path} fill="none" stroke="currentColor" strokeWidth="3" className="text-gold-dark" />
+          {points.map((point, index) => (
+            <circle
+              key={index}
+              cx={x(point.time)}
+              cy={y(point.price)}
+              r="5"
+              className="fill-gold-dark"
+            >
+              <title>{`${formatPrice(point.price)} · ${formatDate(point.time)}`}</title>
+            </circle>
+          ))}
+          <text x={PADDING.left} y={CHART_HEIGHT - 6} className="fill-gray-500 text-xs">
+            {formatDate(minTime)}
+          </text>
+          <text x={CHART_WIDTH - PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-xs">
+            Today
+          </text>
+        </svg>
+      )}
+
+      {/* Timeline (newest first) */}
+      <ul className="space-y-2">
+        {[...changes].reverse().map((change) => {
+          const oldPrice = change.old_price as number;
+          const newPrice = change.new_price;
+          const diffPct = newPrice != null && oldPrice > 0
+            ? Math.round(((newPrice - oldPrice) / oldPrice) * 100)
+            : null;
+          return (
+            <li key={change.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-gray-500">{formatDate(change.changed_at)}</span>
+              <span className="text-gray-800">
+                <span className="line-through text-gray-400 mr-2">{formatPrice(oldPrice)}</span>
+                {newPrice != null ? formatPrice(newPrice) : 'Price removed'}
+                {diffPct !== null && diffPct !== 0 && (
+                  <span className={`ml-2 font-semibold ${diffPct < 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    {diffPct > 0 ? '+' : ''}{diffPct}%
+                  </span>
+                )}
+              </span>
+            </li>
+          );
+        })}
+        <li className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span className="text-gray-500">{formatDate(points[0].time)}</span>
+          <span className="text-gray-800">Listed at {formatPrice(points[0].price)}</span>
+        </li>
+      </ul>
+    </div>
+  );
+}
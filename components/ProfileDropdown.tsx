@@ -83,6 +83,20 @@ export default function ProfileDropdown() {
             >
               {t('common.editProfile')}
             </Link>
+            <Link
+              href="/listings/mine"
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-2 text-gray-700 hover:bg-gold/20 transition-colors text-sm"
+            >
+              {t('common.myListings')}
+            </Link>
+            <Link
+              href="/viewings"
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-2 text-gray-700 hover:bg-gold/20 transition-colors text-sm"
+            >
+              {t('common.myViewings')}
+            </Link>
           </div>
 
           <div className="border-t border-gold/20 py-1">
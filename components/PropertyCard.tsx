@@ -7,19 +7,41 @@
 
 import Link from "next/link";
 import VerifiedBadge from "@/components/VerifiedBadge";
+import HighlightedText from "@/components/HighlightedText";
+import FavoriteButton from "@/components/FavoriteButton";
+import { getListingImageSrcSet, getListingImageUrl } from "@/lib/listingImages";
+import {
+  LISTING_STATUS_BADGE_CLASSES,
+  LISTING_STATUS_LABELS,
+  LISTING_TYPE_LABELS,
+  ListingStatus,
+  ListingType,
+  PROPERTY_TYPE_LABELS,
+  formatArea,
+  formatAvailability,
+  isPropertyType,
+} from "@/lib/listings";
 
 interface PropertyCardProps {
   listingId: number;
   listingUserId: string;
   title: string;
   location: string;
-  price: string;
+  price: string; // Already formatted, including any rent period suffix
+  previousPrice?: string; // Shown struck through when the price was reduced
+  priceReducedPercent?: number | null;
   description: string;
+  titleHighlight?: string; // Search highlight (replaces title when present)
+  snippet?: string; // Search snippet (replaces description when present)
   imageUrl?: string;
   bedrooms?: number;
   bathrooms?: number;
   type?: string;
-  area?: number;
+  area?: number; // Square metres
+  status?: ListingStatus;
+  listingType?: ListingType;
+  furnished?: boolean | null; // Rentals only
+  availableFrom?: string | null; // Rentals only (YYYY-MM-DD)
   currentUserId?: string;
   currentUserRole?: string;
   onDelete?: (listingId: number, listingUserId: string) => void;
@@ -28,6 +50,9 @@ interface PropertyCardProps {
   ownerName?: string | null;
   ownerVerified?: boolean;
   ownerRole?: string;
+  isFavorite?: boolean;
+  onFavoriteChange?: (listingId: number, isFavorite: boolean) => void;
+  favoriteCount?: number; // Only provided for the owner's own listings
 }
 
 export default function PropertyCard({
@@ -36,12 +61,20 @@ export default function PropertyCard({
   title,
   location,
   price,
+  previousPrice,
+  priceReducedPercent,
   description,
+  titleHighlight,
+  snippet,
   imageUrl,
   bedrooms,
   bathrooms,
   type,
   area,
+  status,
+  listingType,
+  furnished,
+  availableFrom,
   currentUserId,
   currentUserRole,
   onDelete,
@@ -50,11 +83,16 @@ export default function PropertyCard({
   ownerName,
   ownerVerified,
   ownerRole,
+  isFavorite = false,
+  onFavoriteChange,
+  favoriteCount,
 }: PropertyCardProps) {
   // Check if current user can edit/delete this listing (owner or admin)
   const canEditOrDelete = currentUserId && (
     currentUserId === listingUserId || currentUserRole === 'admin'
   );
+  // Owners don't favorite their own listings
+  const canFavorite = !!currentUserId && currentUserId !== listingUserId;
 
   return (
     <div className="glass-dark rounded-2xl overflow-hidden hover:scale-105 transition-transform shadow-lg w-full relative">
@@ -120,13 +158,26 @@ export default function PropertyCard({
         </div>
       )}
       
+      {/* Favorite Button */}
+      {canFavorite && (
+        <div className="absolute top-2 left-2 z-20">
+          <FavoriteButton
+            listingId={listingId}
+            isFavorite={isFavorite}
+            onChange={onFavoriteChange}
+          />
+        </div>
+      )}
+
       {/* Clickable Card Content - Navigate to detail page */}
       <Link href={`/listings/${listingId}`} className="block">
-        {/* Image with Type Badge */}
+        {/* Image with Type / Status Badges */}
         <div className="relative aspect-video bg-gradient-to-br from-gold/20 to-gold-dark/20 flex items-center justify-center overflow-hidden">
           {imageUrl ? (
             <img
-              src={imageUrl}
+              src={getListingImageUrl(imageUrl, 'thumb')}
+              srcSet={getListingImageSrcSet(imageUrl, 'medium')}
+              sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
               alt={title}
               className="w-full h-full object-cover rounded-t-2xl"
               onError={(e) => {
@@ -150,13 +201,27 @@ export default function PropertyCard({
           )}
           {type && (
             <div className="absolute top-2 right-2 px-3 py-1 bg-gold/90 text-gray-900 text-xs font-bold rounded-full uppercase z-10">
-              {type}
+              {isPropertyType(type) ? PROPERTY_TYPE_LABELS[type] : type}
+            </div>
+          )}
+          {/* Sale / Rent Badge */}
+          {listingType && (
+            <div className={`absolute bottom-2 right-2 px-3 py-1 text-xs font-bold rounded-full uppercase z-10 ${
+              listingType === 'rent' ? 'bg-blue-600 text-white' : 'bg-gray-900/80 text-white'
+            }`}>
+              {LISTING_TYPE_LABELS[listingType]}
+            </div>
+          )}
+          {/* Status Badge (active listings don't need one) */}
+          {status && status !== 'active' && (
+            <div className={`absolute bottom-2 left-2 px-3 py-1 text-xs font-bold rounded-full uppercase z-10 ${LISTING_STATUS_BADGE_CLASSES[status]}`}>
+              {LISTING_STATUS_LABELS[status]}
             </div>
           )}
         </div>
         <div className="p-4 sm:p-6">
           <h3 className="font-orbitron text-lg sm:text-xl font-bold text-gray-900 mb-2 break-words">
-            {title}
+            {titleHighlight ? <HighlightedText text={titleHighlight} /> : title}
           </h3>
           {/* Owner Name with Verified Badge */}
           {ownerName && (
@@ -174,30 +239,61 @@ export default function PropertyCard({
             <span className="mr-2">📍</span>
             <span className="break-words">{location}</span>
           </p>
-          <p className="text-xl sm:text-2xl font-bold text-gold-dark mb-3">{price}</p>
+          <div className="flex flex-wrap items-baseline gap-x-2 mb-3">
+            <p className="text-xl sm:text-2xl font-bold text-gold-dark">{price}</p>
+            {priceReducedPercent != null && (
+              <>
+                {previousPrice && (
+                  <span className="text-sm text-gray-400 line-through">{previousPrice}</span>
+                )}
+                <span className="px-2 py-0.5 bg-green-100 text-green-800 text-xs font-bold rounded-full">
+                  ↓ Price reduced {priceReducedPercent}%
+                </span>
+              </>
+            )}
+          </div>
+
+          {/* Favorite count (owner only) */}
+          {favoriteCount !== undefined && (
+            <p className="text-xs text-gray-500 mb-3">
+              ❤️ Saved by {favoriteCount} {favoriteCount === 1 ? 'person' : 'people'}
+            </p>
+          )}
           
           {/* Key Facts */}
-          {(bedrooms || bathrooms || area) && (
+          {(bedrooms != null || bathrooms != null || area != null || listingType === 'rent') && (
             <div className="flex flex-wrap gap-2 mb-3">
-              {bedrooms && (
+              {bedrooms != null && (
+                <span className="px-2 py-1 bg-gold/20 text-gray-700 text-xs font-semibold rounded">
+                  🛏️ {bedrooms} bed{bedrooms !== 1 ? 's' : ''}
+                </span>
+              )}
+              {bathrooms != null && (
                 <span className="px-2 py-1 bg-gold/20 text-gray-700 text-xs font-semibold rounded">
-                  🛏️ {bedrooms} bed{bedrooms > 1 ? 's' : ''}
+                  🚿 {bathrooms} bath{bathrooms !== 1 ? 's' : ''}
                 </span>
               )}
-              {bathrooms && (
+              {area != null && (
                 <span className="px-2 py-1 bg-gold/20 text-gray-700 text-xs font-semibold rounded">
-                  🚿 {bathrooms} bath{bathrooms > 1 ? 's' : ''}
+                  📐 {formatArea(area)}
                 </span>
               )}
-              {area && (
+              {listingType === 'rent' && furnished != null && (
                 <span className="px-2 py-1 bg-gold/20 text-gray-700 text-xs font-semibold rounded">
-                  📐 {area.toLocaleString()} sq ft
+                  🛋️ {furnished ? 'Furnished' : 'Unfurnished'}
+                </span>
+              )}
+              {listingType === 'rent' && (
+                <span className="px-2 py-1 bg-gold/20 text-gray-700 text-xs font-semibold rounded">
+                  📅 {formatAvailability(availableFrom)}
                 </span>
               )}
             </div>
           )}
           
-          <p className="text-gray-600 line-clamp-2 text-sm sm:text-base">{description}</p>
+          <p className="text-gray-600 line-clamp-2 text-sm sm:text-base">
+            {snippet ? <HighlightedText text={snippet} /> : description}
+          </p>
         </div>
       </Link>
     </div>
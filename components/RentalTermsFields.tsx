@@ -0,0 +1,116 @@
+/**
+ * Rental Terms Fields Component
+ * Lease terms for rental listings on the create / edit listing forms
+ * (rent period, deposit, minimum lease, furnishing, availability)
+ */
+
+import { RENT_PERIODS, RENT_PERIOD_LABELS, RentalTermsFormData } from "@/lib/listings";
+
+interface RentalTermsFieldsProps {
+  value: RentalTermsFormData;
+  currency: string; // Deposit uses the listing currency
+  errors: Record<string, string>;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => void;
+}
+
+export default function RentalTermsFields({ value, currency, errors, onChange }: RentalTermsFieldsProps) {
+  const inputClassName = (field: keyof RentalTermsFormData) =>
+    `w-full px-4 py-3 rounded-xl border-2 ${
+      errors[field] ? "border-red-500" : "border-gold/40"
+    } focus:border-gold focus:outline-none`;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="rent_period" className="block text-sm font-semibold text-gray-700 mb-2">
+          Rent Period
+        </label>
+        <select
+          id="rent_period"
+          name="rent_period"
+          value={value.rent_period}
+          onChange={onChange}
+          className={inputClassName("rent_period")}
+        >
+          {RENT_PERIODS.map((period) => (
+            <option key={period} value={period}>
+              {RENT_PERIOD_LABELS[period]}
+            </option>
+          ))}
+        </select>
+        {errors.rent_period && (
+          <p className="text-red-500 text-sm mt-1">{errors.rent_period}</p>
+        )}
+      </div>
+      <div>
+        <label htmlFor="deposit" className="block text-sm font-semibold text-gray-700 mb-2">
+          Deposit ({currency})
+        </label>
+        <input
+          type="number"
+          id="deposit"
+          name="deposit"
+          value={value.deposit}
+          onChange={onChange}
+          placeholder="e.g., 2000"
+          min="0"
+          step="0.01"
+          className={inputClassName("deposit")}
+        />
+        {errors.deposit && (
+          <p className="text-red-500 text-sm mt-1">{errors.deposit}</p>
+        )}
+      </div>
+      <div>
+        <label htmlFor="min_lease_months" className="block text-sm font-semibold text-gray-700 mb-2">
+          Minimum Lease (months)
+        </label>
+        <input
+          type="number"
+          id="min_lease_months"
+          name="min_lease_months"
+          value={value.min_lease_months}
+          onChange={onChange}
+          placeholder="e.g., 12"
+          min="1"
+          max="120"
+          step="1"
+          className={inputClassName("min_lease_months")}
+        />
+        {errors.min_lease_months && (
+          <p className="text-red-500 text-sm mt-1">{errors.min_lease_months}</p>
+        )}
+      </div>
+      <div>
+        <label htmlFor="furnished" className="block text-sm font-semibold text-gray-700 mb-2">
+          Furnishing
+        </label>
+        <select
+          id="furnished"
+          name="furnished"
+          value={value.furnished}
+          onChange={onChange}
+          className={inputClassName("furnished")}
+        >
+          <option value="">Not specified</option>
+          <option value="yes">Furnished</option>
+          <option value="no">Unfurnished</option>
+        </select>
+      </div>
+      <div className="sm:col-span-2">
+        <label htmlFor="available_from" className="block text-sm font-semibold text-gray-700 mb-2">
+          Available From
+        </label>
+        <input
+          type="date"
+          id="available_from"
+          name="available_from"
+          value={value.available_from}
+          onChange={onChange}
+          className={inputClassName("available_from")}
+        />
+        <p className="text-xs text-gray-500 mt-1">Leave empty if it&apos;s available now.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+/**
+ * Slippy Map Component
+ * Minimal tile map (drag to pan, wheel/buttons to zoom) with an overlay layer
+ * Tiles come from TILE_URL_TEMPLATE in lib/geo.ts (configurable tile server)
+ *
+ * Controlled: the parent owns center/zoom and gets onViewChange on every move
+ */
+
+import { useState, useEffect, useRef, ReactNode } from "react";
+import {
+  BoundingBox,
+  LatLng,
+  Point,
+  TILE_ATTRIBUTION,
+  TILE_SIZE,
+  clampZoom,
+  getBoundingBox,
+  getTileUrl,
+  project,
+  unproject,
+} from "@/lib/geo";
+
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+  bounds: BoundingBox;
+}
+
+interface SlippyMapProps {
+  center: LatLng;
+  zoom: number;
+  onViewChange: (view: MapView) => void;
+  onMapClick?: (position: LatLng) => void;
+  // Draw markers: toScreen converts lat/lng to pixels inside the map,
+  // setView moves the map (e.g. zooming into a cluster)
+  renderOverlay?: (
+    toScreen: (position: LatLng) => Point,
+    setView: (center: LatLng, zoom: number) => void
+  ) => ReactNode;
+  className?: string;
+}
+
+// Pointer movement (px) below which a press counts as a click, not a drag
+const CLICK_TOLERANCE = 4;
+
+export default function SlippyMap({
+  center,
+  zoom,
+  onViewChange,
+  onMapClick,
+  renderOverlay,
+  className = "h-96",
+}: SlippyMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const dragRef = useRef<{ startX: number; startY: number; origin: Point; moved: boolean } | null>(null);
+
+  // Track container size
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const updateSize = () => setSize({ width: element.clientWidth, height: element.clientHeight });
+    updateSize();
+
+    const observer = new ResizeObserver(updateSize);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const emitView = (nextCenter: LatLng, nextZoom: number) => {
+    onViewChange({
+      center: nextCenter,
+      zoom: nextZoom,
+      bounds: getBoundingBox(nextCenter, nextZoom, size.width, size.height),
+    });
+  };
+
+  // Report the initial bounds once the size is known
+  useEffect(() => {
+    if (size.width > 0 && size.height > 0) {
+      emitView(center, zoom);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [size.width, size.height]);
+
+  const centerPoint = project(center, zoom);
+  const left = centerPoint.x - size.width / 2;
+  const top = centerPoint.y - size.height / 2;
+  const tileCount = Math.pow(2, zoom);
+
+  const toScreen = (position: LatLng): Point => {
+    const point = project(position, zoom);
+    return { x: point.x - left, y: point.y - top };
+  };
+
+  const fromScreen = (x: number, y: number): LatLng => unproject({ x: left + x, y: top + y }, zoom);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Let overlay controls (markers, zoom buttons, links) handle their own clicks
+    if ((e.target as HTMLElement).closest('button, a')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, origin: centerPoint, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+
+    drag.moved = true;
+    emitView(unproject({ x: drag.origin.x - dx, y: drag.origin.y - dy }, zoom), zoom);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onMapClick) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    onMapClick(fromScreen(e.clientX - rect.left, e.clientY - rect.top));
+  };
+
+  const zoomTo = (nextZoom: number) => {
+    const clamped = clampZoom(nextZoom);
+    if (clamped !== zoom) {
+      emitView(center, clamped);
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    zoomTo(zoom + (e.deltaY < 0 ? 1 : -1));
+  };
+
+  // Visible tiles (x wraps around the world, y doesn't)
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  if (size.width > 0 && size.height > 0) {
+    const firstX = Math.floor(left / TILE_SIZE);
+    const lastX = Math.floor((left + size.width) / TILE_SIZE);
+    const firstY = Math.max(0, Math.floor(top / TILE_SIZE));
+    const lastY = Math.min(tileCount - 1, Math.floor((top + size.height) / TILE_SIZE));
+
+    for (let x = firstX; x <= lastX; x++) {
+      for (let y = firstY; y <= lastY; y++) {
+        const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${zoom}/${x}/${y}`,
+          url: getTileUrl(wrappedX, y, zoom),
+          left: x * TILE_SIZE - left,
+          top: y * TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden rounded-2xl bg-gray-200 select-none touch-none cursor-grab active:cursor-grabbing ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { dragRef.current = null; }}
+      onWheel={handleWheel}
+    >
+      {tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none pointer-events-none"
+          style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      {size.width > 0 && renderOverlay?.(toScreen, (nextCenter, nextZoom) => emitView(nextCenter, clampZoom(nextZoom)))}
+
+      {/* Zoom Controls */}
+      <div className="absolute top-3 right-3 z-20 flex flex-col rounded-lg overflow-hidden shadow-lg">
+        <button
+          type="button"
+          onClick={() => zoomTo(zoom + 1)}
+          className="w-9 h-9 bg-white hover:bg-gray-100 text-gray-900 font-bold text-lg"
+          aria-label="Zoom in"
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onClick={() => zoomTo(zoom - 1)}
+          className="w-9 h-9 bg-white hover:bg-gray-100 text-gray-900 font-bold text-lg border-t border-gray-200"
+          aria-label="Zoom out"
+        >
+          −
+        </button>
+      </div>
+
+      <div className="absolute bottom-0 right-0 z-20 px-2 py-0.5 bg-white/80 text-[10px] text-gray-600">
+        {TILE_ATTRIBUTION}
+      </div>
+    </div>
+  );
+}
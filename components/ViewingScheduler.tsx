@@ -0,0 +1,424 @@
+"use client";
+
+/**
+ * Viewing Scheduler Component
+ * Owners publish viewing slots and confirm/decline requests;
+ * other users request a free slot and can cancel their request
+ */
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  MAX_VIEWING_NOTE_LENGTH,
+  VIEWING_REQUEST_STATUS_BADGE_CLASSES,
+  VIEWING_REQUEST_STATUS_LABELS,
+  VIEWING_SLOT_DURATIONS,
+  ViewingRequest,
+  ViewingRequestStatus,
+  ViewingSlot,
+  createViewingSlot,
+  deleteViewingSlot,
+  fetchListingViewingRequests,
+  fetchViewingSlots,
+  formatViewingTime,
+  requestViewing,
+  updateViewingRequestStatus,
+} from "@/lib/viewings";
+
+interface ViewingSchedulerProps {
+  listingId: number;
+  userId: string;
+  isOwner: boolean;
+  isOpen: boolean; // Listing accepts new requests (active / under offer)
+}
+
+// datetime-local value for "now", rounded up to the next hour
+function getDefaultStart(): string {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:00`;
+}
+
+export default function ViewingScheduler({ listingId, userId, isOwner, isOpen }: ViewingSchedulerProps) {
+  const [slots, setSlots] = useState<ViewingSlot[]>([]);
+  const [requests, setRequests] = useState<ViewingRequest[]>([]);
+  const [requesterNames, setRequesterNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [newStart, setNewStart] = useState(getDefaultStart);
+  const [newDuration, setNewDuration] = useState<number>(30);
+  const [isAddingSlot, setIsAddingSlot] = useState(false);
+  const [selectedSlotId, setSelectedSlotId] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadViewings = async () => {
+    const [{ slots: slotData, error: slotsError }, { requests: requestData, error: requestsError }] = await Promise.all([
+      fetchViewingSlots(listingId),
+      fetchListingViewingRequests(listingId),
+    ]);
+
+    if (slotsError || requestsError) {
+      console.error("[ViewingScheduler] Error loading viewings:", slotsError || requestsError);
+      setIsLoading(false);
+      return;
+    }
+
+    setSlots(slotData);
+    setRequests(requestData);
+    setIsLoading(false);
+
+    // Owners see who asked
+    if (isOwner) {
+      const ids = Array.from(new Set(requestData.map((request) => request.requester_id)));
+      if (ids.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, display_name")
+          .in("id", ids);
+        const names: Record<string, string> = {};
+        for (const profile of profiles || []) {
+          names[profile.id] = profile.display_name || "User";
+        }
+        setRequesterNames(names);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadViewings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listingId, userId, isOwner]);
+
+  const handleAddSlot = async () => {
+    const startsAt = new Date(newStart);
+    if (isNaN(startsAt.getTime()) || startsAt.getTime() <= Date.now()) {
+      toast.error("Pick a time in the future");
+      return;
+    }
+
+    setIsAddingSlot(true);
+    try {
+      const { error: slotError } = await createViewingSlot(listingId, startsAt, newDuration);
+      if (slotError) {
+        console.error("[ViewingScheduler] Error adding slot:", slotError);
+        toast.error(slotError.code === '23505'
+          ? "A slot already starts at that time"
+          : slotError.message || "Failed to add slot");
+        return;
+      }
+      toast.success("Viewing slot added");
+      await loadViewings();
+    } finally {
+      setIsAddingSlot(false);
+    }
+  };
+
+  const handleDeleteSlot = async (slot: ViewingSlot) => {
+    const pending = requests.filter((request) => request.slot_id === slot.id && request.status === 'pending').length;
+    const confirmed = window.confirm(
+      pending > 0
+        ? `Remove this slot? ${pending} pending request(s) will be dropped.`
+        : "Remove this slot?"
+    );
+    if (!confirmed) return;
+
+    setBusyId(`slot-${slot.id}`);
+    try {
+      const { error: deleteError } = await deleteViewingSlot(slot.id);
+      if (deleteError) {
+        console.error("[ViewingScheduler] Error removing slot:", deleteError);
+        toast.error(deleteError.message || "Failed to remove slot");
+        return;
+      }
+      await loadViewings();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRequest = async () => {
+    if (selectedSlotId === null) return;
+
+    setBusyId(`slot-${selectedSlotId}`);
+    try {
+      const { error: requestError } = await requestViewing(userId, selectedSlotId, note);
+      if (requestError) {
+        console.error("[ViewingScheduler] Error requesting viewing:", requestError);
+        toast.error(requestError.message || "Failed to request viewing");
+        return;
+      }
+      toast.success("Viewing requested. The owner will confirm or decline.");
+      setSelectedSlotId(null);
+      setNote("");
+      await loadViewings();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleStatusChange = async (request: ViewingRequest, status: Exclude<ViewingRequestStatus, 'pending'>) => {
+    if (status === 'cancelled' && !window.confirm("Cancel this viewing?")) return;
+
+    setBusyId(`request-${request.id}`);
+    try {
+      const { error: updateError } = await updateViewingRequestStatus(request.id, status);
+      if (updateError) {
+        console.error("[ViewingScheduler] Error updating viewing request:", updateError);
+        toast.error(updateError.message || "Failed to update viewing");
+        return;
+      }
+      toast.success(`Viewing ${VIEWING_REQUEST_STATUS_LABELS[status].toLowerCase()}`);
+      await loadViewings();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  const myRequests = requests.filter((request) => request.requester_id === userId);
+  const openSlotIds = new Set(
+    myRequests.filter((request) => request.status === 'pending' || request.status === 'confirmed').map((request) => request.slot_id)
+  );
+  const availableSlots = slots.filter((slot) => !slot.is_booked && !openSlotIds.has(slot.id));
+
+  // Visitors with nothing to pick or track don't need the section
+  if (!isOwner && slots.length === 0 && myRequests.length === 0) {
+    return null;
+  }
+
+  const slotById = new Map(slots.map((slot) => [slot.id, slot]));
+
+  return (
+    <div className="glass-dark rounded-2xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="font-orbitron text-xl font-bold text-gray-900">
+          Viewings
+        </h2>
+        <Link href="/viewings" className="text-sm text-gold-dark hover:text-gold font-semibold">
+          My viewings →
+        </Link>
+      </div>
+
+      {isOwner ? (
+        <>
+          {/* Add Slot */}
+          <div className="flex flex-wrap gap-3 items-end mb-6">
+            <div>
+              <label htmlFor="viewing_start" className="block text-sm font-semibold text-gray-700 mb-1">
+                Start
+              </label>
+              <input
+                type="datetime-local"
+                id="viewing_start"
+                value={newStart}
+                onChange={(e) => setNewStart(e.target.value)}
+                className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="viewing_duration" className="block text-sm font-semibold text-gray-700 mb-1">
+                Length
+              </label>
+              <select
+                id="viewing_duration"
+                value={newDuration}
+                onChange={(e) => setNewDuration(Number(e.target.value))}
+                className="px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none"
+              >
+                {VIEWING_SLOT_DURATIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes} min
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={handleAddSlot}
+              disabled={isAddingSlot || !newStart}
+              className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isAddingSlot ? "Adding..." : "Add Slot"}
+            </button>
+          </div>
+
+          {/* Slots and their requests */}
+          {slots.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No upcoming slots. Add times when buyers can visit the property.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {slots.map((slot) => {
+                const slotRequests = requests.filter(
+                  (request) => request.slot_id === slot.id && (request.status === 'pending' || request.status === 'confirmed')
+                );
+                return (
+                  <div key={slot.id} className="p-3 rounded-xl bg-white/50 border border-gold/20">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="font-semibold text-gray-900">
+                        {formatViewingTime(slot.starts_at, slot.ends_at)}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        {slot.is_booked && (
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${VIEWING_REQUEST_STATUS_BADGE_CLASSES.confirmed}`}>
+                            Booked
+                          </span>
+                        )}
+                        {!slot.is_booked && (
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteSlot(slot)}
+                            disabled={busyId === `slot-${slot.id}`}
+                            className="text-xs text-red-600 hover:text-red-700 font-semibold disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {slotRequests.map((request) => (
+                      <div key={request.id} className="mt-2 pt-2 border-t border-gold/20 text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-semibold text-gray-800">
+                            {requesterNames[request.requester_id] || "User"}
+                          </span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${VIEWING_REQUEST_STATUS_BADGE_CLASSES[request.status]}`}>
+                            {VIEWING_REQUEST_STATUS_LABELS[request.status]}
+                          </span>
+                          <div className="ml-auto flex gap-2">
+                            {request.status === 'pending' && (
+                              <>
+                                <button
+                                  type="button"
+                                  onClick={() => handleStatusChange(request, 'confirmed')}
+                                  disabled={busyId === `request-${request.id}`}
+                                  className="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 text-white text-xs font-bold disabled:opacity-50"
+                                >
+                                  Confirm
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => handleStatusChange(request, 'declined')}
+                                  disabled={busyId === `request-${request.id}`}
+                                  className="px-3 py-1 rounded-lg bg-gray-200 hover:bg-gray-300 text-gray-800 text-xs font-bold disabled:opacity-50"
+                                >
+                                  Decline
+                                </button>
+                              </>
+                            )}
+                            {request.status === 'confirmed' && (
+                              <button
+                                type="button"
+                                onClick={() => handleStatusChange(request, 'cancelled')}
+                                disabled={busyId === `request-${request.id}`}
+                                className="px-3 py-1 rounded-lg bg-red-50 hover:bg-red-100 text-red-600 text-xs font-bold disabled:opacity-50"
+                              >
+                                Cancel
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        {request.note && (
+                          <p className="mt-1 text-gray-600 whitespace-pre-wrap">{request.note}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          {/* Your Requests */}
+          {myRequests.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {myRequests
+                .filter((request) => request.status !== 'cancelled')
+                .map((request) => {
+                  const slot = slotById.get(request.slot_id);
+                  return (
+                    <div key={request.id} className="flex flex-wrap items-center gap-2 p-3 rounded-xl bg-white/50 border border-gold/20 text-sm">
+                      <span className="font-semibold text-gray-900">
+                        {slot ? formatViewingTime(slot.starts_at, slot.ends_at) : "Past slot"}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${VIEWING_REQUEST_STATUS_BADGE_CLASSES[request.status]}`}>
+                        {VIEWING_REQUEST_STATUS_LABELS[request.status]}
+                      </span>
+                      {slot && (request.status === 'pending' || request.status === 'confirmed') && (
+                        <button
+                          type="button"
+                          onClick={() => handleStatusChange(request, 'cancelled')}
+                          disabled={busyId === `request-${request.id}`}
+                          className="ml-auto text-xs text-red-600 hover:text-red-700 font-semibold disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+
+          {/* Available Slots */}
+          {!isOpen ? (
+            <p className="text-sm text-gray-500">This listing is not taking viewing requests.</p>
+          ) : availableSlots.length === 0 ? (
+            <p className="text-sm text-gray-500">No free viewing slots right now.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-2">Pick a time to visit:</p>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {availableSlots.map((slot) => (
+                  <button
+                    key={slot.id}
+                    type="button"
+                    onClick={() => setSelectedSlotId(selectedSlotId === slot.id ? null : slot.id)}
+                    className={`px-3 py-2 rounded-xl text-sm font-semibold border-2 transition-all ${
+                      selectedSlotId === slot.id
+                        ? 'bg-gold border-gold text-gray-900'
+                        : 'bg-white/60 border-gold/30 text-gray-800 hover:border-gold'
+                    }`}
+                  >
+                    {formatViewingTime(slot.starts_at, slot.ends_at)}
+                  </button>
+                ))}
+              </div>
+
+              {selectedSlotId !== null && (
+                <div className="space-y-2">
+                  <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Note for the owner (optional)"
+                    maxLength={MAX_VIEWING_NOTE_LENGTH}
+                    rows={2}
+                    className="w-full px-3 py-2 rounded-xl border-2 border-gold/40 focus:border-gold focus:outline-none text-sm"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleRequest}
+                    disabled={busyId === `slot-${selectedSlotId}`}
+                    className="px-6 py-2 bg-gradient-to-r from-gold to-gold-light text-gray-900 font-bold rounded-xl hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {busyId === `slot-${selectedSlotId}` ? "Requesting..." : "Request Viewing"}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
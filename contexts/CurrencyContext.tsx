@@ -0,0 +1,105 @@
+"use client";
+
+/**
+ * Currency Context Provider
+ * Viewer-selected display currency + exchange rates
+ * Listing prices are stored in their own currency and converted for display
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { safeGet, safeSet } from '@/lib/safeStorage';
+import {
+  BASE_CURRENCY,
+  CurrencyRate,
+  CurrencyRates,
+  convertAmount,
+  fetchCurrencyRates,
+  formatMoney,
+} from '@/lib/currency';
+
+interface CurrencyContextType {
+  displayCurrency: string;
+  setDisplayCurrency: (currency: string) => void;
+  rates: CurrencyRate[];
+  refreshRates: () => Promise<void>;
+  // Converts to the display currency (null when a rate is missing)
+  convertPrice: (amount: number, currency: string) => number | null;
+  // Formats in the display currency, falling back to the original currency
+  formatPrice: (amount: number, currency: string) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [displayCurrency, setDisplayCurrencyState] = useState<string>(BASE_CURRENCY);
+  const [rates, setRates] = useState<CurrencyRate[]>([]);
+
+  const refreshRates = useCallback(async () => {
+    const { rates: loadedRates, error } = await fetchCurrencyRates();
+    if (error) {
+      console.error('[CurrencyContext] Error loading exchange rates:', error);
+      return;
+    }
+    setRates(loadedRates);
+  }, []);
+
+  // Load saved display currency and rates on mount
+  useEffect(() => {
+    const saved = safeGet('displayCurrency');
+    if (saved) {
+      setDisplayCurrencyState(saved);
+    }
+    refreshRates();
+  }, [refreshRates]);
+
+  const rateMap: CurrencyRates = useMemo(
+    () => new Map(rates.map((rate) => [rate.currency, rate.rate_per_usd])),
+    [rates]
+  );
+
+  // Fall back to USD if the saved currency was removed by an admin
+  const effectiveCurrency = rates.length > 0 && !rateMap.has(displayCurrency)
+    ? BASE_CURRENCY
+    : displayCurrency;
+
+  const setDisplayCurrency = (currency: string) => {
+    setDisplayCurrencyState(currency);
+    safeSet('displayCurrency', currency);
+  };
+
+  const convertPrice = useCallback(
+    (amount: number, currency: string) => convertAmount(amount, currency, effectiveCurrency, rateMap),
+    [effectiveCurrency, rateMap]
+  );
+
+  const formatPrice = useCallback(
+    (amount: number, currency: string) => {
+      const converted = convertAmount(amount, currency, effectiveCurrency, rateMap);
+      return converted === null ? formatMoney(amount, currency) : formatMoney(converted, effectiveCurrency);
+    },
+    [effectiveCurrency, rateMap]
+  );
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        displayCurrency: effectiveCurrency,
+        setDisplayCurrency,
+        rates,
+        refreshRates,
+        convertPrice,
+        formatPrice,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
@@ -28,6 +28,8 @@ const translations: Record<Locale, Record<string, string>> = {
     'common.createAccount': 'Create Account',
     'common.profile': 'Profile',
     'common.editProfile': 'Edit Profile',
+    'common.myListings': 'My Listings',
+    'common.myViewings': 'My Viewings',
     'common.cancel': 'Cancel',
     'common.save': 'Save',
     'common.loading': 'Loading...',
@@ -146,6 +148,8 @@ const translations: Record<Locale, Record<string, string>> = {
     'common.createAccount': 'إنشاء حساب',
     'common.profile': 'الملف الشخصي',
     'common.editProfile': 'تعديل الملف الشخصي',
+    'common.myListings': 'إعلاناتي',
+    'common.myViewings': 'معايناتي',
     'common.cancel': 'إلغاء',
     'common.save': 'حفظ',
     'common.loading': 'جاري التحميل...',
@@ -196,6 +200,8 @@ const translations: Record<Locale, Record<string, string>> = {
     'common.createAccount': '创建账户',
     'common.profile': '个人资料',
     'common.editProfile': '编辑个人资料',
+    'common.myListings': '我的房源',
+    'common.myViewings': '我的看房预约',
     'common.cancel': '取消',
     'common.save': '保存',
     'common.loading': '加载中...',
@@ -246,6 +252,8 @@ const translations: Record<Locale, Record<string, string>> = {
     'common.createAccount': 'Konto erstellen',
     'common.profile': 'Profil',
     'common.editProfile': 'Profil bearbeiten',
+    'common.myListings': 'Meine Inserate',
+    'common.myViewings': 'Meine Besichtigungen',
     'common.cancel': 'Abbrechen',
     'common.save': 'Speichern',
     'common.loading': 'Lädt...',
@@ -296,6 +304,8 @@ const translations: Record<Locale, Record<string, string>> = {
     'common.createAccount': 'Créer un compte',
     'common.profile': 'Profil',
     'common.editProfile': 'Modifier le profil',
+    'common.myListings': 'Mes annonces',
+    'common.myViewings': 'Mes visites',
     'common.cancel': 'Annuler',
     'common.save': 'Enregistrer',
     'common.loading': 'Chargement...',
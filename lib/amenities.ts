@@ -0,0 +1,216 @@
+/**
+ * Amenity Helpers
+ * Admin-managed amenities taxonomy, the amenities on each listing and
+ * facet counts for the /listings filter panel (supabase/listing_amenities.sql)
+ *
+ * NOTE: Categories must stay in sync with the CHECK constraint on amenities.category
+ */
+
+import { supabase } from "./supabaseClient";
+import { ListingFilters, toListingFilterParams } from "./listings";
+
+export const AMENITY_CATEGORIES = ['utilities', 'building', 'views', 'outdoor', 'interior', 'other'] as const;
+
+export type AmenityCategory = typeof AMENITY_CATEGORIES[number];
+
+export const AMENITY_CATEGORY_LABELS: Record<AmenityCategory, string> = {
+  utilities: 'Power & Utilities',
+  building: 'Building',
+  views: 'Views',
+  outdoor: 'Outdoor',
+  interior: 'Interior',
+  other: 'Other',
+};
+
+export const MAX_AMENITY_LABEL_LENGTH = 60;
+
+export interface Amenity {
+  slug: string;
+  label: string;
+  category: AmenityCategory;
+  sort_order: number;
+  is_active: boolean; // Retired amenities stay on listings but aren't offered
+}
+
+export function isAmenityCategory(value: unknown): value is AmenityCategory {
+  return typeof value === 'string' && (AMENITY_CATEGORIES as readonly string[]).includes(value);
+}
+
+// Display order: category order, then the admin's sort order, then name
+const compareAmenities = (a: Amenity, b: Amenity) =>
+  AMENITY_CATEGORIES.indexOf(a.category) - AMENITY_CATEGORIES.indexOf(b.category)
+  || a.sort_order - b.sort_order
+  || a.label.localeCompare(b.label);
+
+/**
+ * Stable key for a new amenity ("Sea View" -> "sea_view")
+ */
+export function toAmenitySlug(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Amenities grouped by category, in category order (empty groups left out)
+ */
+export function groupAmenitiesByCategory(
+  amenities: Amenity[]
+): { category: AmenityCategory; amenities: Amenity[] }[] {
+  return AMENITY_CATEGORIES
+    .map((category) => ({
+      category,
+      amenities: amenities.filter((amenity) => amenity.category === category),
+    }))
+    .filter((group) => group.amenities.length > 0);
+}
+
+/**
+ * The amenities taxonomy, ordered for display
+ * @param includeRetired Also return retired amenities (admin page, existing listings)
+ */
+export async function fetchAmenities(includeRetired: boolean = false): Promise<{ amenities: Amenity[]; error: any }> {
+  let query = supabase
+    .from('amenities')
+    .select('slug, label, category, sort_order, is_active');
+
+  if (!includeRetired) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { amenities: [], error };
+  }
+
+  const amenities = (data || []).filter((row: any) => isAmenityCategory(row.category)) as Amenity[];
+  amenities.sort(compareAmenities);
+
+  return { amenities, error: null };
+}
+
+/**
+ * Add an amenity to the taxonomy (admins only via RLS)
+ */
+export async function createAmenity(
+  label: string,
+  category: AmenityCategory,
+  sortOrder: number = 0
+): Promise<{ amenity: Amenity | null; error: any }> {
+  const trimmed = label.trim();
+  const slug = toAmenitySlug(trimmed);
+  if (!slug) {
+    return { amenity: null, error: { message: 'Name must contain letters or numbers' } };
+  }
+
+  const { data, error } = await supabase
+    .from('amenities')
+    .insert({ slug, label: trimmed, category, sort_order: sortOrder })
+    .select('slug, label, category, sort_order, is_active')
+    .single();
+
+  if (error) {
+    return { amenity: null, error };
+  }
+
+  return { amenity: data as Amenity, error: null };
+}
+
+/**
+ * Rename, re-order, move or retire an amenity (admins only via RLS)
+ * The slug never changes, so listings keep their amenities
+ */
+export async function updateAmenity(
+  slug: string,
+  changes: Partial<Pick<Amenity, 'label' | 'category' | 'sort_order' | 'is_active'>>
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('amenities')
+    .update(changes)
+    .eq('slug', slug);
+
+  return { error };
+}
+
+/**
+ * Delete an amenity; it is also removed from every listing (admins only via RLS)
+ */
+export async function deleteAmenity(slug: string): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('amenities')
+    .delete()
+    .eq('slug', slug);
+
+  return { error };
+}
+
+/**
+ * Slugs of the amenities on a listing
+ */
+export async function fetchListingAmenities(listingId: number): Promise<{ amenities: string[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_amenities')
+    .select('amenity')
+    .eq('listing_id', listingId);
+
+  if (error) {
+    return { amenities: [], error };
+  }
+
+  return { amenities: (data || []).map((row: any) => row.amenity as string), error: null };
+}
+
+/**
+ * Amenities on a listing with their labels, in display order
+ * (retired amenities the listing still has are included)
+ */
+export async function fetchListingAmenityDetails(listingId: number): Promise<{ amenities: Amenity[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_amenities')
+    .select('amenities(slug, label, category, sort_order, is_active)')
+    .eq('listing_id', listingId);
+
+  if (error) {
+    return { amenities: [], error };
+  }
+
+  const amenities = (data || [])
+    .map((row: any) => row.amenities as Amenity | null)
+    .filter((amenity): amenity is Amenity => amenity != null && isAmenityCategory(amenity.category));
+  amenities.sort(compareAmenities);
+
+  return { amenities, error: null };
+}
+
+/**
+ * Replace a listing's amenities (owner or admin via RLS)
+ */
+export async function setListingAmenities(listingId: number, amenities: string[]): Promise<{ error: any }> {
+  const { error } = await supabase.rpc('set_listing_amenities', {
+    p_listing_id: listingId,
+    p_amenities: amenities,
+  });
+
+  return { error };
+}
+
+/**
+ * How many listings matching the filters have each amenity
+ * (amenities no matching listing has are left out)
+ */
+export async function fetchAmenityFacets(
+  filters: ListingFilters
+): Promise<{ counts: Map<string, number>; error: any }> {
+  const { data, error } = await supabase.rpc('get_listing_amenity_facets', toListingFilterParams(filters));
+
+  if (error) {
+    return { counts: new Map(), error };
+  }
+
+  return {
+    counts: new Map((data || []).map((row: any) => [row.amenity as string, Number(row.listing_count)])),
+    error: null,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Listing Analytics Helper Functions
+ * View/contact tracking and owner analytics (supabase/listing_analytics.sql)
+ *
+ * Views are deduplicated per user per day in the database; the owner's own
+ * visits are never counted.
+ */
+
+import { supabase } from "./supabaseClient";
+
+export type ListingEventType = 'view' | 'contact_click';
+
+// Date ranges offered on the analytics page (days)
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+
+export type AnalyticsRange = typeof ANALYTICS_RANGES[number];
+
+export interface ListingAnalyticsDay {
+  day: string; // YYYY-MM-DD (UTC)
+  views: number;
+  contact_clicks: number;
+  saves: number;
+}
+
+export interface ListingAreaComparison {
+  area_label: string | null;
+  peer_count: number;
+  views: number;
+  contact_clicks: number;
+  saves: number;
+  price_per_sqm_usd: number | null;
+  avg_views: number | null;
+  avg_contact_clicks: number | null;
+  avg_saves: number | null;
+  avg_price_per_sqm_usd: number | null;
+}
+
+const toNumberOrNull = (value: any) => (value == null ? null : Number(value));
+
+/**
+ * Record a view or contact click for the signed-in user
+ * Fire-and-forget: failures are logged, never shown to the visitor
+ */
+export async function trackListingEvent(
+  listingId: number,
+  eventType: ListingEventType
+): Promise<void> {
+  const { error } = await supabase.rpc('track_listing_event', {
+    p_listing_id: listingId,
+    p_event_type: eventType,
+  });
+
+  if (error) {
+    console.error(`[Analytics] Error tracking ${eventType}:`, error);
+  }
+}
+
+/**
+ * Daily views, contact clicks and saves for the last `days` days (oldest first)
+ * Owner or admin only
+ */
+export async function fetchListingAnalytics(
+  listingId: number,
+  days: number
+): Promise<{ series: ListingAnalyticsDay[]; error: any }> {
+  const { data, error } = await supabase.rpc('get_listing_analytics', {
+    p_listing_id: listingId,
+    p_days: days,
+  });
+
+  if (error) {
+    return { series: [], error };
+  }
+
+  const series = ((data || []) as any[]).map((row) => ({
+    day: row.day,
+    views: Number(row.views),
+    contact_clicks: Number(row.contact_clicks),
+    saves: Number(row.saves),
+  }));
+  return { series, error: null };
+}
+
+/**
+ * This listing's totals vs. the average listing in the same area (or city)
+ */
+export async function fetchAreaComparison(
+  listingId: number,
+  days: number
+): Promise<{ comparison: ListingAreaComparison | null; error: any }> {
+  const { data, error } = await supabase.rpc('get_listing_area_comparison', {
+    p_listing_id: listingId,
+    p_days: days,
+  });
+
+  if (error) {
+    return { comparison: null, error };
+  }
+
+  const row = ((data || []) as any[])[0];
+  if (!row) {
+    return { comparison: null, error: null };
+  }
+
+  return {
+    comparison: {
+      area_label: row.area_label,
+      peer_count: Number(row.peer_count),
+      views: Number(row.views),
+      contact_clicks: Number(row.contact_clicks),
+      saves: Number(row.saves),
+      price_per_sqm_usd: toNumberOrNull(row.price_per_sqm_usd),
+      avg_views: toNumberOrNull(row.avg_views),
+      avg_contact_clicks: toNumberOrNull(row.avg_contact_clicks),
+      avg_saves: toNumberOrNull(row.avg_saves),
+      avg_price_per_sqm_usd: toNumberOrNull(row.avg_price_per_sqm_usd),
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Area Journal Helpers
+ * Lookups used to link listings to area journals (listings.area_slug)
+ * and to compare a listing's price with its area's published ranges
+ */
+
+import { supabase } from "./supabaseClient";
+import { DEFAULT_BROWSE_STATUSES } from "./listings";
+
+// Journal rent/sale figures are published in USD
+export const AREA_JOURNAL_CURRENCY = 'USD';
+
+export type AreaStatus = 'heating' | 'cooling' | 'stable';
+export type AreaOutlook = 'up' | 'sideways' | 'down';
+
+export const AREA_STATUS_BADGE_CLASSES: Record<AreaStatus, string> = {
+  heating: 'bg-red-100 text-red-800 border-red-300',
+  cooling: 'bg-blue-100 text-blue-800 border-blue-300',
+  stable: 'bg-green-100 text-green-800 border-green-300',
+};
+
+export const AREA_OUTLOOK_LABELS: Record<AreaOutlook, string> = {
+  up: '↗ Up',
+  sideways: '→ Sideways',
+  down: '↘ Down',
+};
+
+export interface AreaJournalOption {
+  slug: string;
+  name: string;
+  city: string;
+}
+
+/**
+ * The parts of an area journal shown next to a listing
+ */
+export interface AreaJournalSnapshot extends AreaJournalOption {
+  status: AreaStatus;
+  demand: string | null;
+  outlook: AreaOutlook | null;
+  rent_1br_min: number | null;
+  rent_1br_max: number | null;
+  rent_2br_min: number | null;
+  rent_2br_max: number | null;
+  rent_3br_min: number | null;
+  rent_3br_max: number | null;
+  sale_min: number | null; // Per m²
+  sale_max: number | null; // Per m²
+  last_updated: string;
+}
+
+// below / within / above the journal's range
+export type PricePosition = 'below' | 'within' | 'above';
+
+/**
+ * Load all area journals for pickers (alphabetical)
+ */
+export async function fetchAreaJournalOptions(): Promise<{ areas: AreaJournalOption[]; error: any }> {
+  const { data, error } = await supabase
+    .from('area_journals')
+    .select('slug, name, city')
+    .order('name', { ascending: true });
+
+  if (error) {
+    return { areas: [], error };
+  }
+
+  return { areas: data || [], error: null };
+}
+
+/**
+ * Load the snapshot of one area journal
+ * @returns snapshot null when the journal doesn't exist (or was deleted)
+ */
+export async function fetchAreaJournalSnapshot(
+  slug: string
+): Promise<{ snapshot: AreaJournalSnapshot | null; error: any }> {
+  const { data, error } = await supabase
+    .from('area_journals')
+    .select('slug, name, city, status, demand, outlook, rent_1br_min, rent_1br_max, rent_2br_min, rent_2br_max, rent_3br_min, rent_3br_max, sale_min, sale_max, last_updated')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) {
+    return { snapshot: null, error };
+  }
+
+  if (!data) {
+    return { snapshot: null, error: null };
+  }
+
+  // NUMERIC columns come back as strings
+  const toNumber = (value: any) => (value != null ? Number(value) : null);
+  return {
+    snapshot: {
+      ...data,
+      rent_1br_min: toNumber(data.rent_1br_min),
+      rent_1br_max: toNumber(data.rent_1br_max),
+      rent_2br_min: toNumber(data.rent_2br_min),
+      rent_2br_max: toNumber(data.rent_2br_max),
+      rent_3br_min: toNumber(data.rent_3br_min),
+      rent_3br_max: toNumber(data.rent_3br_max),
+      sale_min: toNumber(data.sale_min),
+      sale_max: toNumber(data.sale_max),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Active listings linked to an area (newest first)
+ */
+export async function fetchAreaListings(
+  slug: string,
+  limit: number = 12
+): Promise<{ rows: any[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listings')
+    .select('id, user_id, title, description, listing_type, price, previous_price, currency, rent_period, furnished, available_from, city, neighbourhood, image_urls, bedrooms, bathrooms, property_type, area_sqm, status')
+    .eq('area_slug', slug)
+    .in('status', DEFAULT_BROWSE_STATUSES)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return { rows: [], error };
+  }
+
+  return { rows: data || [], error: null };
+}
+
+/**
+ * The area journal's monthly rent range for a bedroom count (USD)
+ * Studios use the 1BR range; 4+ bedrooms use the 3BR range
+ */
+export function getAreaRentRange(
+  area: AreaJournalSnapshot,
+  bedrooms: number | null
+): { beds: 1 | 2 | 3; min: number; max: number } | null {
+  if (bedrooms == null) return null;
+
+  const beds = Math.min(Math.max(bedrooms, 1), 3) as 1 | 2 | 3;
+  const ranges = {
+    1: [area.rent_1br_min, area.rent_1br_max],
+    2: [area.rent_2br_min, area.rent_2br_max],
+    3: [area.rent_3br_min, area.rent_3br_max],
+  } as const;
+  const [min, max] = ranges[beds];
+  if (min == null || max == null) return null;
+  return { beds, min, max };
+}
+
+/**
+ * Where a value sits relative to a [min, max] range
+ * @returns null when the range is missing
+ */
+export function getPricePosition(
+  value: number,
+  min: number | null,
+  max: number | null
+): PricePosition | null {
+  if (min == null || max == null) return null;
+  if (value < min) return 'below';
+  if (value > max) return 'above';
+  return 'within';
+}
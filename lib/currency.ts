@@ -0,0 +1,117 @@
+/**
+ * Currency Helpers
+ * Exchange rates, conversion and price formatting for listings
+ *
+ * Rates are maintained by admins in the currency_rates table
+ * (supabase/listing_currency.sql) as units of currency per 1 USD
+ */
+
+import { supabase } from "./supabaseClient";
+
+export const BASE_CURRENCY = 'USD';
+
+export interface CurrencyRate {
+  currency: string; // ISO 4217 code
+  rate_per_usd: number;
+  updated_at: string;
+}
+
+// Map of currency code -> units per 1 USD
+export type CurrencyRates = Map<string, number>;
+
+/**
+ * Checks a user-entered ISO 4217 code (e.g. "LBP")
+ */
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z]{3}$/.test(value);
+}
+
+/**
+ * Load all exchange rates (USD first, then alphabetical)
+ */
+export async function fetchCurrencyRates(): Promise<{ rates: CurrencyRate[]; error: any }> {
+  const { data, error } = await supabase
+    .from('currency_rates')
+    .select('currency, rate_per_usd, updated_at')
+    .order('currency', { ascending: true });
+
+  if (error) {
+    return { rates: [], error };
+  }
+
+  const rates = (data || []).map((row: any) => ({
+    currency: row.currency,
+    rate_per_usd: Number(row.rate_per_usd),
+    updated_at: row.updated_at,
+  }));
+  rates.sort((a, b) => (a.currency === BASE_CURRENCY ? -1 : b.currency === BASE_CURRENCY ? 1 : 0));
+
+  return { rates, error: null };
+}
+
+/**
+ * Add or change an exchange rate (admins only via RLS)
+ */
+export async function upsertCurrencyRate(
+  currency: string,
+  ratePerUsd: number,
+  userId: string
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('currency_rates')
+    .upsert({
+      currency,
+      rate_per_usd: ratePerUsd,
+      updated_at: new Date().toISOString(),
+      updated_by: userId,
+    });
+
+  return { error };
+}
+
+/**
+ * Remove a currency (fails while listings still use it)
+ */
+export async function deleteCurrencyRate(currency: string): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('currency_rates')
+    .delete()
+    .eq('currency', currency);
+
+  return { error };
+}
+
+/**
+ * Convert an amount between currencies via USD
+ * @returns the converted amount, or null when a rate is missing
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: CurrencyRates
+): number | null {
+  if (from === to) return amount;
+  const fromRate = rates.get(from);
+  const toRate = rates.get(to);
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Format an amount in a given currency (whole units, e.g. "$850,000", "LBP 89,500,000")
+ * @param intlLocale Number format locale (the brochure formats per site language)
+ */
+export function formatMoney(amount: number, currency: string = BASE_CURRENCY, intlLocale: string = 'en-US'): string {
+  try {
+    return new Intl.NumberFormat(intlLocale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    // Unknown code for this browser's Intl data
+    return `${currency} ${Math.round(amount).toLocaleString(intlLocale)}`;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Duplicate Listing Helper Functions
+ * Near-duplicate detection and the admin review queue (supabase/listing_duplicates.sql)
+ */
+
+import { supabase } from "./supabaseClient";
+
+export const DUPLICATE_REASONS = ['similar_text', 'same_price', 'same_city', 'same_photo'] as const;
+
+export type DuplicateReason = typeof DUPLICATE_REASONS[number];
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  similar_text: 'Similar text',
+  same_price: 'Same price',
+  same_city: 'Same city',
+  same_photo: 'Same photo',
+};
+
+/**
+ * A published listing that resembles the one being posted
+ */
+export interface DuplicateCandidate {
+  listing_id: number;
+  title: string;
+  city: string | null;
+  price: number | null;
+  currency: string;
+  score: number; // 0-1
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateFlagListing {
+  id: number;
+  user_id: string;
+  title: string;
+  city: string | null;
+  price: number | null;
+  currency: string;
+  status: string;
+  image_urls: string[] | null;
+  created_at: string;
+}
+
+/**
+ * An open entry in the admin queue: `listing` was published after `duplicateOf`
+ */
+export interface DuplicateFlag {
+  id: number;
+  score: number;
+  reasons: DuplicateReason[];
+  created_at: string;
+  listing: DuplicateFlagListing;
+  duplicateOf: DuplicateFlagListing;
+}
+
+export interface DuplicateCheckInput {
+  title: string;
+  description: string | null;
+  price: number | null;
+  currency: string;
+  city: string | null;
+  imageUrls: string[];
+}
+
+const FLAG_LISTING_COLUMNS = 'id, user_id, title, city, price, currency, status, image_urls, created_at';
+
+const toReasons = (reasons: string[] | null) =>
+  (reasons || []).filter((reason): reason is DuplicateReason =>
+    (DUPLICATE_REASONS as readonly string[]).includes(reason)
+  );
+
+/**
+ * Published listings that look like the one about to be posted
+ */
+export async function checkListingDuplicates(
+  input: DuplicateCheckInput
+): Promise<{ candidates: DuplicateCandidate[]; error: any }> {
+  const { data, error } = await supabase.rpc('check_listing_duplicates', {
+    p_title: input.title,
+    p_description: input.description,
+    p_price: input.price,
+    p_currency: input.currency,
+    p_city: input.city,
+    p_image_urls: input.imageUrls,
+  });
+
+  if (error) {
+    return { candidates: [], error };
+  }
+
+  const candidates = ((data || []) as any[]).map((row) => ({
+    listing_id: row.listing_id,
+    title: row.title,
+    city: row.city,
+    price: row.price != null ? Number(row.price) : null,
+    currency: row.currency,
+    score: Number(row.score),
+    reasons: toReasons(row.reasons),
+  }));
+  return { candidates, error: null };
+}
+
+/**
+ * Open duplicate flags, newest first (admins only; RLS returns nothing otherwise)
+ */
+export async function fetchOpenDuplicateFlags(): Promise<{ flags: DuplicateFlag[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_duplicate_flags')
+    .select(`
+      id, score, reasons, created_at,
+      listing:listings!listing_duplicate_flags_listing_id_fkey(${FLAG_LISTING_COLUMNS}),
+      duplicateOf:listings!listing_duplicate_flags_duplicate_of_id_fkey(${FLAG_LISTING_COLUMNS})
+    `)
+    .eq('status', 'open')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { flags: [], error };
+  }
+
+  const flags = ((data || []) as any[])
+    .filter((row) => row.listing && row.duplicateOf)
+    .map((row) => ({
+      id: row.id,
+      score: Number(row.score),
+      reasons: toReasons(row.reasons),
+      created_at: row.created_at,
+      listing: row.listing,
+      duplicateOf: row.duplicateOf,
+    }));
+  return { flags, error: null };
+}
+
+/**
+ * Mark a flag as not a duplicate
+ */
+export async function dismissDuplicateFlag(
+  flagId: number,
+  adminId: string
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('listing_duplicate_flags')
+    .update({ status: 'dismissed', resolved_at: new Date().toISOString(), resolved_by: adminId })
+    .eq('id', flagId);
+
+  return { error };
+}
+
+/**
+ * Fold one listing into another (favorites and missing details move over),
+ * then delete it
+ */
+export async function mergeDuplicateListings(
+  keepId: number,
+  removeId: number
+): Promise<{ error: any }> {
+  const { error } = await supabase.rpc('merge_duplicate_listings', {
+    p_keep_id: keepId,
+    p_remove_id: removeId,
+  });
+
+  return { error };
+}
@@ -0,0 +1,96 @@
+/**
+ * Listing Favorites Helper Functions
+ * Watchlist for listings (supabase/listing_favorites.sql)
+ */
+
+import { supabase } from "./supabaseClient";
+
+/**
+ * Which of the given listings the user has favorited
+ * @returns Set of favorited listing IDs
+ */
+export async function fetchFavoriteIds(
+  userId: string,
+  listingIds: number[]
+): Promise<{ favoriteIds: Set<number>; error: any }> {
+  if (listingIds.length === 0) {
+    return { favoriteIds: new Set(), error: null };
+  }
+
+  const { data, error } = await supabase
+    .from("listing_favorites")
+    .select("listing_id")
+    .eq("user_id", userId)
+    .in("listing_id", listingIds);
+
+  if (error) {
+    return { favoriteIds: new Set(), error };
+  }
+
+  return {
+    favoriteIds: new Set((data || []).map((row: { listing_id: number }) => row.listing_id)),
+    error: null,
+  };
+}
+
+/**
+ * Add or remove a listing from the user's favorites
+ * @param isFavorite Current state (true = remove, false = add)
+ */
+export async function toggleFavorite(
+  userId: string,
+  listingId: number,
+  isFavorite: boolean
+): Promise<{ error: any }> {
+  if (isFavorite) {
+    const { error } = await supabase
+      .from("listing_favorites")
+      .delete()
+      .eq("listing_id", listingId)
+      .eq("user_id", userId);
+    return { error };
+  }
+
+  const { error } = await supabase
+    .from("listing_favorites")
+    .insert({
+      listing_id: listingId,
+      user_id: userId,
+    });
+
+  // Already favorited (e.g. from another tab) counts as success
+  if (error?.code === "23505") {
+    return { error: null };
+  }
+  return { error };
+}
+
+/**
+ * Favorite counts for listings the current user owns (admins: any listing)
+ * Listings the caller doesn't own are omitted from the result
+ */
+export async function fetchFavoriteCounts(
+  listingIds: number[]
+): Promise<{ counts: Map<number, number>; error: any }> {
+  if (listingIds.length === 0) {
+    return { counts: new Map(), error: null };
+  }
+
+  const { data, error } = await supabase.rpc("get_listing_favorite_counts", {
+    p_listing_ids: listingIds,
+  });
+
+  if (error) {
+    return { counts: new Map(), error };
+  }
+
+  return {
+    counts: new Map(
+      (data || []).map((row: { listing_id: number; favorite_count: number }) => [
+        row.listing_id,
+        Number(row.favorite_count),
+      ])
+    ),
+    error: null,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Geo Helpers
+ * Web Mercator math, tile config and marker clustering for the listing maps
+ *
+ * Tiles come from any XYZ tile server. Set NEXT_PUBLIC_MAP_TILE_URL
+ * (e.g. a local tile server for offline/test runs) to override the default.
+ */
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 18;
+
+export const TILE_URL_TEMPLATE =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || '© OpenStreetMap contributors';
+
+// Beirut: where most listings are
+export const DEFAULT_MAP_CENTER: LatLng = { lat: 33.8938, lng: 35.5018 };
+export const DEFAULT_MAP_ZOOM = 12;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Mercator is undefined at the poles
+const MAX_LATITUDE = 85.05112878;
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom)));
+}
+
+/**
+ * Lat/lng -> world pixel coordinates at a zoom level
+ */
+export function project({ lat, lng }: LatLng, zoom: number): Point {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const clampedLat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * World pixel coordinates -> lat/lng at a zoom level
+ */
+export function unproject({ x, y }: Point, zoom: number): LatLng {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const lng = (x / scale) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  const lat = (180 / Math.PI) * Math.atan(0.5 * (Math.exp(n) - Math.exp(-n)));
+  // Wrap longitude back into [-180, 180)
+  return { lat, lng: ((((lng + 180) % 360) + 360) % 360) - 180 };
+}
+
+/**
+ * Visible area for a map of the given pixel size
+ * minLng > maxLng when the view crosses the antimeridian
+ */
+export function getBoundingBox(center: LatLng, zoom: number, width: number, height: number): BoundingBox {
+  const c = project(center, zoom);
+  const topLeft = unproject({ x: c.x - width / 2, y: c.y - height / 2 }, zoom);
+  const bottomRight = unproject({ x: c.x + width / 2, y: c.y + height / 2 }, zoom);
+  // Whole world visible horizontally
+  if (width >= TILE_SIZE * Math.pow(2, zoom)) {
+    return { minLat: bottomRight.lat, maxLat: topLeft.lat, minLng: -180, maxLng: 180 };
+  }
+  return { minLat: bottomRight.lat, maxLat: topLeft.lat, minLng: topLeft.lng, maxLng: bottomRight.lng };
+}
+
+export function getTileUrl(x: number, y: number, zoom: number): string {
+  return TILE_URL_TEMPLATE
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+}
+
+export function isValidLatitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -90 && value <= 90;
+}
+
+export function isValidLongitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -180 && value <= 180;
+}
+
+export interface MapCluster<T> {
+  key: string;
+  position: LatLng; // Average of the items
+  items: T[];
+}
+
+/**
+ * Groups nearby markers into clusters by snapping them to a pixel grid
+ * @param cellSize Grid cell in screen pixels (markers closer than this merge)
+ */
+export function clusterPoints<T extends LatLng>(items: T[], zoom: number, cellSize: number = 60): MapCluster<T>[] {
+  const cells = new Map<string, T[]>();
+
+  for (const item of items) {
+    const { x, y } = project(item, zoom);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(item);
+    } else {
+      cells.set(key, [item]);
+    }
+  }
+
+  return Array.from(cells.entries()).map(([key, cellItems]) => ({
+    key,
+    position: {
+      lat: cellItems.reduce((sum, item) => sum + item.lat, 0) / cellItems.length,
+      lng: cellItems.reduce((sum, item) => sum + item.lng, 0) / cellItems.length,
+    },
+    items: cellItems,
+  }));
+}
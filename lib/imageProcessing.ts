@@ -0,0 +1,63 @@
+/**
+ * Image Processing (server only)
+ * Resizes photos into WebP variants with all metadata removed
+ */
+
+import sharp from 'sharp';
+import { LISTING_IMAGE_SIZES, LISTING_IMAGE_VARIANTS, ListingImageVariant } from './listingImages';
+
+const WEBP_QUALITY = 80;
+
+/**
+ * Produce every listing image variant from an uploaded photo
+ * - Applies the EXIF orientation, then drops EXIF/GPS/ICC metadata
+ *   (sharp only keeps metadata when asked to with withMetadata())
+ * - Fits inside the variant size without upscaling
+ * @throws when the input is not a decodable image
+ */
+export async function createListingImageVariants(
+  input: Buffer
+): Promise<Record<ListingImageVariant, Buffer>> {
+  // Auto-orient once; every variant starts from the upright image
+  const upright = await sharp(input, { failOn: 'error' }).rotate().toBuffer();
+
+  const entries = await Promise.all(
+    LISTING_IMAGE_VARIANTS.map(async (variant) => {
+      const size = LISTING_IMAGE_SIZES[variant];
+      const output = await sharp(upright)
+        .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer();
+      return [variant, output] as const;
+    })
+  );
+
+  return Object.fromEntries(entries) as Record<ListingImageVariant, Buffer>;
+}
+
+/**
+ * 64-bit difference hash (dHash) of a photo as 16 hex chars
+ * Near-identical photos (re-encoded, resized, lightly edited) differ in only
+ * a few bits; used for duplicate listing detection
+ * @throws when the input is not a decodable image
+ */
+export async function computeImageHash(input: Buffer): Promise<string> {
+  // 9x8 greyscale: each row gives 8 left/right brightness comparisons
+  const pixels = await sharp(input, { failOn: 'error' })
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let bits = 0;
+    for (let col = 0; col < 8; col++) {
+      const offset = row * 9 + col;
+      bits = (bits << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+    }
+    hash += bits.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
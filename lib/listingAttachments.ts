@@ -0,0 +1,243 @@
+/**
+ * Listing Attachment Helpers
+ * Floor plans, video tours and PDF documents attached to a listing
+ * (supabase/listing_attachments.sql)
+ *
+ * Files are uploaded straight to the listing-attachments bucket under
+ * {userId}/{listingId}/ and recorded in listing_attachments. Unlike photos
+ * they are stored as uploaded (no processing or variants). The database takes
+ * each row's type, size and URL from the stored file; the public URL is
+ * built here from storage_path.
+ *
+ * NOTE: Kinds, types and size limits must stay in sync with the bucket
+ * settings and the listing_attachments_type_check constraint
+ */
+
+import { supabase } from "./supabaseClient";
+
+export const LISTING_ATTACHMENTS_BUCKET = 'listing-attachments';
+
+export const ATTACHMENT_KINDS = ['floor_plan', 'video', 'document'] as const;
+
+export type AttachmentKind = typeof ATTACHMENT_KINDS[number];
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  floor_plan: 'Floor Plans',
+  video: 'Video Tours',
+  document: 'Documents',
+};
+
+export const ATTACHMENT_MIME_TYPES: Record<AttachmentKind, string[]> = {
+  floor_plan: ['image/jpeg', 'image/png', 'image/webp'],
+  video: ['video/mp4', 'video/webm', 'video/quicktime'],
+  document: ['application/pdf'],
+};
+
+export const MAX_ATTACHMENT_BYTES: Record<AttachmentKind, number> = {
+  floor_plan: 15 * 1024 * 1024,
+  video: 100 * 1024 * 1024,
+  document: 20 * 1024 * 1024,
+};
+
+// Per listing (UI only)
+export const MAX_ATTACHMENTS_PER_KIND: Record<AttachmentKind, number> = {
+  floor_plan: 10,
+  video: 3,
+  document: 5,
+};
+
+export const MAX_ATTACHMENT_TITLE_LENGTH = 80;
+
+export interface ListingAttachment {
+  id: number;
+  listing_id: number;
+  kind: AttachmentKind;
+  url: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  title: string | null;
+  position: number;
+  created_at: string;
+}
+
+/**
+ * A file picked in the listing form, uploaded when the listing is saved
+ */
+export interface PendingAttachment {
+  file: File;
+  kind: AttachmentKind;
+  title: string;
+}
+
+const ATTACHMENT_COLUMNS = 'id, listing_id, kind, url, storage_path, file_name, mime_type, size_bytes, title, position, created_at';
+
+export function isAttachmentKind(value: unknown): value is AttachmentKind {
+  return typeof value === 'string' && (ATTACHMENT_KINDS as readonly string[]).includes(value);
+}
+
+// Stored url is relative to the project; link to the file itself
+const toListingAttachment = (row: any): ListingAttachment => ({
+  ...row,
+  url: supabase.storage.from(LISTING_ATTACHMENTS_BUCKET).getPublicUrl(row.storage_path).data.publicUrl,
+  size_bytes: Number(row.size_bytes),
+});
+
+/**
+ * Checks a picked file against the kind's allowed types and size
+ * @returns an error message, or null when the file is fine
+ */
+export function validateAttachmentFile(kind: AttachmentKind, file: File): string | null {
+  if (!ATTACHMENT_MIME_TYPES[kind].includes(file.type)) {
+    return kind === 'floor_plan'
+      ? `${file.name}: floor plans must be JPEG, PNG or WebP images`
+      : kind === 'video'
+        ? `${file.name}: videos must be MP4, WebM or MOV files`
+        : `${file.name}: documents must be PDF files`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES[kind]) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES[kind] / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+/**
+ * Attachments of a listing in display order
+ */
+export async function fetchListingAttachments(
+  listingId: number
+): Promise<{ attachments: ListingAttachment[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_attachments')
+    .select(ATTACHMENT_COLUMNS)
+    .eq('listing_id', listingId)
+    .order('position', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    return { attachments: [], error };
+  }
+
+  const attachments = (data || [])
+    .filter((row: any) => isAttachmentKind(row.kind))
+    .map(toListingAttachment);
+
+  return { attachments, error: null };
+}
+
+/**
+ * Upload one file and record it on the listing (listing owner only via RLS)
+ * The stored file is removed again if the row can't be saved
+ */
+export async function uploadListingAttachment(
+  listingId: number,
+  userId: string,
+  pending: PendingAttachment,
+  position: number
+): Promise<{ attachment: ListingAttachment | null; error: any }> {
+  const validationError = validateAttachmentFile(pending.kind, pending.file);
+  if (validationError) {
+    return { attachment: null, error: { message: validationError } };
+  }
+
+  // Same filename rules as chat uploads: lowercase, dashes, no odd characters
+  const safeFilename = pending.file.name
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9.-]/g, '')
+    .substring(0, 100) || 'file';
+  const path = `${userId}/${listingId}/${Date.now()}-${safeFilename}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(LISTING_ATTACHMENTS_BUCKET)
+    .upload(path, pending.file, {
+      // Paths are never reused
+      cacheControl: '31536000',
+      upsert: false,
+      contentType: pending.file.type,
+    });
+
+  if (uploadError) {
+    return { attachment: null, error: uploadError };
+  }
+
+  const { data, error } = await supabase
+    .from('listing_attachments')
+    .insert({
+      // url, mime_type and size_bytes are filled in from the stored file
+      listing_id: listingId,
+      kind: pending.kind,
+      storage_path: path,
+      file_name: pending.file.name.substring(0, 200),
+      title: pending.title.trim() || null,
+      position,
+    })
+    .select(ATTACHMENT_COLUMNS)
+    .single();
+
+  if (error) {
+    await supabase.storage.from(LISTING_ATTACHMENTS_BUCKET).remove([path]);
+    return { attachment: null, error };
+  }
+
+  return { attachment: toListingAttachment(data), error: null };
+}
+
+/**
+ * Upload picked files after the listing is saved, positioned after the
+ * attachments it already has
+ * Keeps going after a failed file and reports each failure
+ */
+export async function uploadPendingAttachments(
+  listingId: number,
+  userId: string,
+  pending: PendingAttachment[],
+  existing: ListingAttachment[] = []
+): Promise<{ attachments: ListingAttachment[]; failed: { fileName: string; error: any }[] }> {
+  const attachments: ListingAttachment[] = [];
+  const failed: { fileName: string; error: any }[] = [];
+  let position = existing.reduce((max, attachment) => Math.max(max, attachment.position + 1), 0);
+
+  for (const item of pending) {
+    const { attachment, error } = await uploadListingAttachment(listingId, userId, item, position);
+    if (error || !attachment) {
+      failed.push({ fileName: item.file.name, error });
+      continue;
+    }
+    attachments.push(attachment);
+    position++;
+  }
+
+  return { attachments, failed };
+}
+
+/**
+ * Remove an attachment, then its stored file
+ * @returns storageError is non-fatal (the attachment is already gone from the listing)
+ */
+export async function deleteListingAttachment(
+  attachment: ListingAttachment
+): Promise<{ error: any; storageError: any }> {
+  const { error } = await supabase
+    .from('listing_attachments')
+    .delete()
+    .eq('id', attachment.id);
+
+  if (error) {
+    return { error, storageError: null };
+  }
+
+  const { error: storageError } = await supabase.storage
+    .from(LISTING_ATTACHMENTS_BUCKET)
+    .remove([attachment.storage_path]);
+
+  return { error: null, storageError };
+}
+
+/**
+ * URL that makes the browser save the file under its original name
+ */
+export function getAttachmentDownloadUrl(attachment: ListingAttachment): string {
+  return `${attachment.url}?download=${encodeURIComponent(attachment.file_name)}`;
+}
@@ -0,0 +1,307 @@
+/**
+ * Listing Brochure Helpers
+ * Labels for the printable one-page brochure (app/api/listings/[id]/brochure)
+ * in every site language, and the client call that fetches it
+ *
+ * NOTE: Locales must stay in sync with contexts/LanguageContext.tsx
+ * Safe to import from API routes (no browser Supabase client)
+ */
+
+export const BROCHURE_LOCALES = ['en', 'ar', 'zh', 'de', 'fr'] as const;
+
+export type BrochureLocale = typeof BROCHURE_LOCALES[number];
+
+// Number / date formatting per site language
+export const BROCHURE_INTL_LOCALES: Record<BrochureLocale, string> = {
+  en: 'en-US',
+  ar: 'ar-LB',
+  zh: 'zh-CN',
+  de: 'de-DE',
+  fr: 'fr-FR',
+};
+
+export function isBrochureLocale(value: unknown): value is BrochureLocale {
+  return typeof value === 'string' && (BROCHURE_LOCALES as readonly string[]).includes(value);
+}
+
+export function getBrochureDirection(locale: BrochureLocale): 'ltr' | 'rtl' {
+  return locale === 'ar' ? 'rtl' : 'ltr';
+}
+
+const EN_LABELS = {
+  forSale: 'For Sale',
+  forRent: 'For Rent',
+  priceOnRequest: 'Price on request',
+  perMonth: '/ month',
+  perYear: '/ year',
+  keyFacts: 'Key Facts',
+  propertyType: 'Property type',
+  bedrooms: 'Bedrooms',
+  bathrooms: 'Bathrooms',
+  area: 'Area',
+  deposit: 'Deposit',
+  minLease: 'Minimum lease',
+  months: '{{count}} months',
+  furnishing: 'Furnishing',
+  furnished: 'Furnished',
+  unfurnished: 'Unfurnished',
+  available: 'Available',
+  availableNow: 'Now',
+  description: 'Description',
+  amenities: 'Amenities & Features',
+  contact: 'Contact',
+  phone: 'Phone',
+  contactOnline: 'Message the owner on the listing page',
+  viewOnline: 'View online',
+  areaSnapshot: 'Area Snapshot',
+  areaStatus: 'Status',
+  demand: 'Demand',
+  outlook: '90-day outlook',
+  rent1br: '1 bedroom rent / month',
+  rent2br: '2 bedroom rent / month',
+  rent3br: '3 bedroom rent / month',
+  salePerSqm: 'Sale price per m²',
+  areaUpdated: 'Area data updated',
+  heating: 'Heating',
+  cooling: 'Cooling',
+  stable: 'Stable',
+  outlookUp: 'Up',
+  outlookSideways: 'Sideways',
+  outlookDown: 'Down',
+  house: 'House',
+  apartment: 'Apartment',
+  condo: 'Condo',
+  villa: 'Villa',
+  townhouse: 'Townhouse',
+  reference: 'Ref.',
+  generated: 'Printed',
+  print: 'Print / Save as PDF',
+};
+
+export type BrochureLabelKey = keyof typeof EN_LABELS;
+
+export const BROCHURE_LABELS: Record<BrochureLocale, Record<BrochureLabelKey, string>> = {
+  en: EN_LABELS,
+  ar: {
+    forSale: 'للبيع',
+    forRent: 'للإيجار',
+    priceOnRequest: 'السعر عند الطلب',
+    perMonth: '/ شهرياً',
+    perYear: '/ سنوياً',
+    keyFacts: 'المعلومات الأساسية',
+    propertyType: 'نوع العقار',
+    bedrooms: 'غرف النوم',
+    bathrooms: 'الحمامات',
+    area: 'المساحة',
+    deposit: 'التأمين',
+    minLease: 'الحد الأدنى للإيجار',
+    months: '{{count}} أشهر',
+    furnishing: 'الفرش',
+    furnished: 'مفروش',
+    unfurnished: 'غير مفروش',
+    available: 'متاح',
+    availableNow: 'الآن',
+    description: 'الوصف',
+    amenities: 'المرافق والميزات',
+    contact: 'التواصل',
+    phone: 'الهاتف',
+    contactOnline: 'راسل المالك عبر صفحة الإعلان',
+    viewOnline: 'عرض على الموقع',
+    areaSnapshot: 'لمحة عن المنطقة',
+    areaStatus: 'الحالة',
+    demand: 'الطلب',
+    outlook: 'توقعات 90 يوماً',
+    rent1br: 'إيجار غرفة نوم واحدة / شهرياً',
+    rent2br: 'إيجار غرفتي نوم / شهرياً',
+    rent3br: 'إيجار ثلاث غرف نوم / شهرياً',
+    salePerSqm: 'سعر البيع للمتر المربع',
+    areaUpdated: 'آخر تحديث لبيانات المنطقة',
+    heating: 'في ارتفاع',
+    cooling: 'في تراجع',
+    stable: 'مستقر',
+    outlookUp: 'صعود',
+    outlookSideways: 'ثبات',
+    outlookDown: 'هبوط',
+    house: 'منزل',
+    apartment: 'شقة',
+    condo: 'شقة في مجمع',
+    villa: 'فيلا',
+    townhouse: 'تاون هاوس',
+    reference: 'المرجع',
+    generated: 'تاريخ الطباعة',
+    print: 'طباعة / حفظ PDF',
+  },
+  zh: {
+    forSale: '出售',
+    forRent: '出租',
+    priceOnRequest: '价格面议',
+    perMonth: '/ 月',
+    perYear: '/ 年',
+    keyFacts: '基本信息',
+    propertyType: '房产类型',
+    bedrooms: '卧室',
+    bathrooms: '浴室',
+    area: '面积',
+    deposit: '押金',
+    minLease: '最短租期',
+    months: '{{count}} 个月',
+    furnishing: '家具',
+    furnished: '带家具',
+    unfurnished: '不带家具',
+    available: '可入住',
+    availableNow: '即刻',
+    description: '描述',
+    amenities: '设施与特色',
+    contact: '联系方式',
+    phone: '电话',
+    contactOnline: '请在房源页面联系业主',
+    viewOnline: '在线查看',
+    areaSnapshot: '区域概况',
+    areaStatus: '状态',
+    demand: '需求',
+    outlook: '90天展望',
+    rent1br: '一居室月租',
+    rent2br: '两居室月租',
+    rent3br: '三居室月租',
+    salePerSqm: '每平方米售价',
+    areaUpdated: '区域数据更新于',
+    heating: '升温',
+    cooling: '降温',
+    stable: '稳定',
+    outlookUp: '上涨',
+    outlookSideways: '持平',
+    outlookDown: '下跌',
+    house: '独栋住宅',
+    apartment: '公寓',
+    condo: '共管公寓',
+    villa: '别墅',
+    townhouse: '联排别墅',
+    reference: '编号',
+    generated: '打印日期',
+    print: '打印 / 另存为 PDF',
+  },
+  de: {
+    forSale: 'Zu verkaufen',
+    forRent: 'Zu vermieten',
+    priceOnRequest: 'Preis auf Anfrage',
+    perMonth: '/ Monat',
+    perYear: '/ Jahr',
+    keyFacts: 'Eckdaten',
+    propertyType: 'Objektart',
+    bedrooms: 'Schlafzimmer',
+    bathrooms: 'Badezimmer',
+    area: 'Fläche',
+    deposit: 'Kaution',
+    minLease: 'Mindestmietdauer',
+    months: '{{count}} Monate',
+    furnishing: 'Ausstattung',
+    furnished: 'Möbliert',
+    unfurnished: 'Unmöbliert',
+    available: 'Verfügbar',
+    availableNow: 'Sofort',
+    description: 'Beschreibung',
+    amenities: 'Ausstattung & Merkmale',
+    contact: 'Kontakt',
+    phone: 'Telefon',
+    contactOnline: 'Kontaktieren Sie den Eigentümer über die Anzeige',
+    viewOnline: 'Online ansehen',
+    areaSnapshot: 'Lage im Überblick',
+    areaStatus: 'Status',
+    demand: 'Nachfrage',
+    outlook: '90-Tage-Ausblick',
+    rent1br: 'Miete 1 Schlafzimmer / Monat',
+    rent2br: 'Miete 2 Schlafzimmer / Monat',
+    rent3br: 'Miete 3 Schlafzimmer / Monat',
+    salePerSqm: 'Kaufpreis pro m²',
+    areaUpdated: 'Lagedaten aktualisiert',
+    heating: 'Steigend',
+    cooling: 'Fallend',
+    stable: 'Stabil',
+    outlookUp: 'Aufwärts',
+    outlookSideways: 'Seitwärts',
+    outlookDown: 'Abwärts',
+    house: 'Haus',
+    apartment: 'Wohnung',
+    condo: 'Eigentumswohnung',
+    villa: 'Villa',
+    townhouse: 'Reihenhaus',
+    reference: 'Ref.',
+    generated: 'Gedruckt',
+    print: 'Drucken / Als PDF speichern',
+  },
+  fr: {
+    forSale: 'À vendre',
+    forRent: 'À louer',
+    priceOnRequest: 'Prix sur demande',
+    perMonth: '/ mois',
+    perYear: '/ an',
+    keyFacts: 'Caractéristiques',
+    propertyType: 'Type de bien',
+    bedrooms: 'Chambres',
+    bathrooms: 'Salles de bain',
+    area: 'Surface',
+    deposit: 'Caution',
+    minLease: 'Bail minimum',
+    months: '{{count}} mois',
+    furnishing: 'Ameublement',
+    furnished: 'Meublé',
+    unfurnished: 'Non meublé',
+    available: 'Disponible',
+    availableNow: 'Immédiatement',
+    description: 'Description',
+    amenities: 'Équipements et atouts',
+    contact: 'Contact',
+    phone: 'Téléphone',
+    contactOnline: "Contactez le propriétaire via la page de l'annonce",
+    viewOnline: 'Voir en ligne',
+    areaSnapshot: 'Le quartier en bref',
+    areaStatus: 'Tendance',
+    demand: 'Demande',
+    outlook: 'Perspectives à 90 jours',
+    rent1br: 'Loyer 1 chambre / mois',
+    rent2br: 'Loyer 2 chambres / mois',
+    rent3br: 'Loyer 3 chambres / mois',
+    salePerSqm: 'Prix de vente au m²',
+    areaUpdated: 'Données du quartier mises à jour',
+    heating: 'En hausse',
+    cooling: 'En baisse',
+    stable: 'Stable',
+    outlookUp: 'Hausse',
+    outlookSideways: 'Stable',
+    outlookDown: 'Baisse',
+    house: 'Maison',
+    apartment: 'Appartement',
+    condo: 'Appartement en copropriété',
+    villa: 'Villa',
+    townhouse: 'Maison de ville',
+    reference: 'Réf.',
+    generated: 'Imprimé le',
+    print: 'Imprimer / Enregistrer en PDF',
+  },
+};
+
+/**
+ * Fetch the brochure page for a listing
+ * @param accessToken Session access token (drafts are only visible to their owner)
+ * @returns the brochure as a standalone HTML document
+ */
+export async function fetchListingBrochure(
+  listingId: number,
+  locale: BrochureLocale,
+  accessToken: string
+): Promise<{ html: string | null; error: string | null }> {
+  try {
+    const response = await fetch(`/api/listings/${listingId}/brochure?lang=${locale}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      return { html: null, error: result.error || 'Failed to create brochure' };
+    }
+
+    return { html: await response.text(), error: null };
+  } catch (error: any) {
+    return { html: null, error: error?.message || 'Failed to create brochure' };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Listing Export Helper Functions
+ * CSV export of the owner's listings and syndication feed tokens
+ * (supabase/listing_feeds.sql, app/api/listings/feed)
+ */
+
+import { supabase } from "./supabaseClient";
+import { toCsv } from "./utils";
+
+export type FeedFormat = 'xml' | 'json';
+
+export interface ExportableListing {
+  id: number;
+  external_ref: string | null;
+  title: string;
+  description: string | null;
+  price: number | null;
+  currency: string;
+  listing_type: string;
+  rent_period: string | null;
+  city: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  property_type: string | null;
+  area_sqm: number | null;
+  address: string | null;
+  neighbourhood: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  status: string;
+  created_at: string;
+}
+
+export const EXPORTABLE_LISTING_COLUMNS =
+  'id, external_ref, title, description, price, currency, listing_type, rent_period, city, bedrooms, bathrooms, property_type, area_sqm, address, neighbourhood, latitude, longitude, status, created_at';
+
+/**
+ * Save a reference on the user's listings that don't have one yet, so an
+ * export re-imports as updates rather than new listings
+ * @returns the assigned references by listing ID
+ */
+export async function assignListingExternalRefs(): Promise<{ refs: Map<number, string>; error: any }> {
+  const { data, error } = await supabase.rpc('assign_listing_external_refs');
+  if (error) {
+    return { refs: new Map(), error };
+  }
+  return {
+    refs: new Map((data || []).map((row: any) => [Number(row.id), row.external_ref as string])),
+    error: null,
+  };
+}
+
+/**
+ * Listings as CSV; column names match the import fields
+ * Only rows with a reference re-import as updates (see assignListingExternalRefs);
+ * rows without one are exported with a blank reference, which the import rejects
+ */
+export function buildListingsCsv(listings: ExportableListing[], origin: string): string {
+  return toCsv([
+    [
+      'external_ref', 'title', 'description', 'price', 'currency', 'listing_type', 'rent_period', 'city', 'bedrooms', 'bathrooms',
+      'property_type', 'area_sqm', 'address', 'neighbourhood', 'latitude', 'longitude',
+      'status', 'created_at', 'url',
+    ],
+    ...listings.map((listing) => [
+      listing.external_ref,
+      listing.title,
+      listing.description,
+      listing.price,
+      listing.currency,
+      listing.listing_type,
+      listing.rent_period,
+      listing.city,
+      listing.bedrooms,
+      listing.bathrooms,
+      listing.property_type,
+      listing.area_sqm,
+      listing.address,
+      listing.neighbourhood,
+      listing.latitude,
+      listing.longitude,
+      listing.status,
+      listing.created_at,
+      `${origin}/listings/${listing.id}`,
+    ]),
+  ]);
+}
+
+/**
+ * The user's feed token, or null when they haven't created one
+ */
+export async function fetchFeedToken(userId: string): Promise<{ token: string | null; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_feed_tokens')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    return { token: null, error };
+  }
+  return { token: data?.token ?? null, error: null };
+}
+
+/**
+ * Create a feed token, or replace it (the old feed URL stops working)
+ */
+export async function rotateFeedToken(): Promise<{ token: string | null; error: any }> {
+  const { data, error } = await supabase.rpc('rotate_listing_feed_token');
+  if (error) {
+    return { token: null, error };
+  }
+  return { token: data as string, error: null };
+}
+
+/**
+ * Turn the feed off
+ */
+export async function revokeFeedToken(userId: string): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('listing_feed_tokens')
+    .delete()
+    .eq('user_id', userId);
+
+  return { error };
+}
+
+export function buildFeedUrl(origin: string, token: string, format: FeedFormat): string {
+  const params = new URLSearchParams({ token });
+  if (format === 'json') {
+    params.set('format', 'json');
+  }
+  return `${origin}/api/listings/feed?${params.toString()}`;
+}
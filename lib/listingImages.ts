@@ -0,0 +1,178 @@
+/**
+ * Listing Image Helpers
+ * Variant URLs and upload client for processed listing photos
+ *
+ * Photos are uploaded through /api/listing-images, which strips EXIF
+ * (including GPS), fixes orientation and stores WebP variants side by side
+ * (photos over the route's body limit are shrunk in the browser first):
+ *   listings/{userId}/{imageId}/thumb.webp | medium.webp | full.webp
+ * listings.image_urls keeps the full.webp URL; the other variants are derived
+ * from it. Photos uploaded before processing existed have no variants and
+ * are served as-is.
+ */
+
+export const LISTING_IMAGE_VARIANTS = ['thumb', 'medium', 'full'] as const;
+
+export type ListingImageVariant = typeof LISTING_IMAGE_VARIANTS[number];
+
+// Longest edge in pixels (images are never upscaled)
+export const LISTING_IMAGE_SIZES: Record<ListingImageVariant, number> = {
+  thumb: 400,
+  medium: 1024,
+  full: 2048,
+};
+
+// Limit for a selected photo (larger ones are shrunk before upload)
+export const MAX_LISTING_IMAGE_BYTES = 15 * 1024 * 1024;
+
+// Limit for the file posted to /api/listing-images
+// (Vercel rejects function request bodies over 4.5 MB)
+export const MAX_LISTING_IMAGE_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+// JPEG qualities tried in turn when shrinking a photo for upload
+const SHRINK_QUALITIES = [0.9, 0.8, 0.7, 0.6];
+
+// Caption length limit (UI only)
+export const MAX_LISTING_IMAGE_CAPTION_LENGTH = 80;
+
+export const LISTING_IMAGES_BUCKET = 'listing-images';
+
+const FULL_VARIANT_PATTERN = /\/full\.webp(\?.*)?$/;
+const STORAGE_PATH_PATTERN = new RegExp(`/storage/v1/object/public/${LISTING_IMAGES_BUCKET}/([^?]+)`);
+
+/**
+ * A photo with its caption, in display order (index 0 = cover)
+ */
+export interface ListingPhoto {
+  url: string;
+  caption: string;
+}
+
+/**
+ * Pair image_urls with image_captions (captions may be missing)
+ */
+export function toListingPhotos(urls: string[] | null, captions: string[] | null): ListingPhoto[] {
+  return (urls || []).map((url, index) => ({ url, caption: captions?.[index] || '' }));
+}
+
+/**
+ * Split photos back into the image_urls / image_captions columns
+ * (captions are stored as an empty array when none are set)
+ */
+export function fromListingPhotos(photos: ListingPhoto[]): { image_urls: string[]; image_captions: string[] } {
+  const captions = photos.map((photo) => photo.caption.trim());
+  return {
+    image_urls: photos.map((photo) => photo.url),
+    image_captions: captions.some(Boolean) ? captions : [],
+  };
+}
+
+/**
+ * Storage paths behind a photo URL (all variants for processed photos)
+ * @returns [] for URLs outside the listing-images bucket
+ */
+export function getListingImageStoragePaths(url: string): string[] {
+  const match = url.match(STORAGE_PATH_PATTERN);
+  if (!match) return [];
+
+  const path = decodeURIComponent(match[1]);
+  if (!path.endsWith('/full.webp')) return [path];
+
+  const folder = path.slice(0, -'/full.webp'.length);
+  return LISTING_IMAGE_VARIANTS.map((variant) => `${folder}/${variant}.webp`);
+}
+
+/**
+ * URL of a processed variant (legacy photos fall back to the original URL)
+ */
+export function getListingImageUrl(url: string, variant: ListingImageVariant): string {
+  if (!FULL_VARIANT_PATTERN.test(url)) return url;
+  return url.replace(FULL_VARIANT_PATTERN, `/${variant}.webp$1`);
+}
+
+/**
+ * srcSet for a processed photo, up to the given variant
+ * @returns undefined for legacy photos (single size)
+ */
+export function getListingImageSrcSet(
+  url: string,
+  largest: ListingImageVariant = 'full'
+): string | undefined {
+  if (!FULL_VARIANT_PATTERN.test(url)) return undefined;
+  return LISTING_IMAGE_VARIANTS
+    .slice(0, LISTING_IMAGE_VARIANTS.indexOf(largest) + 1)
+    .map((variant) => `${getListingImageUrl(url, variant)} ${LISTING_IMAGE_SIZES[variant]}w`)
+    .join(', ');
+}
+
+/**
+ * Shrink a photo to the full variant size as JPEG so it fits the upload
+ * limit (browser only; EXIF orientation is applied by createImageBitmap)
+ * @returns the file unchanged when it already fits, null when it can't be shrunk
+ */
+async function shrinkListingImage(file: File): Promise<File | null> {
+  if (file.size <= MAX_LISTING_IMAGE_UPLOAD_BYTES) return file;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    // Formats the browser can't decode (e.g. HEIC outside Safari)
+    return null;
+  }
+
+  const scale = Math.min(1, LISTING_IMAGE_SIZES.full / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    return null;
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  for (const quality of SHRINK_QUALITIES) {
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality));
+    if (blob && blob.size <= MAX_LISTING_IMAGE_UPLOAD_BYTES) {
+      return new File([blob], file.name.replace(/\.[^.]*$/, '') + '.jpg', { type: 'image/jpeg' });
+    }
+  }
+  return null;
+}
+
+/**
+ * Upload one photo for processing (shrunk first if it's over the upload limit)
+ * @param accessToken Session access token (the upload runs as the user)
+ * @returns the full-variant URL to store in image_urls
+ */
+export async function uploadListingImage(
+  file: File,
+  accessToken: string
+): Promise<{ url: string | null; error: string | null }> {
+  const upload = await shrinkListingImage(file);
+  if (!upload) {
+    return { url: null, error: `${file.name} could not be resized for upload` };
+  }
+
+  const body = new FormData();
+  body.append('file', upload);
+
+  try {
+    const response = await fetch('/api/listing-images', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body,
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok || !result.urls?.full) {
+      return { url: null, error: result.error || 'Upload failed' };
+    }
+
+    return { url: result.urls.full, error: null };
+  } catch (error: any) {
+    return { url: null, error: error?.message || 'Upload failed' };
+  }
+}
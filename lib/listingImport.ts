@@ -0,0 +1,602 @@
+/**
+ * Bulk Listing Import
+ * CSV / XML feed parsing, column mapping, validation and the import run
+ * (supabase/listing_imports.sql)
+ *
+ * Rows are keyed by the agency's external reference: a reference the user
+ * already has updates that listing, a new one creates a listing.
+ * Photos are not imported; they go through the normal upload pipeline.
+ */
+
+import { supabase } from "./supabaseClient";
+import { toCsv } from "./utils";
+import {
+  ListingType,
+  PROPERTY_TYPES,
+  RentPeriod,
+  isPropertyType,
+  parseOptionalInteger,
+  parseOptionalPositiveNumber,
+} from "./listings";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+const IMPORT_BATCH_SIZE = 100;
+const MAX_EXTERNAL_REF_LENGTH = 100;
+
+export type ImportFormat = 'csv' | 'xml';
+
+export const IMPORT_FIELDS = [
+  'external_ref',
+  'title',
+  'description',
+  'price',
+  'currency',
+  'listing_type',
+  'rent_period',
+  'city',
+  'bedrooms',
+  'bathrooms',
+  'property_type',
+  'area_sqm',
+  'address',
+  'neighbourhood',
+  'latitude',
+  'longitude',
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  external_ref: 'Reference ID',
+  title: 'Title',
+  description: 'Description',
+  price: 'Price',
+  currency: 'Currency',
+  listing_type: 'Sale or rent',
+  rent_period: 'Rent period',
+  city: 'City',
+  bedrooms: 'Bedrooms',
+  bathrooms: 'Bathrooms',
+  property_type: 'Property type',
+  area_sqm: 'Area (m²)',
+  address: 'Address',
+  neighbourhood: 'Neighbourhood',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['external_ref', 'title'];
+
+// Column names recognised when suggesting a mapping (normalized, most specific first)
+const IMPORT_FIELD_ALIASES: Record<ImportField, string[]> = {
+  external_ref: ['external_ref', 'external_id', 'reference', 'ref', 'listing_ref', 'property_ref', 'property_id', 'listing_id', 'id'],
+  title: ['title', 'headline', 'name'],
+  description: ['description', 'desc', 'details', 'body'],
+  price: ['price', 'asking_price', 'list_price', 'amount'],
+  currency: ['currency', 'currency_code', 'price_currency'],
+  listing_type: ['listing_type', 'offer_type', 'transaction_type', 'transaction', 'purpose'],
+  rent_period: ['rent_period', 'price_period', 'rent_frequency', 'price_frequency', 'period'],
+  city: ['city', 'town', 'locality'],
+  bedrooms: ['bedrooms', 'beds', 'bedroom_count'],
+  bathrooms: ['bathrooms', 'baths', 'bathroom_count'],
+  property_type: ['property_type', 'type', 'category'],
+  area_sqm: ['area_sqm', 'surface_area', 'built_area', 'floor_area', 'area', 'size', 'sqm'],
+  address: ['address', 'street_address', 'street'],
+  neighbourhood: ['neighbourhood', 'neighborhood', 'district', 'suburb'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon', 'long'],
+};
+
+// Element names treated as one listing in an XML feed
+const XML_RECORD_TAGS = ['property', 'listing', 'item', 'ad', 'unit'];
+
+/**
+ * Parsed file: one header row plus data rows of the same width
+ */
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Import field -> column index in ImportTable.headers
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ListingImportRow {
+  row: number; // 1-based data row (header excluded)
+  external_ref: string;
+  values: Partial<Record<Exclude<ImportField, 'external_ref'>, string | number | null>>;
+}
+
+export interface ImportRowFailure {
+  row: number;
+  external_ref: string | null;
+  errors: string[];
+}
+
+export interface ImportReport {
+  total: number;
+  created: number;
+  updated: number;
+  failures: ImportRowFailure[];
+}
+
+export interface ListingImportRun {
+  id: number;
+  file_name: string;
+  format: ImportFormat;
+  total_rows: number;
+  created_count: number;
+  updated_count: number;
+  failed_count: number;
+  failures: ImportRowFailure[];
+  created_at: string;
+}
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9.]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Parse CSV (RFC 4180 quoting; comma, semicolon or tab separated)
+ */
+export function parseCsv(text: string): { table: ImportTable | null; error: string | null } {
+  const input = text.replace(/^\uFEFF/, '');
+
+  // Pick the separator that appears most in the header line
+  const firstLine = input.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    return { table: null, error: 'The file has an unclosed quote' };
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines are skipped
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ''));
+  if (nonEmpty.length < 2) {
+    return { table: null, error: 'The file needs a header row and at least one listing' };
+  }
+
+  const headers = nonEmpty[0].map((header, index) => header.trim() || `Column ${index + 1}`);
+  const rows = nonEmpty.slice(1).map((r) => headers.map((_, index) => (r[index] ?? '').trim()));
+  return { table: { headers, rows }, error: null };
+}
+
+/**
+ * Parse an XML property feed
+ * Each <property>/<listing>/<item> (or the repeated child of the root) is a row;
+ * nested elements become dotted columns, e.g. <location><city> -> "location.city".
+ * Repeated elements (e.g. several <image>) keep the first value.
+ * Browser only (uses DOMParser).
+ */
+export function parseXmlFeed(text: string): { table: ImportTable | null; error: string | null } {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { table: null, error: 'The file is not valid XML' };
+  }
+
+  let records: Element[] = [];
+  for (const tag of XML_RECORD_TAGS) {
+    records = Array.from(doc.getElementsByTagName(tag)).filter((el) => el.children.length > 0);
+    if (records.length > 0) break;
+  }
+
+  // Fallback: the most repeated element name under the root (or its only child)
+  if (records.length === 0) {
+    let container: Element = doc.documentElement;
+    while (container.children.length === 1 && container.children[0].children.length > 0) {
+      container = container.children[0];
+    }
+    const counts = new Map<string, number>();
+    for (const child of Array.from(container.children)) {
+      counts.set(child.tagName, (counts.get(child.tagName) || 0) + 1);
+    }
+    const [tag] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || [];
+    records = tag ? Array.from(container.children).filter((child) => child.tagName === tag) : [];
+  }
+
+  if (records.length === 0) {
+    return { table: null, error: 'No listings found in the feed' };
+  }
+
+  const headers: string[] = [];
+  const flattened = records.map((record) => {
+    const values = new Map<string, string>();
+    const add = (key: string, value: string) => {
+      if (values.has(key)) return;
+      values.set(key, value.trim());
+      if (!headers.includes(key)) headers.push(key);
+    };
+
+    for (const attr of Array.from(record.attributes)) {
+      add(attr.name, attr.value);
+    }
+
+    const walk = (element: Element, path: string) => {
+      if (element.children.length === 0) {
+        add(path, element.textContent || '');
+        return;
+      }
+      for (const child of Array.from(element.children)) {
+        walk(child, path ? `${path}.${child.tagName}` : child.tagName);
+      }
+    };
+    walk(record, '');
+
+    return values;
+  });
+
+  const rows = flattened.map((values) => headers.map((header) => values.get(header) ?? ''));
+  return { table: { headers, rows }, error: null };
+}
+
+/**
+ * Guess the mapping from column names (full name, first or last dotted segment)
+ */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ImportColumnMapping = {};
+
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of IMPORT_FIELD_ALIASES[field]) {
+      const index = normalized.findIndex((header, i) => {
+        if (used.has(i)) return false;
+        const segments = header.split('.');
+        return header === alias || segments[0] === alias || segments[segments.length - 1] === alias;
+      });
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Problems with the mapping itself (shown before any row is validated)
+ */
+export function getMappingErrors(mapping: ImportColumnMapping): string[] {
+  const errors = REQUIRED_IMPORT_FIELDS
+    .filter((field) => mapping[field] === undefined)
+    .map((field) => `Map a column to ${IMPORT_FIELD_LABELS[field]}`);
+
+  if ((mapping.latitude === undefined) !== (mapping.longitude === undefined)) {
+    errors.push('Map both Latitude and Longitude, or neither');
+  }
+  return errors;
+}
+
+// "1,250,000" / "1 250 000" / "$950000" -> "950000"
+const cleanNumber = (value: string) => value.replace(/[\s,$€£]/g, '');
+
+// Common spellings in agency exports ("For Rent", "to let", "per annum", ...)
+const LISTING_TYPE_VALUES: Record<string, ListingType> = {
+  sale: 'sale', sell: 'sale', buy: 'sale', 'for sale': 'sale',
+  rent: 'rent', rental: 'rent', let: 'rent', lease: 'rent', 'for rent': 'rent', 'to let': 'rent',
+};
+const RENT_PERIOD_VALUES: Record<string, RentPeriod> = {
+  monthly: 'monthly', month: 'monthly', 'per month': 'monthly', pcm: 'monthly', pm: 'monthly',
+  yearly: 'yearly', year: 'yearly', 'per year': 'yearly', annual: 'yearly', annually: 'yearly', 'per annum': 'yearly', pa: 'yearly',
+};
+
+/**
+ * Validate every row against the mapping
+ * @param knownCurrencies Currencies with an exchange rate (listings must use one)
+ */
+export function validateImportRows(
+  table: ImportTable,
+  mapping: ImportColumnMapping,
+  defaultCurrency: string,
+  knownCurrencies: Set<string>
+): { rows: ListingImportRow[]; failures: ImportRowFailure[] } {
+  const rows: ListingImportRow[] = [];
+  const failures: ImportRowFailure[] = [];
+  const seenRefs = new Set<string>();
+  const has = (field: ImportField) => mapping[field] !== undefined;
+
+  table.rows.forEach((cells, index) => {
+    const get = (field: ImportField) => (has(field) ? cells[mapping[field] as number] ?? '' : '');
+    const rowNumber = index + 1;
+    const errors: string[] = [];
+    const values: ListingImportRow['values'] = {};
+    const optionalText = (field: 'description' | 'city' | 'address' | 'neighbourhood') => {
+      if (has(field)) values[field] = get(field) || null;
+    };
+
+    const externalRef = get('external_ref');
+    if (!externalRef) {
+      errors.push('Reference ID is required');
+    } else if (externalRef.length > MAX_EXTERNAL_REF_LENGTH) {
+      errors.push(`Reference ID must be at most ${MAX_EXTERNAL_REF_LENGTH} characters`);
+    } else if (seenRefs.has(externalRef)) {
+      errors.push('Reference ID appears more than once in this file');
+    }
+
+    const title = get('title');
+    if (!title) {
+      errors.push('Title is required');
+    }
+    values.title = title;
+
+    optionalText('description');
+    optionalText('city');
+    optionalText('address');
+    optionalText('neighbourhood');
+
+    if (has('price')) {
+      const price = parseOptionalPositiveNumber(cleanNumber(get('price')));
+      if (price === undefined) {
+        errors.push('Price must be a positive number');
+      }
+      values.price = price ?? null;
+    }
+
+    if (has('price') || has('currency')) {
+      const currency = (get('currency') || defaultCurrency).toUpperCase();
+      if (!knownCurrencies.has(currency)) {
+        errors.push(`Currency ${currency} is not supported`);
+      }
+      values.currency = currency;
+    }
+
+    for (const field of ['bedrooms', 'bathrooms'] as const) {
+      if (!has(field)) continue;
+      const count = parseOptionalInteger(get(field));
+      if (count === undefined) {
+        errors.push(`${IMPORT_FIELD_LABELS[field]} must be a whole number`);
+      }
+      values[field] = count ?? null;
+    }
+
+    if (has('area_sqm')) {
+      const area = parseOptionalPositiveNumber(cleanNumber(get('area_sqm')));
+      if (area === undefined) {
+        errors.push('Area must be a positive number');
+      }
+      values.area_sqm = area ?? null;
+    }
+
+    if (has('property_type')) {
+      const type = get('property_type').toLowerCase();
+      if (type && !isPropertyType(type)) {
+        errors.push(`Property type must be one of: ${PROPERTY_TYPES.join(', ')}`);
+      }
+      values.property_type = type || null;
+    }
+
+    // Rentals need a rent period (monthly unless the file says otherwise)
+    const listingTypeValue = get('listing_type').toLowerCase();
+    const rentPeriodValue = get('rent_period').toLowerCase();
+    const listingType = listingTypeValue ? LISTING_TYPE_VALUES[listingTypeValue] : undefined;
+    const rentPeriod = rentPeriodValue ? RENT_PERIOD_VALUES[rentPeriodValue] : undefined;
+    if (listingTypeValue && !listingType) {
+      errors.push('Sale or rent must be "sale" or "rent"');
+    } else if (listingType) {
+      values.listing_type = listingType;
+    }
+    if (rentPeriodValue && !rentPeriod) {
+      errors.push('Rent period must be "monthly" or "yearly"');
+    } else if (rentPeriod && listingType !== 'rent') {
+      errors.push('Rent period only applies when Sale or rent is "rent"');
+    }
+    if (listingType === 'rent') {
+      values.rent_period = rentPeriod ?? 'monthly';
+    }
+
+    if (has('latitude') && has('longitude')) {
+      const lat = get('latitude');
+      const lng = get('longitude');
+      if (!lat && !lng) {
+        values.latitude = null;
+        values.longitude = null;
+      } else if (
+        !lat || !lng
+        || !Number.isFinite(Number(lat)) || Math.abs(Number(lat)) > 90
+        || !Number.isFinite(Number(lng)) || Math.abs(Number(lng)) > 180
+      ) {
+        errors.push('Latitude/longitude must both be valid coordinates');
+      } else {
+        values.latitude = Number(lat);
+        values.longitude = Number(lng);
+      }
+    }
+
+    if (externalRef) {
+      seenRefs.add(externalRef);
+    }
+
+    if (errors.length > 0) {
+      failures.push({ row: rowNumber, external_ref: externalRef || null, errors });
+    } else {
+      rows.push({ row: rowNumber, external_ref: externalRef, values });
+    }
+  });
+
+  return { rows, failures };
+}
+
+const chunk = <T,>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/**
+ * Write validated rows, then record the run with its report
+ * Batches that fail are retried row by row so one bad row doesn't sink the rest
+ * @param validationFailures Rows rejected during validation (included in the report)
+ */
+export async function runListingImport(
+  userId: string,
+  rows: ListingImportRow[],
+  options: {
+    fileName: string;
+    format: ImportFormat;
+    asDraft: boolean;
+    defaultCurrency: string;
+    validationFailures: ImportRowFailure[];
+  }
+): Promise<{ report: ImportReport; error: any }> {
+  const failures: ImportRowFailure[] = [...options.validationFailures];
+  let created = 0;
+  let updated = 0;
+
+  // Which references this user already has
+  const existingRefs = new Set<string>();
+  for (const batch of chunk(rows.map((row) => row.external_ref), IMPORT_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('listings')
+      .select('external_ref')
+      .eq('user_id', userId)
+      .in('external_ref', batch);
+
+    if (error) {
+      return { report: { total: rows.length + failures.length, created, updated, failures }, error };
+    }
+    for (const listing of data || []) {
+      existingRefs.add(listing.external_ref);
+    }
+  }
+
+  const toInsert = (row: ListingImportRow) => ({
+    currency: options.defaultCurrency,
+    ...row.values,
+    user_id: userId,
+    external_ref: row.external_ref,
+    status: options.asDraft ? 'draft' : 'active',
+  });
+  // Updates only touch mapped columns and never change the status
+  const toUpdate = (row: ListingImportRow) => ({
+    ...row.values,
+    user_id: userId,
+    external_ref: row.external_ref,
+  });
+
+  const write = async (batch: ListingImportRow[], isUpdate: boolean) => {
+    const query = isUpdate
+      ? supabase.from('listings').upsert(batch.map(toUpdate), { onConflict: 'user_id,external_ref' })
+      : supabase.from('listings').insert(batch.map(toInsert));
+    const { error } = await query;
+    return error;
+  };
+
+  for (const isUpdate of [false, true]) {
+    const group = rows.filter((row) => existingRefs.has(row.external_ref) === isUpdate);
+
+    for (const batch of chunk(group, IMPORT_BATCH_SIZE)) {
+      let succeeded = batch.length;
+      if (await write(batch, isUpdate)) {
+        succeeded = 0;
+        for (const row of batch) {
+          const rowError = await write([row], isUpdate);
+          if (rowError) {
+            failures.push({ row: row.row, external_ref: row.external_ref, errors: [rowError.message || 'Failed to save'] });
+          } else {
+            succeeded++;
+          }
+        }
+      }
+
+      if (isUpdate) {
+        updated += succeeded;
+      } else {
+        created += succeeded;
+      }
+    }
+  }
+
+  failures.sort((a, b) => a.row - b.row);
+  const report = { total: rows.length + options.validationFailures.length, created, updated, failures };
+
+  const { error: recordError } = await supabase
+    .from('listing_imports')
+    .insert({
+      user_id: userId,
+      file_name: options.fileName,
+      format: options.format,
+      total_rows: report.total,
+      created_count: created,
+      updated_count: updated,
+      failed_count: failures.length,
+      failures,
+    });
+
+  // The listings are saved either way; only the history entry is missing
+  if (recordError) {
+    console.error('[ListingImport] Error recording import:', recordError);
+  }
+
+  return { report, error: null };
+}
+
+/**
+ * The user's recent import runs, newest first
+ */
+export async function fetchListingImports(
+  userId: string,
+  limit = 10
+): Promise<{ imports: ListingImportRun[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_imports')
+    .select('id, file_name, format, total_rows, created_count, updated_count, failed_count, failures, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return { imports: [], error };
+  }
+  return { imports: (data || []) as ListingImportRun[], error: null };
+}
+
+/**
+ * Failed rows as CSV (row, reference, errors) for fixing and re-importing
+ */
+export function buildImportFailuresCsv(failures: ImportRowFailure[]): string {
+  return toCsv([
+    ['row', 'external_ref', 'errors'],
+    ...failures.map((failure) => [failure.row, failure.external_ref, failure.errors.join('; ')]),
+  ]);
+}
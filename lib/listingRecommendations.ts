@@ -0,0 +1,88 @@
+/**
+ * Listing Recommendation Helpers
+ * "Similar properties" and "people who viewed this also viewed" for the
+ * listing detail page (supabase/listing_recommendations.sql)
+ *
+ * Rankings are computed and cached in the database (refreshed every 6 hours
+ * per listing); only published listings are returned.
+ *
+ * NOTE: Kinds must stay in sync with the CHECK constraint on listing_recommendations.kind
+ */
+
+import { supabase } from "./supabaseClient";
+
+export const RECOMMENDATION_KINDS = ['similar', 'also_viewed'] as const;
+
+export type RecommendationKind = typeof RECOMMENDATION_KINDS[number];
+
+export const RECOMMENDATION_KIND_LABELS: Record<RecommendationKind, string> = {
+  similar: 'Similar Properties',
+  also_viewed: 'People Who Viewed This Also Viewed',
+};
+
+export const RECOMMENDATIONS_PER_KIND = 6;
+
+/**
+ * A recommended listing (the columns property cards need)
+ */
+export interface RecommendedListing {
+  id: number;
+  user_id: string;
+  title: string;
+  description: string | null;
+  listing_type: string;
+  price: number | null;
+  previous_price: number | null;
+  currency: string;
+  rent_period: string | null;
+  furnished: boolean | null;
+  available_from: string | null;
+  city: string | null;
+  neighbourhood: string | null;
+  image_urls: string[] | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  property_type: string | null;
+  area_sqm: number | null;
+  status: string;
+}
+
+export function isRecommendationKind(value: unknown): value is RecommendationKind {
+  return typeof value === 'string' && (RECOMMENDATION_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Recommendations for a listing, best first, grouped by kind
+ */
+export async function fetchListingRecommendations(
+  listingId: number,
+  limit: number = RECOMMENDATIONS_PER_KIND
+): Promise<{ recommendations: Record<RecommendationKind, RecommendedListing[]>; error: any }> {
+  const recommendations: Record<RecommendationKind, RecommendedListing[]> = {
+    similar: [],
+    also_viewed: [],
+  };
+
+  const { data, error } = await supabase.rpc('get_listing_recommendations', {
+    p_listing_id: listingId,
+    p_limit: limit,
+  });
+
+  if (error) {
+    return { recommendations, error };
+  }
+
+  // NUMERIC columns come back as strings
+  const toNumber = (value: any) => (value != null ? Number(value) : null);
+  for (const { kind, score, ...row } of (data || []) as any[]) {
+    if (!isRecommendationKind(kind)) continue;
+    recommendations[kind].push({
+      ...row,
+      price: toNumber(row.price),
+      previous_price: toNumber(row.previous_price),
+      area_sqm: toNumber(row.area_sqm),
+    });
+  }
+
+  return { recommendations, error: null };
+}
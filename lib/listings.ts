@@ -0,0 +1,573 @@
+/**
+ * Listing Helpers
+ * Shared types, constants, formatters and queries for property listings
+ *
+ * NOTE: Allowed values must stay in sync with the CHECK constraints
+ * in supabase/listing_attributes.sql, supabase/listing_status.sql
+ * and supabase/listing_rentals.sql
+ */
+
+import { supabase } from "./supabaseClient";
+import { BoundingBox } from "./geo";
+import {
+  LISTING_IMAGES_BUCKET,
+  ListingPhoto,
+  fromListingPhotos,
+  getListingImageStoragePaths,
+} from "./listingImages";
+
+export const PROPERTY_TYPES = ['house', 'apartment', 'condo', 'villa', 'townhouse'] as const;
+
+export type PropertyType = typeof PROPERTY_TYPES[number];
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  house: 'House',
+  apartment: 'Apartment',
+  condo: 'Condo',
+  villa: 'Villa',
+  townhouse: 'Townhouse',
+};
+
+/**
+ * Type guard for values coming from the database or a <select>
+ */
+export function isPropertyType(value: unknown): value is PropertyType {
+  return typeof value === 'string' && (PROPERTY_TYPES as readonly string[]).includes(value);
+}
+
+export const LISTING_TYPES = ['sale', 'rent'] as const;
+
+export type ListingType = typeof LISTING_TYPES[number];
+
+export const LISTING_TYPE_LABELS: Record<ListingType, string> = {
+  sale: 'For Sale',
+  rent: 'For Rent',
+};
+
+export function isListingType(value: unknown): value is ListingType {
+  return typeof value === 'string' && (LISTING_TYPES as readonly string[]).includes(value);
+}
+
+// For rentals, price is the rent per period
+export const RENT_PERIODS = ['monthly', 'yearly'] as const;
+
+export type RentPeriod = typeof RENT_PERIODS[number];
+
+export const RENT_PERIOD_LABELS: Record<RentPeriod, string> = {
+  monthly: 'Per month',
+  yearly: 'Per year',
+};
+
+export function isRentPeriod(value: unknown): value is RentPeriod {
+  return typeof value === 'string' && (RENT_PERIODS as readonly string[]).includes(value);
+}
+
+/**
+ * Suffix shown after a price ("/mo", "/yr"; nothing for sales)
+ */
+export function getPriceSuffix(listingType: string | null | undefined, rentPeriod: string | null | undefined): string {
+  if (listingType !== 'rent') return '';
+  return rentPeriod === 'yearly' ? '/yr' : '/mo';
+}
+
+/**
+ * Monthly rent for a rental price (yearly rents are spread over 12 months)
+ */
+export function getMonthlyRent(price: number, rentPeriod: RentPeriod): number {
+  return rentPeriod === 'yearly' ? price / 12 : price;
+}
+
+/**
+ * Formats a minimum lease for display (e.g. "6 months", "1 year")
+ */
+export function formatMinLease(months: number): string {
+  if (months % 12 === 0) {
+    const years = months / 12;
+    return `${years} year${years !== 1 ? 's' : ''}`;
+  }
+  return `${months} month${months !== 1 ? 's' : ''}`;
+}
+
+/**
+ * "Available now" or "Available from Nov 1, 2026" for a rental's available_from date
+ */
+export function formatAvailability(availableFrom: string | null | undefined): string {
+  if (!availableFrom) return 'Available now';
+  const [year, month, day] = availableFrom.split('-').map(Number);
+  const date = new Date(year, month - 1, day); // Local date, not UTC midnight
+  if (date <= new Date()) return 'Available now';
+  return `Available from ${date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`;
+}
+
+export const LISTING_STATUSES = ['draft', 'active', 'under_offer', 'sold', 'rented', 'expired'] as const;
+
+export type ListingStatus = typeof LISTING_STATUSES[number];
+
+export const LISTING_STATUS_LABELS: Record<ListingStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  under_offer: 'Under Offer',
+  sold: 'Sold',
+  rented: 'Rented',
+  expired: 'Expired',
+};
+
+// Badge colours for PropertyCard / detail page
+export const LISTING_STATUS_BADGE_CLASSES: Record<ListingStatus, string> = {
+  draft: 'bg-gray-200 text-gray-700',
+  active: 'bg-green-100 text-green-800',
+  under_offer: 'bg-amber-100 text-amber-800',
+  sold: 'bg-red-100 text-red-800',
+  rented: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-300 text-gray-600',
+};
+
+/**
+ * Status changes an owner can make (enforced by trigger in supabase/listing_status.sql)
+ * 'expired' is only ever set by the auto-expiry job
+ */
+export const LISTING_STATUS_TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  draft: ['active'],
+  active: ['draft', 'under_offer', 'sold', 'rented'],
+  under_offer: ['active', 'sold', 'rented'],
+  sold: [],
+  rented: ['active'],
+  expired: ['active', 'draft'],
+};
+
+// What /listings shows when no status filter is chosen
+export const DEFAULT_BROWSE_STATUSES: ListingStatus[] = ['active', 'under_offer'];
+
+export function isListingStatus(value: unknown): value is ListingStatus {
+  return typeof value === 'string' && (LISTING_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses the edit form may offer: the current one plus allowed transitions
+ * (admins can pick any status)
+ */
+export function getSelectableStatuses(
+  current: ListingStatus,
+  isAdmin: boolean,
+  listingType: ListingType = 'sale'
+): ListingStatus[] {
+  const statuses = isAdmin ? [...LISTING_STATUSES] : [current, ...LISTING_STATUS_TRANSITIONS[current]];
+  // Rentals can't be sold, sales can't be rented (CHECK in supabase/listing_rentals.sql)
+  const excludedStatus: ListingStatus = listingType === 'rent' ? 'sold' : 'rented';
+  return statuses.filter((status) => status === current || status !== excludedStatus);
+}
+
+/**
+ * Parses an optional whole-number form field (bedrooms, bathrooms)
+ * @returns the number, null when empty, or undefined when invalid
+ */
+export function parseOptionalInteger(value: string): number | null | undefined {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) return undefined;
+  return parsed;
+}
+
+/**
+ * Parses an optional positive decimal form field (area)
+ * @returns the number, null when empty, or undefined when invalid
+ */
+export function parseOptionalPositiveNumber(value: string): number | null | undefined {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
+  return parsed;
+}
+
+/**
+ * Rental fields of the create / edit listing forms (components/RentalTermsFields.tsx)
+ */
+export interface RentalTermsFormData {
+  rent_period: string;
+  deposit: string;
+  min_lease_months: string;
+  furnished: '' | 'yes' | 'no';
+  available_from: string; // YYYY-MM-DD
+}
+
+export const EMPTY_RENTAL_TERMS: RentalTermsFormData = {
+  rent_period: 'monthly',
+  deposit: '',
+  min_lease_months: '',
+  furnished: '',
+  available_from: '',
+};
+
+export interface RentalTerms {
+  rent_period: RentPeriod | null;
+  deposit: number | null;
+  min_lease_months: number | null;
+  furnished: boolean | null;
+  available_from: string | null;
+}
+
+/**
+ * Form values for a saved listing's rental fields
+ */
+export function toRentalTermsFormData(listing: Partial<RentalTerms>): RentalTermsFormData {
+  return {
+    rent_period: listing.rent_period || 'monthly',
+    deposit: listing.deposit != null ? listing.deposit.toString() : '',
+    min_lease_months: listing.min_lease_months != null ? listing.min_lease_months.toString() : '',
+    furnished: listing.furnished == null ? '' : listing.furnished ? 'yes' : 'no',
+    available_from: listing.available_from || '',
+  };
+}
+
+/**
+ * Parses the rental fields for saving; sales always get empty terms
+ * @returns the columns to save, and errors keyed by form field
+ */
+export function parseRentalTerms(
+  listingType: ListingType,
+  form: RentalTermsFormData
+): { terms: RentalTerms; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+  if (listingType !== 'rent') {
+    return {
+      terms: { rent_period: null, deposit: null, min_lease_months: null, furnished: null, available_from: null },
+      errors,
+    };
+  }
+
+  const deposit = parseOptionalPositiveNumber(form.deposit);
+  const minLease = parseOptionalInteger(form.min_lease_months);
+  if (!isRentPeriod(form.rent_period)) {
+    errors.rent_period = "Choose a rent period";
+  }
+  if (deposit === undefined) {
+    errors.deposit = "Deposit must be a positive number";
+  }
+  if (minLease === undefined || (minLease !== null && (minLease < 1 || minLease > 120))) {
+    errors.min_lease_months = "Minimum lease must be 1–120 months";
+  }
+
+  return {
+    terms: {
+      rent_period: isRentPeriod(form.rent_period) ? form.rent_period : null,
+      deposit: deposit ?? null,
+      min_lease_months: minLease ?? null,
+      furnished: form.furnished === '' ? null : form.furnished === 'yes',
+      available_from: form.available_from || null,
+    },
+    errors,
+  };
+}
+
+/**
+ * Formats an area in square metres for display (e.g. "120 m²")
+ */
+export function formatArea(areaSqm: number): string {
+  return `${areaSqm.toLocaleString('en-US', { maximumFractionDigits: 0 })} m²`;
+}
+
+export type ListingSort = 'newest' | 'price-low' | 'price-high' | 'relevance';
+
+/**
+ * Filters accepted by the get_listings_page RPC (supabase/listing_amenities.sql)
+ * Empty / undefined values are ignored server-side
+ * For rentals, the price range applies to the monthly rent
+ */
+export interface ListingFilters {
+  query?: string;
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  currency?: string; // Currency of minPrice/maxPrice (default USD)
+  city?: string;
+  minBedrooms?: number | null;
+  propertyType?: PropertyType | null;
+  listingType?: ListingType | null;
+  furnished?: boolean | null; // Rentals only
+  availableBy?: string | null; // Rentals available on or before this date (YYYY-MM-DD)
+  amenities?: string[] | null; // Amenity slugs; listings must have all of them
+  statuses?: ListingStatus[] | null; // null/undefined = DEFAULT_BROWSE_STATUSES
+  bounds?: BoundingBox | null; // Map view: only pinned listings inside the box
+  sort: ListingSort;
+}
+
+export const LISTINGS_PAGE_SIZE = 24;
+// Map mode loads every pin in view at once (server caps at 500)
+export const LISTINGS_MAP_PAGE_SIZE = 300;
+
+/**
+ * RPC parameters for a filter set (shared by get_listings_page and
+ * get_listing_amenity_facets, which take the same filters)
+ */
+export function toListingFilterParams(filters: ListingFilters) {
+  return {
+    p_query: filters.query?.trim() || null,
+    p_min_price: filters.minPrice ?? null,
+    p_max_price: filters.maxPrice ?? null,
+    p_currency: filters.currency || 'USD',
+    p_city: filters.city?.trim() || null,
+    p_min_bedrooms: filters.minBedrooms ?? null,
+    p_property_type: filters.propertyType ?? null,
+    p_statuses: filters.statuses && filters.statuses.length > 0 ? filters.statuses : null,
+    p_listing_type: filters.listingType ?? null,
+    p_furnished: filters.furnished ?? null,
+    p_available_by: filters.availableBy || null,
+    p_amenities: filters.amenities && filters.amenities.length > 0 ? filters.amenities : null,
+    p_min_lat: filters.bounds?.minLat ?? null,
+    p_max_lat: filters.bounds?.maxLat ?? null,
+    p_min_lng: filters.bounds?.minLng ?? null,
+    p_max_lng: filters.bounds?.maxLng ?? null,
+  };
+}
+
+/**
+ * Fetch one page of listings, filtered and sorted server-side
+ * @param filters Active filter set
+ * @param afterId Id of the last listing on the previous page (omit for the first page)
+ * @returns Listing rows, whether more pages exist, and any Supabase error
+ */
+export async function fetchListingsPage(
+  filters: ListingFilters,
+  afterId: number | null = null,
+  pageSize: number = LISTINGS_PAGE_SIZE
+): Promise<{ rows: any[]; hasMore: boolean; error: any }> {
+  // Ask for one extra row to know whether another page exists
+  const { data, error } = await supabase.rpc('get_listings_page', {
+    ...toListingFilterParams(filters),
+    p_sort: filters.sort,
+    p_after_id: afterId,
+    p_limit: pageSize + 1,
+  });
+
+  if (error) {
+    return { rows: [], hasMore: false, error };
+  }
+
+  const rows = data || [];
+  return {
+    rows: rows.slice(0, pageSize),
+    hasMore: rows.length > pageSize,
+    error: null,
+  };
+}
+
+/**
+ * Ranked full-text search result (search_listings RPC)
+ * title_highlight / snippet mark matches with HIGHLIGHT_START / HIGHLIGHT_END
+ */
+export interface ListingSearchResult {
+  id: number;
+  user_id: string;
+  title: string;
+  city: string | null;
+  price: number | null;
+  currency: string;
+  image_urls: string[] | null;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+// Delimiters used by ts_headline in supabase/listings_search.sql
+export const HIGHLIGHT_START = '⟦';
+export const HIGHLIGHT_END = '⟧';
+
+/**
+ * Full-text search over listings, ranked by relevance
+ * @param query Free text (supports quoted phrases and -exclusions)
+ * @param ids Restrict to these listings (used to highlight an already-loaded page)
+ */
+export async function searchListings(
+  query: string,
+  options: { ids?: number[]; limit?: number } = {}
+): Promise<{ results: ListingSearchResult[]; error: any }> {
+  if (!query.trim()) {
+    return { results: [], error: null };
+  }
+
+  const { data, error } = await supabase.rpc('search_listings', {
+    p_query: query.trim(),
+    p_ids: options.ids ?? null,
+    p_limit: options.limit ?? 20,
+  });
+
+  if (error) {
+    return { results: [], error };
+  }
+
+  return { results: (data || []) as ListingSearchResult[], error: null };
+}
+
+/**
+ * Splits a highlighted string into plain and matched segments
+ * so matches can be rendered as <mark> without injecting HTML
+ */
+export function splitHighlights(text: string): { text: string; highlighted: boolean }[] {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+    const end = rest.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length);
+    if (end === -1) {
+      segments.push({ text: rest.replace(HIGHLIGHT_START, ''), highlighted: false });
+      break;
+    }
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return segments;
+}
+
+export interface ListingStatusChange {
+  id: number;
+  from_status: ListingStatus | null;
+  to_status: ListingStatus;
+  changed_by: string | null; // null = auto-expiry
+  changed_at: string;
+}
+
+/**
+ * Status history for a listing, newest first (owner/admin only via RLS)
+ */
+export async function fetchListingStatusHistory(
+  listingId: number
+): Promise<{ history: ListingStatusChange[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_status_history')
+    .select('id, from_status, to_status, changed_by, changed_at')
+    .eq('listing_id', listingId)
+    .order('changed_at', { ascending: false });
+
+  if (error) {
+    return { history: [], error };
+  }
+
+  return { history: (data || []) as ListingStatusChange[], error: null };
+}
+
+/**
+ * Number of days an active listing stays live before it expires
+ */
+export async function fetchListingExpiryDays(): Promise<{ expiryDays: number | null; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_settings')
+    .select('expiry_days')
+    .maybeSingle();
+
+  if (error) {
+    return { expiryDays: null, error };
+  }
+
+  return { expiryDays: data?.expiry_days ?? null, error: null };
+}
+
+/**
+ * When an active listing will expire (status_changed_at + expiry days)
+ */
+export function getListingExpiryDate(statusChangedAt: string, expiryDays: number): Date {
+  const date = new Date(statusChangedAt);
+  date.setDate(date.getDate() + expiryDays);
+  return date;
+}
+
+/**
+ * Change the auto-expiry period (admins only via RLS)
+ */
+export async function updateListingExpiryDays(expiryDays: number): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('listing_settings')
+    .update({ expiry_days: expiryDays, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  return { error };
+}
+
+export interface ListingPriceChange {
+  id: number;
+  old_price: number | null; // null for the first recorded price (or after a currency change)
+  new_price: number | null;
+  currency: string;
+  changed_at: string;
+}
+
+/**
+ * Price history for a listing, oldest first (supabase/listing_price_history.sql)
+ */
+export async function fetchListingPriceHistory(
+  listingId: number
+): Promise<{ history: ListingPriceChange[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_price_history')
+    .select('id, old_price, new_price, currency, changed_at')
+    .eq('listing_id', listingId)
+    .order('changed_at', { ascending: true });
+
+  if (error) {
+    return { history: [], error };
+  }
+
+  return {
+    history: (data || []).map((row: any) => ({
+      id: row.id,
+      old_price: row.old_price != null ? Number(row.old_price) : null,
+      new_price: row.new_price != null ? Number(row.new_price) : null,
+      currency: row.currency,
+      changed_at: row.changed_at,
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Percentage the latest price change reduced the price by
+ * @returns whole percent (at least 1), or null when the price didn't go down
+ */
+export function getPriceReductionPercent(
+  price: number | null | undefined,
+  previousPrice: number | null | undefined
+): number | null {
+  if (price == null || previousPrice == null || previousPrice <= 0 || price >= previousPrice) {
+    return null;
+  }
+  return Math.max(1, Math.round(((previousPrice - price) / previousPrice) * 100));
+}
+
+/**
+ * Delete one photo from a listing: saves the remaining photos, then removes
+ * the storage objects (all variants)
+ * @param remaining Photos to keep, in their saved order
+ * @returns storageError is non-fatal (the photo is already gone from the listing)
+ */
+export async function deleteListingPhoto(
+  listingId: number,
+  photoUrl: string,
+  remaining: ListingPhoto[]
+): Promise<{ error: any; storageError: any }> {
+  const { error } = await supabase
+    .from('listings')
+    .update(fromListingPhotos(remaining))
+    .eq('id', listingId);
+
+  if (error) {
+    return { error, storageError: null };
+  }
+
+  const paths = getListingImageStoragePaths(photoUrl);
+  if (paths.length === 0) {
+    return { error: null, storageError: null };
+  }
+
+  const { error: storageError } = await supabase.storage
+    .from(LISTING_IMAGES_BUCKET)
+    .remove(paths);
+
+  return { error: null, storageError };
+}
@@ -0,0 +1,85 @@
+/**
+ * Mortgage & Rental Yield Helpers
+ * Pure calculations for the listing calculator (components/MortgageCalculator.tsx)
+ */
+
+export const MORTGAGE_TERM_YEARS = [10, 15, 20, 25, 30] as const;
+
+export const DEFAULT_DOWN_PAYMENT_PCT = 20;
+export const DEFAULT_INTEREST_RATE_PCT = 6.5;
+export const DEFAULT_TERM_YEARS = 25;
+// Management, maintenance, insurance and vacancy as a share of rent
+export const DEFAULT_RUNNING_COSTS_PCT = 25;
+
+export interface AmortizationYear {
+  year: number;
+  principal: number; // Paid during the year
+  interest: number; // Paid during the year
+  balance: number; // Owed at the end of the year
+}
+
+/**
+ * Fixed monthly payment for a repayment mortgage
+ * @param annualRatePct e.g. 6.5 for 6.5%
+ */
+export function getMonthlyPayment(principal: number, annualRatePct: number, years: number): number {
+  const months = years * 12;
+  if (principal <= 0 || months <= 0) return 0;
+
+  const monthlyRate = annualRatePct / 100 / 12;
+  if (monthlyRate === 0) return principal / months;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+/**
+ * Year-by-year breakdown of principal and interest
+ */
+export function getAmortizationSchedule(
+  principal: number,
+  annualRatePct: number,
+  years: number
+): AmortizationYear[] {
+  const payment = getMonthlyPayment(principal, annualRatePct, years);
+  const monthlyRate = annualRatePct / 100 / 12;
+  const schedule: AmortizationYear[] = [];
+  let balance = principal;
+
+  for (let year = 1; year <= years && balance > 0; year++) {
+    let principalPaid = 0;
+    let interestPaid = 0;
+    for (let month = 0; month < 12 && balance > 0; month++) {
+      const interest = balance * monthlyRate;
+      // The last payment only clears what is left
+      const principalPart = Math.min(payment - interest, balance);
+      interestPaid += interest;
+      principalPaid += principalPart;
+      balance -= principalPart;
+    }
+    schedule.push({
+      year,
+      principal: principalPaid,
+      interest: interestPaid,
+      // Avoid -0.0000001 from floating point on the final year
+      balance: Math.max(balance, 0),
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Gross and net annual yield (%) for a monthly rent
+ * Price and rent must be in the same currency
+ */
+export function getRentalYield(
+  price: number,
+  monthlyRent: number,
+  runningCostsPct: number
+): { gross: number; net: number } | null {
+  if (price <= 0) return null;
+  const annualRent = monthlyRent * 12;
+  return {
+    gross: (annualRent / price) * 100,
+    net: ((annualRent * (1 - runningCostsPct / 100)) / price) * 100,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Offer Helper Functions
+ * Formal offers and counter-offers on listings (supabase/offers.sql)
+ *
+ * Each buyer/listing pair is one negotiation thread; every event is also
+ * posted as a system message in the buyer/owner conversation.
+ */
+
+import { supabase } from "./supabaseClient";
+import { findOrCreateDirectConversation } from "./messages";
+
+export const OFFER_STATUSES = ['pending', 'accepted', 'rejected', 'countered', 'withdrawn', 'expired'] as const;
+
+export type OfferStatus = typeof OFFER_STATUSES[number];
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  countered: 'Countered',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired',
+};
+
+export const OFFER_STATUS_BADGE_CLASSES: Record<OfferStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  accepted: 'bg-green-100 text-green-800 border-green-300',
+  rejected: 'bg-red-100 text-red-800 border-red-300',
+  countered: 'bg-blue-100 text-blue-800 border-blue-300',
+  withdrawn: 'bg-gray-200 text-gray-700 border-gray-300',
+  expired: 'bg-gray-200 text-gray-700 border-gray-300',
+};
+
+export const MAX_OFFER_CONDITIONS_LENGTH = 1000;
+
+// Expiry choices in the offer form (days; null = no expiry)
+export const OFFER_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'No expiry', days: null },
+  { label: '1 day', days: 1 },
+  { label: '3 days', days: 3 },
+  { label: '7 days', days: 7 },
+  { label: '14 days', days: 14 },
+];
+
+export interface Offer {
+  id: number;
+  listing_id: number;
+  buyer_id: string;
+  owner_id: string;
+  made_by: string;
+  parent_offer_id: number | null;
+  conversation_id: string | null;
+  amount: number;
+  currency: string;
+  conditions: string | null;
+  expires_at: string | null;
+  status: OfferStatus;
+  created_at: string;
+  responded_at: string | null;
+}
+
+/**
+ * One buyer's negotiation on a listing (oldest offer first)
+ */
+export interface OfferThread {
+  buyerId: string;
+  offers: Offer[];
+  latest: Offer;
+}
+
+export interface OfferInput {
+  amount: number;
+  currency: string;
+  conditions: string;
+  expiresInDays: number | null;
+}
+
+const OFFER_COLUMNS =
+  'id, listing_id, buyer_id, owner_id, made_by, parent_offer_id, conversation_id, amount, currency, conditions, expires_at, status, created_at, responded_at';
+
+/**
+ * Pending offers past their expiry count as expired until expire_offers() runs
+ */
+export function getEffectiveOfferStatus(offer: Offer): OfferStatus {
+  if (offer.status === 'pending' && offer.expires_at && new Date(offer.expires_at).getTime() <= Date.now()) {
+    return 'expired';
+  }
+  return offer.status;
+}
+
+/**
+ * Offers on a listing the user can see: every thread for the owner,
+ * only their own thread for a buyer
+ */
+export async function fetchListingOffers(
+  listingId: number
+): Promise<{ offers: Offer[]; error: any }> {
+  const { data, error } = await supabase
+    .from('offers')
+    .select(OFFER_COLUMNS)
+    .eq('listing_id', listingId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return { offers: [], error };
+  }
+
+  const offers = ((data || []) as any[]).map((row) => ({ ...row, amount: Number(row.amount) })) as Offer[];
+  return { offers, error: null };
+}
+
+/**
+ * Group offers into per-buyer threads, most recent activity first
+ */
+export function groupOfferThreads(offers: Offer[]): OfferThread[] {
+  const byBuyer = new Map<string, Offer[]>();
+  for (const offer of offers) {
+    const thread = byBuyer.get(offer.buyer_id) || [];
+    thread.push(offer);
+    byBuyer.set(offer.buyer_id, thread);
+  }
+
+  return Array.from(byBuyer.entries())
+    .map(([buyerId, threadOffers]) => ({
+      buyerId,
+      offers: threadOffers,
+      latest: threadOffers[threadOffers.length - 1],
+    }))
+    .sort((a, b) => new Date(b.latest.created_at).getTime() - new Date(a.latest.created_at).getTime());
+}
+
+function toOfferRow(input: OfferInput) {
+  const conditions = input.conditions.trim();
+  return {
+    amount: input.amount,
+    currency: input.currency,
+    conditions: conditions ? conditions.slice(0, MAX_OFFER_CONDITIONS_LENGTH) : null,
+    expires_at: input.expiresInDays
+      ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+  };
+}
+
+/**
+ * Open a thread with a first offer
+ * Finds or creates the buyer/owner conversation for the system messages
+ */
+export async function makeOffer(
+  listingId: number,
+  buyerId: string,
+  ownerId: string,
+  input: OfferInput
+): Promise<{ error: any }> {
+  const { conversationId, error: conversationError } = await findOrCreateDirectConversation(buyerId, ownerId);
+  if (conversationError) {
+    return { error: conversationError };
+  }
+
+  const { error } = await supabase
+    .from('offers')
+    .insert({
+      ...toOfferRow(input),
+      listing_id: listingId,
+      buyer_id: buyerId,
+      made_by: buyerId,
+      conversation_id: conversationId || null,
+    });
+
+  // 23505 = this buyer already has an open offer on the listing
+  if (error?.code === '23505') {
+    return { error: { ...error, message: 'You already have an open offer on this listing' } };
+  }
+  return { error };
+}
+
+/**
+ * Answer the other side's pending offer with a new amount/terms
+ */
+export async function counterOffer(
+  parent: Offer,
+  userId: string,
+  input: OfferInput
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('offers')
+    .insert({
+      ...toOfferRow(input),
+      parent_offer_id: parent.id,
+      listing_id: parent.listing_id,
+      buyer_id: parent.buyer_id,
+      made_by: userId,
+    });
+
+  return { error };
+}
+
+/**
+ * Accept, reject or withdraw a pending offer (transitions are enforced by trigger)
+ */
+export async function updateOfferStatus(
+  offerId: number,
+  status: 'accepted' | 'rejected' | 'withdrawn'
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('offers')
+    .update({ status })
+    .eq('id', offerId);
+
+  return { error };
+}
@@ -0,0 +1,127 @@
+/**
+ * Saved Searches Helper Functions
+ * Save /listings filter sets and get notified when new listings match
+ *
+ * Matching happens server-side (trigger in supabase/saved_searches.sql)
+ */
+
+import { supabase } from "./supabaseClient";
+import { ListingFilters, isListingType, isPropertyType } from "./listings";
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string | null;
+  min_price: number | null;
+  max_price: number | null;
+  currency: string;
+  city: string | null;
+  min_bedrooms: number | null;
+  property_type: string | null;
+  listing_type: string | null;
+  furnished: boolean | null;
+  notify: boolean;
+  created_at: string;
+}
+
+const SAVED_SEARCH_COLUMNS =
+  "id, user_id, name, query, min_price, max_price, currency, city, min_bedrooms, property_type, listing_type, furnished, notify, created_at";
+
+/**
+ * Convert a saved search row back into /listings filters
+ * Sort is not part of a saved search, so the caller's sort is kept
+ */
+export function savedSearchToFilters(search: SavedSearch, sort: ListingFilters['sort']): ListingFilters {
+  return {
+    query: search.query || "",
+    minPrice: search.min_price,
+    maxPrice: search.max_price,
+    currency: search.currency,
+    city: search.city || "",
+    minBedrooms: search.min_bedrooms,
+    propertyType: isPropertyType(search.property_type) ? search.property_type : null,
+    listingType: isListingType(search.listing_type) ? search.listing_type : null,
+    furnished: search.furnished,
+    sort,
+  };
+}
+
+/**
+ * Load the current user's saved searches (newest first)
+ */
+export async function fetchSavedSearches(
+  userId: string
+): Promise<{ searches: SavedSearch[]; error: any }> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select(SAVED_SEARCH_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return { searches: [], error };
+  }
+
+  return { searches: (data || []) as SavedSearch[], error: null };
+}
+
+/**
+ * Save a named filter set for the current user
+ */
+export async function createSavedSearch(
+  userId: string,
+  name: string,
+  filters: ListingFilters
+): Promise<{ search: SavedSearch | null; error: any }> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({
+      user_id: userId,
+      name: name.trim(),
+      query: filters.query?.trim() || null,
+      min_price: filters.minPrice ?? null,
+      max_price: filters.maxPrice ?? null,
+      currency: filters.currency || "USD",
+      city: filters.city?.trim() || null,
+      min_bedrooms: filters.minBedrooms ?? null,
+      property_type: filters.propertyType ?? null,
+      listing_type: filters.listingType ?? null,
+      furnished: filters.furnished ?? null,
+    })
+    .select(SAVED_SEARCH_COLUMNS)
+    .single();
+
+  if (error) {
+    return { search: null, error };
+  }
+
+  return { search: data as SavedSearch, error: null };
+}
+
+/**
+ * Delete a saved search (RLS restricts this to the owner)
+ */
+export async function deleteSavedSearch(searchId: string): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from("saved_searches")
+    .delete()
+    .eq("id", searchId);
+
+  return { error };
+}
+
+/**
+ * Turn new-listing alerts on or off for a saved search
+ */
+export async function setSavedSearchNotify(
+  searchId: string,
+  notify: boolean
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from("saved_searches")
+    .update({ notify })
+    .eq("id", searchId);
+
+  return { error };
+}
@@ -0,0 +1,113 @@
+/**
+ * Storage Cleanup Helpers
+ * Finds and removes media files that no listing, post or message references
+ *
+ * Scanning uses the find_orphaned_storage_objects RPC (admins only, see
+ * supabase/listing_attachments.sql); removal goes through the Storage API.
+ * scripts/cleanup-storage.mjs runs the same job with the service role key.
+ */
+
+import { supabase } from "./supabaseClient";
+
+export const STORAGE_CLEANUP_BUCKETS = ['listing-images', 'listing-attachments', 'post-media', 'chat-media'] as const;
+
+export type StorageCleanupBucket = typeof STORAGE_CLEANUP_BUCKETS[number];
+
+// Files younger than this are skipped so in-progress uploads aren't removed
+export const DEFAULT_ORPHAN_MIN_AGE_HOURS = 24;
+
+// Storage API limit per remove() call
+const REMOVE_BATCH_SIZE = 100;
+
+export interface OrphanedObject {
+  bucket_id: StorageCleanupBucket;
+  name: string;
+  size: number;
+  created_at: string;
+}
+
+export interface OrphanSummary {
+  bucket: StorageCleanupBucket;
+  count: number;
+  bytes: number;
+}
+
+/**
+ * List unreferenced files older than minAgeHours (dry run, nothing is removed)
+ */
+export async function findOrphanedStorageObjects(
+  minAgeHours: number = DEFAULT_ORPHAN_MIN_AGE_HOURS
+): Promise<{ objects: OrphanedObject[]; error: any }> {
+  const { data, error } = await supabase.rpc('find_orphaned_storage_objects', {
+    p_min_age: `${minAgeHours} hours`,
+  });
+
+  if (error) {
+    return { objects: [], error };
+  }
+
+  const objects = ((data || []) as any[]).map((row) => ({
+    bucket_id: row.bucket_id as StorageCleanupBucket,
+    name: row.name as string,
+    size: Number(row.size) || 0,
+    created_at: row.created_at as string,
+  }));
+
+  return { objects, error: null };
+}
+
+/**
+ * Per-bucket totals for the dry-run report
+ */
+export function summarizeOrphans(objects: OrphanedObject[]): OrphanSummary[] {
+  return STORAGE_CLEANUP_BUCKETS.map((bucket) => {
+    const inBucket = objects.filter((object) => object.bucket_id === bucket);
+    return {
+      bucket,
+      count: inBucket.length,
+      bytes: inBucket.reduce((sum, object) => sum + object.size, 0),
+    };
+  });
+}
+
+/**
+ * Human-readable file size (e.g. "3.4 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Remove the given files, bucket by bucket in batches
+ * Keeps going after a failed batch and reports every error
+ */
+export async function removeOrphanedStorageObjects(
+  objects: OrphanedObject[]
+): Promise<{ removed: number; errors: any[] }> {
+  let removed = 0;
+  const errors: any[] = [];
+
+  for (const bucket of STORAGE_CLEANUP_BUCKETS) {
+    const paths = objects.filter((object) => object.bucket_id === bucket).map((object) => object.name);
+
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + REMOVE_BATCH_SIZE);
+      const { data, error } = await supabase.storage.from(bucket).remove(batch);
+      if (error) {
+        errors.push(error);
+        continue;
+      }
+      removed += data?.length ?? 0;
+    }
+  }
+
+  return { removed, errors };
+}
@@ -0,0 +1,52 @@
+/**
+ * Server-side Supabase Client
+ * For API routes acting on behalf of the signed-in user (or anonymously)
+ *
+ * SECURITY: Uses the public anon key plus the caller's access token,
+ * so RLS and storage policies apply exactly as in the browser
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Read the bearer token from an Authorization header
+ */
+export function getBearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+function getSupabaseConfig(): { supabaseUrl: string; supabaseAnonKey: string } {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase environment variables are not configured');
+  }
+
+  return { supabaseUrl, supabaseAnonKey };
+}
+
+/**
+ * Supabase client that runs every request as the given user
+ */
+export function createUserSupabaseClient(accessToken: string): SupabaseClient {
+  const { supabaseUrl, supabaseAnonKey } = getSupabaseConfig();
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+/**
+ * Supabase client without a user session (anon role)
+ * For public endpoints that authorize by other means, e.g. feed tokens
+ */
+export function createAnonSupabaseClient(): SupabaseClient {
+  const { supabaseUrl, supabaseAnonKey } = getSupabaseConfig();
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -51,3 +51,15 @@ export function getStoragePublicUrl(bucket: string, filePath: string): string |
 
 
 
+
+/**
+ * Builds CSV text (RFC 4180 quoting, CRLF line endings)
+ * @param rows Header row first; null/undefined become empty cells
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  const escape = (value: string | number | null | undefined) => {
+    const text = value == null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(escape).join(',')).join('\r\n');
+}
@@ -0,0 +1,325 @@
+/**
+ * Viewing Appointment Helpers
+ * Owner-published viewing slots and buyer requests (supabase/listing_viewings.sql)
+ * plus .ics export for confirmed viewings
+ */
+
+import { supabase } from "./supabaseClient";
+
+export const VIEWING_REQUEST_STATUSES = ['pending', 'confirmed', 'declined', 'cancelled'] as const;
+
+export type ViewingRequestStatus = typeof VIEWING_REQUEST_STATUSES[number];
+
+export const VIEWING_REQUEST_STATUS_LABELS: Record<ViewingRequestStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+};
+
+export const VIEWING_REQUEST_STATUS_BADGE_CLASSES: Record<ViewingRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  confirmed: 'bg-green-100 text-green-800 border-green-300',
+  declined: 'bg-red-100 text-red-800 border-red-300',
+  cancelled: 'bg-gray-200 text-gray-700 border-gray-300',
+};
+
+// Slot lengths offered to owners (minutes); the database caps slots at 4 hours
+export const VIEWING_SLOT_DURATIONS = [15, 30, 45, 60, 90, 120] as const;
+
+export const MAX_VIEWING_NOTE_LENGTH = 500;
+
+export interface ViewingSlot {
+  id: number;
+  listing_id: number;
+  starts_at: string;
+  ends_at: string;
+  is_booked: boolean;
+}
+
+export interface ViewingRequest {
+  id: number;
+  slot_id: number;
+  listing_id: number;
+  requester_id: string;
+  owner_id: string;
+  status: ViewingRequestStatus;
+  note: string | null;
+  created_at: string;
+  responded_at: string | null;
+}
+
+/**
+ * A request with its slot and listing, as shown on "My viewings"
+ */
+export interface Viewing extends ViewingRequest {
+  slot: Pick<ViewingSlot, 'starts_at' | 'ends_at'>;
+  listing: {
+    id: number;
+    title: string;
+    city: string | null;
+    address: string | null;
+  };
+}
+
+/**
+ * Upcoming slots for a listing (soonest first)
+ */
+export async function fetchViewingSlots(
+  listingId: number
+): Promise<{ slots: ViewingSlot[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_viewing_slots')
+    .select('id, listing_id, starts_at, ends_at, is_booked')
+    .eq('listing_id', listingId)
+    .gt('ends_at', new Date().toISOString())
+    .order('starts_at', { ascending: true });
+
+  if (error) {
+    return { slots: [], error };
+  }
+
+  return { slots: (data || []) as ViewingSlot[], error: null };
+}
+
+/**
+ * Publish a slot (listing owner only via RLS)
+ */
+export async function createViewingSlot(
+  listingId: number,
+  startsAt: Date,
+  durationMinutes: number
+): Promise<{ slot: ViewingSlot | null; error: any }> {
+  const endsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('listing_viewing_slots')
+    .insert({
+      listing_id: listingId,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+    })
+    .select('id, listing_id, starts_at, ends_at, is_booked')
+    .single();
+
+  if (error) {
+    return { slot: null, error };
+  }
+
+  return { slot: data as ViewingSlot, error: null };
+}
+
+/**
+ * Remove a slot that has no confirmed viewing (listing owner only via RLS)
+ */
+export async function deleteViewingSlot(slotId: number): Promise<{ error: any }> {
+  const { data, error } = await supabase
+    .from('listing_viewing_slots')
+    .delete()
+    .eq('id', slotId)
+    .select('id');
+
+  if (error) {
+    return { error };
+  }
+  // RLS hides booked slots from DELETE, so nothing is returned
+  if (!data || data.length === 0) {
+    return { error: { message: 'Cancel the confirmed viewing before removing this slot' } };
+  }
+
+  return { error: null };
+}
+
+/**
+ * Requests the user sent or received for a listing
+ * Owners see every request; other users only their own
+ */
+export async function fetchListingViewingRequests(
+  listingId: number
+): Promise<{ requests: ViewingRequest[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_viewing_requests')
+    .select('id, slot_id, listing_id, requester_id, owner_id, status, note, created_at, responded_at')
+    .eq('listing_id', listingId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return { requests: [], error };
+  }
+
+  return { requests: (data || []) as ViewingRequest[], error: null };
+}
+
+/**
+ * Ask for a slot (the owner is notified)
+ */
+export async function requestViewing(
+  userId: string,
+  slotId: number,
+  note: string
+): Promise<{ error: any }> {
+  const trimmed = note.trim();
+
+  const { error } = await supabase
+    .from('listing_viewing_requests')
+    .insert({
+      slot_id: slotId,
+      requester_id: userId,
+      note: trimmed ? trimmed.slice(0, MAX_VIEWING_NOTE_LENGTH) : null,
+    });
+
+  // 23505 = already requested this slot
+  if (error?.code === '23505') {
+    return { error: { ...error, message: 'You already requested this slot' } };
+  }
+  return { error };
+}
+
+/**
+ * Confirm, decline or cancel a request (transitions are enforced by trigger)
+ */
+export async function updateViewingRequestStatus(
+  requestId: number,
+  status: Exclude<ViewingRequestStatus, 'pending'>
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('listing_viewing_requests')
+    .update({ status })
+    .eq('id', requestId);
+
+  // 23505 = another request for this slot was confirmed first
+  if (error?.code === '23505') {
+    return { error: { ...error, message: 'This slot is already booked' } };
+  }
+  return { error };
+}
+
+/**
+ * Every request the user sent or received, with slot and listing details
+ */
+export async function fetchMyViewings(): Promise<{ viewings: Viewing[]; error: any }> {
+  const { data, error } = await supabase
+    .from('listing_viewing_requests')
+    .select(`
+      id, slot_id, listing_id, requester_id, owner_id, status, note, created_at, responded_at,
+      slot:listing_viewing_slots(starts_at, ends_at),
+      listing:listings(id, title, city, address)
+    `)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { viewings: [], error };
+  }
+
+  // Listings the user can no longer see (e.g. back to draft) are dropped
+  const viewings = ((data || []) as any[]).filter((row) => row.slot && row.listing) as Viewing[];
+  viewings.sort((a, b) => new Date(a.slot.starts_at).getTime() - new Date(b.slot.starts_at).getTime());
+
+  return { viewings, error: null };
+}
+
+/**
+ * e.g. "Tue, Oct 21 · 14:00 – 14:30" in the viewer's time zone
+ */
+export function formatViewingTime(startsAt: string, endsAt: string): string {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const day = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (date: Date) => date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+  return `${day} · ${time(start)} – ${time(end)}`;
+}
+
+// ============================================
+// .ics export
+// ============================================
+
+// UTC timestamp in iCalendar basic format (20261021T140000Z)
+function toIcsDate(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Escape TEXT values (RFC 5545 3.3.11)
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+const utf8Encoder = new TextEncoder();
+
+// Fold lines longer than 75 octets of UTF-8 (RFC 5545; continuation lines start
+// with a space). Breaks between code points so characters are never split.
+function foldIcsLine(line: string): string {
+  if (utf8Encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = utf8Encoder.encode(char).length;
+    if (currentBytes + bytes > 75) {
+      parts.push(current);
+      current = ' ';
+      currentBytes = 1;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+/**
+ * iCalendar file with one event per viewing
+ * @param origin Site origin used for the listing URL (e.g. window.location.origin)
+ */
+export function buildViewingsIcs(viewings: Viewing[], origin: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Meta Real Estate//Viewings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  const stamp = toIcsDate(new Date());
+
+  for (const viewing of viewings) {
+    const url = `${origin}/listings/${viewing.listing.id}`;
+    const location = [viewing.listing.address, viewing.listing.city].filter(Boolean).join(', ');
+    const description = [viewing.note ? `Note: ${viewing.note}` : null, url].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:viewing-${viewing.id}@meta-real-estate`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toIcsDate(viewing.slot.starts_at)}`,
+      `DTEND:${toIcsDate(viewing.slot.ends_at)}`,
+      `SUMMARY:${escapeIcsText(`Viewing: ${viewing.listing.title}`)}`,
+      ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `URL:${url}`,
+      `STATUS:${viewing.status === 'confirmed' ? 'CONFIRMED' : 'CANCELLED'}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Save viewings as an .ics file (browser only)
+ */
+export function downloadViewingsIcs(viewings: Viewing[], filename: string): void {
+  const blob = new Blob([buildViewingsIcs(viewings, window.location.origin)], {
+    type: 'text/calendar;charset=utf-8',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+/**
+ * Orphaned Storage Cleanup
+ * Finds files in listing-images, listing-attachments, post-media and chat-media
+ * that no row references (see supabase/storage_cleanup.sql) and optionally removes them
+ *
+ * Usage:
+ *   npm run cleanup:storage                     # dry run
+ *   npm run cleanup:storage -- --apply          # delete
+ *   ... --min-age-hours 48   # skip files newer than this (default 24)
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+ * (read from the environment, falling back to .env.local).
+ * The service role key bypasses RLS: never expose it to the browser.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { createClient } from '@supabase/supabase-js';
+
+const REMOVE_BATCH_SIZE = 100;
+const DEFAULT_MIN_AGE_HOURS = 24;
+
+function parseArgs(argv) {
+  const options = { apply: false, minAgeHours: DEFAULT_MIN_AGE_HOURS };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--apply') {
+      options.apply = true;
+    } else if (arg === '--min-age-hours') {
+      options.minAgeHours = Number(argv[++i]);
+    } else if (arg.startsWith('--min-age-hours=')) {
+      options.minAgeHours = Number(arg.split('=')[1]);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!Number.isFinite(options.minAgeHours) || options.minAgeHours < 0) {
+    throw new Error('--min-age-hours must be a non-negative number');
+  }
+
+  return options;
+}
+
+// KEY=value lines from .env.local; variables already set win
+// (node --env-file needs Node 20.6+, and package.json supports 18)
+function loadEnvFile(path) {
+  if (!existsSync(path)) return;
+
+  for (const line of readFileSync(path, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+    if (!match || match[1] in process.env) continue;
+
+    let value = match[2];
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length > 1) {
+      value = value.slice(1, -1);
+    } else {
+      value = value.replace(/\s+#.*$/, '');
+    }
+    process.env[match[1]] = value;
+  }
+}
+
+function formatBytes(bytes) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  loadEnvFile('.env.local');
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  }
+
+  const supabase = createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data, error } = await supabase.rpc('find_orphaned_storage_objects', {
+    p_min_age: `${options.minAgeHours} hours`,
+  });
+  if (error) {
+    throw new Error(`Scan failed: ${error.message}`);
+  }
+
+  const objects = data || [];
+  const byBucket = new Map();
+  for (const object of objects) {
+    const list = byBucket.get(object.bucket_id) || [];
+    list.push(object);
+    byBucket.set(object.bucket_id, list);
+  }
+
+  console.log(`Orphaned files older than ${options.minAgeHours}h:`);
+  for (const [bucket, list] of byBucket) {
+    const bytes = list.reduce((sum, object) => sum + (Number(object.size) || 0), 0);
+    console.log(`\n${bucket}: ${list.length} file(s), ${formatBytes(bytes)}`);
+    for (const object of list) {
+      console.log(`  ${object.name}  (${formatBytes(Number(object.size) || 0)}, ${object.created_at})`);
+    }
+  }
+  if (objects.length === 0) {
+    console.log('  none');
+    return;
+  }
+
+  if (!options.apply) {
+    console.log(`\nDry run: nothing removed. Re-run with --apply to delete ${objects.length} file(s).`);
+    return;
+  }
+
+  let removed = 0;
+  let failed = 0;
+  for (const [bucket, list] of byBucket) {
+    const paths = list.map((object) => object.name);
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + REMOVE_BATCH_SIZE);
+      const { data: removedObjects, error: removeError } = await supabase.storage.from(bucket).remove(batch);
+      if (removeError) {
+        console.error(`[cleanup-storage] Error removing from ${bucket}:`, removeError.message);
+        failed += batch.length;
+        continue;
+      }
+      removed += removedObjects?.length ?? 0;
+    }
+  }
+
+  console.log(`\nRemoved ${removed} file(s)${failed ? `, ${failed} failed` : ''}.`);
+  if (failed) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.error('[cleanup-storage]', err.message || err);
+  process.exit(1);
+});
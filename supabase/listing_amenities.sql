@@ -0,0 +1,365 @@
+-- Listing Amenities (admin-managed feature taxonomy + faceted filtering)
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listing_rentals.sql (replaces get_listings_page)
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- amenities is the taxonomy admins maintain from /admin (generator, parking,
+-- elevator, sea view, ...). Listings pick any number of them through
+-- listing_amenities. Retired amenities (is_active = false) stay on existing
+-- listings but are no longer offered in forms or filters.
+--
+-- /listings filters on amenities (a listing must have all selected ones) and
+-- shows how many listings matching the other filters have each amenity.
+--
+-- NOTE: Keep categories in sync with lib/amenities.ts
+
+-- ============================================
+-- Taxonomy
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.amenities (
+  slug TEXT PRIMARY KEY CHECK (slug ~ '^[a-z0-9]+(_[a-z0-9]+)*$'),
+  label TEXT NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 60),
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('utilities', 'building', 'views', 'outdoor', 'interior', 'other')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Starting set (admins can rename, retire or add to these)
+INSERT INTO public.amenities (slug, label, category, sort_order) VALUES
+  ('electricity_24_7', '24/7 Electricity', 'utilities', 10),
+  ('generator', 'Building Generator', 'utilities', 20),
+  ('solar_power', 'Solar Power', 'utilities', 30),
+  ('water_well', 'Water Well / Tank', 'utilities', 40),
+  ('central_heating', 'Central Heating', 'utilities', 50),
+  ('parking', 'Parking', 'building', 10),
+  ('elevator', 'Elevator', 'building', 20),
+  ('concierge', 'Concierge / Security', 'building', 30),
+  ('gym', 'Gym', 'building', 40),
+  ('pool', 'Swimming Pool', 'building', 50),
+  ('sea_view', 'Sea View', 'views', 10),
+  ('mountain_view', 'Mountain View', 'views', 20),
+  ('city_view', 'City View', 'views', 30),
+  ('balcony', 'Balcony', 'outdoor', 10),
+  ('terrace', 'Terrace', 'outdoor', 20),
+  ('garden', 'Garden', 'outdoor', 30),
+  ('air_conditioning', 'Air Conditioning', 'interior', 10),
+  ('storage_room', 'Storage Room', 'interior', 20),
+  ('maid_room', 'Maid''s Room', 'interior', 30),
+  ('pets_allowed', 'Pets Allowed', 'other', 10)
+ON CONFLICT (slug) DO NOTHING;
+
+ALTER TABLE public.amenities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view amenities" ON public.amenities;
+DROP POLICY IF EXISTS "Admins can add amenities" ON public.amenities;
+DROP POLICY IF EXISTS "Admins can update amenities" ON public.amenities;
+DROP POLICY IF EXISTS "Admins can delete amenities" ON public.amenities;
+
+-- SELECT: Public (listing pages show amenity labels)
+CREATE POLICY "Anyone can view amenities"
+  ON public.amenities FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- INSERT/UPDATE/DELETE: Admins only
+CREATE POLICY "Admins can add amenities"
+  ON public.amenities FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update amenities"
+  ON public.amenities FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Deleting an amenity removes it from every listing (prefer retiring it)
+CREATE POLICY "Admins can delete amenities"
+  ON public.amenities FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.amenities TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON public.amenities TO authenticated;
+
+-- ============================================
+-- Listing amenities
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_amenities (
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  amenity TEXT NOT NULL REFERENCES public.amenities(slug) ON DELETE CASCADE,
+  PRIMARY KEY (listing_id, amenity)
+);
+
+-- Facet counts and the amenity filter look up by amenity
+CREATE INDEX IF NOT EXISTS listing_amenities_amenity_idx ON public.listing_amenities(amenity, listing_id);
+
+ALTER TABLE public.listing_amenities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view amenities of visible listings" ON public.listing_amenities;
+DROP POLICY IF EXISTS "Owners and admins can add listing amenities" ON public.listing_amenities;
+DROP POLICY IF EXISTS "Owners and admins can remove listing amenities" ON public.listing_amenities;
+
+-- SELECT: Follows the listing's own visibility (drafts stay private)
+CREATE POLICY "Users can view amenities of visible listings"
+  ON public.listing_amenities FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_amenities.listing_id
+    )
+  );
+
+-- INSERT/DELETE: Listing owner or admin
+CREATE POLICY "Owners and admins can add listing amenities"
+  ON public.listing_amenities FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_amenities.listing_id
+      AND listings.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Owners and admins can remove listing amenities"
+  ON public.listing_amenities FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_amenities.listing_id
+      AND listings.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.listing_amenities TO anon, authenticated;
+GRANT INSERT, DELETE ON public.listing_amenities TO authenticated;
+
+-- Replace a listing's amenities in one call (RLS above still applies)
+CREATE OR REPLACE FUNCTION public.set_listing_amenities(p_listing_id BIGINT, p_amenities TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.listing_amenities
+  WHERE listing_id = p_listing_id
+    AND NOT (amenity = ANY(COALESCE(p_amenities, ARRAY[]::TEXT[])));
+
+  INSERT INTO public.listing_amenities (listing_id, amenity)
+  SELECT DISTINCT p_listing_id, a
+  FROM unnest(COALESCE(p_amenities, ARRAY[]::TEXT[])) AS a
+  ON CONFLICT (listing_id, amenity) DO NOTHING;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_listing_amenities(BIGINT, TEXT[]) TO authenticated;
+
+-- True when the listing has every amenity in p_amenities (empty = no filter)
+CREATE OR REPLACE FUNCTION public.listing_has_amenities(p_listing_id BIGINT, p_amenities TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM unnest(COALESCE(p_amenities, ARRAY[]::TEXT[])) AS wanted(amenity)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.listing_amenities la
+      WHERE la.listing_id = p_listing_id
+      AND la.amenity = wanted.amenity
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.listing_has_amenities(BIGINT, TEXT[]) TO authenticated;
+
+-- ============================================
+-- Paginated listings query (adds amenity filter)
+-- ============================================
+DROP FUNCTION IF EXISTS public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, TEXT, INTEGER, TEXT, TEXT[], TEXT, BOOLEAN, DATE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_listings_page(
+  p_query TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD',
+  p_city TEXT DEFAULT NULL,
+  p_min_bedrooms INTEGER DEFAULT NULL,
+  p_property_type TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_listing_type TEXT DEFAULT NULL,
+  p_furnished BOOLEAN DEFAULT NULL,
+  p_available_by DATE DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_min_lat DOUBLE PRECISION DEFAULT NULL,
+  p_max_lat DOUBLE PRECISION DEFAULT NULL,
+  p_min_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_lng DOUBLE PRECISION DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_after_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS SETOF public.listings
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      public.listing_search_query(p_query) AS tsq,
+      public.convert_price(p_min_price, p_currency, 'USD') AS min_usd,
+      public.convert_price(p_max_price, p_currency, 'USD') AS max_usd
+  )
+  SELECT l.*
+  FROM public.listings l, q
+  WHERE
+    (q.tsq IS NULL OR l.search_vector @@ q.tsq)
+    -- Price range: sale price or monthly rent (listings without a price are always included)
+    AND (q.min_usd IS NULL OR l.price IS NULL OR public.listing_comparable_price_usd(l) >= q.min_usd)
+    AND (q.max_usd IS NULL OR l.price IS NULL OR public.listing_comparable_price_usd(l) <= q.max_usd)
+    AND (p_city IS NULL OR btrim(p_city) = '' OR l.city ILIKE '%' || btrim(p_city) || '%')
+    AND (p_min_bedrooms IS NULL OR l.bedrooms >= p_min_bedrooms)
+    AND (p_property_type IS NULL OR l.property_type = p_property_type)
+    AND (p_listing_type IS NULL OR l.listing_type = p_listing_type)
+    AND (p_furnished IS NULL OR (l.listing_type = 'rent' AND l.furnished = p_furnished))
+    AND (
+      p_available_by IS NULL
+      OR (l.listing_type = 'rent' AND (l.available_from IS NULL OR l.available_from <= p_available_by))
+    )
+    AND public.listing_has_amenities(l.id, p_amenities)
+    -- Drafts are still limited to the owner by RLS
+    AND l.status = ANY(COALESCE(p_statuses, ARRAY['active', 'under_offer']))
+    -- Bounding box (only pinned listings match)
+    AND (p_min_lat IS NULL OR l.latitude >= p_min_lat)
+    AND (p_max_lat IS NULL OR l.latitude <= p_max_lat)
+    AND (
+      p_min_lng IS NULL OR p_max_lng IS NULL
+      OR (p_min_lng <= p_max_lng AND l.longitude BETWEEN p_min_lng AND p_max_lng)
+      OR (p_min_lng > p_max_lng AND (l.longitude >= p_min_lng OR l.longitude <= p_max_lng))
+    )
+    -- Cursor: rows strictly after the last row of the previous page
+    AND (
+      p_after_id IS NULL
+      OR (public.listing_sort_key(l, p_sort, q.tsq), -l.id) > (
+        SELECT public.listing_sort_key(c, p_sort, q.tsq), -c.id
+        FROM public.listings c
+        WHERE c.id = p_after_id
+      )
+    )
+  ORDER BY public.listing_sort_key(l, p_sort, q.tsq), l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, TEXT, INTEGER, TEXT, TEXT[], TEXT, BOOLEAN, DATE, TEXT[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, BIGINT, INTEGER) TO authenticated;
+
+-- ============================================
+-- Amenity facet counts
+-- ============================================
+-- Same filters as get_listings_page (without sort / cursor / limit).
+-- Each count is how many matching listings have that amenity, so with
+-- amenities selected it is the result size after also selecting it.
+CREATE OR REPLACE FUNCTION public.get_listing_amenity_facets(
+  p_query TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD',
+  p_city TEXT DEFAULT NULL,
+  p_min_bedrooms INTEGER DEFAULT NULL,
+  p_property_type TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_listing_type TEXT DEFAULT NULL,
+  p_furnished BOOLEAN DEFAULT NULL,
+  p_available_by DATE DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_min_lat DOUBLE PRECISION DEFAULT NULL,
+  p_max_lat DOUBLE PRECISION DEFAULT NULL,
+  p_min_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_lng DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (amenity TEXT, listing_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      public.listing_search_query(p_query) AS tsq,
+      public.convert_price(p_min_price, p_currency, 'USD') AS min_usd,
+      public.convert_price(p_max_price, p_currency, 'USD') AS max_usd
+  ),
+  matches AS (
+    SELECT l.id
+    FROM public.listings l, q
+    WHERE
+      (q.tsq IS NULL OR l.search_vector @@ q.tsq)
+      AND (q.min_usd IS NULL OR l.price IS NULL OR public.listing_comparable_price_usd(l) >= q.min_usd)
+      AND (q.max_usd IS NULL OR l.price IS NULL OR public.listing_comparable_price_usd(l) <= q.max_usd)
+      AND (p_city IS NULL OR btrim(p_city) = '' OR l.city ILIKE '%' || btrim(p_city) || '%')
+      AND (p_min_bedrooms IS NULL OR l.bedrooms >= p_min_bedrooms)
+      AND (p_property_type IS NULL OR l.property_type = p_property_type)
+      AND (p_listing_type IS NULL OR l.listing_type = p_listing_type)
+      AND (p_furnished IS NULL OR (l.listing_type = 'rent' AND l.furnished = p_furnished))
+      AND (
+        p_available_by IS NULL
+        OR (l.listing_type = 'rent' AND (l.available_from IS NULL OR l.available_from <= p_available_by))
+      )
+      AND public.listing_has_amenities(l.id, p_amenities)
+      AND l.status = ANY(COALESCE(p_statuses, ARRAY['active', 'under_offer']))
+      AND (p_min_lat IS NULL OR l.latitude >= p_min_lat)
+      AND (p_max_lat IS NULL OR l.latitude <= p_max_lat)
+      AND (
+        p_min_lng IS NULL OR p_max_lng IS NULL
+        OR (p_min_lng <= p_max_lng AND l.longitude BETWEEN p_min_lng AND p_max_lng)
+        OR (p_min_lng > p_max_lng AND (l.longitude >= p_min_lng OR l.longitude <= p_max_lng))
+      )
+  )
+  SELECT la.amenity, COUNT(*) AS listing_count
+  FROM public.listing_amenities la
+  JOIN matches m ON m.id = la.listing_id
+  GROUP BY la.amenity;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listing_amenity_facets(TEXT, NUMERIC, NUMERIC, TEXT, TEXT, INTEGER, TEXT, TEXT[], TEXT, BOOLEAN, DATE, TEXT[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
@@ -0,0 +1,210 @@
+-- Listing Analytics
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listing_status.sql, listing_favorites.sql, listing_attributes.sql,
+--           listing_currency.sql, listing_location.sql
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- Tracks listing views (one per user per listing per UTC day) and
+-- contact-owner clicks. Owners never count towards their own listing.
+-- Raw events are private; owners (and admins) read aggregates through
+-- get_listing_analytics() and get_listing_area_comparison().
+
+-- ============================================
+-- Events
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_events (
+  id BIGSERIAL PRIMARY KEY,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('view', 'contact_click')),
+  event_date DATE NOT NULL DEFAULT (NOW() AT TIME ZONE 'UTC')::DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Views are deduplicated per user per day
+CREATE UNIQUE INDEX IF NOT EXISTS listing_events_daily_view_key
+  ON public.listing_events(listing_id, user_id, event_date) WHERE event_type = 'view';
+CREATE INDEX IF NOT EXISTS listing_events_listing_id_date_idx
+  ON public.listing_events(listing_id, event_date);
+
+-- No policies: rows are only written by track_listing_event() and read through the functions below
+ALTER TABLE public.listing_events ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- Tracking
+-- ============================================
+CREATE OR REPLACE FUNCTION public.track_listing_event(p_listing_id BIGINT, p_event_type TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  listing_owner UUID;
+BEGIN
+  IF auth.uid() IS NULL OR p_event_type NOT IN ('view', 'contact_click') THEN
+    RETURN;
+  END IF;
+
+  -- Only published listings count, and never the owner's own visits
+  SELECT user_id INTO listing_owner
+  FROM public.listings
+  WHERE id = p_listing_id
+    AND status <> 'draft';
+
+  IF listing_owner IS NULL OR listing_owner = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  IF p_event_type = 'view' THEN
+    INSERT INTO public.listing_events (listing_id, user_id, event_type)
+    VALUES (p_listing_id, auth.uid(), 'view')
+    ON CONFLICT (listing_id, user_id, event_date) WHERE event_type = 'view' DO NOTHING;
+  ELSE
+    INSERT INTO public.listing_events (listing_id, user_id, event_type)
+    VALUES (p_listing_id, auth.uid(), p_event_type);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.track_listing_event(BIGINT, TEXT) TO authenticated;
+
+-- ============================================
+-- Owner analytics
+-- ============================================
+CREATE OR REPLACE FUNCTION public.can_view_listing_analytics(p_listing_id BIGINT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.listings
+    WHERE id = p_listing_id
+    AND user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  );
+$$;
+
+-- Daily views / contact clicks / saves for the last p_days days (UTC), oldest first
+-- Saves are favourites created that day that still exist
+CREATE OR REPLACE FUNCTION public.get_listing_analytics(p_listing_id BIGINT, p_days INTEGER DEFAULT 30)
+RETURNS TABLE (day DATE, views BIGINT, contact_clicks BIGINT, saves BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  first_day DATE := (NOW() AT TIME ZONE 'UTC')::DATE - (LEAST(GREATEST(COALESCE(p_days, 30), 1), 365) - 1);
+BEGIN
+  IF NOT public.can_view_listing_analytics(p_listing_id) THEN
+    RAISE EXCEPTION 'Permission denied. Only the listing owner can view analytics.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::DATE,
+    COUNT(e.id) FILTER (WHERE e.event_type = 'view'),
+    COUNT(e.id) FILTER (WHERE e.event_type = 'contact_click'),
+    (
+      SELECT COUNT(*) FROM public.listing_favorites f
+      WHERE f.listing_id = p_listing_id
+        AND (f.created_at AT TIME ZONE 'UTC')::DATE = d.day::DATE
+    )
+  FROM generate_series(first_day, (NOW() AT TIME ZONE 'UTC')::DATE, INTERVAL '1 day') AS d(day)
+  LEFT JOIN public.listing_events e
+    ON e.listing_id = p_listing_id
+    AND e.event_date = d.day::DATE
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listing_analytics(BIGINT, INTEGER) TO authenticated;
+
+-- This listing vs. the average published listing in the same area
+-- (area_slug when set, otherwise the same city) over the last p_days days.
+-- Prices are compared per m² in USD.
+CREATE OR REPLACE FUNCTION public.get_listing_area_comparison(p_listing_id BIGINT, p_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  area_label TEXT,
+  peer_count BIGINT,
+  views BIGINT,
+  contact_clicks BIGINT,
+  saves BIGINT,
+  price_per_sqm_usd NUMERIC,
+  avg_views NUMERIC,
+  avg_contact_clicks NUMERIC,
+  avg_saves NUMERIC,
+  avg_price_per_sqm_usd NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.listings%ROWTYPE;
+  first_day DATE := (NOW() AT TIME ZONE 'UTC')::DATE - (LEAST(GREATEST(COALESCE(p_days, 30), 1), 365) - 1);
+BEGIN
+  IF NOT public.can_view_listing_analytics(p_listing_id) THEN
+    RAISE EXCEPTION 'Permission denied. Only the listing owner can view analytics.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target FROM public.listings WHERE id = p_listing_id;
+
+  RETURN QUERY
+  WITH area_listings AS (
+    SELECT l.id, l.price, l.currency, l.area_sqm
+    FROM public.listings l
+    WHERE l.status IN ('active', 'under_offer', 'sold', 'rented')
+      AND (
+        (target.area_slug IS NOT NULL AND l.area_slug = target.area_slug)
+        OR (target.area_slug IS NULL AND target.city IS NOT NULL AND lower(l.city) = lower(target.city))
+      )
+    UNION
+    SELECT target.id, target.price, target.currency, target.area_sqm
+  ),
+  stats AS (
+    SELECT
+      a.id,
+      (SELECT COUNT(*) FROM public.listing_events e
+        WHERE e.listing_id = a.id AND e.event_type = 'view' AND e.event_date >= first_day) AS views,
+      (SELECT COUNT(*) FROM public.listing_events e
+        WHERE e.listing_id = a.id AND e.event_type = 'contact_click' AND e.event_date >= first_day) AS contact_clicks,
+      (SELECT COUNT(*) FROM public.listing_favorites f
+        WHERE f.listing_id = a.id AND (f.created_at AT TIME ZONE 'UTC')::DATE >= first_day) AS saves,
+      CASE WHEN a.price IS NOT NULL AND a.area_sqm > 0
+        THEN a.price / r.rate_per_usd / a.area_sqm
+      END AS price_per_sqm_usd
+    FROM area_listings a
+    LEFT JOIN public.currency_rates r ON r.currency = a.currency
+  )
+  SELECT
+    COALESCE(
+      (SELECT j.name FROM public.area_journals j WHERE j.slug = target.area_slug),
+      target.city
+    )::TEXT,
+    (SELECT COUNT(*) FROM stats WHERE stats.id <> target.id),
+    s.views,
+    s.contact_clicks,
+    s.saves,
+    ROUND(s.price_per_sqm_usd, 2),
+    (SELECT ROUND(AVG(p.views), 1) FROM stats p WHERE p.id <> target.id),
+    (SELECT ROUND(AVG(p.contact_clicks), 1) FROM stats p WHERE p.id <> target.id),
+    (SELECT ROUND(AVG(p.saves), 1) FROM stats p WHERE p.id <> target.id),
+    (SELECT ROUND(AVG(p.price_per_sqm_usd), 2) FROM stats p WHERE p.id <> target.id)
+  FROM stats s
+  WHERE s.id = target.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listing_area_comparison(BIGINT, INTEGER) TO authenticated;
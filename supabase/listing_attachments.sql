@@ -0,0 +1,272 @@
+-- Listing Attachments (floor plans, video tours, PDF brochures)
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, storage_cleanup.sql
+--           (replaces find_orphaned_storage_objects and the
+--            "Admins can delete orphaned media" storage policy)
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS / ON CONFLICT)
+--
+-- Files live in the public listing-attachments bucket under
+-- {userId}/{listingId}/{timestamp}-{filename}; listing_attachments holds one
+-- row per file. Owners upload straight to storage (the bucket enforces the
+-- overall size and type limits), then add the row. A trigger takes the type,
+-- size and URL from the stored object (not the client) and the table CHECKs
+-- the per-kind limits:
+--   floor_plan  JPEG / PNG / WebP image, up to 15 MB
+--   video       MP4 / WebM / QuickTime, up to 100 MB
+--   document    PDF, up to 20 MB
+--
+-- NOTE: Keep kinds, types and limits in sync with lib/listingAttachments.ts
+
+-- ============================================
+-- Storage bucket
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'listing-attachments',
+  'listing-attachments',
+  true,
+  104857600, -- 100 MB (largest per-kind limit)
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'video/mp4', 'video/webm', 'video/quicktime', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Anyone can view listing attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload their own listing attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own listing attachments" ON storage.objects;
+
+CREATE POLICY "Anyone can view listing attachments"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'listing-attachments');
+
+-- Uploads go in the user's own folder
+CREATE POLICY "Users can upload their own listing attachments"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'listing-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their own listing attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'listing-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- ============================================
+-- Attachments
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_attachments (
+  id BIGSERIAL PRIMARY KEY,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('floor_plan', 'video', 'document')),
+  url TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 200),
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  title TEXT CHECK (title IS NULL OR char_length(title) <= 80),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT listing_attachments_type_check CHECK (
+    (kind = 'floor_plan' AND mime_type IN ('image/jpeg', 'image/png', 'image/webp') AND size_bytes <= 15728640)
+    OR (kind = 'video' AND mime_type IN ('video/mp4', 'video/webm', 'video/quicktime') AND size_bytes <= 104857600)
+    OR (kind = 'document' AND mime_type = 'application/pdf' AND size_bytes <= 20971520)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS listing_attachments_listing_id_idx
+  ON public.listing_attachments(listing_id, kind, position);
+
+ALTER TABLE public.listing_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view attachments of visible listings" ON public.listing_attachments;
+DROP POLICY IF EXISTS "Owners can add listing attachments" ON public.listing_attachments;
+DROP POLICY IF EXISTS "Owners and admins can remove listing attachments" ON public.listing_attachments;
+
+-- SELECT: Follows the listing's own visibility (drafts stay private)
+CREATE POLICY "Users can view attachments of visible listings"
+  ON public.listing_attachments FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_attachments.listing_id
+    )
+  );
+
+-- INSERT: Listing owner, for a file in their folder for this listing
+CREATE POLICY "Owners can add listing attachments"
+  ON public.listing_attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    storage_path LIKE auth.uid()::text || '/' || listing_id::text || '/%'
+    AND EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_attachments.listing_id
+      AND listings.user_id = auth.uid()
+    )
+  );
+
+-- DELETE: Listing owner or admin
+CREATE POLICY "Owners and admins can remove listing attachments"
+  ON public.listing_attachments FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_attachments.listing_id
+      AND listings.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.listing_attachments TO anon, authenticated;
+GRANT INSERT, DELETE ON public.listing_attachments TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.listing_attachments_id_seq TO authenticated;
+
+-- BEFORE INSERT: describe the file from its storage object, so the per-kind
+-- CHECK sees the real type and size and the URL can only point at the file.
+-- url is relative to the project URL (clients resolve it from storage_path).
+-- SECURITY DEFINER to read storage.objects.
+CREATE OR REPLACE FUNCTION public.handle_listing_attachment_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+DECLARE
+  object_metadata JSONB;
+BEGIN
+  SELECT objects.metadata INTO object_metadata
+  FROM storage.objects
+  WHERE objects.bucket_id = 'listing-attachments'
+  AND objects.name = NEW.storage_path;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attachment file not found: %', NEW.storage_path
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  NEW.mime_type := COALESCE(object_metadata->>'mimetype', '');
+  NEW.size_bytes := COALESCE((object_metadata->>'size')::BIGINT, 0);
+  NEW.url := '/storage/v1/object/public/listing-attachments/' || NEW.storage_path;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_handle_listing_attachment_insert ON public.listing_attachments;
+CREATE TRIGGER trigger_handle_listing_attachment_insert
+  BEFORE INSERT ON public.listing_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_listing_attachment_insert();
+
+-- Rows added before the trigger kept the client's URL
+UPDATE public.listing_attachments
+SET url = '/storage/v1/object/public/listing-attachments/' || storage_path
+WHERE url IS DISTINCT FROM '/storage/v1/object/public/listing-attachments/' || storage_path;
+
+-- ============================================
+-- Orphaned storage cleanup (adds listing-attachments)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.find_orphaned_storage_objects(
+  p_min_age INTERVAL DEFAULT INTERVAL '1 day'
+)
+RETURNS TABLE (
+  bucket_id TEXT,
+  name TEXT,
+  size BIGINT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Permission denied. Only admins can scan storage.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH refs AS (
+    SELECT 'listing-images'::TEXT AS bucket, url
+    FROM listings, unnest(listings.image_urls) AS url
+    UNION ALL
+    SELECT 'listing-attachments', listing_attachments.storage_path
+    FROM listing_attachments
+    UNION ALL
+    SELECT 'post-media', posts.image_url
+    FROM posts
+    WHERE posts.image_url IS NOT NULL
+    UNION ALL
+    SELECT 'chat-media', messages.image_url
+    FROM messages
+    WHERE messages.image_url IS NOT NULL
+    UNION ALL
+    SELECT 'chat-media', messages.attachment_url
+    FROM messages
+    WHERE messages.attachment_url IS NOT NULL
+  ),
+  ref_paths AS (
+    -- Strip everything up to "/<bucket>/" and any query string (signed URLs)
+    SELECT DISTINCT
+      refs.bucket,
+      split_part(
+        COALESCE(substring(refs.url FROM '/' || refs.bucket || '/(.*)$'), refs.url),
+        '?', 1
+      ) AS path
+    FROM refs
+    WHERE refs.url <> ''
+  )
+  SELECT
+    o.bucket_id::TEXT,
+    o.name::TEXT,
+    COALESCE((o.metadata->>'size')::BIGINT, 0),
+    o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('listing-images', 'listing-attachments', 'post-media', 'chat-media')
+    AND o.created_at < NOW() - p_min_age
+    AND o.name NOT LIKE '%.emptyFolderPlaceholder'
+    AND NOT EXISTS (
+      SELECT 1 FROM ref_paths r
+      WHERE r.bucket = o.bucket_id
+      AND r.path = CASE
+        -- Processed listing photos are referenced by their full.webp
+        WHEN o.bucket_id = 'listing-images'
+          THEN regexp_replace(o.name, '/(thumb|medium|full)\.webp$', '/full.webp')
+        ELSE o.name
+      END
+    )
+  ORDER BY o.bucket_id, o.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_orphaned_storage_objects(INTERVAL) TO authenticated, service_role;
+
+DROP POLICY IF EXISTS "Admins can delete orphaned media" ON storage.objects;
+CREATE POLICY "Admins can delete orphaned media"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id IN ('listing-images', 'listing-attachments', 'post-media', 'chat-media')
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
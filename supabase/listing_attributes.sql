@@ -0,0 +1,37 @@
+-- Listing Attributes Migration
+-- Run this SQL in your Supabase SQL Editor
+-- Adds structured property attributes (bedrooms, bathrooms, type, area) to listings
+-- Safe to re-run (uses IF NOT EXISTS / DROP CONSTRAINT IF EXISTS)
+
+-- Add attribute columns if they don't exist
+ALTER TABLE public.listings
+  ADD COLUMN IF NOT EXISTS bedrooms INTEGER,
+  ADD COLUMN IF NOT EXISTS bathrooms INTEGER,
+  ADD COLUMN IF NOT EXISTS property_type TEXT,
+  ADD COLUMN IF NOT EXISTS area_sqm NUMERIC(10, 2);
+
+-- Constraints (dropped first so the migration can be re-run)
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_bedrooms_check;
+ALTER TABLE public.listings
+  ADD CONSTRAINT listings_bedrooms_check CHECK (bedrooms IS NULL OR (bedrooms >= 0 AND bedrooms <= 50));
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_bathrooms_check;
+ALTER TABLE public.listings
+  ADD CONSTRAINT listings_bathrooms_check CHECK (bathrooms IS NULL OR (bathrooms >= 0 AND bathrooms <= 50));
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_property_type_check;
+ALTER TABLE public.listings
+  ADD CONSTRAINT listings_property_type_check CHECK (
+    property_type IS NULL
+    OR property_type IN ('house', 'apartment', 'condo', 'villa', 'townhouse')
+  );
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_area_sqm_check;
+ALTER TABLE public.listings
+  ADD CONSTRAINT listings_area_sqm_check CHECK (area_sqm IS NULL OR area_sqm > 0);
+
+-- Indexes for the /listings filters
+CREATE INDEX IF NOT EXISTS listings_bedrooms_idx ON public.listings(bedrooms);
+CREATE INDEX IF NOT EXISTS listings_property_type_idx ON public.listings(property_type);
+
+-- RLS: existing listings policies (listings.sql) already cover these columns
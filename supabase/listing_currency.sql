@@ -0,0 +1,372 @@
+-- Listing Currencies + Exchange Rates
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listing_status.sql, listing_price_history.sql, saved_searches.sql
+--           (replaces listing_sort_key / get_listings_page / search_listings /
+--            listing_matches_saved_search)
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- Each listing stores its price in its own currency (listings.currency).
+-- currency_rates holds how many units of a currency equal 1 USD; admins
+-- maintain it from /admin. Filters and price sorting convert through USD,
+-- so a viewer can browse in any currency that has a rate.
+
+-- ============================================
+-- Exchange rates
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.currency_rates (
+  currency TEXT PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'), -- ISO 4217 code
+  rate_per_usd NUMERIC NOT NULL CHECK (rate_per_usd > 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- USD is the base currency
+  CONSTRAINT currency_rates_usd_base_check CHECK (currency <> 'USD' OR rate_per_usd = 1)
+);
+
+-- Starting rates (admins should keep these current)
+INSERT INTO public.currency_rates (currency, rate_per_usd) VALUES
+  ('USD', 1),
+  ('EUR', 0.92),
+  ('GBP', 0.79),
+  ('LBP', 89500),
+  ('AED', 3.6725),
+  ('SAR', 3.75),
+  ('QAR', 3.64),
+  ('KWD', 0.307),
+  ('JOD', 0.709),
+  ('EGP', 48.5)
+ON CONFLICT (currency) DO NOTHING;
+
+ALTER TABLE public.currency_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view currency rates" ON public.currency_rates;
+DROP POLICY IF EXISTS "Admins can add currency rates" ON public.currency_rates;
+DROP POLICY IF EXISTS "Admins can update currency rates" ON public.currency_rates;
+DROP POLICY IF EXISTS "Admins can delete currency rates" ON public.currency_rates;
+
+-- SELECT: Public (prices are converted before login too)
+CREATE POLICY "Anyone can view currency rates"
+  ON public.currency_rates FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- INSERT/UPDATE/DELETE: Admins only
+CREATE POLICY "Admins can add currency rates"
+  ON public.currency_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update currency rates"
+  ON public.currency_rates FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- USD can't be removed; currencies still used by listings are protected by the foreign key
+CREATE POLICY "Admins can delete currency rates"
+  ON public.currency_rates FOR DELETE
+  TO authenticated
+  USING (
+    currency <> 'USD'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.currency_rates TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON public.currency_rates TO authenticated;
+
+-- ============================================
+-- Listing currency
+-- ============================================
+-- Existing prices were entered as USD
+ALTER TABLE public.listings
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_currency_fkey;
+ALTER TABLE public.listings
+  ADD CONSTRAINT listings_currency_fkey
+  FOREIGN KEY (currency) REFERENCES public.currency_rates(currency) ON UPDATE CASCADE;
+
+-- Saved searches remember which currency their price range was entered in
+ALTER TABLE public.saved_searches
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+-- Price history entries are in the listing's currency at the time
+ALTER TABLE public.listing_price_history
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+-- ============================================
+-- Conversion helpers
+-- ============================================
+-- Converts an amount between two currencies via USD.
+-- Returns NULL when either currency has no rate.
+CREATE OR REPLACE FUNCTION public.convert_price(p_amount NUMERIC, p_from TEXT, p_to TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_amount IS NULL THEN NULL
+    WHEN COALESCE(p_from, 'USD') = COALESCE(p_to, 'USD') THEN p_amount
+    ELSE p_amount
+      / (SELECT rate_per_usd FROM public.currency_rates WHERE currency = COALESCE(p_from, 'USD'))
+      * (SELECT rate_per_usd FROM public.currency_rates WHERE currency = COALESCE(p_to, 'USD'))
+  END;
+$$;
+
+-- A listing's price in USD (used for sorting and filtering)
+CREATE OR REPLACE FUNCTION public.listing_price_usd(l public.listings)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.convert_price(l.price, l.currency, 'USD');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.convert_price(NUMERIC, TEXT, TEXT) TO authenticated;
+
+-- ============================================
+-- Sort key (prices compared in USD)
+-- ============================================
+-- Sorting by USD is the same order as sorting in any display currency.
+-- STABLE now (reads currency_rates) instead of IMMUTABLE.
+CREATE OR REPLACE FUNCTION public.listing_sort_key(l public.listings, p_sort TEXT, p_query tsquery)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_sort = 'relevance' AND p_query IS NOT NULL THEN -ts_rank_cd(l.search_vector, p_query)::numeric
+    WHEN p_sort = 'price-low' THEN COALESCE(public.listing_price_usd(l), 'Infinity'::numeric)
+    WHEN p_sort = 'price-high' THEN COALESCE(-public.listing_price_usd(l), 'Infinity'::numeric)
+    ELSE -EXTRACT(EPOCH FROM COALESCE(l.created_at, 'epoch'::timestamptz))
+  END;
+$$;
+
+-- ============================================
+-- Paginated listings query (price range in p_currency)
+-- ============================================
+DROP FUNCTION IF EXISTS public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, TEXT, TEXT[], TEXT, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_listings_page(
+  p_query TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD',
+  p_city TEXT DEFAULT NULL,
+  p_min_bedrooms INTEGER DEFAULT NULL,
+  p_property_type TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_after_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS SETOF public.listings
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      public.listing_search_query(p_query) AS tsq,
+      public.convert_price(p_min_price, p_currency, 'USD') AS min_usd,
+      public.convert_price(p_max_price, p_currency, 'USD') AS max_usd
+  )
+  SELECT l.*
+  FROM public.listings l, q
+  WHERE
+    (q.tsq IS NULL OR l.search_vector @@ q.tsq)
+    -- Price range (listings without a price are always included)
+    AND (q.min_usd IS NULL OR l.price IS NULL OR public.listing_price_usd(l) >= q.min_usd)
+    AND (q.max_usd IS NULL OR l.price IS NULL OR public.listing_price_usd(l) <= q.max_usd)
+    AND (p_city IS NULL OR btrim(p_city) = '' OR l.city ILIKE '%' || btrim(p_city) || '%')
+    AND (p_min_bedrooms IS NULL OR l.bedrooms >= p_min_bedrooms)
+    AND (p_property_type IS NULL OR l.property_type = p_property_type)
+    -- Drafts are still limited to the owner by RLS
+    AND l.status = ANY(COALESCE(p_statuses, ARRAY['active', 'under_offer']))
+    -- Cursor: rows strictly after the last row of the previous page
+    AND (
+      p_after_id IS NULL
+      OR (public.listing_sort_key(l, p_sort, q.tsq), -l.id) > (
+        SELECT public.listing_sort_key(c, p_sort, q.tsq), -c.id
+        FROM public.listings c
+        WHERE c.id = p_after_id
+      )
+    )
+  ORDER BY public.listing_sort_key(l, p_sort, q.tsq), l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$;
+
+-- ============================================
+-- Ranked search (adds currency to the result)
+-- ============================================
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS public.search_listings(TEXT, BIGINT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_listings(
+  p_query TEXT,
+  p_ids BIGINT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id BIGINT,
+  user_id UUID,
+  title TEXT,
+  city TEXT,
+  price NUMERIC,
+  currency TEXT,
+  image_urls TEXT[],
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.listing_search_query(p_query) AS tsq
+  )
+  SELECT
+    l.id,
+    l.user_id,
+    l.title,
+    l.city,
+    l.price,
+    l.currency,
+    l.image_urls,
+    ts_rank_cd(l.search_vector, q.tsq) AS rank,
+    ts_headline('english'::regconfig, l.title, q.tsq,
+      'StartSel=⟦, StopSel=⟧, HighlightAll=true') AS title_highlight,
+    ts_headline('english'::regconfig, COALESCE(l.description, '') || ' ' || COALESCE(l.city, ''), q.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "') AS snippet
+  FROM public.listings l, q
+  WHERE q.tsq IS NOT NULL
+    AND l.search_vector @@ q.tsq
+    AND (
+      (p_ids IS NULL AND l.status IN ('active', 'under_offer'))
+      OR l.id = ANY(p_ids)
+    )
+  ORDER BY rank DESC, l.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, TEXT, INTEGER, TEXT, TEXT[], TEXT, BIGINT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_listings(TEXT, BIGINT[], INTEGER) TO authenticated;
+
+-- ============================================
+-- Saved-search matching (price range in the search's currency)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.listing_matches_saved_search(l public.listings, s public.saved_searches)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (s.query IS NULL OR btrim(s.query) = '' OR l.search_vector @@ public.listing_search_query(s.query))
+    AND (s.min_price IS NULL OR l.price IS NULL OR public.convert_price(l.price, l.currency, s.currency) >= s.min_price)
+    AND (s.max_price IS NULL OR l.price IS NULL OR public.convert_price(l.price, l.currency, s.currency) <= s.max_price)
+    AND (s.city IS NULL OR btrim(s.city) = '' OR l.city ILIKE '%' || btrim(s.city) || '%')
+    AND (s.min_bedrooms IS NULL OR l.bedrooms >= s.min_bedrooms)
+    AND (s.property_type IS NULL OR l.property_type = s.property_type);
+$$;
+
+-- ============================================
+-- Price history across currency changes
+-- ============================================
+-- Switching currency starts a new history segment: previous_price is cleared
+-- (no "price reduced" badge comparing LBP to USD) and old_price is NULL.
+-- As before, only the trigger writes previous_price / price_changed_at.
+CREATE OR REPLACE FUNCTION public.handle_listing_price_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.previous_price := NULL;
+    NEW.price_changed_at := NULL;
+  ELSIF NEW.currency IS DISTINCT FROM OLD.currency THEN
+    NEW.previous_price := NULL;
+    NEW.price_changed_at := NOW();
+  ELSIF NEW.price IS DISTINCT FROM OLD.price THEN
+    NEW.previous_price := OLD.price;
+    NEW.price_changed_at := NOW();
+  ELSE
+    NEW.previous_price := OLD.previous_price;
+    NEW.price_changed_at := OLD.price_changed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_listing_price_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.price IS NOT NULL THEN
+      INSERT INTO public.listing_price_history (listing_id, old_price, new_price, currency, changed_by)
+      VALUES (NEW.id, NULL, NEW.price, NEW.currency, auth.uid());
+    END IF;
+  ELSIF NEW.currency IS DISTINCT FROM OLD.currency THEN
+    INSERT INTO public.listing_price_history (listing_id, old_price, new_price, currency, changed_by)
+    VALUES (NEW.id, NULL, NEW.price, NEW.currency, auth.uid());
+  ELSIF NEW.price IS DISTINCT FROM OLD.price THEN
+    INSERT INTO public.listing_price_history (listing_id, old_price, new_price, currency, changed_by)
+    VALUES (NEW.id, OLD.price, NEW.price, NEW.currency, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_handle_listing_price_change ON public.listings;
+CREATE TRIGGER trigger_handle_listing_price_change
+  BEFORE INSERT OR UPDATE ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_listing_price_change();
+
+DROP TRIGGER IF EXISTS trigger_record_listing_price_history ON public.listings;
+CREATE TRIGGER trigger_record_listing_price_history
+  AFTER INSERT OR UPDATE OF price, currency ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_listing_price_history();
+
+-- Price-drop alerts only compare prices in the same currency
+DROP TRIGGER IF EXISTS trigger_create_price_drop_notifications ON public.listings;
+CREATE TRIGGER trigger_create_price_drop_notifications
+  AFTER UPDATE OF price ON public.listings
+  FOR EACH ROW
+  WHEN (OLD.price > 0 AND NEW.price < OLD.price AND OLD.currency = NEW.currency)
+  EXECUTE FUNCTION public.create_price_drop_notifications();
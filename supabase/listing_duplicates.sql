@@ -0,0 +1,307 @@
+-- Duplicate Listing Detection
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listing_status.sql, listing_attributes.sql, listing_currency.sql,
+--           listing_location.sql, listing_photo_captions.sql, listing_favorites.sql
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- A listing is a possible duplicate of another published listing when enough
+-- of these line up:
+--   - title + description text similarity (pg_trgm)
+--   - price within 5% (compared in USD)
+--   - same city
+--   - a near-identical photo (64-bit difference hash, Hamming distance <= 6)
+--
+-- Posters are warned before publishing (check_listing_duplicates), and every
+-- newly published listing is compared automatically; matches land in
+-- listing_duplicate_flags for the admin queue, where admins merge, remove or
+-- dismiss them.
+--
+-- NOTE: Keep reason codes in sync with lib/duplicates.ts
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================
+-- Photo hashes
+-- ============================================
+-- Written by the upload route (app/api/listing-images) for every processed photo,
+-- keyed by the stored full-size URL
+CREATE TABLE IF NOT EXISTS public.listing_image_hashes (
+  image_url TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  hash TEXT NOT NULL CHECK (hash ~ '^[0-9a-f]{16}$'),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS listing_image_hashes_hash_idx ON public.listing_image_hashes(hash);
+
+ALTER TABLE public.listing_image_hashes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can add hashes for their photos" ON public.listing_image_hashes;
+
+-- Reads happen inside the SECURITY DEFINER functions below only
+CREATE POLICY "Users can add hashes for their photos"
+  ON public.listing_image_hashes FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================
+-- Flags (admin queue)
+-- ============================================
+-- listing_id is the newer listing, duplicate_of_id the one it resembles.
+-- Merging or removing a listing deletes it, which clears its flags.
+CREATE TABLE IF NOT EXISTS public.listing_duplicate_flags (
+  id BIGSERIAL PRIMARY KEY,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  duplicate_of_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  score NUMERIC(4, 3) NOT NULL,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed')),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE(listing_id, duplicate_of_id),
+  CHECK (listing_id <> duplicate_of_id)
+);
+
+CREATE INDEX IF NOT EXISTS listing_duplicate_flags_open_idx
+  ON public.listing_duplicate_flags(created_at DESC) WHERE status = 'open';
+
+ALTER TABLE public.listing_duplicate_flags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view duplicate flags" ON public.listing_duplicate_flags;
+DROP POLICY IF EXISTS "Admins can update duplicate flags" ON public.listing_duplicate_flags;
+
+CREATE POLICY "Admins can view duplicate flags"
+  ON public.listing_duplicate_flags FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update duplicate flags"
+  ON public.listing_duplicate_flags FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- ============================================
+-- Matching
+-- ============================================
+-- Candidates for a (possibly not yet saved) listing among published listings.
+-- Internal: callers are check_listing_duplicates() and the flag trigger.
+CREATE OR REPLACE FUNCTION public.find_listing_duplicate_candidates(
+  p_exclude_id BIGINT,
+  p_title TEXT,
+  p_description TEXT,
+  p_price NUMERIC,
+  p_currency TEXT,
+  p_city TEXT,
+  p_image_urls TEXT[]
+)
+RETURNS TABLE (listing_id BIGINT, score NUMERIC, reasons TEXT[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH input AS (
+    SELECT
+      lower(coalesce(p_title, '') || ' ' || coalesce(p_description, '')) AS body,
+      p_price / NULLIF((SELECT rate_per_usd FROM currency_rates WHERE currency = p_currency), 0) AS price_usd,
+      lower(trim(p_city)) AS city
+  ),
+  input_hashes AS (
+    SELECT ('x' || h.hash)::BIT(64) AS bits
+    FROM listing_image_hashes h
+    WHERE h.image_url = ANY(coalesce(p_image_urls, '{}'))
+  ),
+  candidates AS (
+    SELECT
+      l.id,
+      similarity(lower(coalesce(l.title, '') || ' ' || coalesce(l.description, '')), i.body) AS text_score,
+      coalesce(
+        abs(l.price / NULLIF(r.rate_per_usd, 0) - i.price_usd) <= 0.05 * GREATEST(i.price_usd, 1),
+        false
+      ) AS price_match,
+      coalesce(lower(trim(l.city)) = i.city, false) AS city_match,
+      EXISTS (
+        SELECT 1
+        FROM listing_image_hashes h
+        CROSS JOIN input_hashes ih
+        WHERE h.image_url = ANY(l.image_urls)
+          AND bit_count(('x' || h.hash)::BIT(64) # ih.bits) <= 6
+      ) AS photo_match
+    FROM listings l
+    CROSS JOIN input i
+    LEFT JOIN currency_rates r ON r.currency = l.currency
+    WHERE l.status <> 'draft'
+      AND l.id IS DISTINCT FROM p_exclude_id
+      -- Only compare within the city, or anywhere when the input has photos
+      AND (lower(trim(l.city)) = i.city OR EXISTS (SELECT 1 FROM input_hashes))
+  ),
+  scored AS (
+    SELECT
+      c.id,
+      LEAST(
+        1,
+        0.5 * c.text_score
+          + CASE WHEN c.price_match THEN 0.2 ELSE 0 END
+          + CASE WHEN c.city_match THEN 0.15 ELSE 0 END
+          + CASE WHEN c.photo_match THEN 0.5 ELSE 0 END
+      ) AS score,
+      array_remove(ARRAY[
+        CASE WHEN c.text_score >= 0.5 THEN 'similar_text' END,
+        CASE WHEN c.price_match THEN 'same_price' END,
+        CASE WHEN c.city_match THEN 'same_city' END,
+        CASE WHEN c.photo_match THEN 'same_photo' END
+      ], NULL) AS reasons
+    FROM candidates c
+    -- Other cities only count when a photo matches
+    WHERE c.city_match OR c.photo_match
+  )
+  SELECT s.id, ROUND(s.score::NUMERIC, 3), s.reasons
+  FROM scored s
+  WHERE s.score >= 0.6
+  ORDER BY s.score DESC
+  LIMIT 10;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_listing_duplicate_candidates(BIGINT, TEXT, TEXT, NUMERIC, TEXT, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- Warning for the poster before publishing (only published listings are returned,
+-- which are public anyway)
+CREATE OR REPLACE FUNCTION public.check_listing_duplicates(
+  p_title TEXT,
+  p_description TEXT,
+  p_price NUMERIC,
+  p_currency TEXT,
+  p_city TEXT,
+  p_image_urls TEXT[],
+  p_exclude_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (listing_id BIGINT, title TEXT, city TEXT, price NUMERIC, currency TEXT, score NUMERIC, reasons TEXT[])
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.id, l.title, l.city, l.price, l.currency, c.score, c.reasons
+  FROM public.find_listing_duplicate_candidates(
+    p_exclude_id, p_title, p_description, p_price, p_currency, p_city, p_image_urls
+  ) c
+  JOIN listings l ON l.id = c.listing_id
+  WHERE auth.uid() IS NOT NULL
+  ORDER BY c.score DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_listing_duplicates(TEXT, TEXT, NUMERIC, TEXT, TEXT, TEXT[], BIGINT) TO authenticated;
+
+-- Flag matches when a listing is published (created active, or a draft goes live)
+CREATE OR REPLACE FUNCTION public.flag_listing_duplicates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'draft' OR (TG_OP = 'UPDATE' AND OLD.status <> 'draft') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO listing_duplicate_flags (listing_id, duplicate_of_id, score, reasons)
+  SELECT NEW.id, c.listing_id, c.score, c.reasons
+  FROM public.find_listing_duplicate_candidates(
+    NEW.id, NEW.title, NEW.description, NEW.price, NEW.currency, NEW.city, NEW.image_urls
+  ) c
+  ON CONFLICT (listing_id, duplicate_of_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS flag_listing_duplicates_trigger ON public.listings;
+CREATE TRIGGER flag_listing_duplicates_trigger
+  AFTER INSERT OR UPDATE OF status ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_listing_duplicates();
+
+-- ============================================
+-- Admin actions
+-- ============================================
+-- Merge p_remove_id into p_keep_id: savers of the duplicate now save the kept
+-- listing, empty fields on the kept listing are filled from the duplicate
+-- (photos only when the kept listing has none), then the duplicate is deleted.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_listings(p_keep_id BIGINT, p_remove_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  removed public.listings%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Permission denied. Only admins can merge listings.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_keep_id = p_remove_id THEN
+    RAISE EXCEPTION 'Cannot merge a listing into itself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO removed FROM listings WHERE id = p_remove_id;
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM listings WHERE id = p_keep_id) THEN
+    RAISE EXCEPTION 'Listing not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO listing_favorites (listing_id, user_id, created_at)
+  SELECT p_keep_id, f.user_id, f.created_at
+  FROM listing_favorites f
+  WHERE f.listing_id = p_remove_id
+  ON CONFLICT (listing_id, user_id) DO NOTHING;
+
+  UPDATE listings SET
+    description = COALESCE(description, removed.description),
+    price = COALESCE(price, removed.price),
+    currency = CASE WHEN price IS NULL THEN removed.currency ELSE currency END,
+    city = COALESCE(city, removed.city),
+    bedrooms = COALESCE(bedrooms, removed.bedrooms),
+    bathrooms = COALESCE(bathrooms, removed.bathrooms),
+    property_type = COALESCE(property_type, removed.property_type),
+    area_sqm = COALESCE(area_sqm, removed.area_sqm),
+    address = COALESCE(address, removed.address),
+    neighbourhood = COALESCE(neighbourhood, removed.neighbourhood),
+    area_slug = COALESCE(area_slug, removed.area_slug),
+    latitude = CASE WHEN latitude IS NULL THEN removed.latitude ELSE latitude END,
+    longitude = CASE WHEN latitude IS NULL THEN removed.longitude ELSE longitude END,
+    image_urls = CASE WHEN cardinality(image_urls) = 0 THEN removed.image_urls ELSE image_urls END,
+    image_captions = CASE WHEN cardinality(image_urls) = 0 THEN removed.image_captions ELSE image_captions END
+  WHERE id = p_keep_id;
+
+  DELETE FROM listings WHERE id = p_remove_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_duplicate_listings(BIGINT, BIGINT) TO authenticated;
@@ -0,0 +1,83 @@
+-- Listing Favorites (Watchlist)
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listing_status.sql (the INSERT policy checks listings.status)
+-- Works like the likes table for posts (schema.sql): one row per user per listing
+-- Safe to re-run (uses IF NOT EXISTS / DROP POLICY IF EXISTS)
+
+-- Create listing_favorites table
+CREATE TABLE IF NOT EXISTS public.listing_favorites (
+  id BIGSERIAL PRIMARY KEY,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(listing_id, user_id)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS listing_favorites_listing_id_idx ON public.listing_favorites(listing_id);
+CREATE INDEX IF NOT EXISTS listing_favorites_user_id_created_at_idx ON public.listing_favorites(user_id, created_at DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.listing_favorites ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies (safe to re-run)
+DROP POLICY IF EXISTS "Users can view their own favorites" ON public.listing_favorites;
+DROP POLICY IF EXISTS "Users can favorite listings" ON public.listing_favorites;
+DROP POLICY IF EXISTS "Users can remove their own favorites" ON public.listing_favorites;
+
+-- SELECT: A user's watchlist is private (owners only see counts, via the function below)
+CREATE POLICY "Users can view their own favorites"
+  ON public.listing_favorites FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- INSERT: Users can only favorite as themselves, and only listings they can
+-- see (someone else's draft can't be saved by guessing its ID)
+CREATE POLICY "Users can favorite listings"
+  ON public.listing_favorites FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.listings l
+      WHERE l.id = listing_id
+      AND (l.status <> 'draft' OR l.user_id = auth.uid())
+    )
+  );
+
+-- DELETE: Users can only remove their own favorites
+CREATE POLICY "Users can remove their own favorites"
+  ON public.listing_favorites FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, DELETE ON public.listing_favorites TO authenticated;
+
+-- ============================================
+-- Favorite counts for listing owners
+-- ============================================
+-- SECURITY DEFINER so owners can count favorites without seeing who saved.
+-- Only returns rows for listings the caller owns (or all, for admins).
+CREATE OR REPLACE FUNCTION public.get_listing_favorite_counts(p_listing_ids BIGINT[])
+RETURNS TABLE (listing_id BIGINT, favorite_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.id AS listing_id, COUNT(f.id) AS favorite_count
+  FROM public.listings l
+  LEFT JOIN public.listing_favorites f ON f.listing_id = l.id
+  WHERE l.id = ANY(p_listing_ids)
+    AND (
+      l.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'admin'
+      )
+    )
+  GROUP BY l.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listing_favorite_counts(BIGINT[]) TO authenticated;
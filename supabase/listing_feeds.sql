@@ -0,0 +1,184 @@
+-- Listing Syndication Feeds
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listing_status.sql, listing_attributes.sql, listing_currency.sql,
+--           listing_location.sql, listing_photo_captions.sql, listing_imports.sql
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- Owners publish their active listings to other portals and their own
+-- websites through /api/listings/feed?token=... (XML or JSON).
+-- An agency is the owner account its listings are posted under (there's no
+-- separate agency grouping), so feeds filter by owner (p_owner_id).
+-- Each owner has at most one feed token; regenerating it invalidates the old
+-- URL. An admin's token can publish any owner's inventory (or all of it).
+
+-- ============================================
+-- Tokens
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.listing_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their feed token" ON public.listing_feed_tokens;
+DROP POLICY IF EXISTS "Users can delete their feed token" ON public.listing_feed_tokens;
+
+-- Tokens are created/rotated through rotate_listing_feed_token() only
+CREATE POLICY "Users can view their feed token"
+  ON public.listing_feed_tokens FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their feed token"
+  ON public.listing_feed_tokens FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create or replace the caller's token (64 hex chars from two random UUIDs)
+CREATE OR REPLACE FUNCTION public.rotate_listing_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT := replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO listing_feed_tokens (user_id, token)
+  VALUES (auth.uid(), new_token)
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = EXCLUDED.token,
+        created_at = NOW();
+
+  RETURN new_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rotate_listing_feed_token() TO authenticated;
+
+-- ============================================
+-- Export references
+-- ============================================
+-- Give the caller's listings without a reference one ('listing-<id>') so a CSV
+-- export can be edited and re-imported as updates (the import matches on
+-- user_id + external_ref). A listing whose generated reference is already
+-- taken by another of the owner's listings is left without one.
+-- Returns the references assigned.
+CREATE OR REPLACE FUNCTION public.assign_listing_external_refs()
+RETURNS TABLE (id BIGINT, external_ref TEXT)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  UPDATE listings l
+  SET external_ref = 'listing-' || l.id
+  WHERE l.user_id = auth.uid()
+    AND l.external_ref IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM listings other
+      WHERE other.user_id = l.user_id
+      AND other.external_ref = 'listing-' || l.id
+    )
+  RETURNING l.id, l.external_ref;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.assign_listing_external_refs() TO authenticated;
+
+-- ============================================
+-- Feed
+-- ============================================
+-- Active listings for a feed token, newest first.
+-- p_owner_id: only admins may choose another owner (NULL = everyone for admins,
+-- the token owner otherwise).
+CREATE OR REPLACE FUNCTION public.get_listing_feed(
+  p_token TEXT,
+  p_owner_id UUID DEFAULT NULL,
+  p_updated_since TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  id BIGINT,
+  user_id UUID,
+  owner_name TEXT,
+  external_ref TEXT,
+  title TEXT,
+  description TEXT,
+  price NUMERIC,
+  currency TEXT,
+  property_type TEXT,
+  bedrooms INTEGER,
+  bathrooms INTEGER,
+  area_sqm NUMERIC,
+  city TEXT,
+  neighbourhood TEXT,
+  address TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  image_urls TEXT[],
+  image_captions TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  feed_owner UUID;
+  feed_owner_is_admin BOOLEAN;
+  owner_filter UUID;
+BEGIN
+  SELECT t.user_id, COALESCE(p.role = 'admin', false)
+  INTO feed_owner, feed_owner_is_admin
+  FROM listing_feed_tokens t
+  LEFT JOIN profiles p ON p.id = t.user_id
+  WHERE t.token = p_token;
+
+  IF feed_owner IS NULL THEN
+    RAISE EXCEPTION 'Invalid feed token'
+      USING ERRCODE = '28000';
+  END IF;
+
+  IF feed_owner_is_admin THEN
+    owner_filter := p_owner_id;
+  ELSIF p_owner_id IS NULL OR p_owner_id = feed_owner THEN
+    owner_filter := feed_owner;
+  ELSE
+    RAISE EXCEPTION 'This feed token can only publish its owner''s listings'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id, l.user_id, pr.display_name, l.external_ref, l.title, l.description,
+    l.price, l.currency, l.property_type, l.bedrooms, l.bathrooms, l.area_sqm,
+    l.city, l.neighbourhood, l.address, l.latitude, l.longitude,
+    l.image_urls, l.image_captions, l.created_at, l.updated_at
+  FROM listings l
+  LEFT JOIN profiles pr ON pr.id = l.user_id
+  WHERE l.status = 'active'
+    AND (owner_filter IS NULL OR l.user_id = owner_filter)
+    AND (p_updated_since IS NULL OR COALESCE(l.updated_at, l.created_at) >= p_updated_since)
+  ORDER BY l.created_at DESC, l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 1000);
+END;
+$$;
+
+-- Feed readers (portals, agency websites) call this without a session
+GRANT EXECUTE ON FUNCTION public.get_listing_feed(TEXT, UUID, TIMESTAMPTZ, INTEGER) TO anon, authenticated;
@@ -0,0 +1,58 @@
+-- Bulk Listing Imports
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql
+-- Safe to re-run (uses IF NOT EXISTS / DROP ... IF EXISTS)
+--
+-- Agencies import listings from CSV or XML feeds (app/listings/import).
+-- Each row carries the agency's own reference (external_ref); re-importing
+-- the same reference updates that listing instead of creating a new one.
+-- Every run is recorded in listing_imports with per-row failures.
+
+-- ============================================
+-- External reference on listings
+-- ============================================
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS external_ref TEXT;
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_external_ref_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_external_ref_check
+  CHECK (external_ref IS NULL OR char_length(btrim(external_ref)) BETWEEN 1 AND 100);
+
+-- Unique per owner (NULLs never conflict); also the upsert target for imports
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_user_id_external_ref_key;
+ALTER TABLE public.listings ADD CONSTRAINT listings_user_id_external_ref_key
+  UNIQUE (user_id, external_ref);
+
+-- ============================================
+-- Import runs
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_imports (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'xml')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  -- [{ "row": 12, "external_ref": "A-12", "errors": ["Price must be a positive number"] }, ...]
+  failures JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS listing_imports_user_id_created_at_idx
+  ON public.listing_imports(user_id, created_at DESC);
+
+ALTER TABLE public.listing_imports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their imports" ON public.listing_imports;
+DROP POLICY IF EXISTS "Users can record their imports" ON public.listing_imports;
+
+CREATE POLICY "Users can view their imports"
+  ON public.listing_imports FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can record their imports"
+  ON public.listing_imports FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
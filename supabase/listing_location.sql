@@ -0,0 +1,113 @@
+-- Listing Location (coordinates, address, area)
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listing_currency.sql, area_journals.sql
+--           (replaces get_listings_page)
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- Listings get an optional map pin (latitude/longitude), a street address,
+-- a neighbourhood and a link to the matching area journal (area_slug).
+-- get_listings_page gains a bounding-box filter for the map view.
+
+-- ============================================
+-- Columns
+-- ============================================
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS address TEXT;
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS neighbourhood TEXT;
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS area_slug TEXT;
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_latitude_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_latitude_check
+  CHECK (latitude IS NULL OR latitude BETWEEN -90 AND 90);
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_longitude_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_longitude_check
+  CHECK (longitude IS NULL OR longitude BETWEEN -180 AND 180);
+
+-- A pin needs both coordinates
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_coordinates_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_coordinates_check
+  CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+-- Slugs can be renamed by admins; deleting a journal just unlinks listings
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_area_slug_fkey;
+ALTER TABLE public.listings ADD CONSTRAINT listings_area_slug_fkey
+  FOREIGN KEY (area_slug) REFERENCES public.area_journals(slug)
+  ON UPDATE CASCADE ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS listings_coordinates_idx
+  ON public.listings(latitude, longitude)
+  WHERE latitude IS NOT NULL;
+CREATE INDEX IF NOT EXISTS listings_area_slug_idx ON public.listings(area_slug);
+
+-- ============================================
+-- Paginated listings query (adds the map bounding box)
+-- ============================================
+-- p_min_lng > p_max_lng means the box crosses the antimeridian.
+-- Map mode loads up to 500 pins per request.
+DROP FUNCTION IF EXISTS public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, TEXT, INTEGER, TEXT, TEXT[], TEXT, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_listings_page(
+  p_query TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD',
+  p_city TEXT DEFAULT NULL,
+  p_min_bedrooms INTEGER DEFAULT NULL,
+  p_property_type TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_min_lat DOUBLE PRECISION DEFAULT NULL,
+  p_max_lat DOUBLE PRECISION DEFAULT NULL,
+  p_min_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_lng DOUBLE PRECISION DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_after_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS SETOF public.listings
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      public.listing_search_query(p_query) AS tsq,
+      public.convert_price(p_min_price, p_currency, 'USD') AS min_usd,
+      public.convert_price(p_max_price, p_currency, 'USD') AS max_usd
+  )
+  SELECT l.*
+  FROM public.listings l, q
+  WHERE
+    (q.tsq IS NULL OR l.search_vector @@ q.tsq)
+    -- Price range (listings without a price are always included)
+    AND (q.min_usd IS NULL OR l.price IS NULL OR public.listing_price_usd(l) >= q.min_usd)
+    AND (q.max_usd IS NULL OR l.price IS NULL OR public.listing_price_usd(l) <= q.max_usd)
+    AND (p_city IS NULL OR btrim(p_city) = '' OR l.city ILIKE '%' || btrim(p_city) || '%')
+    AND (p_min_bedrooms IS NULL OR l.bedrooms >= p_min_bedrooms)
+    AND (p_property_type IS NULL OR l.property_type = p_property_type)
+    -- Drafts are still limited to the owner by RLS
+    AND l.status = ANY(COALESCE(p_statuses, ARRAY['active', 'under_offer']))
+    -- Bounding box (only pinned listings match)
+    AND (p_min_lat IS NULL OR l.latitude >= p_min_lat)
+    AND (p_max_lat IS NULL OR l.latitude <= p_max_lat)
+    AND (
+      p_min_lng IS NULL OR p_max_lng IS NULL
+      OR (p_min_lng <= p_max_lng AND l.longitude BETWEEN p_min_lng AND p_max_lng)
+      OR (p_min_lng > p_max_lng AND (l.longitude >= p_min_lng OR l.longitude <= p_max_lng))
+    )
+    -- Cursor: rows strictly after the last row of the previous page
+    AND (
+      p_after_id IS NULL
+      OR (public.listing_sort_key(l, p_sort, q.tsq), -l.id) > (
+        SELECT public.listing_sort_key(c, p_sort, q.tsq), -c.id
+        FROM public.listings c
+        WHERE c.id = p_after_id
+      )
+    )
+  ORDER BY public.listing_sort_key(l, p_sort, q.tsq), l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, TEXT, INTEGER, TEXT, TEXT[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, BIGINT, INTEGER) TO authenticated;
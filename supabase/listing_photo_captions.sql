@@ -0,0 +1,18 @@
+-- Listing Photo Captions
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listing_images.sql
+-- Safe to re-run (uses IF NOT EXISTS / DROP ... IF EXISTS)
+--
+-- image_urls is the photo order (the first photo is the cover).
+-- image_captions holds one caption per photo at the same index ('' = none);
+-- an empty array means no captions at all (listings created before this).
+
+ALTER TABLE public.listings
+  ADD COLUMN IF NOT EXISTS image_captions TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_image_captions_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_image_captions_check
+  CHECK (
+    cardinality(image_captions) = 0
+    OR cardinality(image_captions) = cardinality(image_urls)
+  );
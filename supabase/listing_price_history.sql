@@ -0,0 +1,169 @@
+-- Listing Price History
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listing_status.sql, listing_favorites.sql, saved_searches.sql
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- Every price change is recorded by trigger, so editing the price on
+-- /listings/[id]/edit no longer loses the old value. listings.previous_price
+-- keeps the price before the latest change so cards can show
+-- "price reduced X%" without an extra query.
+
+-- ============================================
+-- Columns
+-- ============================================
+ALTER TABLE public.listings
+  ADD COLUMN IF NOT EXISTS previous_price NUMERIC,
+  ADD COLUMN IF NOT EXISTS price_changed_at TIMESTAMPTZ;
+
+-- ============================================
+-- History table
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_price_history (
+  id BIGSERIAL PRIMARY KEY,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  old_price NUMERIC, -- NULL for the first recorded price
+  new_price NUMERIC,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS listing_price_history_listing_id_idx
+  ON public.listing_price_history(listing_id, changed_at);
+
+ALTER TABLE public.listing_price_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view price history of visible listings" ON public.listing_price_history;
+
+-- SELECT: Anyone who can see the listing (the listings RLS hides drafts)
+CREATE POLICY "Users can view price history of visible listings"
+  ON public.listing_price_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_price_history.listing_id
+    )
+  );
+
+GRANT SELECT ON public.listing_price_history TO authenticated;
+
+-- Backfill: existing listings start their history at their current price
+INSERT INTO public.listing_price_history (listing_id, old_price, new_price, changed_by, changed_at)
+SELECT l.id, NULL, l.price, l.user_id, COALESCE(l.created_at, NOW())
+FROM public.listings l
+WHERE l.price IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.listing_price_history h WHERE h.listing_id = l.id
+  );
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+-- BEFORE INSERT/UPDATE: remember the previous price on the listing itself
+-- (only the trigger writes previous_price / price_changed_at, so owners can't
+-- fake a "price reduced" badge)
+CREATE OR REPLACE FUNCTION public.handle_listing_price_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.previous_price := NULL;
+    NEW.price_changed_at := NULL;
+  ELSIF NEW.price IS DISTINCT FROM OLD.price THEN
+    NEW.previous_price := OLD.price;
+    NEW.price_changed_at := NOW();
+  ELSE
+    NEW.previous_price := OLD.previous_price;
+    NEW.price_changed_at := OLD.price_changed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER INSERT/UPDATE: append to history (SECURITY DEFINER; users can't write history directly)
+CREATE OR REPLACE FUNCTION public.record_listing_price_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.price IS NOT NULL THEN
+      INSERT INTO public.listing_price_history (listing_id, old_price, new_price, changed_by)
+      VALUES (NEW.id, NULL, NEW.price, auth.uid());
+    END IF;
+  ELSIF NEW.price IS DISTINCT FROM OLD.price THEN
+    INSERT INTO public.listing_price_history (listing_id, old_price, new_price, changed_by)
+    VALUES (NEW.id, OLD.price, NEW.price, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_handle_listing_price_change ON public.listings;
+CREATE TRIGGER trigger_handle_listing_price_change
+  BEFORE INSERT OR UPDATE ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_listing_price_change();
+
+DROP TRIGGER IF EXISTS trigger_record_listing_price_history ON public.listings;
+CREATE TRIGGER trigger_record_listing_price_history
+  AFTER INSERT OR UPDATE OF price ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_listing_price_history();
+
+-- ============================================
+-- Extend notifications.type with 'price_drop'
+-- ============================================
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('follow', 'new_post', 'message', 'saved_search_match', 'price_drop'));
+
+-- Function to notify users who favorited a listing when its price drops
+CREATE OR REPLACE FUNCTION public.create_price_drop_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reduced_pct INTEGER;
+BEGIN
+  -- Closed or draft listings don't alert anyone
+  IF NEW.status NOT IN ('active', 'under_offer') THEN
+    RETURN NEW;
+  END IF;
+
+  reduced_pct := ROUND((OLD.price - NEW.price) / OLD.price * 100);
+
+  INSERT INTO public.notifications (user_id, actor_id, type, entity_id_bigint, title, body)
+  SELECT
+    f.user_id,
+    NEW.user_id,
+    'price_drop',
+    NEW.id,  -- listings.id is BIGINT
+    'Price reduced ' || GREATEST(reduced_pct, 1) || '% on a saved listing',
+    LEFT(NEW.title, 100) || CASE WHEN LENGTH(NEW.title) > 100 THEN '...' ELSE '' END
+  FROM public.listing_favorites f
+  WHERE f.listing_id = NEW.id
+    AND f.user_id != NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_create_price_drop_notifications ON public.listings;
+
+-- Trigger: When a listing's price goes down, notify users who saved it
+CREATE TRIGGER trigger_create_price_drop_notifications
+  AFTER UPDATE OF price ON public.listings
+  FOR EACH ROW
+  WHEN (OLD.price > 0 AND NEW.price < OLD.price)
+  EXECUTE FUNCTION public.create_price_drop_notifications();
@@ -0,0 +1,224 @@
+-- Listing Recommendations (similar properties + "also viewed")
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listing_analytics.sql, listing_rentals.sql
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- The listing detail page shows two rows of recommendations:
+--   similar      published listings of the same type (sale / rent), ranked by
+--                location, price band, bedrooms and property type
+--   also_viewed  listings viewed by the same people (listing_events views,
+--                last 90 days, at least 2 people in common)
+--
+-- Rankings are computed in the database and cached in listing_recommendations
+-- for 6 hours per listing; get_listing_recommendations() refreshes a stale
+-- cache on read. Status and price are read live, so a listing that is sold,
+-- rented or back in draft drops out without waiting for the cache.
+--
+-- NOTE: Keep kinds in sync with lib/listingRecommendations.ts
+
+-- ============================================
+-- Cache
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_recommendations (
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('similar', 'also_viewed')),
+  recommended_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  score NUMERIC NOT NULL,
+  computed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (listing_id, kind, recommended_id)
+);
+
+-- One row per listing records when it was last computed (even with no matches)
+CREATE TABLE IF NOT EXISTS public.listing_recommendation_runs (
+  listing_id BIGINT PRIMARY KEY REFERENCES public.listings(id) ON DELETE CASCADE,
+  computed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS listing_recommendations_recommended_id_idx
+  ON public.listing_recommendations(recommended_id);
+
+-- Co-views look up viewers by listing and listings by viewer
+CREATE INDEX IF NOT EXISTS listing_events_view_user_idx
+  ON public.listing_events(user_id, listing_id) WHERE event_type = 'view';
+
+-- No policies: only read and written through the functions below
+ALTER TABLE public.listing_recommendations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.listing_recommendation_runs ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- Ranking
+-- ============================================
+-- Similar-listing score (higher is closer):
+--   location   same area journal +3, otherwise same city +2
+--   price      comparable USD price (monthly for rentals) within 15% +2, within 30% +1
+--   bedrooms   same +1.5, one apart +0.75
+--   type       same property type +1
+-- Candidates must share the listing type (sale / rent) and score above 1.
+CREATE OR REPLACE FUNCTION public.compute_listing_recommendations(p_listing_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.listings%ROWTYPE;
+  target_price_usd NUMERIC;
+BEGIN
+  SELECT * INTO target FROM public.listings WHERE id = p_listing_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  target_price_usd := public.listing_comparable_price_usd(target);
+
+  DELETE FROM public.listing_recommendations WHERE listing_id = p_listing_id;
+
+  INSERT INTO public.listing_recommendations (listing_id, kind, recommended_id, score)
+  SELECT p_listing_id, 'similar', scored.id, scored.score
+  FROM (
+    SELECT
+      l.id,
+      (CASE
+        WHEN target.area_slug IS NOT NULL AND l.area_slug = target.area_slug THEN 3
+        WHEN target.city IS NOT NULL AND lower(l.city) = lower(target.city) THEN 2
+        ELSE 0
+      END)
+      + (CASE
+        WHEN target_price_usd IS NULL OR target_price_usd <= 0 THEN 0
+        WHEN abs(public.listing_comparable_price_usd(l) - target_price_usd) <= target_price_usd * 0.15 THEN 2
+        WHEN abs(public.listing_comparable_price_usd(l) - target_price_usd) <= target_price_usd * 0.30 THEN 1
+        ELSE 0
+      END)
+      + (CASE
+        WHEN target.bedrooms IS NULL OR l.bedrooms IS NULL THEN 0
+        WHEN l.bedrooms = target.bedrooms THEN 1.5
+        WHEN abs(l.bedrooms - target.bedrooms) = 1 THEN 0.75
+        ELSE 0
+      END)
+      + (CASE WHEN l.property_type IS NOT NULL AND l.property_type = target.property_type THEN 1 ELSE 0 END)
+      AS score
+    FROM public.listings l
+    WHERE l.id <> target.id
+      AND l.status IN ('active', 'under_offer')
+      AND l.listing_type = target.listing_type
+  ) scored
+  -- Property type alone isn't enough to call a listing similar
+  WHERE scored.score > 1
+  ORDER BY scored.score DESC, scored.id DESC
+  LIMIT 24
+  -- Two visitors refreshing the same listing at once
+  ON CONFLICT (listing_id, kind, recommended_id) DO UPDATE SET score = EXCLUDED.score, computed_at = NOW();
+
+  INSERT INTO public.listing_recommendations (listing_id, kind, recommended_id, score)
+  SELECT p_listing_id, 'also_viewed', other.listing_id, COUNT(DISTINCT other.user_id)
+  FROM public.listing_events mine
+  JOIN public.listing_events other
+    ON other.user_id = mine.user_id
+    AND other.event_type = 'view'
+    AND other.listing_id <> mine.listing_id
+    AND other.event_date >= (NOW() AT TIME ZONE 'UTC')::DATE - 90
+  WHERE mine.listing_id = p_listing_id
+    AND mine.event_type = 'view'
+    AND mine.event_date >= (NOW() AT TIME ZONE 'UTC')::DATE - 90
+  GROUP BY other.listing_id
+  -- A single shared viewer would reveal what one person browsed
+  HAVING COUNT(DISTINCT other.user_id) >= 2
+  ORDER BY COUNT(DISTINCT other.user_id) DESC, other.listing_id DESC
+  LIMIT 24
+  ON CONFLICT (listing_id, kind, recommended_id) DO UPDATE SET score = EXCLUDED.score, computed_at = NOW();
+
+  INSERT INTO public.listing_recommendation_runs (listing_id, computed_at)
+  VALUES (p_listing_id, NOW())
+  ON CONFLICT (listing_id) DO UPDATE SET computed_at = EXCLUDED.computed_at;
+END;
+$$;
+
+-- Internal: only called by get_listing_recommendations()
+REVOKE EXECUTE ON FUNCTION public.compute_listing_recommendations(BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Read (refreshes a stale cache)
+-- ============================================
+-- Recommendations for a listing the caller can see, best first, up to
+-- p_limit per kind. Only published listings are returned.
+CREATE OR REPLACE FUNCTION public.get_listing_recommendations(
+  p_listing_id BIGINT,
+  p_limit INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+  kind TEXT,
+  score NUMERIC,
+  id BIGINT,
+  user_id UUID,
+  title TEXT,
+  description TEXT,
+  listing_type TEXT,
+  price NUMERIC,
+  previous_price NUMERIC,
+  currency TEXT,
+  rent_period TEXT,
+  furnished BOOLEAN,
+  available_from DATE,
+  city TEXT,
+  neighbourhood TEXT,
+  image_urls TEXT[],
+  bedrooms INTEGER,
+  bathrooms INTEGER,
+  property_type TEXT,
+  area_sqm NUMERIC,
+  status TEXT
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  last_run TIMESTAMPTZ;
+BEGIN
+  -- Same visibility as the listings SELECT policy (drafts: owner and admins)
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.listings l
+    WHERE l.id = p_listing_id
+    AND (
+      l.status <> 'draft'
+      OR l.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'admin'
+      )
+    )
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT runs.computed_at INTO last_run
+  FROM public.listing_recommendation_runs runs
+  WHERE runs.listing_id = p_listing_id;
+
+  IF last_run IS NULL OR last_run < NOW() - INTERVAL '6 hours' THEN
+    PERFORM public.compute_listing_recommendations(p_listing_id);
+  END IF;
+
+  RETURN QUERY
+  SELECT ranked.kind, ranked.score, l.id, l.user_id, l.title, l.description, l.listing_type,
+    l.price, l.previous_price, l.currency, l.rent_period, l.furnished, l.available_from,
+    l.city, l.neighbourhood, l.image_urls, l.bedrooms, l.bathrooms, l.property_type,
+    l.area_sqm, l.status
+  FROM (
+    SELECT r.kind, r.score, r.recommended_id,
+      ROW_NUMBER() OVER (PARTITION BY r.kind ORDER BY r.score DESC, r.recommended_id DESC) AS position
+    FROM public.listing_recommendations r
+    JOIN public.listings candidate ON candidate.id = r.recommended_id
+    WHERE r.listing_id = p_listing_id
+      AND candidate.status IN ('active', 'under_offer')
+  ) ranked
+  JOIN public.listings l ON l.id = ranked.recommended_id
+  WHERE ranked.position <= LEAST(GREATEST(COALESCE(p_limit, 6), 1), 24)
+  ORDER BY ranked.kind, ranked.position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listing_recommendations(BIGINT, INTEGER) TO authenticated;
@@ -0,0 +1,420 @@
+-- Listing Rentals (sale / rent listings and lease terms)
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listing_location.sql, listing_analytics.sql, listing_feeds.sql
+--           (replaces get_listings_page, listing_sort_key, listing_matches_saved_search,
+--            get_listing_area_comparison and get_listing_feed)
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- A listing is either for sale or for rent. For rentals, price is the rent
+-- per rent_period and the lease terms below apply; sale listings leave them empty.
+-- Rent filters, sorting and area comparisons use the monthly rent
+-- (yearly rents / 12) so monthly and yearly rentals can be compared.
+
+-- ============================================
+-- Columns
+-- ============================================
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS listing_type TEXT NOT NULL DEFAULT 'sale';
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS rent_period TEXT;
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS deposit NUMERIC(14, 2); -- Same currency as price
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS min_lease_months INTEGER;
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS furnished BOOLEAN; -- NULL = not specified
+ALTER TABLE public.listings ADD COLUMN IF NOT EXISTS available_from DATE; -- NULL = available now
+
+-- Listings already marked rented were rentals all along
+UPDATE public.listings
+SET listing_type = 'rent', rent_period = COALESCE(rent_period, 'monthly')
+WHERE status = 'rented' AND listing_type = 'sale';
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_listing_type_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_listing_type_check
+  CHECK (listing_type IN ('sale', 'rent'));
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_rent_period_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_rent_period_check
+  CHECK (rent_period IS NULL OR rent_period IN ('monthly', 'yearly'));
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_deposit_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_deposit_check
+  CHECK (deposit IS NULL OR deposit >= 0);
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_min_lease_months_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_min_lease_months_check
+  CHECK (min_lease_months IS NULL OR min_lease_months BETWEEN 1 AND 120);
+
+-- Rentals need a rent period; sales carry no lease terms
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_rental_terms_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_rental_terms_check
+  CHECK (
+    (listing_type = 'rent' AND rent_period IS NOT NULL)
+    OR (
+      listing_type = 'sale'
+      AND rent_period IS NULL
+      AND deposit IS NULL
+      AND min_lease_months IS NULL
+      AND furnished IS NULL
+      AND available_from IS NULL
+    )
+  );
+
+-- Sales end as sold, rentals as rented
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_status_listing_type_check;
+ALTER TABLE public.listings ADD CONSTRAINT listings_status_listing_type_check
+  CHECK (
+    NOT (listing_type = 'sale' AND status = 'rented')
+    AND NOT (listing_type = 'rent' AND status = 'sold')
+  );
+
+CREATE INDEX IF NOT EXISTS listings_listing_type_idx ON public.listings(listing_type);
+
+-- Switching a listing to sale drops its lease terms, so bulk imports and
+-- edits that only send listing_type don't trip listings_rental_terms_check
+CREATE OR REPLACE FUNCTION public.clear_sale_listing_rental_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.listing_type = 'sale' THEN
+    NEW.rent_period := NULL;
+    NEW.deposit := NULL;
+    NEW.min_lease_months := NULL;
+    NEW.furnished := NULL;
+    NEW.available_from := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_clear_sale_listing_rental_terms ON public.listings;
+CREATE TRIGGER trigger_clear_sale_listing_rental_terms
+  BEFORE INSERT OR UPDATE OF listing_type ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_sale_listing_rental_terms();
+
+-- ============================================
+-- Comparable price
+-- ============================================
+-- Sale price, or the monthly rent for rentals (in the listing's currency)
+CREATE OR REPLACE FUNCTION public.listing_comparable_price(l public.listings)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN l.listing_type = 'rent' AND l.rent_period = 'yearly' THEN l.price / 12
+    ELSE l.price
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.listing_comparable_price_usd(l public.listings)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.convert_price(public.listing_comparable_price(l), l.currency, 'USD');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.listing_comparable_price(public.listings) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.listing_comparable_price_usd(public.listings) TO authenticated;
+
+-- ============================================
+-- Sort key (rents compared per month)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.listing_sort_key(l public.listings, p_sort TEXT, p_query tsquery)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_sort = 'relevance' AND p_query IS NOT NULL THEN -ts_rank_cd(l.search_vector, p_query)::numeric
+    WHEN p_sort = 'price-low' THEN COALESCE(public.listing_comparable_price_usd(l), 'Infinity'::numeric)
+    WHEN p_sort = 'price-high' THEN COALESCE(-public.listing_comparable_price_usd(l), 'Infinity'::numeric)
+    ELSE -EXTRACT(EPOCH FROM COALESCE(l.created_at, 'epoch'::timestamptz))
+  END;
+$$;
+
+-- ============================================
+-- Paginated listings query (adds listing type and rental filters)
+-- ============================================
+-- p_furnished / p_available_by only match rentals.
+-- p_available_by: available on or before this date (no date = available now).
+DROP FUNCTION IF EXISTS public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, TEXT, INTEGER, TEXT, TEXT[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_listings_page(
+  p_query TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD',
+  p_city TEXT DEFAULT NULL,
+  p_min_bedrooms INTEGER DEFAULT NULL,
+  p_property_type TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_listing_type TEXT DEFAULT NULL,
+  p_furnished BOOLEAN DEFAULT NULL,
+  p_available_by DATE DEFAULT NULL,
+  p_min_lat DOUBLE PRECISION DEFAULT NULL,
+  p_max_lat DOUBLE PRECISION DEFAULT NULL,
+  p_min_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_lng DOUBLE PRECISION DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_after_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS SETOF public.listings
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      public.listing_search_query(p_query) AS tsq,
+      public.convert_price(p_min_price, p_currency, 'USD') AS min_usd,
+      public.convert_price(p_max_price, p_currency, 'USD') AS max_usd
+  )
+  SELECT l.*
+  FROM public.listings l, q
+  WHERE
+    (q.tsq IS NULL OR l.search_vector @@ q.tsq)
+    -- Price range: sale price or monthly rent (listings without a price are always included)
+    AND (q.min_usd IS NULL OR l.price IS NULL OR public.listing_comparable_price_usd(l) >= q.min_usd)
+    AND (q.max_usd IS NULL OR l.price IS NULL OR public.listing_comparable_price_usd(l) <= q.max_usd)
+    AND (p_city IS NULL OR btrim(p_city) = '' OR l.city ILIKE '%' || btrim(p_city) || '%')
+    AND (p_min_bedrooms IS NULL OR l.bedrooms >= p_min_bedrooms)
+    AND (p_property_type IS NULL OR l.property_type = p_property_type)
+    AND (p_listing_type IS NULL OR l.listing_type = p_listing_type)
+    AND (p_furnished IS NULL OR (l.listing_type = 'rent' AND l.furnished = p_furnished))
+    AND (
+      p_available_by IS NULL
+      OR (l.listing_type = 'rent' AND (l.available_from IS NULL OR l.available_from <= p_available_by))
+    )
+    -- Drafts are still limited to the owner by RLS
+    AND l.status = ANY(COALESCE(p_statuses, ARRAY['active', 'under_offer']))
+    -- Bounding box (only pinned listings match)
+    AND (p_min_lat IS NULL OR l.latitude >= p_min_lat)
+    AND (p_max_lat IS NULL OR l.latitude <= p_max_lat)
+    AND (
+      p_min_lng IS NULL OR p_max_lng IS NULL
+      OR (p_min_lng <= p_max_lng AND l.longitude BETWEEN p_min_lng AND p_max_lng)
+      OR (p_min_lng > p_max_lng AND (l.longitude >= p_min_lng OR l.longitude <= p_max_lng))
+    )
+    -- Cursor: rows strictly after the last row of the previous page
+    AND (
+      p_after_id IS NULL
+      OR (public.listing_sort_key(l, p_sort, q.tsq), -l.id) > (
+        SELECT public.listing_sort_key(c, p_sort, q.tsq), -c.id
+        FROM public.listings c
+        WHERE c.id = p_after_id
+      )
+    )
+  ORDER BY public.listing_sort_key(l, p_sort, q.tsq), l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, TEXT, INTEGER, TEXT, TEXT[], TEXT, BOOLEAN, DATE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, BIGINT, INTEGER) TO authenticated;
+
+-- ============================================
+-- Saved searches (listing type and furnished)
+-- ============================================
+ALTER TABLE public.saved_searches ADD COLUMN IF NOT EXISTS listing_type TEXT;
+ALTER TABLE public.saved_searches ADD COLUMN IF NOT EXISTS furnished BOOLEAN;
+
+ALTER TABLE public.saved_searches DROP CONSTRAINT IF EXISTS saved_searches_listing_type_check;
+ALTER TABLE public.saved_searches ADD CONSTRAINT saved_searches_listing_type_check
+  CHECK (listing_type IS NULL OR listing_type IN ('sale', 'rent'));
+
+CREATE OR REPLACE FUNCTION public.listing_matches_saved_search(l public.listings, s public.saved_searches)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (s.query IS NULL OR btrim(s.query) = '' OR l.search_vector @@ public.listing_search_query(s.query))
+    AND (s.min_price IS NULL OR l.price IS NULL OR public.convert_price(public.listing_comparable_price(l), l.currency, s.currency) >= s.min_price)
+    AND (s.max_price IS NULL OR l.price IS NULL OR public.convert_price(public.listing_comparable_price(l), l.currency, s.currency) <= s.max_price)
+    AND (s.city IS NULL OR btrim(s.city) = '' OR l.city ILIKE '%' || btrim(s.city) || '%')
+    AND (s.min_bedrooms IS NULL OR l.bedrooms >= s.min_bedrooms)
+    AND (s.property_type IS NULL OR l.property_type = s.property_type)
+    AND (s.listing_type IS NULL OR l.listing_type = s.listing_type)
+    AND (s.furnished IS NULL OR (l.listing_type = 'rent' AND l.furnished = s.furnished));
+$$;
+
+-- ============================================
+-- Analytics area comparison (same listing type only)
+-- ============================================
+-- Rentals are compared with rentals on monthly rent per m²,
+-- sales with sales on price per m².
+CREATE OR REPLACE FUNCTION public.get_listing_area_comparison(p_listing_id BIGINT, p_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  area_label TEXT,
+  peer_count BIGINT,
+  views BIGINT,
+  contact_clicks BIGINT,
+  saves BIGINT,
+  price_per_sqm_usd NUMERIC,
+  avg_views NUMERIC,
+  avg_contact_clicks NUMERIC,
+  avg_saves NUMERIC,
+  avg_price_per_sqm_usd NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.listings%ROWTYPE;
+  first_day DATE := (NOW() AT TIME ZONE 'UTC')::DATE - (LEAST(GREATEST(COALESCE(p_days, 30), 1), 365) - 1);
+BEGIN
+  IF NOT public.can_view_listing_analytics(p_listing_id) THEN
+    RAISE EXCEPTION 'Permission denied. Only the listing owner can view analytics.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target FROM public.listings WHERE id = p_listing_id;
+
+  RETURN QUERY
+  WITH area_listings AS (
+    SELECT l.id, public.listing_comparable_price_usd(l) AS price_usd, l.area_sqm
+    FROM public.listings l
+    WHERE l.status IN ('active', 'under_offer', 'sold', 'rented')
+      AND l.listing_type = target.listing_type
+      AND (
+        (target.area_slug IS NOT NULL AND l.area_slug = target.area_slug)
+        OR (target.area_slug IS NULL AND target.city IS NOT NULL AND lower(l.city) = lower(target.city))
+      )
+    UNION
+    SELECT target.id, public.listing_comparable_price_usd(target), target.area_sqm
+  ),
+  stats AS (
+    SELECT
+      a.id,
+      (SELECT COUNT(*) FROM public.listing_events e
+        WHERE e.listing_id = a.id AND e.event_type = 'view' AND e.event_date >= first_day) AS views,
+      (SELECT COUNT(*) FROM public.listing_events e
+        WHERE e.listing_id = a.id AND e.event_type = 'contact_click' AND e.event_date >= first_day) AS contact_clicks,
+      (SELECT COUNT(*) FROM public.listing_favorites f
+        WHERE f.listing_id = a.id AND (f.created_at AT TIME ZONE 'UTC')::DATE >= first_day) AS saves,
+      CASE WHEN a.price_usd IS NOT NULL AND a.area_sqm > 0
+        THEN a.price_usd / a.area_sqm
+      END AS price_per_sqm_usd
+    FROM area_listings a
+  )
+  SELECT
+    COALESCE(
+      (SELECT j.name FROM public.area_journals j WHERE j.slug = target.area_slug),
+      target.city
+    )::TEXT,
+    (SELECT COUNT(*) FROM stats WHERE stats.id <> target.id),
+    s.views,
+    s.contact_clicks,
+    s.saves,
+    ROUND(s.price_per_sqm_usd, 2),
+    (SELECT ROUND(AVG(p.views), 1) FROM stats p WHERE p.id <> target.id),
+    (SELECT ROUND(AVG(p.contact_clicks), 1) FROM stats p WHERE p.id <> target.id),
+    (SELECT ROUND(AVG(p.saves), 1) FROM stats p WHERE p.id <> target.id),
+    (SELECT ROUND(AVG(p.price_per_sqm_usd), 2) FROM stats p WHERE p.id <> target.id)
+  FROM stats s
+  WHERE s.id = target.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listing_area_comparison(BIGINT, INTEGER) TO authenticated;
+
+-- ============================================
+-- Syndication feed (adds listing type and lease terms)
+-- ============================================
+-- The return type changes, so the function is dropped first
+DROP FUNCTION IF EXISTS public.get_listing_feed(TEXT, UUID, TIMESTAMPTZ, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_listing_feed(
+  p_token TEXT,
+  p_owner_id UUID DEFAULT NULL,
+  p_updated_since TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  id BIGINT,
+  user_id UUID,
+  owner_name TEXT,
+  external_ref TEXT,
+  title TEXT,
+  description TEXT,
+  listing_type TEXT,
+  price NUMERIC,
+  currency TEXT,
+  rent_period TEXT,
+  deposit NUMERIC,
+  min_lease_months INTEGER,
+  furnished BOOLEAN,
+  available_from DATE,
+  property_type TEXT,
+  bedrooms INTEGER,
+  bathrooms INTEGER,
+  area_sqm NUMERIC,
+  city TEXT,
+  neighbourhood TEXT,
+  address TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  image_urls TEXT[],
+  image_captions TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  feed_owner UUID;
+  feed_owner_is_admin BOOLEAN;
+  owner_filter UUID;
+BEGIN
+  SELECT t.user_id, COALESCE(p.role = 'admin', false)
+  INTO feed_owner, feed_owner_is_admin
+  FROM listing_feed_tokens t
+  LEFT JOIN profiles p ON p.id = t.user_id
+  WHERE t.token = p_token;
+
+  IF feed_owner IS NULL THEN
+    RAISE EXCEPTION 'Invalid feed token'
+      USING ERRCODE = '28000';
+  END IF;
+
+  IF feed_owner_is_admin THEN
+    owner_filter := p_owner_id;
+  ELSIF p_owner_id IS NULL OR p_owner_id = feed_owner THEN
+    owner_filter := feed_owner;
+  ELSE
+    RAISE EXCEPTION 'This feed token can only publish its owner''s listings'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id, l.user_id, pr.display_name, l.external_ref, l.title, l.description,
+    l.listing_type, l.price, l.currency, l.rent_period, l.deposit, l.min_lease_months,
+    l.furnished, l.available_from,
+    l.property_type, l.bedrooms, l.bathrooms, l.area_sqm,
+    l.city, l.neighbourhood, l.address, l.latitude, l.longitude,
+    l.image_urls, l.image_captions, l.created_at, l.updated_at
+  FROM listings l
+  LEFT JOIN profiles pr ON pr.id = l.user_id
+  WHERE l.status = 'active'
+    AND (owner_filter IS NULL OR l.user_id = owner_filter)
+    AND (p_updated_since IS NULL OR COALESCE(l.updated_at, l.created_at) >= p_updated_since)
+  ORDER BY l.created_at DESC, l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 1000);
+END;
+$$;
+
+-- Feed readers (portals, agency websites) call this without a session
+GRANT EXECUTE ON FUNCTION public.get_listing_feed(TEXT, UUID, TIMESTAMPTZ, INTEGER) TO anon, authenticated;
+
+-- RLS: existing listings policies (listings.sql) already cover these columns
@@ -0,0 +1,419 @@
+-- Listing Status Lifecycle
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listings_search.sql, saved_searches.sql
+--           (replaces get_listings_page / search_listings and the saved-search trigger)
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- Statuses:
+--   draft       -> only visible to the owner (and admins)
+--   active      -> published; expires automatically after listing_settings.expiry_days
+--   under_offer -> still shown, but an offer is being negotiated
+--   sold/rented -> closed; kept for history instead of being deleted
+--   expired     -> set by expire_listings(); the owner can re-activate it
+--
+-- Allowed transitions (admins may set any status):
+--   draft       -> active
+--   active      -> draft, under_offer, sold, rented
+--   under_offer -> active, sold, rented
+--   sold        -> (none)
+--   rented      -> active
+--   expired     -> active, draft
+--   active      -> expired (expire_listings() only)
+--
+-- NOTE: Keep statuses and transitions in sync with lib/listings.ts
+
+-- ============================================
+-- Columns
+-- ============================================
+-- Existing listings were all public, so they start out as 'active'
+ALTER TABLE public.listings
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+ALTER TABLE public.listings DROP CONSTRAINT IF EXISTS listings_status_check;
+ALTER TABLE public.listings
+  ADD CONSTRAINT listings_status_check CHECK (
+    status IN ('draft', 'active', 'under_offer', 'sold', 'rented', 'expired')
+  );
+
+-- Listings that existed before this migration count as published at creation
+UPDATE public.listings
+  SET published_at = created_at
+  WHERE published_at IS NULL AND status <> 'draft';
+
+CREATE INDEX IF NOT EXISTS listings_status_idx ON public.listings(status);
+CREATE INDEX IF NOT EXISTS listings_active_status_changed_at_idx
+  ON public.listings(status_changed_at) WHERE status = 'active';
+
+-- ============================================
+-- Settings (auto-expiry)
+-- ============================================
+-- Single-row table; admins change expiry_days from the SQL editor or the admin panel
+CREATE TABLE IF NOT EXISTS public.listing_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  expiry_days INTEGER NOT NULL DEFAULT 90 CHECK (expiry_days BETWEEN 1 AND 3650),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO public.listing_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.listing_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view listing settings" ON public.listing_settings;
+DROP POLICY IF EXISTS "Admins can update listing settings" ON public.listing_settings;
+
+-- SELECT: Everyone can read settings (owners see when their listing expires)
+CREATE POLICY "Authenticated users can view listing settings"
+  ON public.listing_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- UPDATE: Admins only
+CREATE POLICY "Admins can update listing settings"
+  ON public.listing_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+GRANT SELECT, UPDATE ON public.listing_settings TO authenticated;
+
+-- ============================================
+-- Status history
+-- ============================================
+-- One row per status change; written by trigger only
+CREATE TABLE IF NOT EXISTS public.listing_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL = system (auto-expiry)
+  changed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS listing_status_history_listing_id_idx
+  ON public.listing_status_history(listing_id, changed_at DESC);
+
+ALTER TABLE public.listing_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners and admins can view listing status history" ON public.listing_status_history;
+
+-- SELECT: Listing owner or admin
+CREATE POLICY "Owners and admins can view listing status history"
+  ON public.listing_status_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_status_history.listing_id
+      AND listings.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+GRANT SELECT ON public.listing_status_history TO authenticated;
+
+-- ============================================
+-- RLS: drafts are private
+-- ============================================
+-- Replaces the "view all listings" policy from listings.sql
+DROP POLICY IF EXISTS "Authenticated users can view all listings" ON public.listings;
+DROP POLICY IF EXISTS "Authenticated users can view published listings" ON public.listings;
+
+CREATE POLICY "Authenticated users can view published listings"
+  ON public.listings FOR SELECT
+  TO authenticated
+  USING (
+    status <> 'draft'
+    OR user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- ============================================
+-- Transition rules
+-- ============================================
+CREATE OR REPLACE FUNCTION public.listing_status_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'draft' THEN p_to IN ('active')
+    WHEN 'active' THEN p_to IN ('draft', 'under_offer', 'sold', 'rented')
+    WHEN 'under_offer' THEN p_to IN ('active', 'sold', 'rented')
+    WHEN 'rented' THEN p_to IN ('active')
+    WHEN 'expired' THEN p_to IN ('active', 'draft')
+    ELSE false
+  END;
+$$;
+
+-- BEFORE INSERT/UPDATE: validate the change and maintain the timestamps
+CREATE OR REPLACE FUNCTION public.handle_listing_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  is_admin BOOLEAN;
+BEGIN
+  is_admin := EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'active') AND NOT is_admin THEN
+      RAISE EXCEPTION 'New listings must be a draft or active (got %)', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.status_changed_at := NOW();
+    -- Set below when the listing goes live, never by the client
+    NEW.published_at := NULL;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    -- auth.uid() is NULL when expire_listings() runs from pg_cron
+    IF NOT is_admin
+       AND NOT public.listing_status_transition_allowed(OLD.status, NEW.status)
+       AND NOT (OLD.status = 'active' AND NEW.status = 'expired' AND auth.uid() IS NULL)
+    THEN
+      RAISE EXCEPTION 'Cannot change listing status from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.status_changed_at := NOW();
+    IF NOT is_admin THEN
+      NEW.published_at := OLD.published_at;
+    END IF;
+  ELSIF NOT is_admin THEN
+    -- Only the trigger maintains the timestamps (admins may correct them)
+    NEW.status_changed_at := OLD.status_changed_at;
+    NEW.published_at := OLD.published_at;
+  END IF;
+
+  -- First time a listing goes live
+  IF NEW.status = 'active' AND NEW.published_at IS NULL THEN
+    NEW.published_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER INSERT/UPDATE: record the change (SECURITY DEFINER; users can't write history directly)
+CREATE OR REPLACE FUNCTION public.record_listing_status_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.listing_status_history (listing_id, from_status, to_status, changed_by)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_handle_listing_status_change ON public.listings;
+CREATE TRIGGER trigger_handle_listing_status_change
+  BEFORE INSERT OR UPDATE ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_listing_status_change();
+
+DROP TRIGGER IF EXISTS trigger_record_listing_status_history ON public.listings;
+CREATE TRIGGER trigger_record_listing_status_history
+  AFTER INSERT OR UPDATE OF status ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_listing_status_history();
+
+-- ============================================
+-- Auto-expiry
+-- ============================================
+-- Expires active listings that have been live for more than expiry_days
+-- Returns the number of listings expired
+CREATE OR REPLACE FUNCTION public.expire_listings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.listings l
+  SET status = 'expired'
+  FROM public.listing_settings s
+  WHERE l.status = 'active'
+    AND l.status_changed_at < NOW() - make_interval(days => s.expiry_days);
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+-- Only the scheduler (or service role) should run this
+REVOKE EXECUTE ON FUNCTION public.expire_listings() FROM PUBLIC, anon, authenticated;
+
+-- Run hourly with pg_cron when the extension is enabled
+-- (Database -> Extensions -> pg_cron). Without it, schedule
+-- `SELECT public.expire_listings();` from any external cron.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-listings', '0 * * * *', 'SELECT public.expire_listings()');
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- Paginated listings query (adds status filter)
+-- ============================================
+-- p_statuses NULL = what buyers browse by default (active + under offer)
+DROP FUNCTION IF EXISTS public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, TEXT, TEXT, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_listings_page(
+  p_query TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_min_bedrooms INTEGER DEFAULT NULL,
+  p_property_type TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_after_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS SETOF public.listings
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.listing_search_query(p_query) AS tsq
+  )
+  SELECT l.*
+  FROM public.listings l, q
+  WHERE
+    (q.tsq IS NULL OR l.search_vector @@ q.tsq)
+    -- Price range (listings without a price are always included)
+    AND (p_min_price IS NULL OR l.price IS NULL OR l.price >= p_min_price)
+    AND (p_max_price IS NULL OR l.price IS NULL OR l.price <= p_max_price)
+    AND (p_city IS NULL OR btrim(p_city) = '' OR l.city ILIKE '%' || btrim(p_city) || '%')
+    AND (p_min_bedrooms IS NULL OR l.bedrooms >= p_min_bedrooms)
+    AND (p_property_type IS NULL OR l.property_type = p_property_type)
+    -- Drafts are still limited to the owner by RLS
+    AND l.status = ANY(COALESCE(p_statuses, ARRAY['active', 'under_offer']))
+    -- Cursor: rows strictly after the last row of the previous page
+    AND (
+      p_after_id IS NULL
+      OR (public.listing_sort_key(l, p_sort, q.tsq), -l.id) > (
+        SELECT public.listing_sort_key(c, p_sort, q.tsq), -c.id
+        FROM public.listings c
+        WHERE c.id = p_after_id
+      )
+    )
+  ORDER BY public.listing_sort_key(l, p_sort, q.tsq), l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$;
+
+-- ============================================
+-- Ranked search (only live listings, unless ids are given)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.search_listings(
+  p_query TEXT,
+  p_ids BIGINT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id BIGINT,
+  user_id UUID,
+  title TEXT,
+  city TEXT,
+  price NUMERIC,
+  image_urls TEXT[],
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.listing_search_query(p_query) AS tsq
+  )
+  SELECT
+    l.id,
+    l.user_id,
+    l.title,
+    l.city,
+    l.price,
+    l.image_urls,
+    ts_rank_cd(l.search_vector, q.tsq) AS rank,
+    ts_headline('english'::regconfig, l.title, q.tsq,
+      'StartSel=⟦, StopSel=⟧, HighlightAll=true') AS title_highlight,
+    ts_headline('english'::regconfig, COALESCE(l.description, '') || ' ' || COALESCE(l.city, ''), q.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "') AS snippet
+  FROM public.listings l, q
+  WHERE q.tsq IS NOT NULL
+    AND l.search_vector @@ q.tsq
+    AND (
+      (p_ids IS NULL AND l.status IN ('active', 'under_offer'))
+      OR l.id = ANY(p_ids)
+    )
+  ORDER BY rank DESC, l.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, TEXT, TEXT[], TEXT, BIGINT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_listings(TEXT, BIGINT[], INTEGER) TO authenticated;
+
+-- ============================================
+-- Saved-search alerts fire on publish, not on insert
+-- ============================================
+-- create_saved_search_notifications() (saved_searches.sql) is unchanged;
+-- the trigger now runs when a listing first goes active, so drafts
+-- don't alert anyone and publishing a draft later does.
+DROP TRIGGER IF EXISTS trigger_create_saved_search_notifications ON public.listings;
+
+CREATE TRIGGER trigger_create_saved_search_notifications
+  AFTER INSERT ON public.listings
+  FOR EACH ROW
+  WHEN (NEW.status = 'active')
+  EXECUTE FUNCTION public.create_saved_search_notifications();
+
+DROP TRIGGER IF EXISTS trigger_create_saved_search_notifications_on_publish ON public.listings;
+
+CREATE TRIGGER trigger_create_saved_search_notifications_on_publish
+  AFTER UPDATE OF status ON public.listings
+  FOR EACH ROW
+  WHEN (OLD.published_at IS NULL AND NEW.published_at IS NOT NULL)
+  EXECUTE FUNCTION public.create_saved_search_notifications();
@@ -0,0 +1,341 @@
+-- Listing Viewing Appointments
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listing_status.sql, notifications.sql,
+--           fix_notifications_entity_id_type.sql, listing_price_history.sql
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- Owners publish viewing slots on their listing; other users request a slot
+-- and the owner confirms or declines. Both sides are notified.
+--
+-- Request statuses:
+--   pending   -> confirmed, declined (owner) | cancelled (requester)
+--   confirmed -> cancelled (either side)
+--   declined / cancelled -> (none)
+-- Confirming a request declines the other pending requests for that slot.
+--
+-- NOTE: Keep statuses and transitions in sync with lib/viewings.ts
+
+-- ============================================
+-- Slots
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_viewing_slots (
+  id BIGSERIAL PRIMARY KEY,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  is_booked BOOLEAN NOT NULL DEFAULT false, -- maintained by trigger (a request is confirmed)
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT listing_viewing_slots_time_check
+    CHECK (ends_at > starts_at AND ends_at - starts_at <= INTERVAL '4 hours'),
+  CONSTRAINT listing_viewing_slots_listing_start_key UNIQUE (listing_id, starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS listing_viewing_slots_listing_id_starts_at_idx
+  ON public.listing_viewing_slots(listing_id, starts_at);
+
+ALTER TABLE public.listing_viewing_slots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view slots of visible listings" ON public.listing_viewing_slots;
+DROP POLICY IF EXISTS "Owners can add viewing slots" ON public.listing_viewing_slots;
+DROP POLICY IF EXISTS "Owners can delete unbooked viewing slots" ON public.listing_viewing_slots;
+
+-- SELECT: Anyone who can see the listing (the listings RLS hides drafts)
+CREATE POLICY "Users can view slots of visible listings"
+  ON public.listing_viewing_slots FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_viewing_slots.listing_id
+    )
+  );
+
+-- INSERT: Listing owner, future slots only
+CREATE POLICY "Owners can add viewing slots"
+  ON public.listing_viewing_slots FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    starts_at > NOW()
+    AND is_booked = false
+    AND EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_viewing_slots.listing_id
+      AND listings.user_id = auth.uid()
+    )
+  );
+
+-- DELETE: Listing owner; a confirmed viewing must be cancelled first
+CREATE POLICY "Owners can delete unbooked viewing slots"
+  ON public.listing_viewing_slots FOR DELETE
+  TO authenticated
+  USING (
+    is_booked = false
+    AND EXISTS (
+      SELECT 1 FROM public.listings
+      WHERE listings.id = listing_viewing_slots.listing_id
+      AND listings.user_id = auth.uid()
+    )
+  );
+
+GRANT SELECT, INSERT, DELETE ON public.listing_viewing_slots TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.listing_viewing_slots_id_seq TO authenticated;
+
+-- ============================================
+-- Requests
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.listing_viewing_requests (
+  id BIGSERIAL PRIMARY KEY,
+  slot_id BIGINT NOT NULL REFERENCES public.listing_viewing_slots(id) ON DELETE CASCADE,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE, -- set by trigger
+  requester_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,     -- set by trigger
+  status TEXT NOT NULL DEFAULT 'pending',
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  responded_at TIMESTAMPTZ,
+  CONSTRAINT listing_viewing_requests_status_check
+    CHECK (status IN ('pending', 'confirmed', 'declined', 'cancelled')),
+  CONSTRAINT listing_viewing_requests_note_check
+    CHECK (note IS NULL OR char_length(note) <= 500)
+);
+
+-- One confirmed viewing per slot, one open request per user per slot
+CREATE UNIQUE INDEX IF NOT EXISTS listing_viewing_requests_confirmed_slot_key
+  ON public.listing_viewing_requests(slot_id) WHERE status = 'confirmed';
+CREATE UNIQUE INDEX IF NOT EXISTS listing_viewing_requests_open_requester_key
+  ON public.listing_viewing_requests(slot_id, requester_id) WHERE status IN ('pending', 'confirmed');
+CREATE INDEX IF NOT EXISTS listing_viewing_requests_requester_id_idx
+  ON public.listing_viewing_requests(requester_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS listing_viewing_requests_owner_id_idx
+  ON public.listing_viewing_requests(owner_id, created_at DESC);
+
+ALTER TABLE public.listing_viewing_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view viewing requests" ON public.listing_viewing_requests;
+DROP POLICY IF EXISTS "Users can request viewings" ON public.listing_viewing_requests;
+DROP POLICY IF EXISTS "Participants can update viewing requests" ON public.listing_viewing_requests;
+
+-- SELECT: The requester and the listing owner
+CREATE POLICY "Participants can view viewing requests"
+  ON public.listing_viewing_requests FOR SELECT
+  TO authenticated
+  USING (requester_id = auth.uid() OR owner_id = auth.uid());
+
+-- INSERT: As yourself, pending only (the trigger checks the slot)
+CREATE POLICY "Users can request viewings"
+  ON public.listing_viewing_requests FOR INSERT
+  TO authenticated
+  WITH CHECK (requester_id = auth.uid() AND status = 'pending');
+
+-- UPDATE: Either side; the trigger decides which status changes are allowed
+CREATE POLICY "Participants can update viewing requests"
+  ON public.listing_viewing_requests FOR UPDATE
+  TO authenticated
+  USING (requester_id = auth.uid() OR owner_id = auth.uid())
+  WITH CHECK (requester_id = auth.uid() OR owner_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE ON public.listing_viewing_requests TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.listing_viewing_requests_id_seq TO authenticated;
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+-- BEFORE INSERT: copy listing/owner from the slot and check it can be requested
+CREATE OR REPLACE FUNCTION public.handle_viewing_request_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  slot_record RECORD;
+BEGIN
+  SELECT s.listing_id, s.starts_at, s.is_booked, l.user_id, l.status
+  INTO slot_record
+  FROM public.listing_viewing_slots s
+  JOIN public.listings l ON l.id = s.listing_id
+  WHERE s.id = NEW.slot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Viewing slot not found' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  IF slot_record.user_id = NEW.requester_id THEN
+    RAISE EXCEPTION 'You cannot request a viewing of your own listing' USING ERRCODE = 'check_violation';
+  END IF;
+  IF slot_record.status NOT IN ('active', 'under_offer') THEN
+    RAISE EXCEPTION 'This listing is not open for viewings' USING ERRCODE = 'check_violation';
+  END IF;
+  IF slot_record.starts_at <= NOW() THEN
+    RAISE EXCEPTION 'This viewing slot has already started' USING ERRCODE = 'check_violation';
+  END IF;
+  IF slot_record.is_booked THEN
+    RAISE EXCEPTION 'This viewing slot is already booked' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.listing_id := slot_record.listing_id;
+  NEW.owner_id := slot_record.user_id;
+  NEW.status := 'pending';
+  NEW.responded_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE UPDATE: only the status may change, following the rules above
+CREATE OR REPLACE FUNCTION public.handle_viewing_request_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  is_owner BOOLEAN := COALESCE(auth.uid() = OLD.owner_id, false);
+  is_requester BOOLEAN := COALESCE(auth.uid() = OLD.requester_id, false);
+BEGIN
+  IF NEW.slot_id IS DISTINCT FROM OLD.slot_id
+     OR NEW.listing_id IS DISTINCT FROM OLD.listing_id
+     OR NEW.requester_id IS DISTINCT FROM OLD.requester_id
+     OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+     OR NEW.note IS DISTINCT FROM OLD.note
+     OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only the status of a viewing request can change' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'declined') AND is_owner)
+    OR (OLD.status = 'pending' AND NEW.status = 'cancelled' AND is_requester)
+    OR (OLD.status = 'confirmed' AND NEW.status = 'cancelled' AND (is_owner OR is_requester))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change viewing request from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.responded_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER UPDATE: keep slots.is_booked in sync and decline competing requests
+-- (SECURITY DEFINER; requesters can't update slots directly)
+CREATE OR REPLACE FUNCTION public.sync_viewing_slot_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND OLD.status <> 'confirmed' THEN
+    UPDATE public.listing_viewing_slots SET is_booked = true WHERE id = NEW.slot_id;
+
+    UPDATE public.listing_viewing_requests
+    SET status = 'declined'
+    WHERE slot_id = NEW.slot_id
+      AND id <> NEW.id
+      AND status = 'pending';
+  ELSIF OLD.status = 'confirmed' AND NEW.status <> 'confirmed' THEN
+    UPDATE public.listing_viewing_slots SET is_booked = false WHERE id = NEW.slot_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_handle_viewing_request_insert ON public.listing_viewing_requests;
+CREATE TRIGGER trigger_handle_viewing_request_insert
+  BEFORE INSERT ON public.listing_viewing_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_viewing_request_insert();
+
+DROP TRIGGER IF EXISTS trigger_handle_viewing_request_update ON public.listing_viewing_requests;
+CREATE TRIGGER trigger_handle_viewing_request_update
+  BEFORE UPDATE ON public.listing_viewing_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_viewing_request_update();
+
+DROP TRIGGER IF EXISTS trigger_sync_viewing_slot_booking ON public.listing_viewing_requests;
+CREATE TRIGGER trigger_sync_viewing_slot_booking
+  AFTER UPDATE OF status ON public.listing_viewing_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_viewing_slot_booking();
+
+-- ============================================
+-- Extend notifications.type with viewing events
+-- ============================================
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'follow', 'new_post', 'message', 'saved_search_match', 'price_drop',
+    'viewing_request', 'viewing_confirmed', 'viewing_declined', 'viewing_cancelled'
+  ));
+
+-- Function to notify the other side of a viewing request
+-- New request -> owner; confirmed/declined -> requester; cancelled -> whoever didn't cancel
+CREATE OR REPLACE FUNCTION public.create_viewing_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  listing_title TEXT;
+  slot_start TIMESTAMPTZ;
+  actor UUID := COALESCE(auth.uid(), NEW.owner_id);
+  recipient UUID;
+  actor_name TEXT;
+  notification_title TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT l.title, s.starts_at INTO listing_title, slot_start
+  FROM public.listing_viewing_slots s
+  JOIN public.listings l ON l.id = s.listing_id
+  WHERE s.id = NEW.slot_id;
+
+  SELECT display_name INTO actor_name
+  FROM public.profiles
+  WHERE id = actor;
+
+  IF TG_OP = 'INSERT' THEN
+    recipient := NEW.owner_id;
+    notification_title := COALESCE(actor_name, 'Someone') || ' requested a viewing';
+  ELSIF NEW.status = 'confirmed' THEN
+    recipient := NEW.requester_id;
+    notification_title := 'Your viewing was confirmed';
+  ELSIF NEW.status = 'declined' THEN
+    recipient := NEW.requester_id;
+    notification_title := 'Your viewing request was declined';
+  ELSIF NEW.status = 'cancelled' THEN
+    recipient := CASE WHEN actor = NEW.requester_id THEN NEW.owner_id ELSE NEW.requester_id END;
+    notification_title := COALESCE(actor_name, 'Someone') || ' cancelled a viewing';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, actor_id, type, entity_id_bigint, title, body)
+  VALUES (
+    recipient,
+    actor,
+    CASE WHEN TG_OP = 'INSERT' THEN 'viewing_request' ELSE 'viewing_' || NEW.status END,
+    NEW.listing_id,  -- listings.id is BIGINT
+    notification_title,
+    LEFT(listing_title, 100) || CASE WHEN LENGTH(listing_title) > 100 THEN '...' ELSE '' END
+      || ' · ' || to_char(slot_start AT TIME ZONE 'UTC', 'Mon DD, HH24:MI') || ' UTC'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_create_viewing_notification ON public.listing_viewing_requests;
+
+-- Trigger: Notify on new requests and on every status change
+CREATE TRIGGER trigger_create_viewing_notification
+  AFTER INSERT OR UPDATE OF status ON public.listing_viewing_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_viewing_notification();
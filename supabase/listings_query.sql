@@ -0,0 +1,83 @@
+-- Listings Query (Server-side filtering + cursor pagination)
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listing_images.sql, listing_attributes.sql
+-- Safe to re-run (uses CREATE OR REPLACE)
+--
+-- Usage from the client:
+--   supabase.rpc('get_listings_page', { p_sort: 'newest', p_limit: 24 })
+--   supabase.rpc('get_listings_page', { p_sort: 'newest', p_after_id: <last id of previous page> })
+--
+-- The cursor is the id of the last listing on the previous page. Its sort key is
+-- looked up server-side, so the client never needs to reproduce timestamps exactly.
+
+-- ============================================
+-- Sort key helper
+-- ============================================
+-- Maps every sort option onto a single ascending numeric key so one keyset
+-- condition works for all of them:
+--   newest     -> -epoch(created_at)        (most recent first)
+--   price-low  ->  price, NULL last
+--   price-high -> -price, NULL last
+CREATE OR REPLACE FUNCTION public.listing_sort_key(l public.listings, p_sort TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_sort
+    WHEN 'price-low' THEN COALESCE(l.price, 'Infinity'::numeric)
+    WHEN 'price-high' THEN COALESCE(-l.price, 'Infinity'::numeric)
+    ELSE -EXTRACT(EPOCH FROM COALESCE(l.created_at, 'epoch'::timestamptz))
+  END;
+$$;
+
+-- ============================================
+-- Paginated listings query
+-- ============================================
+-- SECURITY INVOKER: listings RLS policies still apply to the caller
+CREATE OR REPLACE FUNCTION public.get_listings_page(
+  p_query TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_min_bedrooms INTEGER DEFAULT NULL,
+  p_property_type TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_after_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS SETOF public.listings
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT l.*
+  FROM public.listings l
+  WHERE
+    -- Keyword (title, description, city)
+    (
+      p_query IS NULL OR btrim(p_query) = ''
+      OR l.title ILIKE '%' || btrim(p_query) || '%'
+      OR l.description ILIKE '%' || btrim(p_query) || '%'
+      OR l.city ILIKE '%' || btrim(p_query) || '%'
+    )
+    -- Price range (listings without a price are always included)
+    AND (p_min_price IS NULL OR l.price IS NULL OR l.price >= p_min_price)
+    AND (p_max_price IS NULL OR l.price IS NULL OR l.price <= p_max_price)
+    AND (p_city IS NULL OR btrim(p_city) = '' OR l.city ILIKE '%' || btrim(p_city) || '%')
+    AND (p_min_bedrooms IS NULL OR l.bedrooms >= p_min_bedrooms)
+    AND (p_property_type IS NULL OR l.property_type = p_property_type)
+    -- Cursor: rows strictly after the last row of the previous page
+    AND (
+      p_after_id IS NULL
+      OR (public.listing_sort_key(l, p_sort), -l.id) > (
+        SELECT public.listing_sort_key(c, p_sort), -c.id
+        FROM public.listings c
+        WHERE c.id = p_after_id
+      )
+    )
+  ORDER BY public.listing_sort_key(l, p_sort), l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, TEXT, TEXT, BIGINT, INTEGER) TO authenticated;
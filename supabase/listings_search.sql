@@ -0,0 +1,161 @@
+-- Listings Full-Text Search
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings_query.sql (replaces listing_sort_key / get_listings_page)
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE)
+--
+-- Search covers title (weight A), city (weight B) and description (weight C).
+-- Every field is indexed twice:
+--   'english' -> stemmed matches ("apartments" finds "apartment")
+--   'simple'  -> exact tokens in any script, so Arabic text is searchable too
+
+-- ============================================
+-- Search vector + index
+-- ============================================
+ALTER TABLE public.listings
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(city, '')), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, COALESCE(city, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(description, '')), 'C') ||
+    setweight(to_tsvector('simple'::regconfig, COALESCE(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS listings_search_vector_idx ON public.listings USING GIN(search_vector);
+
+-- ============================================
+-- Query helper
+-- ============================================
+-- Accepts web-search syntax (quoted phrases, -exclusions, or) and returns
+-- NULL for blank input so callers can skip the search condition
+CREATE OR REPLACE FUNCTION public.listing_search_query(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_query IS NULL OR btrim(p_query) = '' THEN NULL
+    ELSE websearch_to_tsquery('english'::regconfig, p_query) || websearch_to_tsquery('simple'::regconfig, p_query)
+  END;
+$$;
+
+-- ============================================
+-- Sort key (adds 'relevance')
+-- ============================================
+-- Same contract as listing_sort_key(listings, text) in listings_query.sql;
+-- 'relevance' falls back to newest when there is no query
+CREATE OR REPLACE FUNCTION public.listing_sort_key(l public.listings, p_sort TEXT, p_query tsquery)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_sort = 'relevance' AND p_query IS NOT NULL THEN -ts_rank_cd(l.search_vector, p_query)::numeric
+    WHEN p_sort = 'price-low' THEN COALESCE(l.price, 'Infinity'::numeric)
+    WHEN p_sort = 'price-high' THEN COALESCE(-l.price, 'Infinity'::numeric)
+    ELSE -EXTRACT(EPOCH FROM COALESCE(l.created_at, 'epoch'::timestamptz))
+  END;
+$$;
+
+-- ============================================
+-- Paginated listings query (full-text keyword filter)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.get_listings_page(
+  p_query TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_min_bedrooms INTEGER DEFAULT NULL,
+  p_property_type TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_after_id BIGINT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS SETOF public.listings
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.listing_search_query(p_query) AS tsq
+  )
+  SELECT l.*
+  FROM public.listings l, q
+  WHERE
+    (q.tsq IS NULL OR l.search_vector @@ q.tsq)
+    -- Price range (listings without a price are always included)
+    AND (p_min_price IS NULL OR l.price IS NULL OR l.price >= p_min_price)
+    AND (p_max_price IS NULL OR l.price IS NULL OR l.price <= p_max_price)
+    AND (p_city IS NULL OR btrim(p_city) = '' OR l.city ILIKE '%' || btrim(p_city) || '%')
+    AND (p_min_bedrooms IS NULL OR l.bedrooms >= p_min_bedrooms)
+    AND (p_property_type IS NULL OR l.property_type = p_property_type)
+    -- Cursor: rows strictly after the last row of the previous page
+    AND (
+      p_after_id IS NULL
+      OR (public.listing_sort_key(l, p_sort, q.tsq), -l.id) > (
+        SELECT public.listing_sort_key(c, p_sort, q.tsq), -c.id
+        FROM public.listings c
+        WHERE c.id = p_after_id
+      )
+    )
+  ORDER BY public.listing_sort_key(l, p_sort, q.tsq), l.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$;
+
+-- The two-argument sort key is no longer used
+DROP FUNCTION IF EXISTS public.listing_sort_key(public.listings, TEXT);
+
+-- ============================================
+-- Ranked search with highlighted snippets
+-- ============================================
+-- Matches are wrapped in ⟦ ⟧ (not HTML) so the client can render them
+-- without dangerouslySetInnerHTML. Pass p_ids to get highlights for
+-- listings that are already loaded (e.g. the current /listings page).
+CREATE OR REPLACE FUNCTION public.search_listings(
+  p_query TEXT,
+  p_ids BIGINT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id BIGINT,
+  user_id UUID,
+  title TEXT,
+  city TEXT,
+  price NUMERIC,
+  image_urls TEXT[],
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.listing_search_query(p_query) AS tsq
+  )
+  SELECT
+    l.id,
+    l.user_id,
+    l.title,
+    l.city,
+    l.price,
+    l.image_urls,
+    ts_rank_cd(l.search_vector, q.tsq) AS rank,
+    ts_headline('english'::regconfig, l.title, q.tsq,
+      'StartSel=⟦, StopSel=⟧, HighlightAll=true') AS title_highlight,
+    ts_headline('english'::regconfig, COALESCE(l.description, '') || ' ' || COALESCE(l.city, ''), q.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "') AS snippet
+  FROM public.listings l, q
+  WHERE q.tsq IS NOT NULL
+    AND l.search_vector @@ q.tsq
+    AND (p_ids IS NULL OR l.id = ANY(p_ids))
+  ORDER BY rank DESC, l.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_listings_page(TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, TEXT, TEXT, BIGINT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_listings(TEXT, BIGINT[], INTEGER) TO authenticated;
@@ -0,0 +1,403 @@
+-- Listing Offers
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listings.sql, listing_status.sql, listing_currency.sql, messages.sql,
+--           notifications.sql (message notifications)
+-- Safe to re-run (uses IF NOT EXISTS / CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- A buyer makes a formal offer on a listing (amount, currency, conditions,
+-- optional expiry). Each buyer/listing pair is one negotiation thread: a
+-- counter-offer is a new row pointing at the offer it answers
+-- (parent_offer_id), made by the other side.
+--
+-- Statuses:
+--   pending   -> accepted, rejected (the side that did NOT make the offer)
+--   pending   -> countered          (set when the other side counters)
+--   pending   -> withdrawn          (the side that made the offer)
+--   pending   -> expired            (expire_offers(), once expires_at passes)
+--   accepted / rejected / countered / withdrawn / expired -> (none)
+-- Accepting an offer moves an active listing to 'under_offer'.
+--
+-- Every offer event is posted as a system message in the buyer/owner
+-- conversation (offers.conversation_id), which also notifies the other side.
+--
+-- NOTE: Keep statuses and transitions in sync with lib/offers.ts
+
+-- ============================================
+-- Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.offers (
+  id BIGSERIAL PRIMARY KEY,
+  listing_id BIGINT NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+  buyer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- set by trigger
+  made_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,  -- buyer or owner
+  parent_offer_id BIGINT REFERENCES public.offers(id) ON DELETE SET NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL REFERENCES public.currency_rates(currency) ON UPDATE CASCADE,
+  conditions TEXT CHECK (conditions IS NULL OR char_length(conditions) <= 1000),
+  expires_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  responded_at TIMESTAMPTZ,
+  CONSTRAINT offers_status_check
+    CHECK (status IN ('pending', 'accepted', 'rejected', 'countered', 'withdrawn', 'expired'))
+);
+
+-- One open offer per thread (a counter closes its parent first)
+CREATE UNIQUE INDEX IF NOT EXISTS offers_pending_thread_key
+  ON public.offers(listing_id, buyer_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS offers_listing_id_idx ON public.offers(listing_id, created_at);
+CREATE INDEX IF NOT EXISTS offers_buyer_id_idx ON public.offers(buyer_id);
+CREATE INDEX IF NOT EXISTS offers_owner_id_idx ON public.offers(owner_id);
+CREATE INDEX IF NOT EXISTS offers_pending_expires_at_idx
+  ON public.offers(expires_at) WHERE status = 'pending' AND expires_at IS NOT NULL;
+
+ALTER TABLE public.offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Buyer and owner can view offers" ON public.offers;
+DROP POLICY IF EXISTS "Buyer and owner can make offers" ON public.offers;
+DROP POLICY IF EXISTS "Buyer and owner can respond to offers" ON public.offers;
+
+-- SELECT: Only the two sides of the negotiation
+CREATE POLICY "Buyer and owner can view offers"
+  ON public.offers FOR SELECT
+  TO authenticated
+  USING (buyer_id = auth.uid() OR owner_id = auth.uid());
+
+-- INSERT: New offers (buyer) and counter-offers (either side); checked after the trigger fills owner_id
+CREATE POLICY "Buyer and owner can make offers"
+  ON public.offers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    made_by = auth.uid()
+    AND (buyer_id = auth.uid() OR owner_id = auth.uid())
+    AND status = 'pending'
+  );
+
+-- UPDATE: Either side; the trigger decides which status changes are allowed
+CREATE POLICY "Buyer and owner can respond to offers"
+  ON public.offers FOR UPDATE
+  TO authenticated
+  USING (buyer_id = auth.uid() OR owner_id = auth.uid())
+  WITH CHECK (buyer_id = auth.uid() OR owner_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE ON public.offers TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.offers_id_seq TO authenticated;
+
+-- ============================================
+-- System messages
+-- ============================================
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS message_type TEXT NOT NULL DEFAULT 'text',
+  ADD COLUMN IF NOT EXISTS offer_id BIGINT REFERENCES public.offers(id) ON DELETE SET NULL;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_message_type_check CHECK (message_type IN ('text', 'system'));
+
+-- BEFORE INSERT/UPDATE: only post_offer_system_message() may write system messages.
+-- Senders can edit their own messages (rls_recursion_fix.sql), so updates may
+-- not change the type or offer link, nor touch a system message's text.
+CREATE OR REPLACE FUNCTION public.guard_system_messages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.system_message', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.message_type := 'text';
+    NEW.offer_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- offer_id may go NULL: ON DELETE SET NULL when the offer is deleted
+  IF NEW.message_type IS DISTINCT FROM OLD.message_type
+     OR (NEW.offer_id IS DISTINCT FROM OLD.offer_id AND NEW.offer_id IS NOT NULL)
+  THEN
+    RAISE EXCEPTION 'Message type and offer cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.message_type = 'system'
+     AND (NEW.content IS DISTINCT FROM OLD.content OR NEW.attachment_url IS DISTINCT FROM OLD.attachment_url)
+  THEN
+    RAISE EXCEPTION 'System messages cannot be edited'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_system_messages ON public.messages;
+CREATE TRIGGER trigger_guard_system_messages
+  BEFORE INSERT OR UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_system_messages();
+
+CREATE OR REPLACE FUNCTION public.format_offer_amount(p_amount NUMERIC, p_currency TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_currency || ' ' || to_char(p_amount, 'FM999,999,999,999,990.##');
+$$;
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+-- BEFORE INSERT: fill the thread fields and validate new offers / counters
+CREATE OR REPLACE FUNCTION public.handle_offer_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  listing_record RECORD;
+  parent public.offers%ROWTYPE;
+BEGIN
+  IF NEW.parent_offer_id IS NULL THEN
+    -- New thread: made by the buyer on an open listing
+    SELECT user_id, status INTO listing_record
+    FROM public.listings
+    WHERE id = NEW.listing_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Listing not found' USING ERRCODE = 'foreign_key_violation';
+    END IF;
+    IF listing_record.user_id = NEW.buyer_id THEN
+      RAISE EXCEPTION 'You cannot make an offer on your own listing' USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.made_by IS DISTINCT FROM NEW.buyer_id THEN
+      RAISE EXCEPTION 'Only the buyer can open an offer' USING ERRCODE = 'check_violation';
+    END IF;
+    IF listing_record.status NOT IN ('active', 'under_offer') THEN
+      RAISE EXCEPTION 'This listing is not accepting offers' USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.owner_id := listing_record.user_id;
+
+    -- A lapsed offer (expire_offers() hasn't run yet) shouldn't block a new one
+    UPDATE public.offers
+    SET status = 'expired'
+    WHERE listing_id = NEW.listing_id
+      AND buyer_id = NEW.buyer_id
+      AND status = 'pending'
+      AND expires_at <= NOW();
+
+    IF NEW.conversation_id IS NOT NULL AND (
+      SELECT COUNT(*) FROM public.conversation_participants cp
+      WHERE cp.conversation_id = NEW.conversation_id
+        AND cp.user_id IN (NEW.buyer_id, NEW.owner_id)
+    ) < 2 THEN
+      RAISE EXCEPTION 'The conversation must be between the buyer and the owner' USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    -- Counter-offer: answers the other side's pending offer in the same thread
+    SELECT * INTO parent
+    FROM public.offers
+    WHERE id = NEW.parent_offer_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'foreign_key_violation';
+    END IF;
+    IF parent.status <> 'pending' OR (parent.expires_at IS NOT NULL AND parent.expires_at <= NOW()) THEN
+      RAISE EXCEPTION 'Only open offers can be countered' USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.made_by NOT IN (parent.buyer_id, parent.owner_id) OR NEW.made_by = parent.made_by THEN
+      RAISE EXCEPTION 'Only the other side can counter this offer' USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.listing_id := parent.listing_id;
+    NEW.buyer_id := parent.buyer_id;
+    NEW.owner_id := parent.owner_id;
+    NEW.conversation_id := parent.conversation_id;
+
+    -- Close the parent before this row takes the thread's pending slot
+    PERFORM set_config('app.offer_countering', 'on', true);
+    UPDATE public.offers SET status = 'countered' WHERE id = parent.id;
+    PERFORM set_config('app.offer_countering', 'off', true);
+  END IF;
+
+  IF NEW.expires_at IS NOT NULL AND NEW.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'The expiry must be in the future' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.status := 'pending';
+  NEW.responded_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE UPDATE: only the status may change, following the rules above
+CREATE OR REPLACE FUNCTION public.handle_offer_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  is_maker BOOLEAN := COALESCE(auth.uid() = OLD.made_by, false);
+  is_recipient BOOLEAN := COALESCE(auth.uid() IN (OLD.buyer_id, OLD.owner_id) AND auth.uid() <> OLD.made_by, false);
+  is_expired BOOLEAN := OLD.expires_at IS NOT NULL AND OLD.expires_at <= NOW();
+BEGIN
+  IF NEW.listing_id IS DISTINCT FROM OLD.listing_id
+     OR NEW.buyer_id IS DISTINCT FROM OLD.buyer_id
+     OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+     OR NEW.made_by IS DISTINCT FROM OLD.made_by
+     OR NEW.parent_offer_id IS DISTINCT FROM OLD.parent_offer_id
+     OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+     OR NEW.amount IS DISTINCT FROM OLD.amount
+     OR NEW.currency IS DISTINCT FROM OLD.currency
+     OR NEW.conditions IS DISTINCT FROM OLD.conditions
+     OR NEW.expires_at IS DISTINCT FROM OLD.expires_at
+     OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only the status of an offer can change' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'pending' OR NOT (
+    (NEW.status IN ('accepted', 'rejected') AND is_recipient AND NOT is_expired)
+    OR (NEW.status = 'withdrawn' AND is_maker)
+    OR (NEW.status = 'countered' AND current_setting('app.offer_countering', true) = 'on')
+    OR (NEW.status = 'expired' AND is_expired)
+  ) THEN
+    RAISE EXCEPTION 'Cannot change offer from % to %', OLD.status,
+      CASE WHEN is_expired AND NEW.status IN ('accepted', 'rejected') THEN NEW.status || ' (offer expired)' ELSE NEW.status END
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.responded_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER INSERT/UPDATE: post the event to the conversation; accepting puts the listing under offer
+CREATE OR REPLACE FUNCTION public.post_offer_system_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  listing_title TEXT;
+  actor UUID := COALESCE(auth.uid(), NEW.made_by);
+  actor_name TEXT;
+  amount_text TEXT := public.format_offer_amount(NEW.amount, NEW.currency);
+  message_content TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status = 'accepted' THEN
+    UPDATE public.listings SET status = 'under_offer' WHERE id = NEW.listing_id AND status = 'active';
+  END IF;
+
+  -- Countering is announced by the counter-offer itself
+  IF NEW.conversation_id IS NULL OR (TG_OP = 'UPDATE' AND NEW.status = 'countered') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO listing_title FROM public.listings WHERE id = NEW.listing_id;
+  SELECT display_name INTO actor_name FROM public.profiles WHERE id = actor;
+  actor_name := COALESCE(actor_name, 'Someone');
+
+  IF TG_OP = 'INSERT' THEN
+    message_content := '💰 ' || actor_name
+      || CASE WHEN NEW.parent_offer_id IS NULL THEN ' made an offer of ' ELSE ' countered with ' END
+      || amount_text || ' on "' || listing_title || '"'
+      || CASE WHEN NEW.expires_at IS NOT NULL
+           THEN ' (valid until ' || to_char(NEW.expires_at AT TIME ZONE 'UTC', 'Mon DD, YYYY HH24:MI') || ' UTC)'
+           ELSE '' END
+      || CASE WHEN NEW.conditions IS NOT NULL AND NEW.conditions <> ''
+           THEN E'\nConditions: ' || NEW.conditions
+           ELSE '' END;
+  ELSIF NEW.status = 'accepted' THEN
+    message_content := '✅ ' || actor_name || ' accepted the offer of ' || amount_text || ' on "' || listing_title || '"';
+  ELSIF NEW.status = 'rejected' THEN
+    message_content := '❌ ' || actor_name || ' rejected the offer of ' || amount_text || ' on "' || listing_title || '"';
+  ELSIF NEW.status = 'withdrawn' THEN
+    message_content := '↩️ ' || actor_name || ' withdrew the offer of ' || amount_text || ' on "' || listing_title || '"';
+  ELSIF NEW.status = 'expired' THEN
+    message_content := '⌛ The offer of ' || amount_text || ' on "' || listing_title || '" expired';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.system_message', 'on', true);
+  INSERT INTO public.messages (conversation_id, sender_id, content, message_type, offer_id)
+  VALUES (NEW.conversation_id, actor, message_content, 'system', NEW.id);
+  PERFORM set_config('app.system_message', 'off', true);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_handle_offer_insert ON public.offers;
+CREATE TRIGGER trigger_handle_offer_insert
+  BEFORE INSERT ON public.offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_offer_insert();
+
+DROP TRIGGER IF EXISTS trigger_handle_offer_update ON public.offers;
+CREATE TRIGGER trigger_handle_offer_update
+  BEFORE UPDATE ON public.offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_offer_update();
+
+DROP TRIGGER IF EXISTS trigger_post_offer_system_message ON public.offers;
+CREATE TRIGGER trigger_post_offer_system_message
+  AFTER INSERT OR UPDATE OF status ON public.offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_offer_system_message();
+
+-- ============================================
+-- Expiry
+-- ============================================
+-- Expires pending offers past their expires_at
+-- Returns the number of offers expired
+CREATE OR REPLACE FUNCTION public.expire_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.offers
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND expires_at IS NOT NULL
+    AND expires_at <= NOW();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+-- Only the scheduler (or service role) should run this
+REVOKE EXECUTE ON FUNCTION public.expire_offers() FROM PUBLIC, anon, authenticated;
+
+-- Run every 15 minutes with pg_cron when the extension is enabled.
+-- Without it, offers past expires_at can no longer be accepted but keep
+-- showing as pending until `SELECT public.expire_offers();` runs.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-offers', '*/15 * * * *', 'SELECT public.expire_offers()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,138 @@
+-- ============================================
+-- Saved Searches + New Listing Alerts
+-- Safe-to-rerun SQL
+-- Requires: notifications.sql, fix_notifications_entity_id_type.sql,
+--           listing_attributes.sql, listings_search.sql
+-- ============================================
+
+-- Create saved_searches table (one row per named filter set)
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  query text,
+  min_price numeric,
+  max_price numeric,
+  city text,
+  min_bedrooms integer,
+  property_type text,
+  notify boolean DEFAULT true NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON public.saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_notify ON public.saved_searches(notify) WHERE notify = true;
+
+-- Drop existing policies if they exist (safe to rerun)
+DROP POLICY IF EXISTS "Users can view their own saved searches" ON public.saved_searches;
+DROP POLICY IF EXISTS "Users can create their own saved searches" ON public.saved_searches;
+DROP POLICY IF EXISTS "Users can update their own saved searches" ON public.saved_searches;
+DROP POLICY IF EXISTS "Users can delete their own saved searches" ON public.saved_searches;
+
+-- RLS Policies
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+  ON public.saved_searches
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own saved searches"
+  ON public.saved_searches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own saved searches"
+  ON public.saved_searches
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON public.saved_searches
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.saved_searches TO authenticated;
+
+-- ============================================
+-- Extend notifications.type with 'saved_search_match'
+-- ============================================
+-- The inline CHECK in notifications.sql is named notifications_type_check
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('follow', 'new_post', 'message', 'saved_search_match'));
+
+-- ============================================
+-- Matching helper
+-- ============================================
+-- Same semantics as the /listings filters (get_listings_page)
+CREATE OR REPLACE FUNCTION public.listing_matches_saved_search(l public.listings, s public.saved_searches)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (s.query IS NULL OR btrim(s.query) = '' OR l.search_vector @@ public.listing_search_query(s.query))
+    AND (s.min_price IS NULL OR l.price IS NULL OR l.price >= s.min_price)
+    AND (s.max_price IS NULL OR l.price IS NULL OR l.price <= s.max_price)
+    AND (s.city IS NULL OR btrim(s.city) = '' OR l.city ILIKE '%' || btrim(s.city) || '%')
+    AND (s.min_bedrooms IS NULL OR l.bedrooms >= s.min_bedrooms)
+    AND (s.property_type IS NULL OR l.property_type = s.property_type);
+$$;
+
+-- ============================================
+-- Notification Creation Function (SECURITY DEFINER)
+-- ============================================
+
+-- Function to notify users whose saved searches match a new listing
+-- One notification per user, even if several of their searches match
+CREATE OR REPLACE FUNCTION public.create_saved_search_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  match_record RECORD;
+BEGIN
+  FOR match_record IN
+    SELECT DISTINCT ON (s.user_id) s.user_id, s.name
+    FROM public.saved_searches s
+    WHERE s.notify = true
+      AND s.user_id != NEW.user_id
+      AND public.listing_matches_saved_search(NEW, s)
+    ORDER BY s.user_id, s.created_at
+  LOOP
+    INSERT INTO public.notifications (user_id, actor_id, type, entity_id_bigint, title, body)
+    VALUES (
+      match_record.user_id,
+      NEW.user_id,
+      'saved_search_match',
+      NEW.id,  -- listings.id is BIGINT
+      'New listing matches "' || match_record.name || '"',
+      LEFT(NEW.title, 100) || CASE WHEN LENGTH(NEW.title) > 100 THEN '...' ELSE '' END
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+DROP TRIGGER IF EXISTS trigger_create_saved_search_notifications ON public.listings;
+
+-- Trigger: When a listing is published, notify matching saved searches
+CREATE TRIGGER trigger_create_saved_search_notifications
+  AFTER INSERT ON public.listings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_saved_search_notifications();
@@ -0,0 +1,115 @@
+-- Orphaned Storage Cleanup
+-- Run this SQL in your Supabase SQL Editor
+-- Requires: listing_images.sql, post_media.sql, messages.sql
+-- Safe to re-run (uses CREATE OR REPLACE / DROP ... IF EXISTS)
+--
+-- Finds files in listing-images, post-media and chat-media that no row
+-- references any more (deleted listings, posts whose file removal failed,
+-- chat uploads abandoned before sending). The function only reports; the
+-- files are removed through the Storage API (admin page or
+-- scripts/cleanup-storage.mjs) so the storage backend is cleaned up too.
+--
+-- References are matched on the object path inside the bucket:
+--   listings.image_urls        -> listing-images (any of thumb/medium/full
+--                                 in a processed folder counts as used)
+--   posts.image_url            -> post-media
+--   messages.image_url /
+--   messages.attachment_url    -> chat-media (public or signed URLs)
+-- Bare paths without a URL prefix are treated as the object name itself.
+
+-- =====================================================
+-- FIND ORPHANED OBJECTS (admins / service role only)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.find_orphaned_storage_objects(
+  p_min_age INTERVAL DEFAULT INTERVAL '1 day'
+)
+RETURNS TABLE (
+  bucket_id TEXT,
+  name TEXT,
+  size BIGINT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Permission denied. Only admins can scan storage.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH refs AS (
+    SELECT 'listing-images'::TEXT AS bucket, url
+    FROM listings, unnest(listings.image_urls) AS url
+    UNION ALL
+    SELECT 'post-media', posts.image_url
+    FROM posts
+    WHERE posts.image_url IS NOT NULL
+    UNION ALL
+    SELECT 'chat-media', messages.image_url
+    FROM messages
+    WHERE messages.image_url IS NOT NULL
+    UNION ALL
+    SELECT 'chat-media', messages.attachment_url
+    FROM messages
+    WHERE messages.attachment_url IS NOT NULL
+  ),
+  ref_paths AS (
+    -- Strip everything up to "/<bucket>/" and any query string (signed URLs)
+    SELECT DISTINCT
+      refs.bucket,
+      split_part(
+        COALESCE(substring(refs.url FROM '/' || refs.bucket || '/(.*)$'), refs.url),
+        '?', 1
+      ) AS path
+    FROM refs
+    WHERE refs.url <> ''
+  )
+  SELECT
+    o.bucket_id::TEXT,
+    o.name::TEXT,
+    COALESCE((o.metadata->>'size')::BIGINT, 0),
+    o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('listing-images', 'post-media', 'chat-media')
+    AND o.created_at < NOW() - p_min_age
+    AND o.name NOT LIKE '%.emptyFolderPlaceholder'
+    AND NOT EXISTS (
+      SELECT 1 FROM ref_paths r
+      WHERE r.bucket = o.bucket_id
+      AND r.path = CASE
+        -- Processed listing photos are referenced by their full.webp
+        WHEN o.bucket_id = 'listing-images'
+          THEN regexp_replace(o.name, '/(thumb|medium|full)\.webp$', '/full.webp')
+        ELSE o.name
+      END
+    )
+  ORDER BY o.bucket_id, o.created_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_orphaned_storage_objects(INTERVAL) TO authenticated, service_role;
+
+-- =====================================================
+-- STORAGE POLICY: admins can delete from the cleaned buckets
+-- =====================================================
+
+DROP POLICY IF EXISTS "Admins can delete orphaned media" ON storage.objects;
+CREATE POLICY "Admins can delete orphaned media"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id IN ('listing-images', 'post-media', 'chat-media')
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );